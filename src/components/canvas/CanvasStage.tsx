@@ -1,16 +1,29 @@
 'use client';
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useLayoutEffect, useRef, useState, useCallback } from 'react';
 import { getFabricCanvas, resetFabricCanvas } from '@/engine/fabric/FabricCanvas';
 import { useEditorStore, useActivePage } from '@/store/editorStore';
 import { useCanvasStore } from '@/store/canvasStore';
+import { useHistoryStore } from '@/store/historyStore';
+import { useTimelineStore } from '@/store/timelineStore';
+import { getAnimationPlayer } from '@/engine/animation/AnimationPlayer';
 import { CropOverlay } from './CropOverlay';
+import { BleedBackground, PrintGuidesOverlay } from './PrintGuides';
+import { Rulers } from './Rulers';
+import { getPagePrintMargins } from '@/utils/units';
 import { Lock } from 'lucide-react';
 
 interface CanvasStageProps {
     className?: string;
 }
 
+// History labels for Fabric transform actions; the scale and skew handles resize
+const TRANSFORM_LABELS: Record<string, string> = {
+    drag: 'Move',
+    rotate: 'Rotate',
+    resizing: 'Resize text box',
+};
+
 // Lock Icon Overlay Component - Shows lock icon when locked element is clicked
 function LockIconOverlay({ displayScale }: { displayScale: number }) {
     const activePage = useActivePage();
@@ -100,13 +113,25 @@ function LockIconOverlay({ displayScale }: { displayScale: number }) {
 export function CanvasStage({ className }: CanvasStageProps) {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const pageRef = useRef<HTMLDivElement>(null);
     const [isInitialized, setIsInitialized] = useState(false);
     const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+    const [pageOrigin, setPageOrigin] = useState({ x: 0, y: 0 });
 
     const activePage = useActivePage();
     const zoom = useEditorStore((state) => state.zoom);
     const setZoom = useEditorStore((state) => state.setZoom);
     const fitTrigger = useEditorStore((state) => state.fitTrigger);
+    const showGuides = useEditorStore((state) => state.showGuides);
+    const showRulers = useEditorStore((state) => state.showRulers);
+    const toolMode = useEditorStore((state) => state.toolMode);
+    const drawingSettings = useEditorStore((state) => state.drawingSettings);
+    const snapToGuides = useEditorStore((state) => state.snapToGuides);
+    const snapToGrid = useEditorStore((state) => state.snapToGrid);
+    const gridSize = useEditorStore((state) => state.gridSize);
+    const pathEditId = useCanvasStore((state) => state.pathEditId);
+    // Restyling a path mid-edit restarts the editor with the new look
+    const pathEditStyle = activePage?.elements.find(el => el.id === pathEditId)?.style;
     const select = useCanvasStore((state) => state.select);
     const deselect = useCanvasStore((state) => state.deselect);
 
@@ -151,13 +176,16 @@ export function CanvasStage({ className }: CanvasStageProps) {
         return () => resizeObserver.disconnect();
     }, []);
 
+    // Fit the page plus its bleed
+    const bleed = activePage ? getPagePrintMargins(activePage).bleed : 0;
+
     // Auto-fit zoom when page dimensions change or Fit button is clicked
     useEffect(() => {
         if (!activePage || containerSize.width === 0) return;
 
-        const fitZoom = calculateFitZoom(activePage.width, activePage.height);
+        const fitZoom = calculateFitZoom(activePage.width + bleed * 2, activePage.height + bleed * 2);
         setZoom(fitZoom, true); // Pass true to indicate this is a "fit" zoom
-    }, [activePage?.width, activePage?.height, containerSize, fitTrigger, calculateFitZoom, setZoom]);
+    }, [activePage?.width, activePage?.height, bleed, containerSize, fitTrigger, calculateFitZoom, setZoom]);
 
     // Initialize Fabric.js canvas
     useEffect(() => {
@@ -173,9 +201,17 @@ export function CanvasStage({ className }: CanvasStageProps) {
             selection: true,
         });
 
-        // Set up event handlers
+        // Selecting or transforming puts a paused or scrubbed animation back to rest,
+        // so the canvas and the store agree before anything is edited
+        const endAnimationPreview = () => {
+            if (getAnimationPlayer().isPreviewing()) {
+                useTimelineStore.getState().resetPreview();
+            }
+        };
+
         // Set up event handlers
         fabricCanvas.onSelectionChange = (selectedIds) => {
+            endAnimationPreview();
             if (selectedIds.length === 0) {
                 deselect();
             } else {
@@ -184,8 +220,8 @@ export function CanvasStage({ className }: CanvasStageProps) {
         };
 
         const updateStoreFromFabric = (id: string) => {
-            const fabricObject = fabricCanvas.getObjectById(id);
-            if (!fabricObject) return;
+            const fabricTransform = fabricCanvas.getObjectTransform(id);
+            if (!fabricTransform) return;
 
             // Get current active page ID
             const state = useEditorStore.getState();
@@ -207,11 +243,11 @@ export function CanvasStage({ className }: CanvasStageProps) {
                         ...el,
                         transform: {
                             ...el.transform,
-                            x: fabricObject.left ?? el.transform.x,
-                            y: fabricObject.top ?? el.transform.y,
-                            scaleX: fabricObject.scaleX ?? el.transform.scaleX,
-                            scaleY: fabricObject.scaleY ?? el.transform.scaleY,
-                            rotation: fabricObject.angle ?? el.transform.rotation,
+                            x: fabricTransform.x,
+                            y: fabricTransform.y,
+                            scaleX: fabricTransform.scaleX,
+                            scaleY: fabricTransform.scaleY,
+                            rotation: fabricTransform.rotation,
                         }
                     };
                 }
@@ -224,6 +260,59 @@ export function CanvasStage({ className }: CanvasStageProps) {
         fabricCanvas.onObjectModified = updateStoreFromFabric;
         fabricCanvas.onObjectUpdating = updateStoreFromFabric;
 
+        // A whole drag, resize or rotate is one undo step, however many objects it moves;
+        // inside a longer transaction, such as cropping, it is part of that one instead
+        let isTransforming = false;
+        fabricCanvas.onTransformStart = (ids, action) => {
+            endAnimationPreview();
+            const history = useHistoryStore.getState();
+            if (history.transaction) return;
+
+            const verb = TRANSFORM_LABELS[action] ?? 'Resize';
+            history.beginTransaction(ids.length > 1 ? `${verb} ${ids.length} elements` : verb);
+            isTransforming = true;
+        };
+        fabricCanvas.onTransformEnd = () => {
+            if (!isTransforming) return;
+            isTransforming = false;
+            useHistoryStore.getState().commitTransaction();
+        };
+
+        // Double-clicking a path edits its nodes
+        fabricCanvas.onObjectDoubleClick = (id) => {
+            const canvasStore = useCanvasStore.getState();
+            if (canvasStore.getElement(id)?.type === 'path') {
+                canvasStore.startPathEdit(id);
+            }
+        };
+
+        // Text edited in place, with its styled runs and list levels
+        fabricCanvas.onTextEdited = (id, content) => {
+            useCanvasStore.getState().commitTextEdit(id, content);
+        };
+
+        // Text box resized with a side handle: its wrap width, or its shrink-to-fit box
+        fabricCanvas.onTextBoxChanged = (id, box) => {
+            const canvasStore = useCanvasStore.getState();
+            const element = canvasStore.getElement(id);
+            if (element?.type !== 'text') return;
+
+            canvasStore.updateElement(id, {
+                sizing: box.sizing,
+                transform: { ...element.transform, width: box.width, height: box.height },
+            });
+        };
+
+        // Text bound to an element's outline followed it to a new place or shape
+        fabricCanvas.onTextPathChanged = (id, pathData) => {
+            const canvasStore = useCanvasStore.getState();
+            const element = canvasStore.getElement(id);
+            if (element?.type !== 'text' || !element.textPath) return;
+
+            canvasStore.updateElement(id, { textPath: { ...element.textPath, pathData } });
+            updateStoreFromFabric(id);
+        };
+
         setIsInitialized(true);
 
         return () => {
@@ -249,6 +338,96 @@ export function CanvasStage({ className }: CanvasStageProps) {
         fabricCanvas.render();
     }, [activePage?.background, isInitialized]);
 
+    // Snap moved and resized objects to the page, other elements and the grid
+    useEffect(() => {
+        if (!isInitialized) return;
+
+        getFabricCanvas().setSnapSettings({ snapToObjects: snapToGuides, snapToGrid, gridSize });
+    }, [snapToGuides, snapToGrid, gridSize, isInitialized]);
+
+    // Ruler guides are snap targets while they are shown
+    useEffect(() => {
+        if (!isInitialized) return;
+
+        getFabricCanvas().setSnapGuides(showRulers ? activePage?.guides ?? [] : []);
+    }, [activePage?.guides, showRulers, isInitialized]);
+
+    // Capture strokes instead of selecting while the draw tool is active
+    useEffect(() => {
+        if (!isInitialized) return;
+
+        const fabricCanvas = getFabricCanvas();
+        if (toolMode !== 'draw') {
+            fabricCanvas.disableDrawing();
+            return;
+        }
+
+        useCanvasStore.getState().stopPathEdit();
+        fabricCanvas.enableDrawing(drawingSettings, {
+            onStroke: (points) => {
+                const canvasStore = useCanvasStore.getState();
+                if (canvasStore.addFreehandElement(points, useEditorStore.getState().drawingSettings)) {
+                    canvasStore.deselect();
+                }
+            },
+            onErase: (trail) => {
+                const { eraserSize } = useEditorStore.getState().drawingSettings;
+                useCanvasStore.getState().erasePathElements(trail, eraserSize / 2);
+            },
+        });
+    }, [toolMode, drawingSettings, isInitialized]);
+
+    // Place anchors while the pen tool is active
+    useEffect(() => {
+        if (!isInitialized) return;
+
+        const fabricCanvas = getFabricCanvas();
+        if (toolMode !== 'pen') {
+            fabricCanvas.disablePenTool();
+            return;
+        }
+
+        useCanvasStore.getState().stopPathEdit();
+        fabricCanvas.enablePenTool({
+            onPath: (contour) => {
+                const id = useCanvasStore.getState().addVectorPathElement(contour);
+                useEditorStore.getState().setToolMode('select');
+                fabricCanvas.selectObjects([id]);
+            },
+            onCancel: () => useEditorStore.getState().setToolMode('select'),
+        });
+    }, [toolMode, isInitialized]);
+
+    // Show a path's nodes while it is being edited
+    useEffect(() => {
+        if (!isInitialized || !pathEditId) return;
+
+        const canvasStore = useCanvasStore.getState();
+        const element = canvasStore.getElement(pathEditId);
+        if (element?.type !== 'path') {
+            canvasStore.stopPathEdit();
+            return;
+        }
+
+        const fabricCanvas = getFabricCanvas();
+        fabricCanvas.editPath(element, {
+            onChange: (updated) => useCanvasStore.getState().updatePathGeometry(updated.id, updated),
+            onExit: () => useCanvasStore.getState().stopPathEdit(),
+        });
+        // Suspending Fabric's selection also cleared the store's
+        canvasStore.select(pathEditId);
+
+        return () => {
+            fabricCanvas.stopEditingPath();
+            fabricCanvas.selectObjects([pathEditId]);
+        };
+    }, [pathEditId, pathEditStyle, isInitialized]);
+
+    // Node editing ends with the page
+    useEffect(() => {
+        useCanvasStore.getState().stopPathEdit();
+    }, [activePage?.id]);
+
     // Note: Visual zoom is handled by CSS transform on the wrapper div
     // Fabric.js setZoom would cause double-scaling, so we don't use it
     // The canvas operates in logical coordinates (page width/height)
@@ -265,6 +444,15 @@ export function CanvasStage({ className }: CanvasStageProps) {
     const displayWidth = canvasWidth * displayScale;
     const displayHeight = canvasHeight * displayScale;
 
+    // Where the page sits in the stage, for the rulers
+    useLayoutEffect(() => {
+        if (!containerRef.current || !pageRef.current) return;
+
+        const containerRect = containerRef.current.getBoundingClientRect();
+        const pageRect = pageRef.current.getBoundingClientRect();
+        setPageOrigin({ x: pageRect.left - containerRect.left, y: pageRect.top - containerRect.top });
+    }, [displayWidth, displayHeight, containerSize, showRulers]);
+
     return (
         <div
             ref={containerRef}
@@ -278,6 +466,7 @@ export function CanvasStage({ className }: CanvasStageProps) {
                 }}
             >
                 <div
+                    ref={pageRef}
                     className="shadow-2xl flex-shrink-0 relative"
                     style={{
                         width: displayWidth,
@@ -286,7 +475,13 @@ export function CanvasStage({ className }: CanvasStageProps) {
                         maxHeight: '100%',
                     }}
                 >
+                    {/* Background continued into the bleed */}
+                    {activePage && (
+                        <BleedBackground page={activePage} displayScale={displayScale} />
+                    )}
+
                     <div
+                        className="relative"
                         style={{
                             width: canvasWidth,
                             height: canvasHeight,
@@ -297,6 +492,11 @@ export function CanvasStage({ className }: CanvasStageProps) {
                         <canvas ref={canvasRef} />
                     </div>
 
+                    {/* Bleed, trim and safe-area guides */}
+                    {activePage && showGuides && (
+                        <PrintGuidesOverlay page={activePage} displayScale={displayScale} />
+                    )}
+
                     {/* Crop Overlay */}
                     <CropOverlay
                         zoom={zoom}
@@ -307,6 +507,17 @@ export function CanvasStage({ className }: CanvasStageProps) {
                     <LockIconOverlay displayScale={displayScale} />
                 </div>
             </div>
+
+            {/* Rulers and ruler guides */}
+            {activePage && showRulers && (
+                <Rulers
+                    page={activePage}
+                    origin={pageOrigin}
+                    scale={displayScale}
+                    width={containerSize.width}
+                    height={containerSize.height}
+                />
+            )}
         </div>
     );
 }
@@ -0,0 +1,132 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { renderPageBackground } from '@/engine/export/exportUtils';
+import { Page } from '@/types/project';
+import { getPagePrintMargins } from '@/utils/units';
+
+interface PrintGuidesProps {
+    page: Page;
+    displayScale: number;
+}
+
+// Longest side of the rendered bleed background preview, in pixels
+const PREVIEW_SIZE = 1200;
+
+/**
+ * Page background continued into the bleed, drawn behind the canvas
+ */
+export function BleedBackground({ page, displayScale }: PrintGuidesProps) {
+    const { bleed } = getPagePrintMargins(page);
+    const { background, width, height } = page;
+    const [backgroundUrl, setBackgroundUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (bleed <= 0 || background.type === 'solid') {
+            setBackgroundUrl(null);
+            return;
+        }
+
+        let cancelled = false;
+        const scale = Math.min(1, PREVIEW_SIZE / Math.max(width, height));
+        renderPageBackground({ background, width, height }, scale, bleed)
+            .then((url) => {
+                if (!cancelled) setBackgroundUrl(url);
+            })
+            .catch(() => {
+                if (!cancelled) setBackgroundUrl(null);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [background, width, height, bleed]);
+
+    if (bleed <= 0) return null;
+
+    const offset = bleed * displayScale;
+
+    return (
+        <div
+            className="absolute pointer-events-none"
+            style={{
+                left: -offset,
+                top: -offset,
+                width: (page.width + bleed * 2) * displayScale,
+                height: (page.height + bleed * 2) * displayScale,
+                backgroundColor: page.background.type === 'solid' ? page.background.color : '#ffffff',
+                backgroundImage: backgroundUrl ? `url(${backgroundUrl})` : undefined,
+                backgroundSize: '100% 100%',
+            }}
+        />
+    );
+}
+
+/**
+ * Bleed, trim and safe-area lines over the canvas
+ */
+export function PrintGuidesOverlay({ page, displayScale }: PrintGuidesProps) {
+    const { bleed, safeMargin } = getPagePrintMargins(page);
+    if (!page.print) return null;
+
+    const offset = bleed * displayScale;
+    const trimWidth = page.width * displayScale;
+    const trimHeight = page.height * displayScale;
+    const totalWidth = trimWidth + offset * 2;
+    const totalHeight = trimHeight + offset * 2;
+    const safe = safeMargin * displayScale;
+
+    return (
+        <svg
+            className="absolute pointer-events-none"
+            style={{ left: -offset, top: -offset, zIndex: 10 }}
+            width={totalWidth}
+            height={totalHeight}
+        >
+            {/* Fade the bleed so it reads as outside the page */}
+            {offset > 0 && (
+                <path
+                    d={`M0 0H${totalWidth}V${totalHeight}H0Z M${offset} ${offset}V${offset + trimHeight}H${offset + trimWidth}V${offset}Z`}
+                    fill="rgba(255,255,255,0.35)"
+                    fillRule="evenodd"
+                />
+            )}
+
+            {/* Bleed edge */}
+            {offset > 0 && (
+                <rect
+                    x={0.5}
+                    y={0.5}
+                    width={totalWidth - 1}
+                    height={totalHeight - 1}
+                    fill="none"
+                    stroke="#ef4444"
+                    strokeDasharray="4 3"
+                />
+            )}
+
+            {/* Trim edge */}
+            <rect
+                x={offset}
+                y={offset}
+                width={trimWidth}
+                height={trimHeight}
+                fill="none"
+                stroke="rgba(17,24,39,0.5)"
+            />
+
+            {/* Safe area */}
+            {safe > 0 && trimWidth > safe * 2 && trimHeight > safe * 2 && (
+                <rect
+                    x={offset + safe}
+                    y={offset + safe}
+                    width={trimWidth - safe * 2}
+                    height={trimHeight - safe * 2}
+                    fill="none"
+                    stroke="#3b82f6"
+                    strokeDasharray="6 4"
+                />
+            )}
+        </svg>
+    );
+}
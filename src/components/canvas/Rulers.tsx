@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { Page, PageGuide } from '@/types/project';
+import { MEASUREMENT_UNITS, MeasurementUnit, pixelsToUnit, unitToPixels } from '@/utils/units';
+
+interface RulersProps {
+    page: Page;
+    origin: { x: number; y: number }; // Page top-left within the stage, in screen pixels
+    scale: number; // Screen pixels per page pixel
+    width: number; // Stage size
+    height: number;
+}
+
+interface RulerCanvasProps {
+    orientation: PageGuide['orientation'];
+    length: number;
+    origin: number; // Page edge along the ruler
+    pageLength: number;
+    scale: number;
+    unit: MeasurementUnit;
+    dpi: number;
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => void;
+}
+
+interface GuideDrag {
+    id: string | null; // Null while dragging a new guide out of a ruler
+    orientation: PageGuide['orientation'];
+    position: number;
+    overRuler: boolean;
+}
+
+// Screen pixels
+const RULER_SIZE = 20;
+const MIN_MAJOR_SPACING = 60;
+const GUIDE_HIT_SIZE = 5;
+
+const NICE_STEPS = [1, 2, 5, 10];
+const GUIDE_COLOR = '#06b6d4';
+
+/**
+ * Labelled tick step, in ruler units, at least MIN_MAJOR_SPACING screen pixels apart
+ */
+const getMajorStep = (screenPerUnit: number): number => {
+    const target = MIN_MAJOR_SPACING / screenPerUnit;
+    const magnitude = 10 ** Math.floor(Math.log10(target));
+    return (NICE_STEPS.find(step => step * magnitude >= target) ?? 10) * magnitude;
+};
+
+const formatValue = (value: number): string => String(Number(value.toFixed(2)));
+
+/**
+ * One ruler strip, drawn to a canvas
+ */
+function RulerCanvas({ orientation, length, origin, pageLength, scale, unit, dpi, onPointerDown }: RulerCanvasProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const horizontal = orientation === 'horizontal';
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx || length <= 0) return;
+
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = (horizontal ? length : RULER_SIZE) * ratio;
+        canvas.height = (horizontal ? RULER_SIZE : length) * ratio;
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+        // Draw as if horizontal; the vertical ruler is the same strip with x and y swapped
+        if (!horizontal) ctx.transform(0, 1, 1, 0, 0, 0);
+
+        ctx.fillStyle = '#f3f4f6';
+        ctx.fillRect(0, 0, length, RULER_SIZE);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(origin, 0, pageLength * scale, RULER_SIZE);
+
+        const screenPerUnit = unitToPixels(1, unit, dpi) * scale;
+        const major = getMajorStep(screenPerUnit);
+        const subdivisions = major * screenPerUnit >= 100 ? 10 : 5;
+        const minor = major / subdivisions;
+        const first = Math.floor(-origin / screenPerUnit / minor);
+        const last = Math.ceil((length - origin) / screenPerUnit / minor);
+        const labels: Array<{ at: number; text: string }> = [];
+
+        ctx.strokeStyle = '#9ca3af';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let i = first; i <= last; i++) {
+            const at = Math.round(origin + i * minor * screenPerUnit) + 0.5;
+            const isMajor = i % subdivisions === 0;
+            const isHalf = subdivisions === 10 && i % 5 === 0;
+            const tick = isMajor ? RULER_SIZE : isHalf ? RULER_SIZE * 0.5 : RULER_SIZE * 0.25;
+
+            ctx.moveTo(at, RULER_SIZE - tick);
+            ctx.lineTo(at, RULER_SIZE);
+            if (isMajor) labels.push({ at, text: formatValue(i * minor) });
+        }
+        ctx.stroke();
+        ctx.fillStyle = '#d1d5db';
+        ctx.fillRect(0, RULER_SIZE - 1, length, 1);
+
+        // Labels read along the ruler
+        ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+        ctx.fillStyle = '#6b7280';
+        ctx.font = '9px sans-serif';
+        ctx.textBaseline = 'top';
+        labels.forEach(({ at, text }) => {
+            if (horizontal) {
+                ctx.fillText(text, at + 3, 2);
+                return;
+            }
+            ctx.save();
+            ctx.translate(11, at + 3);
+            ctx.rotate(Math.PI / 2);
+            ctx.fillText(text, 0, 0);
+            ctx.restore();
+        });
+    }, [horizontal, length, origin, pageLength, scale, unit, dpi]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            onPointerDown={onPointerDown}
+            className="absolute pointer-events-auto"
+            style={{
+                left: horizontal ? RULER_SIZE : 0,
+                top: horizontal ? 0 : RULER_SIZE,
+                width: horizontal ? length : RULER_SIZE,
+                height: horizontal ? RULER_SIZE : length,
+                cursor: horizontal ? 'row-resize' : 'col-resize',
+            }}
+        />
+    );
+}
+
+/**
+ * Rulers along the top and left of the stage, and the page's guides; drag out of a ruler
+ * to add a guide, and drag a guide back onto one to remove it
+ */
+export function Rulers({ page, origin, scale, width, height }: RulersProps) {
+    const rootRef = useRef<HTMLDivElement>(null);
+    const [drag, setDrag] = useState<GuideDrag | null>(null);
+
+    const unit = useEditorStore((state) => state.rulerUnit);
+    const setRulerUnit = useEditorStore((state) => state.setRulerUnit);
+    const addPageGuide = useEditorStore((state) => state.addPageGuide);
+    const movePageGuide = useEditorStore((state) => state.movePageGuide);
+    const removePageGuide = useEditorStore((state) => state.removePageGuide);
+
+    const getDragState = (e: React.PointerEvent, id: string | null, orientation: PageGuide['orientation']): GuideDrag => {
+        const rect = rootRef.current!.getBoundingClientRect();
+        const x = e.clientX - rect.left;
+        const y = e.clientY - rect.top;
+        const horizontal = orientation === 'horizontal';
+
+        return {
+            id,
+            orientation,
+            position: Math.round(horizontal ? (y - origin.y) / scale : (x - origin.x) / scale),
+            overRuler: horizontal ? y < RULER_SIZE : x < RULER_SIZE,
+        };
+    };
+
+    const startDrag = (e: React.PointerEvent<HTMLElement>, id: string | null, orientation: PageGuide['orientation']) => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDrag(getDragState(e, id, orientation));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!drag) return;
+        setDrag(getDragState(e, drag.id, drag.orientation));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        if (!drag) return;
+        const { id, orientation, position, overRuler } = getDragState(e, drag.id, drag.orientation);
+        setDrag(null);
+
+        if (id && overRuler) removePageGuide(page.id, id);
+        else if (id) movePageGuide(page.id, id, position);
+        else if (!overRuler) addPageGuide(page.id, orientation, position);
+    };
+
+    const cycleUnit = () => {
+        const index = MEASUREMENT_UNITS.indexOf(unit);
+        setRulerUnit(MEASUREMENT_UNITS[(index + 1) % MEASUREMENT_UNITS.length]);
+    };
+
+    const guides = (page.guides ?? []).map(guide => (
+        drag?.id === guide.id ? { ...guide, position: drag.position } : guide
+    ));
+    if (drag && !drag.id && !drag.overRuler) {
+        guides.push({ id: 'new', orientation: drag.orientation, position: drag.position });
+    }
+
+    return (
+        <div
+            ref={rootRef}
+            className="absolute inset-0 pointer-events-none z-20"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+        >
+            {/* Guides */}
+            {guides.map((guide) => {
+                const horizontal = guide.orientation === 'horizontal';
+                const offset = (horizontal ? origin.y : origin.x) + guide.position * scale;
+                const isDragging = drag !== null && (drag.id ?? 'new') === guide.id;
+
+                return (
+                    <div
+                        key={guide.id}
+                        className="absolute pointer-events-auto flex items-center justify-center"
+                        style={{
+                            left: horizontal ? 0 : offset - GUIDE_HIT_SIZE / 2,
+                            top: horizontal ? offset - GUIDE_HIT_SIZE / 2 : 0,
+                            width: horizontal ? '100%' : GUIDE_HIT_SIZE,
+                            height: horizontal ? GUIDE_HIT_SIZE : '100%',
+                            cursor: horizontal ? 'row-resize' : 'col-resize',
+                            opacity: isDragging && drag?.overRuler ? 0.3 : 1,
+                        }}
+                        onPointerDown={(e) => startDrag(e, guide.id, guide.orientation)}
+                        onDoubleClick={() => removePageGuide(page.id, guide.id)}
+                        title="Drag onto a ruler or double-click to remove"
+                    >
+                        <div
+                            style={{
+                                width: horizontal ? '100%' : 1,
+                                height: horizontal ? 1 : '100%',
+                                backgroundColor: GUIDE_COLOR,
+                            }}
+                        />
+                    </div>
+                );
+            })}
+
+            {/* Position while dragging */}
+            {drag && !drag.overRuler && (
+                <div
+                    className="absolute px-1.5 py-0.5 rounded bg-cyan-600 text-white text-[10px] font-medium"
+                    style={drag.orientation === 'horizontal'
+                        ? { left: RULER_SIZE + 4, top: origin.y + drag.position * scale + 4 }
+                        : { left: origin.x + drag.position * scale + 4, top: RULER_SIZE + 4 }}
+                >
+                    {formatValue(pixelsToUnit(drag.position, unit, page.dpi))} {unit}
+                </div>
+            )}
+
+            {/* Rulers */}
+            <RulerCanvas
+                orientation="horizontal"
+                length={width - RULER_SIZE}
+                origin={origin.x - RULER_SIZE}
+                pageLength={page.width}
+                scale={scale}
+                unit={unit}
+                dpi={page.dpi}
+                onPointerDown={(e) => startDrag(e, null, 'horizontal')}
+            />
+            <RulerCanvas
+                orientation="vertical"
+                length={height - RULER_SIZE}
+                origin={origin.y - RULER_SIZE}
+                pageLength={page.height}
+                scale={scale}
+                unit={unit}
+                dpi={page.dpi}
+                onPointerDown={(e) => startDrag(e, null, 'vertical')}
+            />
+            <button
+                onClick={cycleUnit}
+                className="absolute left-0 top-0 pointer-events-auto bg-white border-r border-b border-gray-300 text-[9px] font-medium text-gray-600 hover:text-violet-600"
+                style={{ width: RULER_SIZE, height: RULER_SIZE }}
+                title="Change ruler units"
+            >
+                {unit}
+            </button>
+        </div>
+    );
+}
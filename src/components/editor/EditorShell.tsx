@@ -4,21 +4,27 @@ import { useEffect, useState, useCallback } from 'react';
 import { useEditorStore } from '@/store/editorStore';
 import { useHistoryStore } from '@/store/historyStore';
 import { useCanvasStore } from '@/store/canvasStore';
+import { useTimelineStore } from '@/store/timelineStore';
 import { CanvasStage } from '@/components/canvas/CanvasStage';
 import { SidebarContainer } from '@/components/sidebar/SidebarContainer';
 import { TopToolbar } from '@/components/toolbar/TopToolbar';
 import { ContextToolbar } from '@/components/toolbar/ContextToolbar';
 import { ResizeModal } from './ResizeModal';
+import { TimelinePanel } from './TimelinePanel';
+import { RecoveryPrompt } from './RecoveryPrompt';
+import { startAutosave } from '@/engine/storage';
 import { ColorsPanel } from '@/components/sidebar/ColorsPanel';
 import { ImageEditPanel } from '@/components/sidebar/ImageEditPanel';
 import { FilterPanel } from '@/components/sidebar/FilterPanel';
-import { ChevronRight, ChevronLeft, ChevronUp, ChevronDown, FileText, AlertCircle, MoreHorizontal, Plus, Copy, ClipboardPaste, CopyPlus, Trash2, EyeOff, Lock } from 'lucide-react';
+import { ChevronRight, ChevronLeft, ChevronUp, ChevronDown, FileText, AlertCircle, MoreHorizontal, Plus, Copy, ClipboardPaste, CopyPlus, Trash2, EyeOff, Lock, Clapperboard } from 'lucide-react';
 
 export function EditorShell() {
     const createNewProject = useEditorStore((state) => state.createNewProject);
     const project = useEditorStore((state) => state.project);
     const pushState = useHistoryStore((state) => state.pushState);
     const selectedIds = useCanvasStore((state) => state.selectedIds);
+    const timelineOpen = useTimelineStore((state) => state.isOpen);
+    const toggleTimeline = useTimelineStore((state) => state.toggleTimeline);
 
     // Right panel state from store
     const rightPanel = useEditorStore((state) => state.activeRightPanel);
@@ -37,6 +43,22 @@ export function EditorShell() {
         }
     }, [project, createNewProject]);
 
+    // Save edits to IndexedDB as they settle
+    useEffect(() => startAutosave(), []);
+
+    // Ctrl/Cmd+S saves right away
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+                e.preventDefault();
+                useEditorStore.getState().saveProject();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
     // Push initial state when project is loaded
     useEffect(() => {
         if (project) {
@@ -108,6 +130,9 @@ export function EditorShell() {
 
                     {/* Bottom Bar - Pages Navigator (inside canvas area) */}
                     <div className="relative bg-gradient-to-b from-white to-gray-50 border-t border-gray-200/80">
+                        {/* Animation Timeline */}
+                        {timelineOpen && <TimelinePanel />}
+
                         {/* Expanded Pages View */}
                         {pagesExpanded && (
                             <div className="px-5 py-5 pt-3 overflow-hidden">
@@ -160,8 +185,20 @@ export function EditorShell() {
 
                         {/* Collapsed Bar */}
                         <div className="h-10 flex items-center justify-between px-4">
-                            {/* Left spacer for balance */}
-                            <div className="w-[180px]" />
+                            {/* Left - Timeline Toggle */}
+                            <div className="w-[180px]">
+                                <button
+                                    onClick={toggleTimeline}
+                                    className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium transition-colors ${timelineOpen
+                                        ? 'bg-violet-50 text-violet-700'
+                                        : 'text-gray-500 hover:bg-gray-100 hover:text-gray-700'
+                                        }`}
+                                    title={timelineOpen ? 'Hide timeline' : 'Show timeline'}
+                                >
+                                    <Clapperboard size={15} />
+                                    Timeline
+                                </button>
+                            </div>
 
                             {/* Center - Pages Count */}
                             <div className="flex items-center gap-1.5 text-sm tracking-wide">
@@ -363,6 +400,7 @@ export function EditorShell() {
 
             {/* Modals */}
             <ResizeModal />
+            <RecoveryPrompt />
         </div>
     );
 }
@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { useHistoryStore } from '@/store/historyStore';
+import { getProjectStorage } from '@/engine/storage';
+import { RecoverySession } from '@/types/storage';
+import { History, X } from 'lucide-react';
+
+/**
+ * Offers to restore a design whose last changes were never saved
+ */
+export function RecoveryPrompt() {
+    const [session, setSession] = useState<RecoverySession | null>(null);
+
+    // Look for a leftover snapshot once, when the editor starts
+    useEffect(() => {
+        const storage = getProjectStorage();
+        if (!storage.isSupported()) return;
+
+        storage.getRecoverySession()
+            .then(setSession)
+            .catch((error) => {
+                console.error('Failed to read recovery snapshot:', error);
+            });
+    }, []);
+
+    if (!session) return null;
+
+    const handleRestore = () => {
+        const editor = useEditorStore.getState();
+        editor.loadProject(session.project);
+        // Still unsaved, so autosave picks it up
+        editor.markAsChanged();
+
+        const history = useHistoryStore.getState();
+        history.clear();
+        history.pushState('Recovered design');
+        setSession(null);
+    };
+
+    const handleDiscard = () => {
+        getProjectStorage().clearRecoverySession().catch((error) => {
+            console.error('Failed to discard recovery snapshot:', error);
+        });
+        setSession(null);
+    };
+
+    return (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-[#1a1a1d] text-white rounded-xl shadow-2xl border border-gray-700/50 px-5 py-3">
+            <History size={18} className="text-violet-400 shrink-0" />
+            <div className="text-sm">
+                <div className="font-medium">Unsaved changes found</div>
+                <div className="text-xs text-gray-400">
+                    &ldquo;{session.project.name}&rdquo; from {new Date(session.savedAt).toLocaleString()}
+                </div>
+            </div>
+            <button
+                onClick={handleRestore}
+                className="px-4 py-1.5 bg-violet-600 hover:bg-violet-700 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+                Restore
+            </button>
+            <button
+                onClick={handleDiscard}
+                className="p-1.5 text-gray-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+                title="Discard"
+            >
+                <X size={16} />
+            </button>
+        </div>
+    );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useEditorStore } from '@/store/editorStore';
+import { DEFAULT_PAGE_PRINT_SETTINGS } from '@/types/project';
 import {
     X,
     FileText,
@@ -70,6 +71,8 @@ export function ResizeModal() {
     const [aspectRatio, setAspectRatio] = useState(1920 / 1080);
     const [scaleContent, setScaleContent] = useState(true);
     const [selectedPreset, setSelectedPreset] = useState<string | null>('Desktop Wallpaper');
+    const [bleed, setBleed] = useState(0);
+    const [safeMargin, setSafeMargin] = useState(0);
 
     // Initialize with current page dimensions
     useEffect(() => {
@@ -79,6 +82,8 @@ export function ResizeModal() {
                 setWidth(activePage.width);
                 setHeight(activePage.height);
                 setAspectRatio(activePage.width / activePage.height);
+                setBleed(activePage.print?.bleed ?? 0);
+                setSafeMargin(activePage.print?.safeMargin ?? 0);
             }
         }
     }, [project, isOpen]);
@@ -88,6 +93,12 @@ export function ResizeModal() {
         setHeight(preset.height);
         setSelectedPreset(preset.name);
         setAspectRatio(preset.width / preset.height);
+
+        // Print presets start with standard bleed and safe area
+        if (preset.category === 'Print' && bleed === 0 && safeMargin === 0) {
+            setBleed(DEFAULT_PAGE_PRINT_SETTINGS.bleed);
+            setSafeMargin(DEFAULT_PAGE_PRINT_SETTINGS.safeMargin);
+        }
     };
 
     const handleWidthChange = (newWidth: number) => {
@@ -148,6 +159,7 @@ export function ResizeModal() {
             updatePage(project.activePageId, {
                 width,
                 height,
+                print: bleed > 0 || safeMargin > 0 ? { bleed, safeMargin } : undefined,
                 ...(updatedElements ? { elements: updatedElements } : {})
             });
             closeModal();
@@ -246,6 +258,41 @@ export function ResizeModal() {
                         </div>
                     </div>
 
+                    {/* Print Settings Section */}
+                    <div className="mb-6">
+                        <h3 className="text-sm font-medium text-gray-300 mb-3">Print Settings</h3>
+                        <div className="flex items-center gap-3 bg-[#252528] rounded-xl p-4">
+                            <div className="flex-1">
+                                <label className="text-xs text-gray-500 mb-1 block">Bleed</label>
+                                <div className="relative">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={0.5}
+                                        value={bleed}
+                                        onChange={(e) => setBleed(Math.max(0, parseFloat(e.target.value) || 0))}
+                                        className="w-full bg-[#1a1a1d] border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-all"
+                                    />
+                                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500">mm</span>
+                                </div>
+                            </div>
+                            <div className="flex-1">
+                                <label className="text-xs text-gray-500 mb-1 block">Safe margin</label>
+                                <div className="relative">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={0.5}
+                                        value={safeMargin}
+                                        onChange={(e) => setSafeMargin(Math.max(0, parseFloat(e.target.value) || 0))}
+                                        className="w-full bg-[#1a1a1d] border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500 transition-all"
+                                    />
+                                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500">mm</span>
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
                     {/* Presets Section */}
                     <div>
                         <h3 className="text-sm font-medium text-gray-300 mb-3">Presets</h3>
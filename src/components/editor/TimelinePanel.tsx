@@ -0,0 +1,387 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+import { useActivePage } from '@/store/editorStore';
+import { useCanvasStore, useSelectedIds } from '@/store/canvasStore';
+import { useTimelineStore, MIN_TRACK_DURATION } from '@/store/timelineStore';
+import { getFabricCanvas } from '@/engine/fabric/FabricCanvas';
+import { getConfigSpan, resolvePageTimeline } from '@/engine/animation';
+import { ElementAnimation } from '@/types/animation';
+import { Play, Pause, Square, Magnet, ZoomIn, ZoomOut, X } from 'lucide-react';
+
+type DragMode = 'move' | 'resize-start' | 'resize-end';
+
+interface DragState {
+    elementId: string;
+    mode: DragMode;
+    originX: number;
+    startTime: number;
+    duration: number;
+    changed: boolean;
+}
+
+// Snap distance in screen pixels
+const SNAP_THRESHOLD = 8;
+// Grid step used when nothing else is in range (ms)
+const SNAP_GRID = 100;
+const LABEL_WIDTH = 160;
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Entrance/exit share of a track, for drawing segments inside the bar
+ */
+const getSegmentSpans = (animation: ElementAnimation | undefined) => ({
+    entrance: animation?.entrance ? getConfigSpan({ ...animation.entrance, iterations: Math.max(1, animation.entrance.iterations) }) : 0,
+    exit: animation?.exit ? getConfigSpan({ ...animation.exit, iterations: Math.max(1, animation.exit.iterations) }) : 0,
+});
+
+export function TimelinePanel() {
+    const activePage = useActivePage();
+    const selectedIds = useSelectedIds();
+    const {
+        isPlaying,
+        currentTime,
+        pixelsPerSecond,
+        snapEnabled,
+        previewSource,
+        toggleTimeline,
+        setPixelsPerSecond,
+        toggleSnap,
+        setTrackTiming,
+        setTotalDuration,
+        commitTimeline,
+        loadPage,
+        play,
+        pause,
+        stop,
+        seek,
+        resetPreview,
+    } = useTimelineStore();
+
+    const dragRef = useRef<DragState | null>(null);
+    const scrubbingRef = useRef(false);
+    const areaRef = useRef<HTMLDivElement>(null);
+
+    const timeline = useMemo(
+        () => (activePage ? resolvePageTimeline(activePage) : null),
+        [activePage]
+    );
+
+    // Layers panel order: top-most element first
+    const elements = useMemo(
+        () => [...(activePage?.elements ?? [])].sort((a, b) => b.zIndex - a.zIndex),
+        [activePage?.elements]
+    );
+
+    // Restore the canvas when switching pages
+    useEffect(() => {
+        resetPreview();
+    }, [activePage?.id, resetPreview]);
+
+    if (!activePage || !timeline) return null;
+
+    const msToPx = (ms: number) => (ms / 1000) * pixelsPerSecond;
+    const pxToMs = (px: number) => (px / pixelsPerSecond) * 1000;
+    const timelineWidth = msToPx(timeline.totalDuration);
+
+    /**
+     * Snap a time to the playhead, page edges, other tracks or the grid
+     */
+    const snapTime = (time: number, excludeId: string): number => {
+        if (!snapEnabled) return time;
+
+        const targets = [0, timeline.totalDuration, currentTime];
+        timeline.tracks.forEach((track) => {
+            if (track.elementId === excludeId) return;
+            targets.push(track.startTime, track.startTime + track.duration);
+        });
+
+        const threshold = pxToMs(SNAP_THRESHOLD);
+        let best = time;
+        let bestDistance = threshold;
+        targets.forEach((target) => {
+            const distance = Math.abs(target - time);
+            if (distance < bestDistance) {
+                best = target;
+                bestDistance = distance;
+            }
+        });
+
+        return best !== time ? best : Math.round(time / SNAP_GRID) * SNAP_GRID;
+    };
+
+    const handleBarPointerDown = (e: React.PointerEvent, elementId: string, mode: DragMode) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        const track = timeline.tracks.find(t => t.elementId === elementId);
+        if (!track) return;
+
+        dragRef.current = {
+            elementId,
+            mode,
+            originX: e.clientX,
+            startTime: track.startTime,
+            duration: track.duration,
+            changed: false,
+        };
+
+        const handleMove = (event: PointerEvent) => {
+            const drag = dragRef.current;
+            if (!drag) return;
+
+            const delta = pxToMs(event.clientX - drag.originX);
+            const end = drag.startTime + drag.duration;
+            drag.changed = true;
+
+            if (drag.mode === 'move') {
+                // Snap whichever edge lands closer to a target
+                const snappedStart = snapTime(drag.startTime + delta, drag.elementId);
+                const snappedEnd = snapTime(end + delta, drag.elementId) - drag.duration;
+                const startTime = Math.abs(snappedStart - (drag.startTime + delta)) <= Math.abs(snappedEnd - (drag.startTime + delta))
+                    ? snappedStart
+                    : snappedEnd;
+                setTrackTiming(drag.elementId, { startTime });
+            } else if (drag.mode === 'resize-start') {
+                const startTime = Math.min(
+                    Math.max(0, snapTime(drag.startTime + delta, drag.elementId)),
+                    end - MIN_TRACK_DURATION
+                );
+                setTrackTiming(drag.elementId, { startTime, duration: end - startTime });
+            } else {
+                const newEnd = snapTime(end + delta, drag.elementId);
+                setTrackTiming(drag.elementId, { duration: newEnd - drag.startTime });
+            }
+        };
+
+        const handleUp = () => {
+            const drag = dragRef.current;
+            if (drag?.changed) {
+                commitTimeline(drag.mode === 'move' ? 'Move timeline track' : 'Resize timeline track');
+            }
+            dragRef.current = null;
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+    };
+
+    const seekToPointer = (clientX: number) => {
+        const area = areaRef.current;
+        if (!area) return;
+        const rect = area.getBoundingClientRect();
+        const x = clientX - rect.left + area.scrollLeft - LABEL_WIDTH;
+        seek(Math.min(Math.max(0, pxToMs(x)), timeline.totalDuration));
+    };
+
+    const handleRulerPointerDown = (e: React.PointerEvent) => {
+        e.preventDefault();
+        scrubbingRef.current = true;
+        if (previewSource !== 'page') loadPage();
+        seekToPointer(e.clientX);
+
+        const handleMove = (event: PointerEvent) => {
+            if (scrubbingRef.current) seekToPointer(event.clientX);
+        };
+        const handleUp = () => {
+            scrubbingRef.current = false;
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+        };
+
+        window.addEventListener('pointermove', handleMove);
+        window.addEventListener('pointerup', handleUp);
+    };
+
+    const handleTogglePlay = () => {
+        if (isPlaying) {
+            pause();
+            return;
+        }
+        if (previewSource !== 'page') loadPage();
+        play();
+    };
+
+    const handleSelectElement = (elementId: string) => {
+        useCanvasStore.getState().select(elementId);
+        getFabricCanvas().selectObjects([elementId]);
+    };
+
+    // Ruler ticks every second, labels every second (or every 2s when zoomed out)
+    const tickCount = Math.floor(timeline.totalDuration / 1000);
+    const labelEvery = pixelsPerSecond < 50 ? 2 : 1;
+    const playheadTime = previewSource === 'page' ? currentTime : 0;
+
+    return (
+        <div className="bg-white border-t border-gray-200/80 flex flex-col" style={{ height: 220 }}>
+            {/* Header */}
+            <div className="h-10 flex items-center gap-2 px-3 border-b border-gray-100 shrink-0">
+                <button
+                    onClick={handleTogglePlay}
+                    disabled={elements.length === 0}
+                    className="w-7 h-7 rounded-md bg-violet-600 hover:bg-violet-700 text-white flex items-center justify-center disabled:opacity-50"
+                    title={isPlaying ? 'Pause' : 'Play'}
+                >
+                    {isPlaying ? <Pause size={13} /> : <Play size={13} />}
+                </button>
+                <button
+                    onClick={stop}
+                    className="w-7 h-7 rounded-md hover:bg-gray-100 text-gray-600 flex items-center justify-center"
+                    title="Stop"
+                >
+                    <Square size={12} />
+                </button>
+                <span className="text-xs text-gray-600 tabular-nums w-24">
+                    {formatSeconds(playheadTime)} / {formatSeconds(timeline.totalDuration)}
+                </span>
+
+                <label className="flex items-center gap-1.5 text-xs text-gray-500">
+                    Length
+                    <input
+                        type="number"
+                        min={0.5}
+                        max={60}
+                        step={0.5}
+                        value={timeline.totalDuration / 1000}
+                        onChange={(e) => {
+                            const seconds = Number(e.target.value);
+                            if (seconds > 0) setTotalDuration(seconds * 1000);
+                        }}
+                        onBlur={() => commitTimeline('Change timeline length')}
+                        className="w-16 border border-gray-200 rounded px-1.5 py-0.5 text-gray-700"
+                    />
+                    s
+                </label>
+
+                <div className="ml-auto flex items-center gap-1">
+                    <button
+                        onClick={toggleSnap}
+                        className={`p-1.5 rounded-md transition-colors ${snapEnabled ? 'bg-violet-50 text-violet-600' : 'text-gray-500 hover:bg-gray-100'}`}
+                        title={snapEnabled ? 'Snapping on' : 'Snapping off'}
+                    >
+                        <Magnet size={14} />
+                    </button>
+                    <button
+                        onClick={() => setPixelsPerSecond(pixelsPerSecond / 1.5)}
+                        className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100"
+                        title="Zoom out"
+                    >
+                        <ZoomOut size={14} />
+                    </button>
+                    <button
+                        onClick={() => setPixelsPerSecond(pixelsPerSecond * 1.5)}
+                        className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100"
+                        title="Zoom in"
+                    >
+                        <ZoomIn size={14} />
+                    </button>
+                    <div className="w-px h-4 bg-gray-200 mx-1" />
+                    <button
+                        onClick={toggleTimeline}
+                        className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100"
+                        title="Close timeline"
+                    >
+                        <X size={14} />
+                    </button>
+                </div>
+            </div>
+
+            {/* Tracks */}
+            <div ref={areaRef} className="flex-1 overflow-auto custom-scrollbar relative">
+                <div className="relative" style={{ width: LABEL_WIDTH + timelineWidth + 24 }}>
+                    {/* Ruler */}
+                    <div className="sticky top-0 z-20 flex h-6 bg-gray-50 border-b border-gray-100">
+                        <div className="sticky left-0 z-10 bg-gray-50 shrink-0" style={{ width: LABEL_WIDTH }} />
+                        <div
+                            className="relative cursor-pointer"
+                            style={{ width: timelineWidth }}
+                            onPointerDown={handleRulerPointerDown}
+                        >
+                            {Array.from({ length: tickCount + 1 }, (_, second) => (
+                                <div
+                                    key={second}
+                                    className="absolute top-0 h-full border-l border-gray-300"
+                                    style={{ left: msToPx(second * 1000) }}
+                                >
+                                    {second % labelEvery === 0 && (
+                                        <span className="absolute left-1 top-0.5 text-[10px] text-gray-400 select-none">
+                                            {second}s
+                                        </span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    {elements.length === 0 && (
+                        <div className="px-4 py-6 text-xs text-gray-400">
+                            Add elements to the page to arrange them on the timeline
+                        </div>
+                    )}
+
+                    {elements.map((element) => {
+                        const track = timeline.tracks.find(t => t.elementId === element.id);
+                        if (!track) return null;
+
+                        const animation = activePage.animations?.find(a => a.elementId === element.id);
+                        const spans = getSegmentSpans(animation);
+                        const isSelected = selectedIds.includes(element.id);
+
+                        return (
+                            <div key={element.id} className="flex h-8 border-b border-gray-50">
+                                <button
+                                    onClick={() => handleSelectElement(element.id)}
+                                    className={`sticky left-0 z-10 shrink-0 px-3 text-left text-xs truncate border-r border-gray-100 ${isSelected ? 'bg-violet-50 text-violet-700 font-medium' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                                    style={{ width: LABEL_WIDTH }}
+                                    title={element.name}
+                                >
+                                    {element.name}
+                                </button>
+                                <div className="relative" style={{ width: timelineWidth }}>
+                                    <div
+                                        onPointerDown={(e) => handleBarPointerDown(e, element.id, 'move')}
+                                        className={`absolute top-1 bottom-1 rounded-md overflow-hidden cursor-grab active:cursor-grabbing border ${isSelected ? 'bg-violet-200 border-violet-500' : 'bg-violet-100 border-violet-300'}`}
+                                        style={{ left: msToPx(track.startTime), width: Math.max(4, msToPx(track.duration)) }}
+                                    >
+                                        {/* Entrance / exit segments */}
+                                        {spans.entrance > 0 && (
+                                            <div
+                                                className="absolute inset-y-0 left-0 bg-violet-400/50"
+                                                style={{ width: Math.min(msToPx(spans.entrance), msToPx(track.duration)) }}
+                                            />
+                                        )}
+                                        {spans.exit > 0 && (
+                                            <div
+                                                className="absolute inset-y-0 right-0 bg-violet-400/50"
+                                                style={{ width: Math.min(msToPx(spans.exit), msToPx(track.duration)) }}
+                                            />
+                                        )}
+                                        <div
+                                            onPointerDown={(e) => handleBarPointerDown(e, element.id, 'resize-start')}
+                                            className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize hover:bg-violet-500/60"
+                                        />
+                                        <div
+                                            onPointerDown={(e) => handleBarPointerDown(e, element.id, 'resize-end')}
+                                            className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize hover:bg-violet-500/60"
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {/* Playhead */}
+                    <div
+                        className="absolute top-0 bottom-0 w-px bg-red-500 z-30 pointer-events-none"
+                        style={{ left: LABEL_WIDTH + msToPx(playheadTime) }}
+                    >
+                        <div className="absolute top-0 -left-1 w-2 h-2 rotate-45 bg-red-500" />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,111 +1,363 @@
 'use client';
 
-import { ANIMATION_PRESETS } from '@/types/animation';
+import { useEffect, useState } from 'react';
+import { useCanvasStore, useSelectedIds } from '@/store/canvasStore';
+import { useActivePage } from '@/store/editorStore';
+import { useTimelineStore } from '@/store/timelineStore';
+import {
+    ANIMATION_PRESETS,
+    AnimationConfig,
+    AnimationPreset,
+    AnimationSlot,
+    ElementAnimation,
+    EasingType,
+} from '@/types/animation';
+import { Play, Pause, Square, Trash2, X } from 'lucide-react';
+
+const SLOTS: Array<{ id: AnimationSlot; label: string }> = [
+    { id: 'entrance', label: 'Entrance' },
+    { id: 'emphasis', label: 'Emphasis' },
+    { id: 'exit', label: 'Exit' },
+];
+
+const EASING_OPTIONS: EasingType[] = [
+    'ease-out',
+    'ease-in',
+    'ease-in-out',
+    'ease',
+    'linear',
+    'bounce',
+    'elastic',
+    'back',
+];
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const getPresetName = (slot: AnimationSlot, config: AnimationConfig) => {
+    const preset = ANIMATION_PRESETS.find(p => p.category === slot && p.config.type === config.type);
+    return preset?.name ?? config.type;
+};
 
 export function AnimationsPanel() {
-    const entranceAnimations = ANIMATION_PRESETS.filter(p => p.category === 'entrance');
-    const exitAnimations = ANIMATION_PRESETS.filter(p => p.category === 'exit');
-    const emphasisAnimations = ANIMATION_PRESETS.filter(p => p.category === 'emphasis');
+    const selectedIds = useSelectedIds();
+    const activePage = useActivePage();
+    const setElementAnimation = useCanvasStore((state) => state.setElementAnimation);
+    const updateElementAnimation = useCanvasStore((state) => state.updateElementAnimation);
+    const removeElementAnimations = useCanvasStore((state) => state.removeElementAnimations);
+
+    const [activeSlot, setActiveSlot] = useState<AnimationSlot>('entrance');
+    const [draft, setDraft] = useState<Partial<AnimationConfig> | null>(null);
+
+    // Preview playback is shared with the timeline
+    const previewSource = useTimelineStore((state) => state.previewSource);
+    const isPlaying = useTimelineStore((state) => state.isPlaying) && previewSource === 'selection';
+    const playerTime = useTimelineStore((state) => state.currentTime);
+    const playerDuration = useTimelineStore((state) => state.duration);
+    const currentTime = previewSource === 'selection' ? playerTime : 0;
+    const totalDuration = previewSource === 'selection' ? playerDuration : 0;
+
+    const hasSelection = selectedIds.length > 0;
+    const primaryAnimation = activePage?.animations?.find(a => a.elementId === selectedIds[0]);
+    const savedConfig = primaryAnimation?.[activeSlot] ?? null;
+    const activeConfig = savedConfig ? { ...savedConfig, ...draft } : null;
+    const presets = ANIMATION_PRESETS.filter(p => p.category === activeSlot);
+    const hasAnyAnimation = selectedIds.some(id =>
+        activePage?.animations?.some(a => a.elementId === id)
+    );
+
+    // Restore the canvas when the panel closes
+    useEffect(() => {
+        return () => {
+            if (useTimelineStore.getState().previewSource === 'selection') {
+                useTimelineStore.getState().resetPreview();
+            }
+        };
+    }, []);
+
+    // Restore the canvas when the selection changes
+    useEffect(() => {
+        if (useTimelineStore.getState().previewSource === 'selection') {
+            useTimelineStore.getState().resetPreview();
+        }
+        setDraft(null);
+    }, [selectedIds]);
+
+    /**
+     * Load the selection's saved animations (plus any unsaved edit) into the player
+     */
+    const loadPreview = (override?: Partial<AnimationConfig>): boolean => {
+        const { getElementAnimation } = useCanvasStore.getState();
+        const animations = selectedIds
+            .map(id => getElementAnimation(id))
+            .filter((a): a is ElementAnimation => !!a)
+            .map(animation => {
+                const config = animation[activeSlot];
+                return override && config
+                    ? { ...animation, [activeSlot]: { ...config, ...override } }
+                    : animation;
+            });
+
+        return useTimelineStore.getState().loadPreview(animations);
+    };
+
+    const handlePresetClick = (preset: AnimationPreset) => {
+        if (!hasSelection) return;
+        setElementAnimation(selectedIds, activeSlot, preset.config);
+        setDraft(null);
+        if (loadPreview()) useTimelineStore.getState().play();
+    };
+
+    const handleRemoveSlot = () => {
+        setElementAnimation(selectedIds, activeSlot, null);
+        setDraft(null);
+        useTimelineStore.getState().resetPreview();
+    };
+
+    const handleRemoveAll = () => {
+        removeElementAnimations(selectedIds);
+        setDraft(null);
+        useTimelineStore.getState().resetPreview();
+    };
+
+    // Live preview while a setting is being dragged
+    const handleDraftChange = (updates: Partial<AnimationConfig>) => {
+        const nextDraft = { ...draft, ...updates };
+        setDraft(nextDraft);
+        if (loadPreview(nextDraft)) {
+            useTimelineStore.getState().seek(currentTime);
+        }
+    };
+
+    // Save the dragged setting as a single history step
+    const commitDraft = () => {
+        if (!draft) return;
+        updateElementAnimation(selectedIds, activeSlot, draft);
+        setDraft(null);
+    };
+
+    const handleSettingChange = (updates: Partial<AnimationConfig>) => {
+        updateElementAnimation(selectedIds, activeSlot, updates);
+        setDraft(null);
+    };
+
+    const handleTogglePlay = () => {
+        const timeline = useTimelineStore.getState();
+        if (timeline.isPlaying) {
+            timeline.pause();
+            return;
+        }
+
+        if (previewSource !== 'selection' && !loadPreview()) return;
+        timeline.play();
+    };
+
+    const handleStop = () => {
+        useTimelineStore.getState().stop();
+    };
+
+    const handleScrub = (time: number) => {
+        if (previewSource !== 'selection' && !loadPreview()) return;
+        useTimelineStore.getState().seek(time);
+    };
 
     return (
-        <div className="h-full flex flex-col">
-            <div className="p-4 border-b border-gray-700">
-                <h2 className="text-white font-semibold">Animations</h2>
-                <p className="text-gray-400 text-xs mt-1">
-                    Select an element to apply animations
+        <div className="h-full flex flex-col bg-white">
+            <div className="p-4 border-b border-gray-100">
+                <h2 className="text-gray-800 font-semibold text-lg">Animations</h2>
+                <p className="text-gray-500 text-xs mt-1">
+                    {hasSelection
+                        ? `${selectedIds.length} element${selectedIds.length > 1 ? 's' : ''} selected`
+                        : 'Select an element to apply animations'}
                 </p>
             </div>
 
-            <div className="flex-1 overflow-y-auto p-4">
-                {/* Entrance Animations */}
-                <div className="mb-6">
-                    <h3 className="text-gray-300 text-sm font-medium mb-3">Entrance</h3>
-                    <div className="grid grid-cols-2 gap-2">
-                        {entranceAnimations.map((anim) => (
-                            <button
-                                key={anim.id}
-                                className="py-2 px-3 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300 text-xs transition-colors text-center"
-                            >
-                                {anim.name}
-                            </button>
-                        ))}
+            <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+                {/* Preview Controls */}
+                <div className="mb-6 p-3 bg-gray-50 border border-gray-200 rounded-xl">
+                    <div className="flex items-center gap-2 mb-2">
+                        <button
+                            onClick={handleTogglePlay}
+                            disabled={!hasAnyAnimation}
+                            className="w-8 h-8 rounded-lg bg-violet-600 hover:bg-violet-700 text-white flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={isPlaying ? 'Pause' : 'Play'}
+                        >
+                            {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+                        </button>
+                        <button
+                            onClick={handleStop}
+                            disabled={!hasAnyAnimation}
+                            className="w-8 h-8 rounded-lg bg-white border border-gray-200 hover:border-violet-400 text-gray-600 flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Stop"
+                        >
+                            <Square size={12} />
+                        </button>
+                        <span className="ml-auto text-gray-500 text-xs tabular-nums">
+                            {formatSeconds(currentTime)} / {formatSeconds(totalDuration)}
+                        </span>
                     </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={Math.max(1, totalDuration)}
+                        value={Math.min(currentTime, totalDuration)}
+                        onChange={(e) => handleScrub(Number(e.target.value))}
+                        disabled={!hasAnyAnimation}
+                        className="w-full accent-violet-600"
+                    />
                 </div>
 
-                {/* Exit Animations */}
-                <div className="mb-6">
-                    <h3 className="text-gray-300 text-sm font-medium mb-3">Exit</h3>
-                    <div className="grid grid-cols-2 gap-2">
-                        {exitAnimations.map((anim) => (
-                            <button
-                                key={anim.id}
-                                className="py-2 px-3 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300 text-xs transition-colors text-center"
-                            >
-                                {anim.name}
-                            </button>
-                        ))}
-                    </div>
+                {/* Slot Tabs */}
+                <div className="flex gap-1 p-1 mb-4 bg-gray-100 rounded-lg">
+                    {SLOTS.map((slot) => (
+                        <button
+                            key={slot.id}
+                            onClick={() => {
+                                setActiveSlot(slot.id);
+                                setDraft(null);
+                            }}
+                            className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-colors ${activeSlot === slot.id
+                                ? 'bg-white text-violet-700 shadow-sm'
+                                : 'text-gray-600 hover:text-gray-800'
+                                }`}
+                        >
+                            {slot.label}
+                        </button>
+                    ))}
                 </div>
 
-                {/* Emphasis Animations */}
-                <div className="mb-6">
-                    <h3 className="text-gray-300 text-sm font-medium mb-3">Emphasis</h3>
-                    <div className="grid grid-cols-2 gap-2">
-                        {emphasisAnimations.map((anim) => (
+                {/* Current Animation */}
+                {hasSelection && (
+                    <div className="mb-4 flex items-center justify-between px-3 py-2 border border-gray-200 rounded-lg">
+                        <span className="text-gray-700 text-sm">
+                            {savedConfig ? getPresetName(activeSlot, savedConfig) : 'None'}
+                        </span>
+                        {savedConfig && (
                             <button
-                                key={anim.id}
-                                className="py-2 px-3 bg-gray-700 hover:bg-gray-600 rounded-lg text-gray-300 text-xs transition-colors text-center"
+                                onClick={handleRemoveSlot}
+                                className="p-1 rounded text-gray-400 hover:text-red-500 hover:bg-red-50"
+                                title="Remove animation"
                             >
-                                {anim.name}
+                                <X size={14} />
                             </button>
-                        ))}
+                        )}
                     </div>
+                )}
+
+                {/* Presets */}
+                <div className="mb-6 grid grid-cols-2 gap-2">
+                    {presets.map((anim) => (
+                        <button
+                            key={anim.id}
+                            onClick={() => handlePresetClick(anim)}
+                            disabled={!hasSelection}
+                            className={`py-2 px-3 rounded-lg text-xs transition-colors text-center border ${savedConfig?.type === anim.config.type
+                                ? 'bg-violet-50 border-violet-400 text-violet-700'
+                                : 'bg-gray-50 border-gray-200 text-gray-700 hover:border-violet-400'
+                                } disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                            {anim.name}
+                        </button>
+                    ))}
                 </div>
 
                 {/* Animation Settings */}
-                <div className="mb-6">
-                    <h3 className="text-gray-300 text-sm font-medium mb-3">Settings</h3>
-                    <div className="space-y-3">
-                        <div>
-                            <label className="text-gray-400 text-xs block mb-1">Duration</label>
-                            <input
-                                type="range"
-                                min="100"
-                                max="3000"
-                                defaultValue="500"
-                                className="w-full"
-                            />
-                            <div className="flex justify-between text-gray-500 text-xs">
-                                <span>0.1s</span>
-                                <span>3s</span>
+                {activeConfig && (
+                    <div className="mb-6">
+                        <h3 className="text-gray-700 text-sm font-medium mb-3">Settings</h3>
+                        <div className="space-y-3">
+                            <div>
+                                <label className="text-gray-500 text-xs block mb-1">
+                                    Duration ({formatSeconds(activeConfig.duration)})
+                                </label>
+                                <input
+                                    type="range"
+                                    min="100"
+                                    max="3000"
+                                    step="50"
+                                    value={activeConfig.duration}
+                                    onChange={(e) => handleDraftChange({ duration: Number(e.target.value) })}
+                                    onPointerUp={commitDraft}
+                                    onKeyUp={commitDraft}
+                                    className="w-full accent-violet-600"
+                                />
+                                <div className="flex justify-between text-gray-400 text-xs">
+                                    <span>0.1s</span>
+                                    <span>3s</span>
+                                </div>
                             </div>
-                        </div>
-                        <div>
-                            <label className="text-gray-400 text-xs block mb-1">Delay</label>
-                            <input
-                                type="range"
-                                min="0"
-                                max="2000"
-                                defaultValue="0"
-                                className="w-full"
-                            />
-                            <div className="flex justify-between text-gray-500 text-xs">
-                                <span>0s</span>
-                                <span>2s</span>
+                            <div>
+                                <label className="text-gray-500 text-xs block mb-1">
+                                    Delay ({formatSeconds(activeConfig.delay)})
+                                </label>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="2000"
+                                    step="50"
+                                    value={activeConfig.delay}
+                                    onChange={(e) => handleDraftChange({ delay: Number(e.target.value) })}
+                                    onPointerUp={commitDraft}
+                                    onKeyUp={commitDraft}
+                                    className="w-full accent-violet-600"
+                                />
+                                <div className="flex justify-between text-gray-400 text-xs">
+                                    <span>0s</span>
+                                    <span>2s</span>
+                                </div>
+                            </div>
+                            <div>
+                                <label className="text-gray-500 text-xs block mb-1">Easing</label>
+                                <select
+                                    value={activeConfig.easing}
+                                    onChange={(e) => handleSettingChange({ easing: e.target.value as EasingType })}
+                                    className="w-full bg-white border border-gray-200 rounded px-2 py-1 text-gray-700 text-sm"
+                                >
+                                    {EASING_OPTIONS.map((easing) => (
+                                        <option key={easing} value={easing}>{easing}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-gray-500 text-xs block mb-1">Iterations</label>
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        max="20"
+                                        value={activeConfig.iterations < 0 ? '' : activeConfig.iterations}
+                                        disabled={activeConfig.iterations < 0}
+                                        onChange={(e) => {
+                                            const value = Math.max(1, Math.min(20, Number(e.target.value) || 1));
+                                            handleSettingChange({ iterations: value });
+                                        }}
+                                        className="w-20 bg-white border border-gray-200 rounded px-2 py-1 text-gray-700 text-sm disabled:bg-gray-50"
+                                    />
+                                    {activeSlot === 'emphasis' && (
+                                        <label className="flex items-center gap-1.5 text-gray-600 text-xs">
+                                            <input
+                                                type="checkbox"
+                                                checked={activeConfig.iterations < 0}
+                                                onChange={(e) => handleSettingChange({ iterations: e.target.checked ? -1 : 1 })}
+                                                className="accent-violet-600"
+                                            />
+                                            Loop
+                                        </label>
+                                    )}
+                                </div>
                             </div>
-                        </div>
-                        <div>
-                            <label className="text-gray-400 text-xs block mb-1">Easing</label>
-                            <select className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-gray-300 text-sm">
-                                <option>ease-out</option>
-                                <option>ease-in</option>
-                                <option>ease-in-out</option>
-                                <option>linear</option>
-                                <option>bounce</option>
-                            </select>
                         </div>
                     </div>
-                </div>
+                )}
+
+                {hasAnyAnimation && (
+                    <button
+                        onClick={handleRemoveAll}
+                        className="w-full py-2 flex items-center justify-center gap-2 rounded-lg border border-gray-200 text-gray-600 text-sm hover:border-red-300 hover:text-red-600 transition-colors"
+                    >
+                        <Trash2 size={14} />
+                        Remove all animations
+                    </button>
+                )}
             </div>
         </div>
     );
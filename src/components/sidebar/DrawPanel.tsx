@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useEditorStore } from '@/store/editorStore';
+import { BRUSH_PRESETS, DrawingTool } from '@/types/drawing';
+import { Eraser, Highlighter, PenLine, PenTool } from 'lucide-react';
+
+const DRAWING_TOOLS: Array<{ id: DrawingTool; icon: React.ReactNode; label: string }> = [
+    { id: 'pen', icon: <PenTool size={18} />, label: 'Pen' },
+    { id: 'marker', icon: <PenLine size={18} />, label: 'Marker' },
+    { id: 'highlighter', icon: <Highlighter size={18} />, label: 'Highlighter' },
+    { id: 'eraser', icon: <Eraser size={18} />, label: 'Eraser' },
+];
+
+const DRAWING_COLORS = [
+    '#1a1a1a', '#ffffff', '#ef4444', '#f97316', '#facc15',
+    '#22c55e', '#06b6d4', '#2563eb', '#7c3aed', '#ec4899',
+];
+
+export function DrawPanel() {
+    const settings = useEditorStore((state) => state.drawingSettings);
+    const setDrawingSettings = useEditorStore((state) => state.setDrawingSettings);
+    const setToolMode = useEditorStore((state) => state.setToolMode);
+
+    // Draw while the panel is open
+    useEffect(() => {
+        setToolMode('draw');
+        return () => setToolMode('select');
+    }, [setToolMode]);
+
+    const handleToolChange = (tool: DrawingTool) => {
+        if (tool === 'eraser') {
+            setDrawingSettings({ tool });
+            return;
+        }
+        const preset = BRUSH_PRESETS[tool];
+        setDrawingSettings({
+            tool,
+            color: preset.color,
+            size: preset.size,
+            smoothing: preset.smoothing,
+            opacity: preset.opacity,
+        });
+    };
+
+    const isEraser = settings.tool === 'eraser';
+
+    return (
+        <div className="h-full flex flex-col bg-white">
+            <div className="p-4 border-b border-gray-100">
+                <h2 className="text-gray-800 font-semibold text-lg">Draw</h2>
+                <p className="text-gray-500 text-xs mt-1">
+                    Sketch on the page; pen pressure changes the stroke width
+                </p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-6 custom-scrollbar">
+                {/* Tools */}
+                <div className="grid grid-cols-4 gap-2">
+                    {DRAWING_TOOLS.map((tool) => (
+                        <button
+                            key={tool.id}
+                            onClick={() => handleToolChange(tool.id)}
+                            className={`flex flex-col items-center gap-1 py-2.5 rounded-lg text-[10px] font-medium transition-colors ${settings.tool === tool.id
+                                ? 'bg-violet-100 text-violet-700'
+                                : 'text-gray-600 hover:bg-gray-100'
+                                }`}
+                        >
+                            {tool.icon}
+                            {tool.label}
+                        </button>
+                    ))}
+                </div>
+
+                {isEraser ? (
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <label className="text-xs font-medium text-gray-700">Eraser size</label>
+                            <span className="text-xs text-gray-500">{settings.eraserSize}px</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={4}
+                            max={100}
+                            value={settings.eraserSize}
+                            onChange={(e) => setDrawingSettings({ eraserSize: Number(e.target.value) })}
+                            className="w-full accent-violet-600"
+                        />
+                        <p className="text-gray-500 text-xs mt-2">
+                            Strokes the eraser touches are removed
+                        </p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Color */}
+                        <div>
+                            <label className="block text-xs font-medium text-gray-700 mb-2">Color</label>
+                            <div className="grid grid-cols-6 gap-2">
+                                {DRAWING_COLORS.map((color) => (
+                                    <button
+                                        key={color}
+                                        onClick={() => setDrawingSettings({ color })}
+                                        className={`w-8 h-8 rounded-full border transition-transform hover:scale-110 ${settings.color === color
+                                            ? 'ring-2 ring-violet-500 ring-offset-2 border-transparent'
+                                            : 'border-gray-200'
+                                            }`}
+                                        style={{ backgroundColor: color }}
+                                        title={color}
+                                    />
+                                ))}
+                                <input
+                                    type="color"
+                                    value={settings.color}
+                                    onChange={(e) => setDrawingSettings({ color: e.target.value })}
+                                    className="w-8 h-8 rounded-full cursor-pointer border border-gray-200 bg-transparent"
+                                    title="Custom color"
+                                />
+                            </div>
+                        </div>
+
+                        {/* Size */}
+                        <div>
+                            <div className="flex items-center justify-between mb-2">
+                                <label className="text-xs font-medium text-gray-700">Size</label>
+                                <span className="text-xs text-gray-500">{settings.size}px</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={1}
+                                max={64}
+                                value={settings.size}
+                                onChange={(e) => setDrawingSettings({ size: Number(e.target.value) })}
+                                className="w-full accent-violet-600"
+                            />
+                        </div>
+
+                        {/* Smoothing */}
+                        <div>
+                            <div className="flex items-center justify-between mb-2">
+                                <label className="text-xs font-medium text-gray-700">Smoothing</label>
+                                <span className="text-xs text-gray-500">{Math.round(settings.smoothing * 100)}%</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={0}
+                                max={90}
+                                value={Math.round(settings.smoothing * 100)}
+                                onChange={(e) => setDrawingSettings({ smoothing: Number(e.target.value) / 100 })}
+                                className="w-full accent-violet-600"
+                            />
+                        </div>
+
+                        {/* Opacity */}
+                        <div>
+                            <div className="flex items-center justify-between mb-2">
+                                <label className="text-xs font-medium text-gray-700">Opacity</label>
+                                <span className="text-xs text-gray-500">{Math.round(settings.opacity * 100)}%</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={5}
+                                max={100}
+                                value={Math.round(settings.opacity * 100)}
+                                onChange={(e) => setDrawingSettings({ opacity: Number(e.target.value) / 100 })}
+                                className="w-full accent-violet-600"
+                            />
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
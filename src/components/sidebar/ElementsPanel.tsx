@@ -1,7 +1,8 @@
 'use client';
 
 import { useCanvasStore } from '@/store/canvasStore';
-import { Square, Circle, Triangle, Star, Minus, ArrowRight, Search, Hexagon, Pentagon, Octagon } from 'lucide-react';
+import { useEditorStore } from '@/store/editorStore';
+import { Square, Circle, Triangle, Star, Minus, ArrowRight, Search, Hexagon, Pentagon, Octagon, PenTool } from 'lucide-react';
 
 const SHAPES = [
     { id: 'rectangle', icon: <Square size={20} />, label: 'Rectangle' },
@@ -23,6 +24,8 @@ const GRAPHICS = [
 
 export function ElementsPanel() {
     const addShapeElement = useCanvasStore((state) => state.addShapeElement);
+    const toolMode = useEditorStore((state) => state.toolMode);
+    const setToolMode = useEditorStore((state) => state.setToolMode);
 
     const handleAddShape = (shapeType: string) => {
         addShapeElement(shapeType, {
@@ -73,6 +76,18 @@ export function ElementsPanel() {
                                 <span className="text-[10px] font-medium">{shape.label}</span>
                             </button>
                         ))}
+                        {/* Pen - draw a custom shape anchor by anchor */}
+                        <button
+                            onClick={() => setToolMode(toolMode === 'pen' ? 'select' : 'pen')}
+                            className={`aspect-square border rounded-lg cursor-pointer transition-all duration-200 flex flex-col items-center justify-center gap-1.5 ${toolMode === 'pen'
+                                ? 'bg-violet-50 border-violet-400 text-violet-600'
+                                : 'bg-gray-50 border-gray-200 text-gray-500 hover:border-violet-400 hover:bg-violet-50 hover:text-violet-600'
+                                }`}
+                            title="Click to add corners, drag for curves. Click the first point to close, Enter to finish."
+                        >
+                            <PenTool size={20} />
+                            <span className="text-[10px] font-medium">Pen</span>
+                        </button>
                     </div>
                 </div>
 
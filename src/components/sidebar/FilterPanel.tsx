@@ -3,40 +3,47 @@
 import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import { useCanvasStore } from '@/store/canvasStore';
 import { useEditorStore } from '@/store/editorStore';
-import { ImageElement, ImageFilter, createDefaultImageFilter } from '@/types/canvas';
+import { getSliderHistoryProps, useHistoryStore } from '@/store/historyStore';
+import { FilterStep, ImageElement, ImageFilter, createDefaultImageFilter } from '@/types/canvas';
 import {
-    FILTER_PRESETS,
     FILTER_CATEGORIES,
     ADJUSTMENT_SLIDERS,
+    getFilterPreset,
     getPresetsByCategory,
-    createResetFilters
 } from '@/utils/imageFilters';
-import { COLOUR_POP_FILTERS, applyColourPopFilter, getColourPopFilter } from '@/utils/colourPopFilters';
-import { MONO_FILTERS, applyMonoFilter, getMonoFilter } from '@/utils/monoFilters';
-import { VINTAGE_FILTERS, applyVintageFilter, getVintageFilter } from '@/utils/vintageFilters';
-import { SOFT_FILTERS, applySoftFilter, getSoftFilter } from '@/utils/softFilters';
-import { NATURAL_FILTERS, applyNaturalFilter, getNaturalFilter } from '@/utils/naturalFilters';
-import { WARM_FILTERS, applyWarmFilter, getWarmFilter } from '@/utils/warmFilters';
-import { COOL_FILTERS, applyCoolFilter, getCoolFilter } from '@/utils/coolFilters';
-import { VIVID_FILTERS, applyVividFilter, getVividFilter } from '@/utils/vividFilters';
-import { applyImageAdjustments, hasActiveAdjustments } from '@/utils/imageAdjustments';
-import { X, RotateCcw } from 'lucide-react';
+import { hasActiveAdjustments } from '@/utils/imageAdjustments';
+import { X, RotateCcw, ChevronUp, ChevronDown } from 'lucide-react';
 import { getFabricCanvas } from '@/engine/fabric/FabricCanvas';
+import { createFilterStep, getFilterSource, hasFilterStack } from '@/engine/filters/filterStack';
+import { ImageOperation } from '@/engine/imaging/imageOperations';
+import { bitmapToCanvas, getImageProcessor, loadImageBitmap } from '@/engine/imaging/ImageProcessor';
 import { fabric } from 'fabric';
 
+type SourceBitmapRef = React.MutableRefObject<{ src: string; bitmap: Promise<ImageBitmap> } | null>;
+
+/**
+ * Close the cached source bitmap, once it has loaded, and forget it
+ */
+const releaseSourceBitmap = (sourceBitmapRef: SourceBitmapRef) => {
+    sourceBitmapRef.current?.bitmap.then(bitmap => bitmap.close(), () => undefined);
+    sourceBitmapRef.current = null;
+};
+
 export function FilterPanel() {
     const selectedIds = useCanvasStore((state) => state.selectedIds);
     const getElement = useCanvasStore((state) => state.getElement);
     const updateElement = useCanvasStore((state) => state.updateElement);
     const closeRightPanel = useEditorStore((state) => state.closeRightPanel);
+    const pushState = useHistoryStore((state) => state.pushState);
 
     const [activeCategory, setActiveCategory] = useState<string>('natural');
     const [isProcessing, setIsProcessing] = useState(false);
     const [filterPreviews, setFilterPreviews] = useState<Record<string, string>>({});
 
-    // Debounce timer for smooth slider adjustments
-    const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
-    const isSliderDraggingRef = useRef(false);
+    // Unfiltered source of the selected image, kept decoded for repeated processing
+    const sourceBitmapRef: SourceBitmapRef = useRef(null);
+
+    useEffect(() => () => releaseSourceBitmap(sourceBitmapRef), []);
 
     // Get selected image element
     const imageElement = useMemo(() => {
@@ -52,6 +59,9 @@ export function FilterPanel() {
         return imageElement.filters || createDefaultImageFilter();
     }, [imageElement]);
 
+    // Preset steps applied to the image, bottom first
+    const filterStack = useMemo(() => imageElement?.filterStack ?? [], [imageElement]);
+
     // Get presets for active category
     const categoryPresets = useMemo(() => {
         return getPresetsByCategory(activeCategory);
@@ -163,608 +173,156 @@ export function FilterPanel() {
     }, [generateFilterPreviews]);
 
 
-    // Apply filter changes
-    const applyFilters = (newFilters: Partial<ImageFilter>) => {
-        if (!imageElement) return;
-
-        const updatedFilters = {
-            ...currentFilters,
-            ...newFilters,
-        };
-
-        updateElement(imageElement.id, {
-            filters: updatedFilters,
-        });
-
-        // Apply to Fabric.js canvas
-        applyFiltersToCanvas(imageElement.id, updatedFilters);
-    };
-
-    // Apply filter preset
-    const applyPreset = async (presetId: string) => {
-        const preset = FILTER_PRESETS.find(p => p.id === presetId);
-        if (!preset || !imageElement) return;
-
-        // Check if this is a Colour Pop filter (needs advanced processing)
-        if (preset.category === 'colorpop') {
-            const colourPopFilter = getColourPopFilter(presetId);
-            if (colourPopFilter) {
-                setIsProcessing(true);
-
-                // Get the fabric object for position info
-                const fabricCanvas = getFabricCanvas();
-                const fabricObj = fabricCanvas.getObjectById(imageElement.id) as fabric.Image | undefined;
-
-                if (fabricObj) {
-                    try {
-                        // IMPORTANT: Load the ORIGINAL image, not the current canvas state
-                        // This ensures non-destructive editing
-                        const originalSrc = imageElement.originalSrc || imageElement.src;
-
-                        // Create a fresh image element from original source
-                        const originalImg = new Image();
-                        originalImg.crossOrigin = 'anonymous';
-
-                        originalImg.onload = async () => {
-                            try {
-                                // Apply Colour Pop filter to ORIGINAL image
-                                const newSrc = await applyColourPopFilter(originalImg, colourPopFilter);
-
-                                // Update element with processed image
-                                updateElement(imageElement.id, {
-                                    src: newSrc,
-                                    filters: {
-                                        ...createResetFilters(),
-                                        ...preset.values,
-                                        filterPreset: presetId,
-                                    },
-                                });
-
-                                // Update Fabric.js canvas with new image
-                                const canvas = fabricCanvas.getCanvas();
-                                if (canvas) {
-                                    fabric.Image.fromURL(newSrc, (img) => {
-                                        img.set({
-                                            left: fabricObj.left,
-                                            top: fabricObj.top,
-                                            scaleX: fabricObj.scaleX,
-                                            scaleY: fabricObj.scaleY,
-                                            angle: fabricObj.angle,
-                                            originX: fabricObj.originX,
-                                            originY: fabricObj.originY,
-                                            opacity: fabricObj.opacity,
-                                            data: { id: imageElement.id, type: 'image' },
-                                        });
-
-                                        canvas.remove(fabricObj);
-                                        canvas.add(img);
-                                        fabricCanvas.setObjectById(imageElement.id, img);
-                                        canvas.setActiveObject(img);
-                                        canvas.renderAll();
-
-                                        setIsProcessing(false);
-                                    }, { crossOrigin: 'anonymous' });
-                                } else {
-                                    setIsProcessing(false);
-                                }
-                            } catch (error) {
-                                console.error('Colour Pop filter failed:', error);
-                                setIsProcessing(false);
-                            }
-                        };
-
-                        originalImg.onerror = () => {
-                            console.error('Failed to load original image');
-                            setIsProcessing(false);
-                        };
-
-                        originalImg.src = originalSrc;
-                        return; // Exit here, async handlers take care of the rest
-
-                    } catch (error) {
-                        console.error('Colour Pop filter failed:', error);
-                        setIsProcessing(false);
-                    }
-                }
-                setIsProcessing(false);
-                return;
-            }
+    const getSourceBitmap = (element: ImageElement): Promise<ImageBitmap> => {
+        const src = hasFilterStack(element) ? getFilterSource(element) : element.src;
+        if (sourceBitmapRef.current?.src !== src) {
+            releaseSourceBitmap(sourceBitmapRef);
+            sourceBitmapRef.current = { src, bitmap: loadImageBitmap(src, element.crossOrigin) };
         }
+        return sourceBitmapRef.current.bitmap;
+    };
 
-        // Check if this is a MONO filter (needs advanced grayscale processing)
-        if (preset.category === 'mono') {
-            const monoFilter = getMonoFilter(presetId);
-            if (monoFilter) {
-                setIsProcessing(true);
-
-                const fabricCanvas = getFabricCanvas();
-                const fabricObj = fabricCanvas.getObjectById(imageElement.id) as fabric.Image | undefined;
-
-                if (fabricObj) {
-                    try {
-                        const originalSrc = imageElement.originalSrc || imageElement.src;
-
-                        const originalImg = new Image();
-                        originalImg.crossOrigin = 'anonymous';
-
-                        originalImg.onload = async () => {
-                            try {
-                                const newSrc = await applyMonoFilter(originalImg, monoFilter);
-
-                                updateElement(imageElement.id, {
-                                    src: newSrc,
-                                    filters: {
-                                        ...createResetFilters(),
-                                        ...preset.values,
-                                        filterPreset: presetId,
-                                    },
-                                });
-
-                                const canvas = fabricCanvas.getCanvas();
-                                if (canvas) {
-                                    fabric.Image.fromURL(newSrc, (img) => {
-                                        img.set({
-                                            left: fabricObj.left,
-                                            top: fabricObj.top,
-                                            scaleX: fabricObj.scaleX,
-                                            scaleY: fabricObj.scaleY,
-                                            angle: fabricObj.angle,
-                                            originX: fabricObj.originX,
-                                            originY: fabricObj.originY,
-                                            opacity: fabricObj.opacity,
-                                            data: { id: imageElement.id, type: 'image' },
-                                        });
-
-                                        canvas.remove(fabricObj);
-                                        canvas.add(img);
-                                        fabricCanvas.setObjectById(imageElement.id, img);
-                                        canvas.setActiveObject(img);
-                                        canvas.renderAll();
-
-                                        setIsProcessing(false);
-                                    }, { crossOrigin: 'anonymous' });
-                                } else {
-                                    setIsProcessing(false);
-                                }
-                            } catch (error) {
-                                console.error('MONO filter failed:', error);
-                                setIsProcessing(false);
-                            }
-                        };
-
-                        originalImg.onerror = () => {
-                            console.error('Failed to load original image');
-                            setIsProcessing(false);
-                        };
-
-                        originalImg.src = originalSrc;
-                        return;
+    // Show the image on the canvas as the store has it: preset stack first, then adjustments.
+    // Previews are processed at reduced resolution for live feedback while a slider moves.
+    const showOnCanvas = async (element: ImageElement, preview = false) => {
+        const fabricCanvas = getFabricCanvas();
+        const canvas = fabricCanvas.getCanvas();
+        if (!canvas || !fabricCanvas.getObjectById(element.id)) return;
 
-                    } catch (error) {
-                        console.error('MONO filter failed:', error);
-                        setIsProcessing(false);
-                    }
-                }
-                setIsProcessing(false);
-                return;
-            }
+        const operations: ImageOperation[] = [];
+        if (hasFilterStack(element)) {
+            operations.push({ type: 'filterStack', stack: element.filterStack! });
         }
-
-        // Check if this is a VINTAGE filter (needs warm color grading)
-        if (preset.category === 'vintage') {
-            const vintageFilter = getVintageFilter(presetId);
-            if (vintageFilter) {
-                setIsProcessing(true);
-
-                const fabricCanvas = getFabricCanvas();
-                const fabricObj = fabricCanvas.getObjectById(imageElement.id) as fabric.Image | undefined;
-
-                if (fabricObj) {
-                    try {
-                        const originalSrc = imageElement.originalSrc || imageElement.src;
-
-                        const originalImg = new Image();
-                        originalImg.crossOrigin = 'anonymous';
-
-                        originalImg.onload = async () => {
-                            try {
-                                const newSrc = await applyVintageFilter(originalImg, vintageFilter);
-
-                                updateElement(imageElement.id, {
-                                    src: newSrc,
-                                    filters: {
-                                        ...createResetFilters(),
-                                        ...preset.values,
-                                        filterPreset: presetId,
-                                    },
-                                });
-
-                                const canvas = fabricCanvas.getCanvas();
-                                if (canvas) {
-                                    fabric.Image.fromURL(newSrc, (img) => {
-                                        img.set({
-                                            left: fabricObj.left,
-                                            top: fabricObj.top,
-                                            scaleX: fabricObj.scaleX,
-                                            scaleY: fabricObj.scaleY,
-                                            angle: fabricObj.angle,
-                                            originX: fabricObj.originX,
-                                            originY: fabricObj.originY,
-                                            opacity: fabricObj.opacity,
-                                            data: { id: imageElement.id, type: 'image' },
-                                        });
-
-                                        canvas.remove(fabricObj);
-                                        canvas.add(img);
-                                        fabricCanvas.setObjectById(imageElement.id, img);
-                                        canvas.setActiveObject(img);
-                                        canvas.renderAll();
-
-                                        setIsProcessing(false);
-                                    }, { crossOrigin: 'anonymous' });
-                                } else {
-                                    setIsProcessing(false);
-                                }
-                            } catch (error) {
-                                console.error('VINTAGE filter failed:', error);
-                                setIsProcessing(false);
-                            }
-                        };
-
-                        originalImg.onerror = () => {
-                            console.error('Failed to load original image');
-                            setIsProcessing(false);
-                        };
-
-                        originalImg.src = originalSrc;
-                        return;
-
-                    } catch (error) {
-                        console.error('VINTAGE filter failed:', error);
-                        setIsProcessing(false);
-                    }
-                }
-                setIsProcessing(false);
-                return;
-            }
+        if (hasActiveAdjustments(element.filters)) {
+            operations.push({ type: 'adjustments', adjustments: element.filters });
         }
 
-        // Check if this is a SOFT filter (needs gentle color grading)
-        if (preset.category === 'soft') {
-            const softFilter = getSoftFilter(presetId);
-            if (softFilter) {
-                setIsProcessing(true);
-
-                const fabricCanvas = getFabricCanvas();
-                const fabricObj = fabricCanvas.getObjectById(imageElement.id) as fabric.Image | undefined;
-
-                if (fabricObj) {
-                    try {
-                        const originalSrc = imageElement.originalSrc || imageElement.src;
-
-                        const originalImg = new Image();
-                        originalImg.crossOrigin = 'anonymous';
-
-                        originalImg.onload = async () => {
-                            try {
-                                const newSrc = await applySoftFilter(originalImg, softFilter);
+        if (!preview) setIsProcessing(true);
+        const sourceBitmap = getSourceBitmap(element);
 
-                                updateElement(imageElement.id, {
-                                    src: newSrc,
-                                    filters: {
-                                        ...createResetFilters(),
-                                        ...preset.values,
-                                        filterPreset: presetId,
-                                    },
-                                });
+        try {
+            const source = await sourceBitmap;
+            const processor = getImageProcessor();
+            const options = { channel: `filters:${element.id}` };
+            const bitmap = preview
+                ? await processor.preview(source, operations, options)
+                : await processor.render(source, operations, options);
 
-                                const canvas = fabricCanvas.getCanvas();
-                                if (canvas) {
-                                    fabric.Image.fromURL(newSrc, (img) => {
-                                        img.set({
-                                            left: fabricObj.left,
-                                            top: fabricObj.top,
-                                            scaleX: fabricObj.scaleX,
-                                            scaleY: fabricObj.scaleY,
-                                            angle: fabricObj.angle,
-                                            originX: fabricObj.originX,
-                                            originY: fabricObj.originY,
-                                            opacity: fabricObj.opacity,
-                                            data: { id: imageElement.id, type: 'image' },
-                                        });
+            // A newer change replaced this one
+            if (!bitmap) return;
 
-                                        canvas.remove(fabricObj);
-                                        canvas.add(img);
-                                        fabricCanvas.setObjectById(imageElement.id, img);
-                                        canvas.setActiveObject(img);
-                                        canvas.renderAll();
-
-                                        setIsProcessing(false);
-                                    }, { crossOrigin: 'anonymous' });
-                                } else {
-                                    setIsProcessing(false);
-                                }
-                            } catch (error) {
-                                console.error('SOFT filter failed:', error);
-                                setIsProcessing(false);
-                            }
-                        };
-
-                        originalImg.onerror = () => {
-                            console.error('Failed to load original image');
-                            setIsProcessing(false);
-                        };
-
-                        originalImg.src = originalSrc;
-                        return;
-
-                    } catch (error) {
-                        console.error('SOFT filter failed:', error);
-                        setIsProcessing(false);
-                    }
-                }
-                setIsProcessing(false);
+            // Replace whatever is showing now, in case an earlier render finished first
+            const fabricObj = fabricCanvas.getObjectById(element.id) as fabric.Image | undefined;
+            if (!fabricObj) {
+                bitmap.close();
                 return;
             }
-        }
-
-        // Helper function for applying pixel-based filters
-        const applyPixelFilter = async (
-            filterFn: (img: HTMLImageElement, filter: any) => Promise<string>,
-            getFilterFn: (id: string) => any
-        ) => {
-            const filter = getFilterFn(presetId);
-            if (!filter) return false;
-
-            setIsProcessing(true);
-
-            const fabricCanvas = getFabricCanvas();
-            const fabricObj = fabricCanvas.getObjectById(imageElement.id) as fabric.Image | undefined;
-
-            if (fabricObj) {
-                try {
-                    const originalSrc = imageElement.originalSrc || imageElement.src;
-
-                    const originalImg = new Image();
-                    originalImg.crossOrigin = 'anonymous';
-
-                    originalImg.onload = async () => {
-                        try {
-                            const newSrc = await filterFn(originalImg, filter);
 
-                            updateElement(imageElement.id, {
-                                src: newSrc,
-                                filters: {
-                                    ...createResetFilters(),
-                                    ...preset.values,
-                                    filterPreset: presetId,
-                                },
-                            });
-
-                            const canvas = fabricCanvas.getCanvas();
-                            if (canvas) {
-                                fabric.Image.fromURL(newSrc, (img) => {
-                                    img.set({
-                                        left: fabricObj.left,
-                                        top: fabricObj.top,
-                                        scaleX: fabricObj.scaleX,
-                                        scaleY: fabricObj.scaleY,
-                                        angle: fabricObj.angle,
-                                        originX: fabricObj.originX,
-                                        originY: fabricObj.originY,
-                                        opacity: fabricObj.opacity,
-                                        data: { id: imageElement.id, type: 'image' },
-                                    });
-
-                                    canvas.remove(fabricObj);
-                                    canvas.add(img);
-                                    fabricCanvas.setObjectById(imageElement.id, img);
-                                    canvas.setActiveObject(img);
-                                    canvas.renderAll();
-
-                                    setIsProcessing(false);
-                                }, { crossOrigin: 'anonymous' });
-                            } else {
-                                setIsProcessing(false);
-                            }
-                        } catch (error) {
-                            console.error('Filter failed:', error);
-                            setIsProcessing(false);
-                        }
-                    };
-
-                    originalImg.onerror = () => {
-                        console.error('Failed to load original image');
-                        setIsProcessing(false);
-                    };
-
-                    originalImg.src = originalSrc;
-                    return true;
-
-                } catch (error) {
-                    console.error('Filter failed:', error);
-                    setIsProcessing(false);
-                }
+            const rendered = bitmapToCanvas(bitmap, source.width, source.height);
+            const img = new fabric.Image(rendered as unknown as HTMLImageElement, {
+                left: fabricObj.left,
+                top: fabricObj.top,
+                scaleX: fabricObj.scaleX,
+                scaleY: fabricObj.scaleY,
+                angle: fabricObj.angle,
+                originX: fabricObj.originX,
+                originY: fabricObj.originY,
+                opacity: fabricObj.opacity,
+                data: { id: element.id, type: 'image' },
+            });
+
+            const index = canvas.getObjects().indexOf(fabricObj);
+            canvas.remove(fabricObj);
+            canvas.insertAt(img, index, false);
+            fabricCanvas.setObjectById(element.id, img);
+            canvas.setActiveObject(img);
+            canvas.renderAll();
+        } catch (error) {
+            // Decode the source again next time, unless a newer one has replaced it
+            if (sourceBitmapRef.current?.bitmap === sourceBitmap) {
+                releaseSourceBitmap(sourceBitmapRef);
             }
-            setIsProcessing(false);
-            return false;
-        };
-
-        // Check for Natural filter
-        if (preset.category === 'natural') {
-            applyPixelFilter(applyNaturalFilter, getNaturalFilter);
-            return;
-        }
-
-        // Check for Warm filter
-        if (preset.category === 'warm') {
-            applyPixelFilter(applyWarmFilter, getWarmFilter);
-            return;
-        }
-
-        // Check for Cool filter
-        if (preset.category === 'cool') {
-            applyPixelFilter(applyCoolFilter, getCoolFilter);
-            return;
-        }
-
-        // Check for Vivid filter
-        if (preset.category === 'vivid') {
-            applyPixelFilter(applyVividFilter, getVividFilter);
-            return;
+            console.error('Filter rendering failed:', error);
+        } finally {
+            if (!preview) setIsProcessing(false);
         }
-
-        // Fallback for any other filters
-        const newFilters = {
-            ...createResetFilters(),
-            ...preset.values,
-            filterPreset: presetId,
-        };
-
-        applyFilters(newFilters);
     };
 
-    // Reset only filter preset - keep adjustment values
-    const resetFilters = async () => {
+    // Change the preset stack; the image is rendered again from its unfiltered source
+    const updateFilterStack = (filterStack: FilterStep[], label: string) => {
         if (!imageElement) return;
 
-        // Get original image source
-        const originalSrc = imageElement.originalSrc || imageElement.src;
-
-        // Preserve current adjustment values, only clear filter preset
-        const preservedFilters = {
-            ...currentFilters,
-            filterPreset: null, // Clear the selected filter preset
+        const updates = {
+            src: getFilterSource(imageElement),
+            filterStack,
+            filters: {
+                ...currentFilters,
+                filterPreset: filterStack[filterStack.length - 1]?.presetId ?? null,
+            },
         };
 
-        // Update store with original src but keep adjustments
-        updateElement(imageElement.id, {
-            src: originalSrc,
-            filters: preservedFilters,
-        });
-
-        // Restore original image on canvas
-        const fabricCanvas = getFabricCanvas();
-        const fabricObj = fabricCanvas.getObjectById(imageElement.id) as fabric.Image | undefined;
-
-        if (fabricObj) {
-            fabric.Image.fromURL(originalSrc, async (img) => {
-                img.set({
-                    left: fabricObj.left,
-                    top: fabricObj.top,
-                    scaleX: fabricObj.scaleX,
-                    scaleY: fabricObj.scaleY,
-                    angle: fabricObj.angle,
-                    originX: fabricObj.originX,
-                    originY: fabricObj.originY,
-                    opacity: fabricObj.opacity,
-                    data: { id: imageElement.id, type: 'image' },
-                });
-
-                const canvas = fabricCanvas.getCanvas();
-                if (canvas) {
-                    canvas.remove(fabricObj);
-                    canvas.add(img);
-                    fabricCanvas.setObjectById(imageElement.id, img);
-                    canvas.setActiveObject(img);
-                    canvas.renderAll();
-
-                    // Re-apply adjustments if any exist
-                    if (hasActiveAdjustments(preservedFilters)) {
-                        // Trigger adjustment re-application via slider handler
-                        setTimeout(() => {
-                            applyFiltersToCanvas(imageElement.id, preservedFilters);
-                        }, 100);
-                    }
-                }
-            }, { crossOrigin: 'anonymous' });
-        }
+        updateElement(imageElement.id, updates);
+        pushState(label);
+        showOnCanvas({ ...imageElement, ...updates });
     };
 
-    // Apply filters to Fabric.js canvas using pixel-based processing
-    const applyFiltersToCanvas = async (elementId: string, filters: ImageFilter) => {
-        if (!imageElement) return;
+    // Apply filter preset: it replaces the step from its own family, or goes on top of the stack
+    const applyPreset = (presetId: string) => {
+        const preset = getFilterPreset(presetId);
+        const step = createFilterStep(presetId);
+        if (!preset || !step || !imageElement) return;
 
-        // Check if any adjustments need to be applied
-        if (!hasActiveAdjustments(filters)) {
-            // No active adjustments, just render normally
-            const fabricCanvas = getFabricCanvas();
-            const canvas = fabricCanvas.getCanvas();
-            if (canvas) canvas.renderAll();
-            return;
-        }
+        const index = filterStack.findIndex(s => s.family === step.family);
+        const nextStack = index === -1
+            ? [...filterStack, step]
+            : filterStack.map((s, i) => i === index ? { ...step, intensity: s.intensity } : s);
 
-        setIsProcessing(true);
-
-        const fabricCanvas = getFabricCanvas();
-        const fabricObj = fabricCanvas.getObjectById(elementId) as fabric.Image | undefined;
-
-        if (fabricObj) {
-            try {
-                // Use original image source for non-destructive editing
-                const originalSrc = imageElement.originalSrc || imageElement.src;
-
-                const originalImg = new Image();
-                originalImg.crossOrigin = 'anonymous';
-
-                originalImg.onload = async () => {
-                    try {
-                        // Apply all adjustments using pixel processor
-                        const newSrc = await applyImageAdjustments(originalImg, filters);
+        updateFilterStack(nextStack, `Apply ${preset.name} filter`);
+    };
 
-                        // Update element (store only, not src since we want non-destructive)
-                        updateElement(elementId, { filters });
+    const removeFilterStep = (stepId: string) => {
+        updateFilterStack(filterStack.filter(s => s.id !== stepId), 'Remove filter');
+    };
 
-                        // Update Fabric.js canvas with processed image
-                        const canvas = fabricCanvas.getCanvas();
-                        if (canvas) {
-                            fabric.Image.fromURL(newSrc, (img) => {
-                                img.set({
-                                    left: fabricObj.left,
-                                    top: fabricObj.top,
-                                    scaleX: fabricObj.scaleX,
-                                    scaleY: fabricObj.scaleY,
-                                    angle: fabricObj.angle,
-                                    originX: fabricObj.originX,
-                                    originY: fabricObj.originY,
-                                    opacity: fabricObj.opacity,
-                                    data: { id: elementId, type: 'image' },
-                                });
+    const moveFilterStep = (stepId: string, offset: number) => {
+        const index = filterStack.findIndex(s => s.id === stepId);
+        const target = index + offset;
+        if (index === -1 || target < 0 || target >= filterStack.length) return;
 
-                                canvas.remove(fabricObj);
-                                canvas.add(img);
-                                fabricCanvas.setObjectById(elementId, img);
-                                canvas.setActiveObject(img);
-                                canvas.renderAll();
+        const nextStack = [...filterStack];
+        [nextStack[index], nextStack[target]] = [nextStack[target], nextStack[index]];
+        updateFilterStack(nextStack, 'Reorder filters');
+    };
 
-                                setIsProcessing(false);
-                            }, { crossOrigin: 'anonymous' });
-                        } else {
-                            setIsProcessing(false);
-                        }
-                    } catch (error) {
-                        console.error('Adjustment failed:', error);
-                        setIsProcessing(false);
-                    }
-                };
+    // Reset only the filter presets - keep adjustment values
+    const resetFilters = () => {
+        updateFilterStack([], 'Reset filters');
+    };
 
-                originalImg.onerror = () => {
-                    console.error('Failed to load original image');
-                    setIsProcessing(false);
-                };
+    // Reset only adjustment values, keep filter presets
+    const resetAdjustments = () => {
+        if (!imageElement) return;
 
-                originalImg.src = originalSrc;
+        const resetValues = {
+            ...currentFilters,
+            temperature: 0,
+            tint: 0,
+            brightness: 0,
+            contrast: 0,
+            highlights: 0,
+            vibrance: 0,
+            saturation: 0,
+            clarity: 0,
+            sharpness: 0,
+            vignette: 0,
+        };
 
-            } catch (error) {
-                console.error('Adjustment failed:', error);
-                setIsProcessing(false);
-            }
-        } else {
-            setIsProcessing(false);
-        }
+        updateElement(imageElement.id, { filters: resetValues });
+        pushState('Reset adjustments');
+        showOnCanvas({ ...imageElement, filters: resetValues });
     };
 
-    // Handle slider change with debouncing for smooth experience
+    // Handle slider change: a quick preview while dragging, full resolution once let go
     const handleSliderChange = (id: string, value: number) => {
         if (!imageElement) return;
 
@@ -772,65 +330,25 @@ export function FilterPanel() {
         const updatedFilters = {
             ...currentFilters,
             [id]: value,
-            filterPreset: null,
         };
 
         updateElement(imageElement.id, { filters: updatedFilters });
+        showOnCanvas({ ...imageElement, filters: updatedFilters }, true);
+    };
 
-        // Clear existing debounce timer
-        if (debounceTimerRef.current) {
-            clearTimeout(debounceTimerRef.current);
-        }
-
-        // Debounce canvas update for smooth dragging
-        isSliderDraggingRef.current = true;
-        debounceTimerRef.current = setTimeout(async () => {
-            isSliderDraggingRef.current = false;
-
-            // Apply adjustments to canvas without showing loader
-            const fabricCanvas = getFabricCanvas();
-            const fabricObj = fabricCanvas.getObjectById(imageElement.id) as fabric.Image | undefined;
-
-            if (fabricObj && hasActiveAdjustments(updatedFilters)) {
-                try {
-                    const originalSrc = imageElement.originalSrc || imageElement.src;
-
-                    const originalImg = new Image();
-                    originalImg.crossOrigin = 'anonymous';
-
-                    originalImg.onload = async () => {
-                        const newSrc = await applyImageAdjustments(originalImg, updatedFilters);
-
-                        const canvas = fabricCanvas.getCanvas();
-                        if (canvas) {
-                            fabric.Image.fromURL(newSrc, (img) => {
-                                img.set({
-                                    left: fabricObj.left,
-                                    top: fabricObj.top,
-                                    scaleX: fabricObj.scaleX,
-                                    scaleY: fabricObj.scaleY,
-                                    angle: fabricObj.angle,
-                                    originX: fabricObj.originX,
-                                    originY: fabricObj.originY,
-                                    opacity: fabricObj.opacity,
-                                    data: { id: imageElement.id, type: 'image' },
-                                });
+    // How strongly one preset shows over the image beneath it
+    const handleIntensityChange = (stepId: string, intensity: number) => {
+        if (!imageElement) return;
 
-                                canvas.remove(fabricObj);
-                                canvas.add(img);
-                                fabricCanvas.setObjectById(imageElement.id, img);
-                                canvas.setActiveObject(img);
-                                canvas.renderAll();
-                            }, { crossOrigin: 'anonymous' });
-                        }
-                    };
+        const nextStack = filterStack.map(s => s.id === stepId ? { ...s, intensity } : s);
+        updateElement(imageElement.id, { filterStack: nextStack });
+        showOnCanvas({ ...imageElement, filterStack: nextStack }, true);
+    };
 
-                    originalImg.src = originalSrc;
-                } catch (error) {
-                    console.error('Slider adjustment failed:', error);
-                }
-            }
-        }, 300); // 300ms debounce for smooth slider
+    // Slider gesture over: show the full resolution result of the image as it is now
+    const showFullResolution = () => {
+        const element = imageElement && getElement(imageElement.id);
+        if (element?.type === 'image') showOnCanvas(element as ImageElement);
     };
 
     if (!imageElement) {
@@ -863,7 +381,7 @@ export function FilterPanel() {
                     <button
                         onClick={resetFilters}
                         className="p-1.5 hover:bg-gray-100 rounded transition-colors"
-                        title="Reset all filters"
+                        title="Remove all filter presets"
                     >
                         <RotateCcw size={16} className="text-gray-500" />
                     </button>
@@ -878,6 +396,71 @@ export function FilterPanel() {
 
             {/* Content */}
             <div className="flex-1 overflow-y-auto">
+                {/* Applied Presets Section */}
+                {filterStack.length > 0 && (
+                    <div className="p-4 border-b border-gray-200">
+                        <h3 className="text-sm font-medium text-gray-700 mb-3">Applied</h3>
+                        <div className="space-y-1">
+                            {/* Top of the stack first, as it is drawn over the others */}
+                            {[...filterStack].reverse().map((step) => {
+                                const index = filterStack.indexOf(step);
+                                return (
+                                    <div key={step.id} className="px-2 py-1.5 rounded-lg bg-gray-50">
+                                        <div className="flex items-center gap-1">
+                                            <span className="flex-1 text-xs font-medium text-gray-700 truncate">
+                                                {getFilterPreset(step.presetId)?.name ?? step.presetId}
+                                            </span>
+                                            <span className="text-[10px] text-gray-400">
+                                                {FILTER_CATEGORIES.find(cat => cat.id === step.family)?.name}
+                                            </span>
+                                            <button
+                                                onClick={() => moveFilterStep(step.id, 1)}
+                                                disabled={isProcessing || index === filterStack.length - 1}
+                                                className="p-1 hover:bg-gray-200 rounded transition-colors disabled:opacity-30"
+                                                title="Move up"
+                                            >
+                                                <ChevronUp size={14} className="text-gray-500" />
+                                            </button>
+                                            <button
+                                                onClick={() => moveFilterStep(step.id, -1)}
+                                                disabled={isProcessing || index === 0}
+                                                className="p-1 hover:bg-gray-200 rounded transition-colors disabled:opacity-30"
+                                                title="Move down"
+                                            >
+                                                <ChevronDown size={14} className="text-gray-500" />
+                                            </button>
+                                            <button
+                                                onClick={() => removeFilterStep(step.id)}
+                                                disabled={isProcessing}
+                                                className="p-1 hover:bg-gray-200 rounded transition-colors disabled:opacity-30"
+                                                title="Remove"
+                                            >
+                                                <X size={14} className="text-gray-500" />
+                                            </button>
+                                        </div>
+                                        <div className="flex items-center gap-2 mt-1">
+                                            <input
+                                                type="range"
+                                                min={0}
+                                                max={100}
+                                                step={1}
+                                                value={step.intensity}
+                                                onChange={(e) => handleIntensityChange(step.id, Number(e.target.value))}
+                                                {...getSliderHistoryProps('Change filter intensity', showFullResolution)}
+                                                className="flex-1 h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                                                title="Intensity"
+                                            />
+                                            <span className="text-xs text-gray-500 w-8 text-right">
+                                                {step.intensity}
+                                            </span>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
                 {/* Filter Presets Section */}
                 <div className="p-4">
                     <h3 className="text-sm font-medium text-gray-700 mb-3">Presets</h3>
@@ -919,7 +502,7 @@ export function FilterPanel() {
                                 className={`
                                     p-2 rounded-lg text-center transition-all border-2
                                     ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}
-                                    ${currentFilters.filterPreset === preset.id
+                                    ${filterStack.some(step => step.presetId === preset.id) || currentFilters.filterPreset === preset.id
                                         ? 'border-blue-500 bg-blue-50'
                                         : 'border-transparent bg-gray-50 hover:bg-gray-100'
                                     }
@@ -957,60 +540,7 @@ export function FilterPanel() {
                     <div className="flex items-center justify-between mb-4">
                         <h3 className="text-sm font-medium text-gray-700">Adjustments</h3>
                         <button
-                            onClick={async () => {
-                                if (!imageElement) return;
-
-                                // Reset only adjustment values, keep filter preset
-                                const resetAdjustments = {
-                                    ...currentFilters,
-                                    temperature: 0,
-                                    tint: 0,
-                                    brightness: 0,
-                                    contrast: 0,
-                                    highlights: 0,
-                                    vibrance: 0,
-                                    saturation: 0,
-                                    clarity: 0,
-                                    sharpness: 0,
-                                    vignette: 0,
-                                };
-
-                                // Update store with reset adjustments
-                                updateElement(imageElement.id, {
-                                    filters: resetAdjustments,
-                                });
-
-                                // Restore the filtered image (without adjustments) on canvas
-                                // The imageElement.src contains the filter-applied image
-                                const fabricCanvas = getFabricCanvas();
-                                const fabricObj = fabricCanvas.getObjectById(imageElement.id) as fabric.Image | undefined;
-
-                                if (fabricObj) {
-                                    const canvas = fabricCanvas.getCanvas();
-                                    if (canvas) {
-                                        // Use current src (which has filter applied, not originalSrc)
-                                        fabric.Image.fromURL(imageElement.src, (img) => {
-                                            img.set({
-                                                left: fabricObj.left,
-                                                top: fabricObj.top,
-                                                scaleX: fabricObj.scaleX,
-                                                scaleY: fabricObj.scaleY,
-                                                angle: fabricObj.angle,
-                                                originX: fabricObj.originX,
-                                                originY: fabricObj.originY,
-                                                opacity: fabricObj.opacity,
-                                                data: { id: imageElement.id, type: 'image' },
-                                            });
-
-                                            canvas.remove(fabricObj);
-                                            canvas.add(img);
-                                            fabricCanvas.setObjectById(imageElement.id, img);
-                                            canvas.setActiveObject(img);
-                                            canvas.renderAll();
-                                        }, { crossOrigin: 'anonymous' });
-                                    }
-                                }
-                            }}
+                            onClick={resetAdjustments}
                             className="text-xs text-blue-500 hover:text-blue-600 font-medium"
                         >
                             Reset
@@ -1037,6 +567,7 @@ export function FilterPanel() {
                                         step={slider.step}
                                         value={value}
                                         onChange={(e) => handleSliderChange(slider.id, Number(e.target.value))}
+                                        {...getSliderHistoryProps(`Adjust ${slider.label.toLowerCase()}`, showFullResolution)}
                                         className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
                                     />
                                 </div>
@@ -0,0 +1,99 @@
+'use client';
+
+import { useHistoryStore } from '@/store/historyStore';
+import { Circle, CircleDot, Redo2, Undo2 } from 'lucide-react';
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Undo history as a list; clicking an entry brings the design back to just after it
+ */
+export function HistoryPanel() {
+    const past = useHistoryStore((state) => state.past);
+    const future = useHistoryStore((state) => state.future);
+    const undo = useHistoryStore((state) => state.undo);
+    const redo = useHistoryStore((state) => state.redo);
+    const jumpToState = useHistoryStore((state) => state.jumpToState);
+
+    const current = past[past.length - 1]?.id ?? null;
+    const entries = [...past, ...future];
+
+    return (
+        <div className="h-full flex flex-col bg-white">
+            <div className="p-4 border-b border-gray-100">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-gray-800 font-semibold text-lg">History</h2>
+                    <div className="flex gap-1">
+                        <button
+                            onClick={undo}
+                            disabled={past.length === 0}
+                            className="p-1.5 rounded-lg text-gray-500 hover:text-violet-600 hover:bg-violet-50 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                            title="Undo"
+                        >
+                            <Undo2 size={16} />
+                        </button>
+                        <button
+                            onClick={redo}
+                            disabled={future.length === 0}
+                            className="p-1.5 rounded-lg text-gray-500 hover:text-violet-600 hover:bg-violet-50 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                            title="Redo"
+                        >
+                            <Redo2 size={16} />
+                        </button>
+                    </div>
+                </div>
+                <p className="text-gray-500 text-xs mt-1">
+                    Click a step to go back to it; later steps stay here until you make a new change
+                </p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 custom-scrollbar space-y-1">
+                <HistoryRow
+                    label="Start"
+                    isCurrent={current === null}
+                    isUndone={false}
+                    onClick={() => jumpToState(null)}
+                />
+                {entries.map((entry, index) => (
+                    <HistoryRow
+                        key={entry.id}
+                        label={entry.label}
+                        time={formatTime(entry.timestamp)}
+                        isCurrent={entry.id === current}
+                        isUndone={index >= past.length}
+                        onClick={() => jumpToState(entry.id)}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+interface HistoryRowProps {
+    label: string;
+    time?: string;
+    isCurrent: boolean;
+    isUndone: boolean;
+    onClick: () => void;
+}
+
+function HistoryRow({ label, time, isCurrent, isUndone, onClick }: HistoryRowProps) {
+    return (
+        <button
+            onClick={onClick}
+            className={`w-full flex items-center gap-2 px-2.5 py-2 rounded-lg text-left transition-colors ${isCurrent
+                ? 'bg-violet-50 text-violet-700'
+                : 'hover:bg-gray-50'
+                } ${isUndone ? 'text-gray-400' : 'text-gray-700'}`}
+        >
+            {isCurrent ? (
+                <CircleDot size={12} className="shrink-0" />
+            ) : (
+                <Circle size={12} className="shrink-0 text-gray-300" />
+            )}
+            <span className="flex-1 text-xs truncate">{label}</span>
+            {time && <span className="text-[10px] text-gray-400 shrink-0">{time}</span>}
+        </button>
+    );
+}
@@ -3,6 +3,7 @@
 import { useMemo } from 'react';
 import { useCanvasStore } from '@/store/canvasStore';
 import { useEditorStore, useActivePage } from '@/store/editorStore';
+import { getSliderHistoryProps } from '@/store/historyStore';
 import { getFabricCanvas } from '@/engine/fabric/FabricCanvas';
 import { ImageBackground, SolidBackground } from '@/types/project';
 import { ImageElement } from '@/types/canvas';
@@ -719,6 +720,7 @@ export function ImageEditPanel() {
                                     });
                                 }
                             }}
+                            {...getSliderHistoryProps('Change opacity')}
                             disabled={isDisabled}
                             className="w-full h-1.5 bg-gray-100 rounded-lg appearance-none cursor-pointer accent-blue-600 hover:bg-gray-200 transition-colors"
                         />
@@ -3,7 +3,7 @@
 import { useState, useMemo } from 'react';
 import { useCanvasStore } from '@/store/canvasStore';
 import { useActivePage } from '@/store/editorStore';
-import { Eye, EyeOff, Lock, Unlock, ChevronUp, ChevronDown, Trash2, Layers, LayoutGrid, Palette } from 'lucide-react';
+import { Eye, EyeOff, Lock, Unlock, ChevronUp, ChevronDown, Trash2, Layers, LayoutGrid, Palette, PenTool } from 'lucide-react';
 import { CanvasElement } from '@/types/canvas';
 import { PageBackground } from '@/types/project';
 
@@ -204,6 +204,7 @@ export function LayersPanel() {
             text: { label: 'TXT', color: 'bg-blue-100 text-blue-600' },
             shape: { label: 'SHP', color: 'bg-orange-100 text-orange-600' },
             svg: { label: 'SVG', color: 'bg-pink-100 text-pink-600' },
+            path: { label: 'PTH', color: 'bg-violet-100 text-violet-600' },
         };
         const badge = badges[type] || { label: 'ELM', color: 'bg-gray-100 text-gray-600' };
         return (
@@ -253,6 +254,9 @@ export function LayersPanel() {
                             {element.type === 'shape' && (
                                 <div className="w-6 h-6 bg-gradient-to-br from-gray-300 to-gray-400 rounded-sm" />
                             )}
+                            {element.type === 'path' && (
+                                <PenTool size={20} className="text-gray-400" />
+                            )}
                             {element.type === 'svg' && (
                                 <Layers size={20} className="text-gray-400" />
                             )}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { useEditorStore, usePages } from '@/store/editorStore';
+import { getFabricCanvas } from '@/engine/fabric/FabricCanvas';
+import { runPreflight } from '@/engine/preflight';
+import { PREFLIGHT_ISSUE_LABELS, PreflightIssue, PreflightReport } from '@/types/preflight';
+import { AlertCircle, AlertTriangle, CheckCircle2, RefreshCw } from 'lucide-react';
+
+// Frames to wait for the canvas to load a page before giving up on selecting
+const MAX_LOAD_FRAMES = 120;
+
+const nextFrame = () => new Promise(resolve => requestAnimationFrame(resolve));
+
+export function PreflightPanel() {
+    const pages = usePages();
+    const [report, setReport] = useState<PreflightReport | null>(null);
+
+    const handleRun = () => {
+        setReport(runPreflight(useEditorStore.getState().project?.pages ?? []));
+    };
+
+    // Check when the panel opens
+    useEffect(() => {
+        handleRun();
+    }, []);
+
+    /**
+     * Show the page holding an issue and select the offending element
+     */
+    const handleJump = async (issue: PreflightIssue) => {
+        const editor = useEditorStore.getState();
+        if (editor.project?.activePageId !== issue.pageId) {
+            editor.setActivePage(issue.pageId);
+        }
+        if (!issue.elementId) return;
+
+        // The canvas loads the page asynchronously
+        const fabricCanvas = getFabricCanvas();
+        for (let i = 0; i < MAX_LOAD_FRAMES && !fabricCanvas.getObjectById(issue.elementId); i++) {
+            await nextFrame();
+        }
+
+        useCanvasStore.getState().select(issue.elementId);
+        fabricCanvas.selectObjects([issue.elementId]);
+    };
+
+    const errorCount = report?.issues.filter(issue => issue.severity === 'error').length ?? 0;
+    const warningCount = (report?.issues.length ?? 0) - errorCount;
+
+    return (
+        <div className="h-full flex flex-col bg-white">
+            <div className="p-4 border-b border-gray-100">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-gray-800 font-semibold text-lg">Preflight</h2>
+                    <button
+                        onClick={handleRun}
+                        className="p-1.5 rounded-lg text-gray-500 hover:text-violet-600 hover:bg-violet-50 transition-colors"
+                        title="Run checks again"
+                    >
+                        <RefreshCw size={16} />
+                    </button>
+                </div>
+                <p className="text-gray-500 text-xs mt-1">
+                    Print checks for resolution, bleed, safe area, strokes, fonts and colors
+                </p>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+                {report && (
+                    <div className="mb-4 flex gap-2">
+                        <div className="flex-1 px-3 py-2 rounded-lg bg-red-50 text-red-700 text-xs font-medium">
+                            {errorCount} error{errorCount === 1 ? '' : 's'}
+                        </div>
+                        <div className="flex-1 px-3 py-2 rounded-lg bg-amber-50 text-amber-700 text-xs font-medium">
+                            {warningCount} warning{warningCount === 1 ? '' : 's'}
+                        </div>
+                    </div>
+                )}
+
+                {report && report.issues.length === 0 && (
+                    <div className="flex flex-col items-center text-center py-8 text-gray-500">
+                        <CheckCircle2 size={32} className="text-emerald-500 mb-2" />
+                        <span className="text-sm font-medium text-gray-700">Ready to print</span>
+                        <span className="text-xs mt-1">
+                            No issues found on {report.pageCount} page{report.pageCount === 1 ? '' : 's'}
+                        </span>
+                    </div>
+                )}
+
+                {report && pages.map((page, index) => {
+                    const pageIssues = report.issues.filter(issue => issue.pageId === page.id);
+                    if (pageIssues.length === 0) return null;
+
+                    return (
+                        <div key={page.id} className="mb-4">
+                            <h3 className="text-gray-700 text-xs font-semibold uppercase tracking-wide mb-2">
+                                Page {index + 1}{page.name ? ` · ${page.name}` : ''}
+                            </h3>
+                            <div className="space-y-1.5">
+                                {pageIssues.map((issue) => (
+                                    <button
+                                        key={issue.id}
+                                        onClick={() => handleJump(issue)}
+                                        className="w-full flex items-start gap-2 p-2.5 rounded-lg border border-gray-200 text-left hover:border-violet-400 hover:bg-violet-50/40 transition-colors"
+                                    >
+                                        {issue.severity === 'error' ? (
+                                            <AlertCircle size={14} className="text-red-500 mt-0.5 shrink-0" />
+                                        ) : (
+                                            <AlertTriangle size={14} className="text-amber-500 mt-0.5 shrink-0" />
+                                        )}
+                                        <div className="min-w-0">
+                                            <div className="text-[10px] font-bold uppercase text-gray-400">
+                                                {PREFLIGHT_ISSUE_LABELS[issue.type]}
+                                            </div>
+                                            <div className="text-xs text-gray-700 break-words">{issue.message}</div>
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
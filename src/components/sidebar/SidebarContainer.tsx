@@ -10,6 +10,9 @@ import {
     CloudUpload,
     Layers,
     Sparkles,
+    ShieldCheck,
+    Pencil,
+    History,
     ChevronLeft,
 } from 'lucide-react';
 import { TemplatesPanel } from './TemplatesPanel';
@@ -20,6 +23,9 @@ import { PhotosPanel } from './PhotosPanel';
 import { LayersPanel } from './LayersPanel';
 import { AnimationsPanel } from './AnimationsPanel';
 import { LibraryPanel } from './LibraryPanel';
+import { PreflightPanel } from './PreflightPanel';
+import { DrawPanel } from './DrawPanel';
+import { HistoryPanel } from './HistoryPanel';
 
 interface SidebarTab {
     id: SidebarPanel;
@@ -34,8 +40,11 @@ const SIDEBAR_TABS: SidebarTab[] = [
     { id: 'text', icon: <Type size={20} strokeWidth={1.5} />, label: 'Text' },
     { id: 'photos', icon: <Image size={20} strokeWidth={1.5} />, label: 'Photos' },
     { id: 'uploads', icon: <CloudUpload size={20} strokeWidth={1.5} />, label: 'Uploads' },
+    { id: 'draw', icon: <Pencil size={20} strokeWidth={1.5} />, label: 'Draw' },
     { id: 'layers', icon: <Layers size={20} strokeWidth={1.5} />, label: 'Layers' },
     { id: 'animations', icon: <Sparkles size={20} strokeWidth={1.5} />, label: 'Animations' },
+    { id: 'preflight', icon: <ShieldCheck size={20} strokeWidth={1.5} />, label: 'Preflight' },
+    { id: 'history', icon: <History size={20} strokeWidth={1.5} />, label: 'History' },
 ];
 
 export function SidebarContainer() {
@@ -60,10 +69,16 @@ export function SidebarContainer() {
                 return <PhotosPanel />;
             case 'uploads':
                 return <UploadPanel />;
+            case 'draw':
+                return <DrawPanel />;
             case 'layers':
                 return <LayersPanel />;
             case 'animations':
                 return <AnimationsPanel />;
+            case 'preflight':
+                return <PreflightPanel />;
+            case 'history':
+                return <HistoryPanel />;
             default:
                 return null;
         }
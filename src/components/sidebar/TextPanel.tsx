@@ -10,11 +10,12 @@ export function TextPanel() {
     const handleAddText = (preset: typeof DEFAULT_TEXT_PRESETS[0]) => {
         addTextElement({
             content: preset.content,
+            sizing: preset.sizing,
             transform: {
                 x: 100,
                 y: 100,
-                width: 300,
-                height: 50,
+                width: preset.width,
+                height: preset.height,
                 scaleX: 1,
                 scaleY: 1,
                 rotation: 0,
@@ -2,12 +2,14 @@
 
 import { useRef, useState } from 'react';
 import { useCanvasStore } from '@/store/canvasStore';
+import { importSVGPaths } from '@/engine/export';
 import { Upload, Image, FileText, Film, Folder } from 'lucide-react';
 
 export function UploadPanel() {
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [uploads, setUploads] = useState<string[]>([]);
     const addImageElement = useCanvasStore((state) => state.addImageElement);
+    const addPathElements = useCanvasStore((state) => state.addPathElements);
 
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
@@ -25,7 +27,17 @@ export function UploadPanel() {
         });
     };
 
-    const handleAddImage = (src: string) => {
+    const handleAddImage = async (src: string) => {
+        // SVGs made only of paths come in as editable path elements
+        if (src.startsWith('data:image/svg+xml')) {
+            const svg = await fetch(src).then((response) => response.text());
+            const paths = await importSVGPaths(svg);
+            if (paths.length > 0) {
+                addPathElements(paths);
+                return;
+            }
+        }
+
         addImageElement(src, {
             transform: {
                 x: 100,
@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { CanvasElement } from '@/types/canvas';
+import { AlignReference, Alignment, DistributeAxis } from '@/types/layout';
+import {
+    AlignCenterHorizontal,
+    AlignCenterVertical,
+    AlignEndHorizontal,
+    AlignEndVertical,
+    AlignHorizontalDistributeCenter,
+    AlignStartHorizontal,
+    AlignStartVertical,
+    AlignVerticalDistributeCenter,
+    LayoutGrid,
+} from 'lucide-react';
+
+interface AlignMenuProps {
+    elements: CanvasElement[];
+}
+
+const ALIGNMENTS: { id: Alignment; label: string; icon: React.ReactNode }[] = [
+    { id: 'left', label: 'Align left', icon: <AlignStartVertical size={16} /> },
+    { id: 'center', label: 'Align center', icon: <AlignCenterVertical size={16} /> },
+    { id: 'right', label: 'Align right', icon: <AlignEndVertical size={16} /> },
+    { id: 'top', label: 'Align top', icon: <AlignStartHorizontal size={16} /> },
+    { id: 'middle', label: 'Align middle', icon: <AlignCenterHorizontal size={16} /> },
+    { id: 'bottom', label: 'Align bottom', icon: <AlignEndHorizontal size={16} /> },
+];
+
+const DISTRIBUTIONS: { id: DistributeAxis; label: string; icon: React.ReactNode }[] = [
+    { id: 'horizontal', label: 'Distribute horizontally', icon: <AlignHorizontalDistributeCenter size={16} /> },
+    { id: 'vertical', label: 'Distribute vertically', icon: <AlignVerticalDistributeCenter size={16} /> },
+];
+
+const REFERENCES: { id: AlignReference; label: string }[] = [
+    { id: 'selection', label: 'Selection' },
+    { id: 'page', label: 'Page' },
+    { id: 'key', label: 'Key object' },
+];
+
+/**
+ * Align and distribute dropdown for the current selection
+ */
+export function AlignMenu({ elements }: AlignMenuProps) {
+    const alignElements = useCanvasStore((state) => state.alignElements);
+    const distributeElements = useCanvasStore((state) => state.distributeElements);
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [reference, setReference] = useState<AlignReference>('selection');
+    const [keyId, setKeyId] = useState<string | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close dropdown when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const ids = elements.map(el => el.id);
+    const isMultiple = elements.length > 1;
+    // A single element only lines up with the page
+    const activeReference = isMultiple ? reference : 'page';
+    const activeKeyId = keyId && ids.includes(keyId) ? keyId : ids[0];
+    const minimumToDistribute = activeReference === 'page' ? 2 : 3;
+    const canDistribute = elements.length >= minimumToDistribute;
+
+    const handleAlign = (alignment: Alignment) => {
+        alignElements(ids, alignment, activeReference, activeKeyId);
+    };
+
+    const handleDistribute = (axis: DistributeAxis) => {
+        distributeElements(ids, axis, activeReference);
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`p-2 rounded transition-all ${isOpen
+                    ? 'text-blue-600 bg-blue-50'
+                    : 'text-gray-500 hover:text-blue-600 hover:bg-blue-50'
+                    }`}
+                title="Align"
+            >
+                <LayoutGrid size={16} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute top-full left-0 mt-2 w-60 bg-white rounded-xl shadow-xl border border-gray-100 p-3 z-50 animate-in fade-in slide-in-from-top-2 duration-200">
+                    <p className="pb-1.5 text-xs font-bold text-gray-500 uppercase tracking-wider">Align to</p>
+                    <div className="flex bg-gray-100 rounded-lg p-0.5 mb-3">
+                        {REFERENCES.map((option) => (
+                            <button
+                                key={option.id}
+                                onClick={() => setReference(option.id)}
+                                disabled={!isMultiple && option.id !== 'page'}
+                                className={`flex-1 px-1.5 py-1 rounded-md text-[11px] font-medium transition-all disabled:opacity-40 ${activeReference === option.id
+                                    ? 'bg-white text-blue-600 shadow-sm'
+                                    : 'text-gray-600 hover:text-gray-900'
+                                    }`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {activeReference === 'key' && (
+                        <select
+                            value={activeKeyId}
+                            onChange={(e) => setKeyId(e.target.value)}
+                            className="w-full mb-3 px-2 py-1.5 text-xs text-gray-700 border border-gray-200 rounded-lg focus:outline-none focus:border-blue-400"
+                            title="Key object"
+                        >
+                            {elements.map((el) => (
+                                <option key={el.id} value={el.id}>{el.name}</option>
+                            ))}
+                        </select>
+                    )}
+
+                    <div className="grid grid-cols-6 gap-1">
+                        {ALIGNMENTS.map((alignment) => (
+                            <button
+                                key={alignment.id}
+                                onClick={() => handleAlign(alignment.id)}
+                                className="p-1.5 flex justify-center text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-all"
+                                title={alignment.label}
+                            >
+                                {alignment.icon}
+                            </button>
+                        ))}
+                    </div>
+
+                    <p className="pt-3 pb-1.5 text-xs font-bold text-gray-500 uppercase tracking-wider">Distribute</p>
+                    <div className="flex gap-1">
+                        {DISTRIBUTIONS.map((distribution) => (
+                            <button
+                                key={distribution.id}
+                                onClick={() => handleDistribute(distribution.id)}
+                                disabled={!canDistribute}
+                                className="flex-1 px-2 py-1.5 flex items-center gap-1.5 text-[11px] text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded transition-all disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-600"
+                                title={canDistribute ? distribution.label : `Select at least ${minimumToDistribute} elements`}
+                            >
+                                {distribution.icon}
+                                {distribution.id === 'horizontal' ? 'Horizontal' : 'Vertical'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
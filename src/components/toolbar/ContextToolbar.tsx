@@ -1,12 +1,17 @@
 'use client';
 
-import { useMemo, useState, useRef } from 'react';
+import { useMemo, useRef } from 'react';
 import { useCanvasStore } from '@/store/canvasStore';
 import { useEditorStore, useActivePage } from '@/store/editorStore';
 import { SolidBackground } from '@/types/project';
-import { ImageElement, TextElement } from '@/types/canvas';
-import { COLOR_PALETTE, applyColorReplacement } from '@/utils/colorReplace';
+import { CanvasElement, DEFAULT_BULLET_GLYPHS, GradientFill, ImageElement, PathElement, TextElement, TextSizing } from '@/types/canvas';
+import { COLOR_PALETTE } from '@/utils/colorReplace';
+import { bitmapToCanvas, getImageProcessor } from '@/engine/imaging/ImageProcessor';
 import { getFabricCanvas } from '@/engine/fabric/FabricCanvas';
+import { isBooleanOperand } from '@/engine/drawing/booleanPath';
+import { BOOLEAN_OPERATION_LABELS, BooleanOperation } from '@/types/drawing';
+import { AlignMenu } from './AlignMenu';
+import { TextPathMenu } from './TextPathMenu';
 import { fabric } from 'fabric';
 import {
     Trash2,
@@ -27,13 +32,40 @@ import {
     AlignLeft,
     AlignCenter,
     AlignRight,
+    IndentDecrease,
+    IndentIncrease,
     List,
     ListOrdered,
     Minus,
     Plus,
     Palette,
+    PenTool,
+    Blend,
+    Ban,
+    Combine,
+    CopyMinus,
+    Diff,
 } from 'lucide-react';
 
+// Fonts offered for text; any other font a text already uses is listed too
+const FONT_FAMILIES = ['Inter', 'Arial', 'Helvetica', 'Georgia', 'Times New Roman', 'Courier New', 'Verdana'];
+
+const TEXT_SIZINGS: Array<{ id: TextSizing; label: string }> = [
+    { id: 'auto', label: 'Auto width' },
+    { id: 'wrap', label: 'Wrap' },
+    { id: 'shrink', label: 'Shrink to fit' },
+];
+
+// Top-level bullets offered for lists
+const BULLET_GLYPHS = ['•', '◦', '▪', '–', '→', '★', '✓'];
+
+const BOOLEAN_OPERATIONS: Array<{ id: BooleanOperation; icon: React.ReactNode }> = [
+    { id: 'union', icon: <Combine size={16} /> },
+    { id: 'subtract', icon: <CopyMinus size={16} /> },
+    { id: 'intersect', icon: <Blend size={16} /> },
+    { id: 'exclude', icon: <Diff size={16} /> },
+];
+
 export function ContextToolbar() {
     const selectedIds = useCanvasStore((state) => state.selectedIds);
     const getElement = useCanvasStore((state) => state.getElement);
@@ -47,14 +79,21 @@ export function ContextToolbar() {
     const ungroupElement = useCanvasStore((state) => state.ungroupElement);
     const updateTransform = useCanvasStore((state) => state.updateTransform);
     const updateElement = useCanvasStore((state) => state.updateElement);
+    const updateStyle = useCanvasStore((state) => state.updateStyle);
+    const styleText = useCanvasStore((state) => state.styleText);
+    const setTextList = useCanvasStore((state) => state.setTextList);
+    const indentTextList = useCanvasStore((state) => state.indentTextList);
+    const setTextSizing = useCanvasStore((state) => state.setTextSizing);
+    const pathEditId = useCanvasStore((state) => state.pathEditId);
+    const startPathEdit = useCanvasStore((state) => state.startPathEdit);
+    const stopPathEdit = useCanvasStore((state) => state.stopPathEdit);
+    const combineShapes = useCanvasStore((state) => state.combineShapes);
 
     const activePage = useActivePage();
     const updatePage = useEditorStore((state) => state.updatePage);
     const openColorsPanel = useEditorStore((state) => state.openColorsPanel);
     const openFiltersPanel = useEditorStore((state) => state.openFiltersPanel);
 
-    // List type state for text elements
-    const [listType, setListType] = useState<'none' | 'bullet' | 'numbered'>('none');
 
     // Get current background color
     const currentBgColor = useMemo(() => {
@@ -86,7 +125,7 @@ export function ContextToolbar() {
 
         if (!fabricObj || !fabricObj.getElement) return;
 
-        const imgElement = fabricObj.getElement() as HTMLImageElement;
+        const imgElement = fabricObj.getElement();
 
         // Apply color replacement
         const colorReplaceEffect = {
@@ -98,7 +137,15 @@ export function ContextToolbar() {
         };
 
         try {
-            const newSrc = await applyColorReplacement(imgElement, colorReplaceEffect);
+            // Picking another color before this one finishes replaces it
+            const bitmap = await getImageProcessor().render(
+                imgElement,
+                [{ type: 'colorReplace', effect: colorReplaceEffect }],
+                { channel: `colorReplace:${imageElement.id}` }
+            );
+            if (!bitmap) return;
+
+            const newSrc = bitmapToCanvas(bitmap).toDataURL('image/png');
 
             // Update the element with the new color-replaced image
             updateElement(imageElement.id, {
@@ -186,40 +233,35 @@ export function ContextToolbar() {
     const isLocked = element?.locked;
     const isGroup = element?.type === 'group';
     const canGroup = selectedElements.length > 1;
+    const canCombine = canGroup && selectedElements.every(el => el && isBooleanOperand(el) && !el.locked);
     const isImage = element?.type === 'image';
     const isText = element?.type === 'text';
     const textElement = isText ? (element as TextElement) : null;
+    const pathElement = element?.type === 'path' ? (element as PathElement) : null;
+    const pathFill = pathElement?.style.fill ?? null;
+    const pathGradient = pathFill && typeof pathFill !== 'string' ? pathFill : null;
 
-    // Text formatting handlers
+    // Text formatting handlers; while editing, these style the selected characters
     const handleFontSizeChange = (delta: number) => {
         if (!textElement) return;
         const newSize = Math.max(8, Math.min(200, textElement.textStyle.fontSize + delta));
-        updateElement(textElement.id, {
-            textStyle: { ...textElement.textStyle, fontSize: newSize }
-        } as Partial<TextElement>);
+        styleText(textElement.id, { fontSize: newSize });
     };
 
     const toggleBold = () => {
         if (!textElement) return;
         const isBold = textElement.textStyle.fontWeight === 'bold' || textElement.textStyle.fontWeight === 700;
-        updateElement(textElement.id, {
-            textStyle: { ...textElement.textStyle, fontWeight: isBold ? 'normal' : 'bold' }
-        } as Partial<TextElement>);
+        styleText(textElement.id, { fontWeight: isBold ? 'normal' : 'bold' });
     };
 
     const toggleItalic = () => {
         if (!textElement) return;
-        updateElement(textElement.id, {
-            textStyle: { ...textElement.textStyle, fontStyle: textElement.textStyle.fontStyle === 'italic' ? 'normal' : 'italic' }
-        } as Partial<TextElement>);
+        styleText(textElement.id, { fontStyle: textElement.textStyle.fontStyle === 'italic' ? 'normal' : 'italic' });
     };
 
     const toggleUnderline = () => {
         if (!textElement) return;
-        const isUnderline = textElement.textStyle.textDecoration === 'underline';
-        updateElement(textElement.id, {
-            textStyle: { ...textElement.textStyle, textDecoration: isUnderline ? 'none' : 'underline' }
-        } as Partial<TextElement>);
+        styleText(textElement.id, { underline: textElement.textStyle.textDecoration !== 'underline' });
     };
 
     const toggleStrikethrough = () => {
@@ -247,9 +289,55 @@ export function ContextToolbar() {
 
     const handleTextColorChange = (color: string) => {
         if (!textElement) return;
-        updateElement(textElement.id, {
-            style: { ...textElement.style, fill: color }
-        } as Partial<TextElement>);
+        styleText(textElement.id, { fill: color });
+    };
+
+    const listType = textElement?.list?.type ?? 'none';
+
+    const cycleListType = () => {
+        if (!textElement) return;
+        if (listType === 'none') setTextList(textElement.id, { type: 'bullet' });
+        else if (listType === 'bullet') setTextList(textElement.id, { type: 'numbered' });
+        else setTextList(textElement.id, null);
+    };
+
+    const setBulletGlyph = (glyph: string) => {
+        if (!textElement?.list) return;
+        setTextList(textElement.id, { bullets: [glyph, ...textElement.list.bullets.slice(1)] });
+    };
+
+    const handleFontFamilyChange = (fontFamily: string) => {
+        if (!textElement) return;
+        styleText(textElement.id, { fontFamily });
+    };
+
+    // Path fill and stroke handlers
+    const handlePathFillChange = (color: string) => {
+        if (!pathElement) return;
+        updateStyle(pathElement.id, { fill: color });
+    };
+
+    const handleGradientStopChange = (index: number, color: string) => {
+        if (!pathElement || !pathGradient) return;
+        const colorStops = pathGradient.colorStops.map((stop, i) => (i === index ? { ...stop, color } : stop));
+        updateStyle(pathElement.id, { fill: { ...pathGradient, colorStops } });
+    };
+
+    const togglePathGradient = () => {
+        if (!pathElement) return;
+        if (pathGradient) {
+            updateStyle(pathElement.id, { fill: pathGradient.colorStops[0]?.color ?? '#4A90D9' });
+            return;
+        }
+        const gradient: GradientFill = {
+            type: 'linear',
+            angle: 90,
+            colorStops: [
+                { offset: 0, color: typeof pathFill === 'string' ? pathFill : '#4A90D9' },
+                { offset: 1, color: '#7c3aed' },
+            ],
+        };
+        updateStyle(pathElement.id, { fill: gradient });
     };
 
     return (
@@ -311,6 +399,19 @@ export function ContextToolbar() {
             {/* Text Formatting Options */}
             {isText && textElement && (
                 <>
+                    {/* Font Family */}
+                    <select
+                        value={textElement.textStyle.fontFamily}
+                        onChange={(e) => handleFontFamilyChange(e.target.value)}
+                        className="h-8 px-2 text-sm text-gray-700 bg-white border border-gray-200 rounded-lg hover:border-gray-300 focus:outline-none focus:border-blue-400"
+                        style={{ fontFamily: textElement.textStyle.fontFamily }}
+                        title="Font"
+                    >
+                        {[...new Set([textElement.textStyle.fontFamily, ...FONT_FAMILIES])].map((family) => (
+                            <option key={family} value={family} style={{ fontFamily: family }}>{family}</option>
+                        ))}
+                    </select>
+
                     {/* Font Size */}
                     <div className="flex items-center gap-1 px-2">
                         <button
@@ -409,16 +510,23 @@ export function ContextToolbar() {
                         {!['left', 'center', 'right'].includes(textElement.textStyle.textAlign) && <AlignLeft size={14} />}
                     </button>
 
+                    {/* Text box sizing */}
+                    <select
+                        value={textElement.sizing ?? 'auto'}
+                        onChange={(e) => setTextSizing(textElement.id, e.target.value as TextSizing)}
+                        className="h-8 px-2 text-xs text-gray-700 bg-white border border-gray-200 rounded-lg hover:border-gray-300 focus:outline-none focus:border-blue-400"
+                        title="Text box sizing"
+                    >
+                        {TEXT_SIZINGS.map((option) => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                    </select>
+
                     <div className="w-px h-6 bg-gray-200" />
 
                     {/* List - Single button that cycles through options */}
                     <button
-                        onClick={() => {
-                            const types: ('none' | 'bullet' | 'numbered')[] = ['none', 'bullet', 'numbered'];
-                            const currentIndex = types.indexOf(listType);
-                            const nextIndex = (currentIndex + 1) % types.length;
-                            setListType(types[nextIndex]);
-                        }}
+                        onClick={cycleListType}
                         className={`p-1.5 rounded transition-all ${listType !== 'none'
                             ? 'bg-blue-100 text-blue-600'
                             : 'text-gray-500 hover:text-blue-600 hover:bg-blue-50'
@@ -427,6 +535,39 @@ export function ContextToolbar() {
                     >
                         {listType === 'numbered' ? <ListOrdered size={14} /> : <List size={14} />}
                     </button>
+                    {textElement.list && (
+                        <div className="flex items-center gap-0.5">
+                            {textElement.list.type === 'bullet' && (
+                                <select
+                                    value={textElement.list.bullets[0] ?? DEFAULT_BULLET_GLYPHS[0]}
+                                    onChange={(e) => setBulletGlyph(e.target.value)}
+                                    className="h-7 px-1 text-sm text-gray-700 bg-white border border-gray-200 rounded hover:border-gray-300 focus:outline-none focus:border-blue-400"
+                                    title="Bullet"
+                                >
+                                    {[...new Set([textElement.list.bullets[0] ?? DEFAULT_BULLET_GLYPHS[0], ...BULLET_GLYPHS])].map((glyph) => (
+                                        <option key={glyph} value={glyph}>{glyph}</option>
+                                    ))}
+                                </select>
+                            )}
+                            <button
+                                onClick={() => indentTextList(textElement.id, -1)}
+                                className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-all"
+                                title="Decrease indent (Shift+Tab)"
+                            >
+                                <IndentDecrease size={14} />
+                            </button>
+                            <button
+                                onClick={() => indentTextList(textElement.id, 1)}
+                                className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-all"
+                                title="Increase indent (Tab)"
+                            >
+                                <IndentIncrease size={14} />
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Curve or outline the text runs along */}
+                    <TextPathMenu element={textElement} />
 
                     <div className="w-px h-6 bg-gray-200" />
 
@@ -452,6 +593,95 @@ export function ContextToolbar() {
                 </>
             )}
 
+            {/* Path Fill, Stroke and Nodes */}
+            {pathElement && (
+                <>
+                    <div className="flex items-center gap-1.5 px-2">
+                        {pathGradient ? (
+                            pathGradient.colorStops.map((stop, i) => (
+                                <input
+                                    key={i}
+                                    type="color"
+                                    value={stop.color}
+                                    onChange={(e) => handleGradientStopChange(i, e.target.value)}
+                                    className="w-7 h-7 rounded-lg border-2 border-gray-200 cursor-pointer bg-transparent"
+                                    title={`Gradient color ${i + 1}`}
+                                />
+                            ))
+                        ) : (
+                            <input
+                                type="color"
+                                value={typeof pathFill === 'string' ? pathFill : '#ffffff'}
+                                onChange={(e) => handlePathFillChange(e.target.value)}
+                                className="w-7 h-7 rounded-lg border-2 border-gray-200 cursor-pointer bg-transparent"
+                                title="Fill color"
+                            />
+                        )}
+                        <button
+                            onClick={togglePathGradient}
+                            className={`p-1.5 rounded transition-all ${pathGradient
+                                ? 'bg-blue-100 text-blue-600'
+                                : 'text-gray-500 hover:text-blue-600 hover:bg-blue-50'
+                                }`}
+                            title="Gradient fill"
+                        >
+                            <Blend size={14} />
+                        </button>
+                        <button
+                            onClick={() => updateStyle(pathElement.id, { fill: null })}
+                            className={`p-1.5 rounded transition-all ${!pathFill
+                                ? 'bg-blue-100 text-blue-600'
+                                : 'text-gray-500 hover:text-blue-600 hover:bg-blue-50'
+                                }`}
+                            title="No fill"
+                        >
+                            <Ban size={14} />
+                        </button>
+                    </div>
+
+                    <div className="w-px h-6 bg-gray-200" />
+
+                    {/* Stroke */}
+                    <div className="flex items-center gap-1.5 px-2">
+                        <input
+                            type="color"
+                            value={pathElement.style.stroke ?? '#000000'}
+                            onChange={(e) => updateStyle(pathElement.id, { stroke: e.target.value })}
+                            className="w-7 h-7 rounded-lg border-2 border-gray-200 cursor-pointer bg-transparent"
+                            title="Stroke color"
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            max={50}
+                            value={pathElement.style.strokeWidth}
+                            onChange={(e) => updateStyle(pathElement.id, {
+                                strokeWidth: Math.max(0, Math.min(50, Number(e.target.value) || 0)),
+                            })}
+                            className="w-12 px-1.5 py-1 text-xs text-gray-700 border border-gray-200 rounded"
+                            title="Stroke width"
+                        />
+                    </div>
+
+                    <div className="w-px h-6 bg-gray-200" />
+
+                    <button
+                        onClick={() => pathEditId === pathElement.id ? stopPathEdit() : startPathEdit(pathElement.id)}
+                        disabled={isLocked}
+                        className={`p-2 rounded transition-all flex items-center gap-1.5 disabled:opacity-40 ${pathEditId === pathElement.id
+                            ? 'bg-blue-100 text-blue-600'
+                            : 'text-gray-500 hover:text-blue-600 hover:bg-blue-50'
+                            }`}
+                        title="Drag nodes and handles. Click a segment to add a node, double-click a node to convert it, Delete removes it."
+                    >
+                        <PenTool size={16} />
+                        <span className="text-xs font-medium">{pathEditId === pathElement.id ? 'Done' : 'Edit nodes'}</span>
+                    </button>
+
+                    <div className="w-px h-6 bg-gray-200" />
+                </>
+            )}
+
             {/* Actions */}
             <div className="flex items-center gap-1">
                 <button
@@ -495,6 +725,7 @@ export function ContextToolbar() {
                 >
                     <FlipVertical size={16} />
                 </button>
+                <AlignMenu elements={selectedElements as CanvasElement[]} />
             </div>
 
             <div className="w-px h-6 bg-gray-200" />
@@ -521,6 +752,25 @@ export function ContextToolbar() {
                 )}
             </div>
 
+            {/* Boolean operations */}
+            {canCombine && (
+                <>
+                    <div className="w-px h-6 bg-gray-200" />
+                    <div className="flex items-center gap-1">
+                        {BOOLEAN_OPERATIONS.map((operation) => (
+                            <button
+                                key={operation.id}
+                                onClick={() => combineShapes(selectedIds, operation.id)}
+                                className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-all"
+                                title={BOOLEAN_OPERATION_LABELS[operation.id]}
+                            >
+                                {operation.icon}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+
             {/* Lock */}
             <button
                 onClick={() => isLocked ? unlockElement(selectedIds[0]) : lockElement(selectedIds[0])}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { useEditorStore } from '@/store/editorStore';
+import { useHistoryStore } from '@/store/historyStore';
+import { getProjectStorage } from '@/engine/storage';
+import { ProjectSummary } from '@/types/storage';
+import { ChevronDown, FilePlus, FileText, Save, Trash2 } from 'lucide-react';
+
+// Recent designs listed in the menu
+const RECENT_LIMIT = 8;
+
+/**
+ * Short "saved ... ago" label
+ */
+const formatSavedAt = (timestamp: number): string => {
+    const seconds = Math.round((Date.now() - timestamp) / 1000);
+    if (seconds < 60) return 'just now';
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.round(minutes / 60);
+    if (hours < 24) return `${hours} h ago`;
+    return new Date(timestamp).toLocaleDateString();
+};
+
+export function FileMenu() {
+    const projectId = useEditorStore((state) => state.project?.id);
+    const isSaving = useEditorStore((state) => state.isSaving);
+    const hasUnsavedChanges = useEditorStore((state) => state.hasUnsavedChanges);
+    const lastSavedAt = useEditorStore((state) => state.lastSavedAt);
+    const saveProject = useEditorStore((state) => state.saveProject);
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+    const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close dropdown when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    // Load recent designs and their cover thumbnails when the menu opens
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const storage = getProjectStorage();
+        if (!storage.isSupported()) return;
+
+        let cancelled = false;
+        const urls: string[] = [];
+
+        storage.listRecentProjects(RECENT_LIMIT).then(async (summaries) => {
+            if (cancelled) return;
+            setRecentProjects(summaries);
+
+            const entries = await Promise.all(summaries.map(async (summary) => {
+                const blob = summary.coverPageId ? await storage.getThumbnail(summary.id, summary.coverPageId) : null;
+                if (!blob) return null;
+                const url = URL.createObjectURL(blob);
+                urls.push(url);
+                return [summary.id, url] as const;
+            }));
+            if (!cancelled) {
+                setThumbnails(Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry !== null)));
+            }
+        }).catch((error) => {
+            console.error('Failed to list recent projects:', error);
+        });
+
+        return () => {
+            cancelled = true;
+            urls.forEach(url => URL.revokeObjectURL(url));
+        };
+    }, [isOpen]);
+
+    /**
+     * Start over with an empty undo history
+     */
+    const resetHistory = (label: string) => {
+        const history = useHistoryStore.getState();
+        history.clear();
+        history.pushState(label);
+    };
+
+    const handleNew = async () => {
+        setIsOpen(false);
+        if (useEditorStore.getState().hasUnsavedChanges) {
+            await saveProject();
+        }
+        useEditorStore.getState().createNewProject();
+        resetHistory('New design');
+    };
+
+    const handleSave = async () => {
+        setIsOpen(false);
+        await saveProject();
+    };
+
+    const handleOpen = async (summary: ProjectSummary) => {
+        setIsOpen(false);
+        if (summary.id === projectId) return;
+
+        if (useEditorStore.getState().hasUnsavedChanges) {
+            await saveProject();
+        }
+        if (await useEditorStore.getState().openProject(summary.id)) {
+            resetHistory('Opened design');
+        }
+    };
+
+    const handleDelete = async (summary: ProjectSummary) => {
+        // Autosave would write the open design straight back
+        if (summary.id === useEditorStore.getState().project?.id) return;
+
+        try {
+            await getProjectStorage().deleteProject(summary.id);
+            setRecentProjects(projects => projects.filter(p => p.id !== summary.id));
+        } catch (error) {
+            console.error('Failed to delete project:', error);
+        }
+    };
+
+    const status = isSaving
+        ? 'Saving…'
+        : hasUnsavedChanges
+            ? 'Unsaved changes'
+            : lastSavedAt
+                ? 'All changes saved'
+                : null;
+
+    return (
+        <div className="relative flex items-center gap-2" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`px-3 py-1.5 rounded-lg font-medium text-sm flex items-center gap-1 transition-colors ${isOpen
+                    ? 'bg-white/10 text-white'
+                    : 'hover:bg-white/10 text-gray-300 hover:text-white'
+                    }`}
+            >
+                File <ChevronDown size={14} aria-hidden="true" />
+            </button>
+            {status && (
+                <span className="text-[11px] text-gray-500 hidden xl:inline whitespace-nowrap">{status}</span>
+            )}
+
+            {isOpen && (
+                <div className="absolute top-full left-0 mt-2 w-72 bg-white rounded-xl shadow-xl border border-gray-100 py-2 z-50 animate-in fade-in slide-in-from-top-2 duration-200">
+                    <button
+                        onClick={handleNew}
+                        className="w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-violet-50 hover:text-violet-700 flex items-center gap-2 transition-colors"
+                    >
+                        <FilePlus size={14} className="text-gray-400" />
+                        New design
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving}
+                        className="w-full text-left px-4 py-2 text-xs text-gray-700 hover:bg-violet-50 hover:text-violet-700 flex items-center justify-between transition-colors disabled:opacity-50"
+                    >
+                        <span className="flex items-center gap-2">
+                            <Save size={14} className="text-gray-400" />
+                            Save
+                        </span>
+                        <span className="text-[10px] text-gray-400">Ctrl+S</span>
+                    </button>
+
+                    <div className="border-t border-gray-100 mt-1 pt-2">
+                        <p className="px-4 pb-1 text-xs font-bold text-gray-500 uppercase tracking-wider">Recent designs</p>
+                        {recentProjects.length === 0 && (
+                            <p className="px-4 py-2 text-xs text-gray-400">Saved designs appear here</p>
+                        )}
+                        <div className="max-h-72 overflow-y-auto">
+                            {recentProjects.map((summary) => (
+                                <div
+                                    key={summary.id}
+                                    className={`group flex items-center gap-3 px-4 py-2 hover:bg-violet-50 transition-colors ${summary.id === projectId ? 'bg-violet-50/60' : ''}`}
+                                >
+                                    <button
+                                        onClick={() => handleOpen(summary)}
+                                        className="flex-1 min-w-0 flex items-center gap-3 text-left"
+                                    >
+                                        <div className="relative w-12 h-9 rounded bg-gray-100 border border-gray-200 overflow-hidden flex items-center justify-center shrink-0">
+                                            {thumbnails[summary.id] ? (
+                                                <Image src={thumbnails[summary.id]} alt="" fill unoptimized className="object-cover" />
+                                            ) : (
+                                                <FileText size={14} className="text-gray-400" />
+                                            )}
+                                        </div>
+                                        <div className="min-w-0">
+                                            <div className="text-xs font-medium text-gray-700 group-hover:text-violet-700 truncate">
+                                                {summary.name}
+                                            </div>
+                                            <div className="text-[10px] text-gray-400">
+                                                {summary.pageCount} page{summary.pageCount === 1 ? '' : 's'} · {formatSavedAt(summary.savedAt)}
+                                            </div>
+                                        </div>
+                                    </button>
+                                    {summary.id !== projectId && (
+                                        <button
+                                            onClick={() => handleDelete(summary)}
+                                            className="p-1 rounded text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                                            title="Delete design"
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
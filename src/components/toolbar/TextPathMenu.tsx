@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useCanvasStore } from '@/store/canvasStore';
+import { useActivePage } from '@/store/editorStore';
+import { TextElement } from '@/types/canvas';
+import { getFabricCanvas } from '@/engine/fabric/FabricCanvas';
+import { isTextPathTarget } from '@/engine/text/textPath';
+import { ArrowLeftRight, Spline } from 'lucide-react';
+
+interface TextPathMenuProps {
+    element: TextElement;
+}
+
+// Settings being dragged, previewed on the canvas until released
+interface TextPathDraft {
+    curve?: number;
+    position?: number;
+}
+
+/**
+ * Curve dropdown for a text: bend it along an arc, or bind it to a circle or path
+ */
+export function TextPathMenu({ element }: TextPathMenuProps) {
+    const setTextCurve = useCanvasStore((state) => state.setTextCurve);
+    const bindTextToPath = useCanvasStore((state) => state.bindTextToPath);
+    const setTextPathPlacement = useCanvasStore((state) => state.setTextPathPlacement);
+    const activePage = useActivePage();
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [draft, setDraft] = useState<TextPathDraft | null>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close dropdown when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const targets = (activePage?.elements ?? []).filter(el => el.id !== element.id && isTextPathTarget(el));
+    const textPath = element.textPath ?? null;
+    const curve = draft?.curve ?? element.curve ?? 0;
+    const position = draft?.position ?? textPath?.position ?? 50;
+    const isActive = curve !== 0 || textPath !== null;
+
+    // Live preview while a slider is being dragged
+    const handleDraftChange = (updates: TextPathDraft) => {
+        const nextDraft = { ...draft, ...updates };
+        setDraft(nextDraft);
+        getFabricCanvas().updateText({
+            ...element,
+            curve: nextDraft.curve ?? element.curve,
+            textPath: textPath && { ...textPath, position: nextDraft.position ?? textPath.position },
+        });
+    };
+
+    // Save the dragged setting as a single history step
+    const commitDraft = () => {
+        if (!draft) return;
+        if (draft.curve !== undefined) setTextCurve(element.id, draft.curve);
+        if (draft.position !== undefined) setTextPathPlacement(element.id, { position: draft.position });
+        setDraft(null);
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`p-1.5 rounded transition-all ${isOpen || isActive
+                    ? 'bg-blue-100 text-blue-600'
+                    : 'text-gray-500 hover:text-blue-600 hover:bg-blue-50'
+                    }`}
+                title="Curve text"
+            >
+                <Spline size={14} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute top-full left-0 mt-2 w-60 bg-white rounded-xl shadow-xl border border-gray-100 p-3 z-50 animate-in fade-in slide-in-from-top-2 duration-200">
+                    <p className="pb-1.5 text-xs font-bold text-gray-500 uppercase tracking-wider">Follow</p>
+                    <select
+                        value={textPath?.elementId ?? ''}
+                        onChange={(e) => bindTextToPath(element.id, e.target.value || null)}
+                        className="w-full mb-3 px-2 py-1.5 text-xs text-gray-700 border border-gray-200 rounded-lg focus:outline-none focus:border-blue-400"
+                        title="Circle or path the text runs along"
+                    >
+                        <option value="">Arc</option>
+                        {textPath && !targets.some(el => el.id === textPath.elementId) && (
+                            <option value={textPath.elementId}>Removed element</option>
+                        )}
+                        {targets.map((el) => (
+                            <option key={el.id} value={el.id}>{el.name}</option>
+                        ))}
+                    </select>
+
+                    {textPath ? (
+                        <>
+                            <div className="flex justify-between items-center mb-1.5">
+                                <label className="text-xs font-medium text-gray-600">Position</label>
+                                <span className="text-xs text-gray-500 w-8 text-right">{position}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                value={position}
+                                onChange={(e) => handleDraftChange({ position: Number(e.target.value) })}
+                                onPointerUp={commitDraft}
+                                onKeyUp={commitDraft}
+                                className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                            <button
+                                onClick={() => setTextPathPlacement(element.id, { flip: !textPath.flip })}
+                                className={`mt-3 w-full px-2 py-1.5 flex items-center justify-center gap-1.5 text-[11px] rounded transition-all ${textPath.flip
+                                    ? 'bg-blue-100 text-blue-600'
+                                    : 'text-gray-600 hover:text-blue-600 hover:bg-blue-50'
+                                    }`}
+                                title="Run the text the other way along the outline"
+                            >
+                                <ArrowLeftRight size={14} />
+                                Flip side
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <div className="flex justify-between items-center mb-1.5">
+                                <label className="text-xs font-medium text-gray-600">Curve</label>
+                                <span className="text-xs text-gray-500 w-8 text-right">{curve}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={-100}
+                                max={100}
+                                value={curve}
+                                onChange={(e) => handleDraftChange({ curve: Number(e.target.value) })}
+                                onPointerUp={commitDraft}
+                                onKeyUp={commitDraft}
+                                className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -3,8 +3,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { useEditorStore, useZoom } from '@/store/editorStore';
 import { useHistoryStore } from '@/store/historyStore';
+import { FileMenu } from './FileMenu';
 import {
-    ChevronDown,
     Undo2,
     Redo2,
     Download,
@@ -21,6 +21,10 @@ import {
     Facebook,
     Presentation,
     Check,
+    Scissors,
+    Magnet,
+    Grid3x3,
+    Ruler,
 } from 'lucide-react';
 
 interface CanvasPreset {
@@ -58,15 +62,25 @@ export function TopToolbar() {
     const zoomOut = useEditorStore((state) => state.zoomOut);
     const resetZoom = useEditorStore((state) => state.resetZoom);
     const fitToScreen = useEditorStore((state) => state.fitToScreen);
+    const showGuides = useEditorStore((state) => state.showGuides);
+    const toggleGuides = useEditorStore((state) => state.toggleGuides);
+    const showRulers = useEditorStore((state) => state.showRulers);
+    const toggleRulers = useEditorStore((state) => state.toggleRulers);
+    const snapToGuides = useEditorStore((state) => state.snapToGuides);
+    const toggleSnapToGuides = useEditorStore((state) => state.toggleSnapToGuides);
+    const snapToGrid = useEditorStore((state) => state.snapToGrid);
+    const toggleSnapToGrid = useEditorStore((state) => state.toggleSnapToGrid);
+    const gridSize = useEditorStore((state) => state.gridSize);
+    const setGridSize = useEditorStore((state) => state.setGridSize);
     const openExportModal = useEditorStore((state) => state.openExportModal);
     const updatePage = useEditorStore((state) => state.updatePage);
+    const updateProjectName = useEditorStore((state) => state.updateProjectName);
 
     const undo = useHistoryStore((state) => state.undo);
     const redo = useHistoryStore((state) => state.redo);
     const canUndo = useHistoryStore((state) => state.past.length > 0);
     const canRedo = useHistoryStore((state) => state.future.length > 0);
 
-    const [projectName, setProjectName] = useState(project?.name || 'Untitled Video Design');
     const [isResizeOpen, setIsResizeOpen] = useState(false);
     const [width, setWidth] = useState(1920);
     const [height, setHeight] = useState(1080);
@@ -127,12 +141,8 @@ export function TopToolbar() {
         <header className="h-14 bg-[#18181b] text-gray-200 flex items-center justify-between px-4 pr-16 select-none z-50 relative border-b border-gray-800">
             {/* Left Section */}
             <div className="flex items-center gap-4">
-                {/* File Button */}
-                <div className="relative">
-                    <button className="px-3 py-1.5 hover:bg-white/10 rounded-lg font-medium text-sm flex items-center gap-1 text-gray-300 hover:text-white transition-colors">
-                        File <ChevronDown size={14} aria-hidden="true" />
-                    </button>
-                </div>
+                {/* File Menu */}
+                <FileMenu />
 
                 {/* Resize Button with Dropdown */}
                 <div className="relative" ref={resizeRef}>
@@ -227,8 +237,9 @@ export function TopToolbar() {
                 <input
                     className="bg-transparent border border-transparent hover:border-gray-700 focus:border-violet-500 rounded px-3 py-1.5 text-center text-sm font-medium focus:outline-none w-64 transition-all text-gray-300 placeholder-gray-600"
                     type="text"
-                    value={projectName}
-                    onChange={(e) => setProjectName(e.target.value)}
+                    value={project?.name ?? ''}
+                    placeholder="Untitled Design"
+                    onChange={(e) => updateProjectName(e.target.value)}
                 />
             </div>
 
@@ -261,6 +272,57 @@ export function TopToolbar() {
                     >
                         Fit
                     </button>
+                    <button
+                        onClick={toggleGuides}
+                        className={`p-1 rounded transition-colors ${showGuides
+                            ? 'bg-violet-500/20 text-violet-400'
+                            : 'text-gray-400 hover:text-white hover:bg-white/10'
+                            }`}
+                        title={showGuides ? 'Hide bleed and safe-area guides' : 'Show bleed and safe-area guides'}
+                    >
+                        <Scissors size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                        onClick={toggleRulers}
+                        className={`p-1 rounded transition-colors ${showRulers
+                            ? 'bg-violet-500/20 text-violet-400'
+                            : 'text-gray-400 hover:text-white hover:bg-white/10'
+                            }`}
+                        title={showRulers ? 'Hide rulers and guides' : 'Show rulers and guides'}
+                    >
+                        <Ruler size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                        onClick={toggleSnapToGuides}
+                        className={`p-1 rounded transition-colors ${snapToGuides
+                            ? 'bg-violet-500/20 text-violet-400'
+                            : 'text-gray-400 hover:text-white hover:bg-white/10'
+                            }`}
+                        title={snapToGuides ? 'Stop snapping to the page and other elements' : 'Snap to the page and other elements'}
+                    >
+                        <Magnet size={14} aria-hidden="true" />
+                    </button>
+                    <button
+                        onClick={toggleSnapToGrid}
+                        className={`p-1 rounded transition-colors ${snapToGrid
+                            ? 'bg-violet-500/20 text-violet-400'
+                            : 'text-gray-400 hover:text-white hover:bg-white/10'
+                            }`}
+                        title={snapToGrid ? 'Stop snapping to the grid' : 'Snap to the grid'}
+                    >
+                        <Grid3x3 size={14} aria-hidden="true" />
+                    </button>
+                    {snapToGrid && (
+                        <input
+                            type="number"
+                            min={1}
+                            max={500}
+                            value={gridSize}
+                            onChange={(e) => setGridSize(Number(e.target.value) || 1)}
+                            className="w-12 bg-transparent text-[10px] text-gray-300 border border-gray-700 rounded px-1 py-0.5"
+                            title="Grid size"
+                        />
+                    )}
                 </div>
 
                 {/* Preview Button */}
@@ -250,8 +250,10 @@ export class CanvasRenderer {
         const canvas = this.fabricCanvas.getCanvas();
         if (!canvas) return null;
 
+        // Read the full backing store (larger than width/height with retina scaling)
+        const element = canvas.getElement();
         const ctx = canvas.getContext();
-        return ctx.getImageData(0, 0, canvas.width!, canvas.height!);
+        return ctx.getImageData(0, 0, element.width, element.height);
     }
 
     /**
@@ -0,0 +1,500 @@
+// Animation Engine
+// Resolves ElementAnimation configs into per-frame object state
+
+import {
+    AnimationConfig,
+    AnimationKeyframe,
+    AnimationKeyframes,
+    AnimationTimeline,
+    AnimationType,
+    ElementAnimation,
+    createDefaultTimeline,
+    createElementAnimation,
+} from '@/types/animation';
+import { Page } from '@/types/project';
+import { getEasing } from './easing';
+
+// Resting (un-animated) state of an object, captured before playback
+export interface AnimatedBaseState {
+    left: number;
+    top: number;
+    scaleX: number;
+    scaleY: number;
+    angle: number;
+    skewX: number;
+    skewY: number;
+    opacity: number;
+    width: number; // scaled width in page pixels
+    height: number; // scaled height in page pixels
+}
+
+// Reveal mask used by wipe animations
+export interface AnimatedClip {
+    anchor: 'left' | 'right';
+    fraction: number; // 0 = hidden, 1 = fully revealed
+}
+
+// Object state at a given point on the timeline
+export interface AnimatedFrameState {
+    left: number;
+    top: number;
+    scaleX: number;
+    scaleY: number;
+    angle: number;
+    skewX: number;
+    skewY: number;
+    opacity: number;
+    clip: AnimatedClip | null;
+    textFraction: number; // share of characters shown (typewriter)
+}
+
+export interface AnimationContext {
+    pageWidth: number;
+    pageHeight: number;
+}
+
+export interface AnimationSample {
+    phase: 'before' | 'active' | 'after';
+    progress: number; // eased, direction-aware progress
+}
+
+// Absolute time windows (ms) for an element's animation slots
+export interface ElementAnimationSchedule {
+    elementId: string;
+    startTime: number;
+    endTime: number; // element leaves the page
+    entranceStart: number;
+    emphasisStart: number;
+    emphasisEnd: number;
+    exitStart: number;
+    naturalEnd: number;
+}
+
+// Share of the page dimension travelled by slide animations
+const SLIDE_DISTANCE_RATIO = 0.25;
+// Distance (px) travelled by float and bounce emphasis
+const FLOAT_DISTANCE = 12;
+const BOUNCE_DISTANCE = 24;
+const SHAKE_DISTANCE = 10;
+const PULSE_SCALE = 0.08;
+
+const EMPHASIS_TYPES: AnimationType[] = ['bounce', 'pulse', 'shake', 'float', 'flip'];
+
+/**
+ * Number of iterations for a config (Infinity for -1)
+ */
+export const getIterationCount = (config: AnimationConfig): number => {
+    if (config.iterations < 0) return Infinity;
+    return Math.max(1, config.iterations);
+};
+
+/**
+ * Time a config occupies including its delay
+ */
+export const getConfigSpan = (config: AnimationConfig): number => {
+    return config.delay + Math.max(1, config.duration) * getIterationCount(config);
+};
+
+/**
+ * Entrance and exit always play a finite number of times
+ */
+const toFiniteConfig = (config: AnimationConfig): AnimationConfig => {
+    return config.iterations < 0 ? { ...config, iterations: 1 } : config;
+};
+
+/**
+ * Sample a config at a time relative to its slot start (delay included)
+ */
+export const sampleAnimationConfig = (config: AnimationConfig, elapsed: number): AnimationSample => {
+    const easing = getEasing(config.easing);
+    const duration = Math.max(1, config.duration);
+    const iterations = getIterationCount(config);
+    const t = elapsed - config.delay;
+
+    const isReversed = (iteration: number) =>
+        config.direction === 'reverse' || (config.direction === 'alternate' && iteration % 2 === 1);
+
+    if (t < 0) {
+        return { phase: 'before', progress: isReversed(0) ? 1 : 0 };
+    }
+
+    if (t >= duration * iterations) {
+        return { phase: 'after', progress: isReversed(iterations - 1) ? 0 : 1 };
+    }
+
+    const iteration = Math.floor(t / duration);
+    let raw = (t - iteration * duration) / duration;
+    if (isReversed(iteration)) raw = 1 - raw;
+
+    return { phase: 'active', progress: easing(raw) };
+};
+
+/**
+ * Work out where each animation slot sits on the page timeline.
+ * Entrance plays from the element start, exit is anchored to the element
+ * end (its natural end when omitted) and emphasis fills the time in between.
+ */
+export const scheduleElementAnimation = (
+    animation: ElementAnimation,
+    startTime: number = 0,
+    endTime?: number
+): ElementAnimationSchedule => {
+    const entranceSpan = animation.entrance ? getConfigSpan(toFiniteConfig(animation.entrance)) : 0;
+    const exitSpan = animation.exit ? getConfigSpan(toFiniteConfig(animation.exit)) : 0;
+
+    let emphasisSpan = 0;
+    let emphasisFiniteSpan = 0;
+    if (animation.emphasis) {
+        emphasisSpan = getConfigSpan(animation.emphasis);
+        // Infinite emphasis contributes a single cycle to the natural length
+        emphasisFiniteSpan = Number.isFinite(emphasisSpan)
+            ? emphasisSpan
+            : animation.emphasis.delay + Math.max(1, animation.emphasis.duration);
+    }
+
+    const customSpan = animation.custom
+        ? Math.max(1, animation.custom.duration) * (animation.custom.iterations < 0 ? 1 : Math.max(1, animation.custom.iterations))
+        : 0;
+
+    const entranceStart = startTime;
+    const emphasisStart = entranceStart + entranceSpan;
+    const naturalEnd = Math.max(
+        emphasisStart + emphasisFiniteSpan + exitSpan,
+        startTime + customSpan
+    );
+
+    const exitStart = endTime !== undefined
+        ? Math.max(emphasisStart + emphasisFiniteSpan, endTime - exitSpan)
+        : naturalEnd - exitSpan;
+
+    const emphasisEnd = animation.exit
+        ? exitStart + animation.exit.delay
+        : Math.max(emphasisStart + emphasisFiniteSpan, endTime ?? naturalEnd);
+
+    return {
+        elementId: animation.elementId,
+        startTime,
+        endTime: endTime ?? naturalEnd,
+        entranceStart,
+        emphasisStart,
+        emphasisEnd,
+        exitStart,
+        naturalEnd,
+    };
+};
+
+/**
+ * Natural length of a set of animations (ms)
+ */
+export const getTimelineDuration = (
+    animations: ElementAnimation[],
+    startTimes: Record<string, number> = {}
+): number => {
+    return animations.reduce((max, animation) => {
+        const schedule = scheduleElementAnimation(animation, startTimes[animation.elementId] ?? 0);
+        return Math.max(max, schedule.naturalEnd);
+    }, 0);
+};
+
+/**
+ * Resolve a page's timeline, adding full-length tracks for untracked elements
+ */
+export const resolvePageTimeline = (page: Page): AnimationTimeline => {
+    const timeline = page.timeline ?? createDefaultTimeline(page.id);
+
+    const tracks = page.elements.map((element) => {
+        const track = timeline.tracks.find(t => t.elementId === element.id);
+        return track ?? {
+            elementId: element.id,
+            startTime: 0,
+            duration: timeline.totalDuration,
+        };
+    });
+
+    return { ...timeline, pageId: page.id, tracks };
+};
+
+/**
+ * Animations for every element on a page (empty entries for static elements)
+ */
+export const getPageAnimations = (page: Page): ElementAnimation[] => {
+    return page.elements.map((element) =>
+        page.animations?.find(a => a.elementId === element.id) ?? createElementAnimation(element.id)
+    );
+};
+
+/**
+ * Check whether an animation type is an emphasis effect
+ */
+export const isEmphasisType = (type: AnimationType): boolean => EMPHASIS_TYPES.includes(type);
+
+/**
+ * Apply an entrance/exit effect. `visibility` is 0 when fully hidden
+ * and 1 when the element rests at its base state.
+ */
+const applyVisibilityEffect = (
+    type: AnimationType,
+    visibility: number,
+    context: AnimationContext,
+    state: AnimatedFrameState
+): void => {
+    const hidden = 1 - visibility;
+
+    switch (type) {
+        case 'fade-in':
+        case 'fade-out':
+            state.opacity *= visibility;
+            break;
+
+        case 'slide-in-left':
+            state.left -= hidden * context.pageWidth * SLIDE_DISTANCE_RATIO;
+            state.opacity *= visibility;
+            break;
+
+        case 'slide-in-right':
+            state.left += hidden * context.pageWidth * SLIDE_DISTANCE_RATIO;
+            state.opacity *= visibility;
+            break;
+
+        case 'slide-in-top':
+            state.top -= hidden * context.pageHeight * SLIDE_DISTANCE_RATIO;
+            state.opacity *= visibility;
+            break;
+
+        case 'slide-in-bottom':
+            state.top += hidden * context.pageHeight * SLIDE_DISTANCE_RATIO;
+            state.opacity *= visibility;
+            break;
+
+        case 'zoom-in':
+        case 'zoom-out':
+            state.scaleX *= Math.max(0.0001, visibility);
+            state.scaleY *= Math.max(0.0001, visibility);
+            state.opacity *= Math.min(1, visibility);
+            break;
+
+        case 'rotate-in':
+        case 'rotate-out':
+            state.angle -= hidden * 180;
+            state.opacity *= visibility;
+            break;
+
+        case 'flip':
+            state.scaleX *= Math.max(0.0001, visibility);
+            break;
+
+        case 'wipe-left':
+            state.clip = { anchor: 'right', fraction: visibility };
+            break;
+
+        case 'wipe-right':
+            state.clip = { anchor: 'left', fraction: visibility };
+            break;
+
+        case 'typewriter':
+            state.textFraction = visibility;
+            break;
+
+        case 'none':
+            break;
+
+        default:
+            // Emphasis types used as entrance/exit fall back to a fade
+            state.opacity *= visibility;
+    }
+};
+
+/**
+ * Apply an emphasis effect for one cycle at `progress` (0..1)
+ */
+const applyEmphasisEffect = (
+    type: AnimationType,
+    progress: number,
+    base: AnimatedBaseState,
+    context: AnimationContext,
+    state: AnimatedFrameState
+): void => {
+    switch (type) {
+        case 'pulse': {
+            const scale = 1 + PULSE_SCALE * Math.sin(Math.PI * progress);
+            state.scaleX *= scale;
+            state.scaleY *= scale;
+            break;
+        }
+
+        case 'bounce': {
+            const distance = Math.min(BOUNCE_DISTANCE, Math.max(4, base.height * 0.15));
+            state.top -= Math.abs(Math.sin(Math.PI * progress)) * distance;
+            break;
+        }
+
+        case 'shake':
+            state.left += Math.sin(progress * Math.PI * 8) * SHAKE_DISTANCE * (1 - progress);
+            break;
+
+        case 'float':
+            state.top -= Math.sin(Math.PI * progress) * FLOAT_DISTANCE;
+            break;
+
+        case 'flip':
+            state.scaleX *= Math.cos(2 * Math.PI * progress) || 0.0001;
+            break;
+
+        case 'none':
+            break;
+
+        default:
+            // Entrance-style types replay their reveal each cycle
+            applyVisibilityEffect(type, progress, context, state);
+    }
+};
+
+/**
+ * Interpolate custom keyframes at `progress` (0..1)
+ */
+export const interpolateKeyframes = (
+    keyframes: AnimationKeyframe[],
+    progress: number
+): Required<AnimationKeyframe['properties']> => {
+    const identity: Required<AnimationKeyframe['properties']> = {
+        opacity: 1,
+        x: 0,
+        y: 0,
+        scaleX: 1,
+        scaleY: 1,
+        rotation: 0,
+        skewX: 0,
+        skewY: 0,
+    };
+
+    if (keyframes.length === 0) return identity;
+
+    const sorted = [...keyframes].sort((a, b) => a.offset - b.offset);
+    const resolve = (frame: AnimationKeyframe) => ({ ...identity, ...frame.properties });
+
+    if (progress <= sorted[0].offset) return resolve(sorted[0]);
+    const last = sorted[sorted.length - 1];
+    if (progress >= last.offset) return resolve(last);
+
+    const nextIndex = sorted.findIndex(frame => frame.offset >= progress);
+    const from = resolve(sorted[nextIndex - 1]);
+    const to = resolve(sorted[nextIndex]);
+    const span = sorted[nextIndex].offset - sorted[nextIndex - 1].offset;
+    const t = span > 0 ? (progress - sorted[nextIndex - 1].offset) / span : 1;
+
+    const result = { ...identity };
+    (Object.keys(identity) as Array<keyof typeof identity>).forEach((key) => {
+        result[key] = from[key] + (to[key] - from[key]) * t;
+    });
+    return result;
+};
+
+/**
+ * Apply custom keyframes relative to the base state
+ */
+const applyCustomKeyframes = (
+    custom: AnimationKeyframes,
+    elapsed: number,
+    state: AnimatedFrameState
+): void => {
+    const sample = sampleAnimationConfig({
+        type: 'none',
+        duration: custom.duration,
+        delay: 0,
+        easing: custom.easing,
+        trigger: 'manual',
+        iterations: custom.iterations,
+        direction: 'normal',
+        fillMode: 'both',
+    }, elapsed);
+
+    const frame = interpolateKeyframes(custom.keyframes, sample.progress);
+    state.left += frame.x;
+    state.top += frame.y;
+    state.scaleX *= frame.scaleX;
+    state.scaleY *= frame.scaleY;
+    state.angle += frame.rotation;
+    state.skewX += frame.skewX;
+    state.skewY += frame.skewY;
+    state.opacity *= frame.opacity;
+};
+
+/**
+ * Whether a config holds its state outside the active window
+ */
+const fillsBackwards = (config: AnimationConfig) =>
+    config.fillMode === 'backwards' || config.fillMode === 'both';
+const fillsForwards = (config: AnimationConfig) =>
+    config.fillMode === 'forwards' || config.fillMode === 'both';
+
+/**
+ * Resolve the state of one element at `time` (ms) on the page timeline
+ */
+export const resolveElementState = (
+    animation: ElementAnimation,
+    base: AnimatedBaseState,
+    time: number,
+    context: AnimationContext,
+    schedule: ElementAnimationSchedule = scheduleElementAnimation(animation)
+): AnimatedFrameState => {
+    const state: AnimatedFrameState = {
+        left: base.left,
+        top: base.top,
+        scaleX: base.scaleX,
+        scaleY: base.scaleY,
+        angle: base.angle,
+        skewX: base.skewX,
+        skewY: base.skewY,
+        opacity: base.opacity,
+        clip: null,
+        textFraction: 1,
+    };
+
+    // Elements are off the page outside their timeline window
+    if (time < schedule.startTime || time > schedule.endTime) {
+        state.opacity = 0;
+        return state;
+    }
+
+    // Custom keyframes run from the element start
+    if (animation.custom && animation.custom.keyframes.length > 0 && time >= schedule.startTime) {
+        applyCustomKeyframes(animation.custom, time - schedule.startTime, state);
+    }
+
+    // Entrance: an element is never visible before it has entered
+    if (animation.entrance && animation.entrance.type !== 'none') {
+        const config = toFiniteConfig(animation.entrance);
+        const sample = sampleAnimationConfig(config, time - schedule.entranceStart);
+        if (sample.phase === 'before') {
+            applyVisibilityEffect(config.type, 0, context, state);
+        } else if (sample.phase === 'active') {
+            applyVisibilityEffect(config.type, sample.progress, context, state);
+        }
+    }
+
+    // Emphasis: loops between entrance and exit
+    if (animation.emphasis && animation.emphasis.type !== 'none' && time < schedule.emphasisEnd) {
+        const config = animation.emphasis;
+        const sample = sampleAnimationConfig(config, time - schedule.emphasisStart);
+        const applies = sample.phase === 'active'
+            || (sample.phase === 'before' && fillsBackwards(config))
+            || (sample.phase === 'after' && fillsForwards(config));
+        if (applies) {
+            applyEmphasisEffect(config.type, sample.progress, base, context, state);
+        }
+    }
+
+    // Exit: anchored to the end of the timeline
+    if (animation.exit && animation.exit.type !== 'none') {
+        const config = toFiniteConfig(animation.exit);
+        const sample = sampleAnimationConfig(config, time - schedule.exitStart);
+        if (sample.phase === 'active') {
+            applyVisibilityEffect(config.type, 1 - sample.progress, context, state);
+        } else if (sample.phase === 'after' && fillsForwards(config)) {
+            applyVisibilityEffect(config.type, 0, context, state);
+        }
+    }
+
+    state.opacity = Math.max(0, Math.min(1, state.opacity));
+    return state;
+};
@@ -0,0 +1,356 @@
+// Animation Player
+// Plays, pauses and scrubs element animations on the Fabric canvas
+
+import { fabric } from 'fabric';
+import { ElementAnimation, TimelineTrack } from '@/types/animation';
+import { Page } from '@/types/project';
+import { getFabricCanvas } from '../fabric/FabricCanvas';
+import {
+    AnimatedBaseState,
+    AnimatedFrameState,
+    ElementAnimationSchedule,
+    getPageAnimations,
+    getTimelineDuration,
+    resolveElementState,
+    resolvePageTimeline,
+    scheduleElementAnimation,
+} from './AnimationEngine';
+
+export interface AnimationPlayerOptions {
+    tracks?: TimelineTrack[]; // element timing; untracked elements span the timeline
+    totalDuration?: number; // overrides the natural timeline length
+    loop?: boolean;
+}
+
+interface PlayerTrack {
+    animation: ElementAnimation;
+    schedule: ElementAnimationSchedule;
+}
+
+interface CapturedObject {
+    object: fabric.Object;
+    base: AnimatedBaseState;
+    selectable: boolean;
+    evented: boolean;
+    text?: string;
+    textWidth?: number;
+    textHeight?: number;
+    clipPath?: fabric.Object;
+}
+
+// Used when nothing on the timeline has a natural end
+const DEFAULT_PREVIEW_DURATION = 3000;
+
+export class AnimationPlayer {
+    private fabricCanvas = getFabricCanvas();
+    private tracks: PlayerTrack[] = [];
+    private captured: Map<string, CapturedObject> = new Map();
+    private duration = 0;
+    private currentTime = 0;
+    private playing = false;
+    private loop = false;
+    private frameId: number | null = null;
+    private lastTimestamp: number | null = null;
+
+    // Event callbacks
+    public onTimeUpdate?: (time: number, duration: number) => void;
+    public onPlayStateChange?: (isPlaying: boolean) => void;
+
+    /**
+     * Load animations for the current page, restoring any previous preview
+     */
+    public load(animations: ElementAnimation[], options: AnimationPlayerOptions = {}): void {
+        this.stop();
+
+        const tracks = options.tracks ?? [];
+        const startTimes: Record<string, number> = {};
+        tracks.forEach((track) => {
+            startTimes[track.elementId] = track.startTime;
+        });
+
+        const naturalDuration = getTimelineDuration(animations, startTimes);
+        this.duration = options.totalDuration ?? (naturalDuration || DEFAULT_PREVIEW_DURATION);
+        this.loop = options.loop ?? false;
+
+        this.tracks = animations.map((animation) => {
+            const track = tracks.find(t => t.elementId === animation.elementId);
+            return {
+                animation,
+                schedule: track
+                    ? scheduleElementAnimation(animation, track.startTime, track.startTime + track.duration)
+                    : scheduleElementAnimation(animation, 0, this.duration),
+            };
+        });
+    }
+
+    /**
+     * Load every element of a page with its timeline placement.
+     * The page must be the one currently shown on the canvas.
+     */
+    public loadPage(page: Page, options: Pick<AnimationPlayerOptions, 'loop'> = {}): void {
+        const timeline = resolvePageTimeline(page);
+        this.load(getPageAnimations(page), {
+            tracks: timeline.tracks,
+            totalDuration: timeline.totalDuration,
+            loop: options.loop,
+        });
+    }
+
+    /**
+     * Start or resume playback
+     */
+    public play(): void {
+        if (this.playing || this.tracks.length === 0) return;
+
+        if (this.currentTime >= this.duration) {
+            this.currentTime = 0;
+        }
+
+        this.captureBaseStates();
+        this.playing = true;
+        this.lastTimestamp = null;
+        this.frameId = requestAnimationFrame(this.tick);
+        this.onPlayStateChange?.(true);
+    }
+
+    /**
+     * Pause playback, keeping the current frame on the canvas
+     */
+    public pause(): void {
+        if (!this.playing) return;
+
+        this.playing = false;
+        if (this.frameId !== null) {
+            cancelAnimationFrame(this.frameId);
+            this.frameId = null;
+        }
+        this.onPlayStateChange?.(false);
+    }
+
+    /**
+     * Stop playback and restore every object to its resting state
+     */
+    public stop(): void {
+        this.pause();
+        this.restoreBaseStates();
+        this.currentTime = 0;
+        this.onTimeUpdate?.(0, this.duration);
+    }
+
+    /**
+     * Jump to a time (ms) and render that frame
+     */
+    public seek(time: number): void {
+        this.currentTime = Math.max(0, Math.min(this.duration, time));
+        this.renderAt(this.currentTime);
+        this.onTimeUpdate?.(this.currentTime, this.duration);
+    }
+
+    /**
+     * Synchronously render the frame at `time` (used for scrubbing and video export)
+     */
+    public renderAt(time: number): void {
+        const canvas = this.fabricCanvas.getCanvas();
+        if (!canvas) return;
+
+        this.captureBaseStates();
+
+        const context = {
+            pageWidth: canvas.getWidth(),
+            pageHeight: canvas.getHeight(),
+        };
+
+        this.tracks.forEach(({ animation, schedule }) => {
+            const captured = this.captured.get(animation.elementId);
+            if (!captured) return;
+
+            const state = resolveElementState(animation, captured.base, time, context, schedule);
+            this.applyState(captured, state);
+        });
+
+        canvas.renderAll();
+    }
+
+    public getCurrentTime(): number {
+        return this.currentTime;
+    }
+
+    public getDuration(): number {
+        return this.duration;
+    }
+
+    public isPlaying(): boolean {
+        return this.playing;
+    }
+
+    /**
+     * Check whether objects are currently showing an animated frame
+     */
+    public isPreviewing(): boolean {
+        return this.captured.size > 0;
+    }
+
+    private tick = (timestamp: number): void => {
+        if (!this.playing) return;
+
+        if (this.lastTimestamp !== null) {
+            this.currentTime += timestamp - this.lastTimestamp;
+        }
+        this.lastTimestamp = timestamp;
+
+        if (this.currentTime >= this.duration) {
+            if (this.loop) {
+                this.currentTime = this.duration > 0 ? this.currentTime % this.duration : 0;
+            } else {
+                this.currentTime = this.duration;
+                this.renderAt(this.currentTime);
+                this.onTimeUpdate?.(this.currentTime, this.duration);
+                this.pause();
+                return;
+            }
+        }
+
+        this.renderAt(this.currentTime);
+        this.onTimeUpdate?.(this.currentTime, this.duration);
+        this.frameId = requestAnimationFrame(this.tick);
+    };
+
+    /**
+     * Record the resting state of animated objects (once per preview).
+     * They can't be picked while they show a frame, so a drag never saves an animated state.
+     */
+    private captureBaseStates(): void {
+        this.tracks.forEach(({ animation }) => {
+            const id = animation.elementId;
+            if (this.captured.has(id)) return;
+
+            const object = this.fabricCanvas.getObjectById(id);
+            if (!object) return;
+
+            const captured: CapturedObject = {
+                object,
+                base: {
+                    left: object.left ?? 0,
+                    top: object.top ?? 0,
+                    scaleX: object.scaleX ?? 1,
+                    scaleY: object.scaleY ?? 1,
+                    angle: object.angle ?? 0,
+                    skewX: object.skewX ?? 0,
+                    skewY: object.skewY ?? 0,
+                    opacity: object.opacity ?? 1,
+                    width: object.getScaledWidth(),
+                    height: object.getScaledHeight(),
+                },
+                selectable: object.selectable ?? true,
+                evented: object.evented ?? true,
+                clipPath: object.clipPath,
+            };
+            object.set({ selectable: false, evented: false });
+
+            if (object instanceof fabric.Text) {
+                captured.text = object.text;
+                captured.textWidth = object.width;
+                captured.textHeight = object.height;
+            }
+
+            this.captured.set(id, captured);
+        });
+    }
+
+    /**
+     * Put every captured object back to its resting state
+     */
+    private restoreBaseStates(): void {
+        if (this.captured.size === 0) return;
+
+        this.captured.forEach((captured) => {
+            const { object, base } = captured;
+            object.set({
+                left: base.left,
+                top: base.top,
+                scaleX: base.scaleX,
+                scaleY: base.scaleY,
+                angle: base.angle,
+                skewX: base.skewX,
+                skewY: base.skewY,
+                opacity: base.opacity,
+                clipPath: captured.clipPath,
+                selectable: captured.selectable,
+                evented: captured.evented,
+            });
+
+            if (object instanceof fabric.Text && captured.text !== undefined) {
+                object.set('text', captured.text);
+            }
+
+            object.setCoords();
+        });
+
+        this.captured.clear();
+        this.fabricCanvas.getCanvas()?.renderAll();
+    }
+
+    /**
+     * Apply a resolved frame to a Fabric object
+     */
+    private applyState(captured: CapturedObject, state: AnimatedFrameState): void {
+        const { object } = captured;
+
+        object.set({
+            left: state.left,
+            top: state.top,
+            scaleX: state.scaleX,
+            scaleY: state.scaleY,
+            angle: state.angle,
+            skewX: state.skewX,
+            skewY: state.skewY,
+            opacity: state.opacity,
+        });
+
+        if (state.clip) {
+            const width = object.width ?? 0;
+            const height = object.height ?? 0;
+            const visibleWidth = width * Math.max(0, Math.min(1, state.clip.fraction));
+
+            object.set('clipPath', new fabric.Rect({
+                left: state.clip.anchor === 'left' ? -width / 2 : width / 2 - visibleWidth,
+                top: -height / 2,
+                width: visibleWidth,
+                height,
+                originX: 'left',
+                originY: 'top',
+            }));
+        } else if (object.clipPath !== captured.clipPath) {
+            object.set('clipPath', captured.clipPath);
+        }
+
+        if (object instanceof fabric.Text && captured.text !== undefined) {
+            const length = Math.round(captured.text.length * state.textFraction);
+            const text = captured.text.slice(0, length);
+            if (object.text !== text) {
+                object.set('text', text);
+                // Keep the box size fixed so characters appear in place
+                object.set({ width: captured.textWidth, height: captured.textHeight });
+            }
+        }
+
+        object.dirty = true;
+    }
+}
+
+// Singleton instance
+let animationPlayerInstance: AnimationPlayer | null = null;
+
+export const getAnimationPlayer = (): AnimationPlayer => {
+    if (!animationPlayerInstance) {
+        animationPlayerInstance = new AnimationPlayer();
+    }
+    return animationPlayerInstance;
+};
+
+export const resetAnimationPlayer = (): void => {
+    if (animationPlayerInstance) {
+        animationPlayerInstance.stop();
+        animationPlayerInstance = null;
+    }
+};
@@ -0,0 +1,97 @@
+// Animation Easing
+// Easing curves for EasingType values
+
+import { EasingType } from '@/types/animation';
+
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Create a CSS-style cubic-bezier easing function
+ */
+export const cubicBezier = (x1: number, y1: number, x2: number, y2: number): EasingFunction => {
+    const sampleX = (t: number) => ((1 - 3 * x2 + 3 * x1) * t + (3 * x2 - 6 * x1)) * t * t + 3 * x1 * t;
+    const sampleY = (t: number) => ((1 - 3 * y2 + 3 * y1) * t + (3 * y2 - 6 * y1)) * t * t + 3 * y1 * t;
+    const sampleDerivativeX = (t: number) =>
+        3 * (1 - 3 * x2 + 3 * x1) * t * t + 2 * (3 * x2 - 6 * x1) * t + 3 * x1;
+
+    // Solve x(t) = x with Newton-Raphson, falling back to bisection
+    const solveT = (x: number): number => {
+        let t = x;
+        for (let i = 0; i < 8; i++) {
+            const error = sampleX(t) - x;
+            if (Math.abs(error) < 1e-6) return t;
+            const derivative = sampleDerivativeX(t);
+            if (Math.abs(derivative) < 1e-6) break;
+            t -= error / derivative;
+        }
+
+        let lower = 0;
+        let upper = 1;
+        t = x;
+        while (lower < upper) {
+            const value = sampleX(t);
+            if (Math.abs(value - x) < 1e-6) return t;
+            if (x > value) lower = t;
+            else upper = t;
+            t = (upper - lower) / 2 + lower;
+            if (upper - lower < 1e-6) break;
+        }
+        return t;
+    };
+
+    return (t: number) => {
+        if (t <= 0) return 0;
+        if (t >= 1) return 1;
+        return sampleY(solveT(t));
+    };
+};
+
+/**
+ * Bounce out (ball dropping onto the floor)
+ */
+const bounceOut: EasingFunction = (t) => {
+    const n1 = 7.5625;
+    const d1 = 2.75;
+
+    if (t < 1 / d1) return n1 * t * t;
+    if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+    if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+    return n1 * (t -= 2.625 / d1) * t + 0.984375;
+};
+
+/**
+ * Elastic out (overshoots and settles with a spring)
+ */
+const elasticOut: EasingFunction = (t) => {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+    const c4 = (2 * Math.PI) / 3;
+    return Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * c4) + 1;
+};
+
+/**
+ * Back out (slight overshoot before settling)
+ */
+const backOut: EasingFunction = (t) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+};
+
+export const EASING_FUNCTIONS: Record<EasingType, EasingFunction> = {
+    linear: (t) => t,
+    ease: cubicBezier(0.25, 0.1, 0.25, 1),
+    'ease-in': cubicBezier(0.42, 0, 1, 1),
+    'ease-out': cubicBezier(0, 0, 0.58, 1),
+    'ease-in-out': cubicBezier(0.42, 0, 0.58, 1),
+    bounce: bounceOut,
+    elastic: elasticOut,
+    back: backOut,
+};
+
+/**
+ * Get easing function by type (falls back to linear)
+ */
+export const getEasing = (easing: EasingType): EasingFunction => {
+    return EASING_FUNCTIONS[easing] ?? EASING_FUNCTIONS.linear;
+};
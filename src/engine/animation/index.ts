@@ -0,0 +1,29 @@
+// Animation Engine Index
+// Re-export animation playback utilities
+
+export { cubicBezier, EASING_FUNCTIONS, getEasing } from './easing';
+export type { EasingFunction } from './easing';
+
+export {
+    getIterationCount,
+    getConfigSpan,
+    sampleAnimationConfig,
+    scheduleElementAnimation,
+    getTimelineDuration,
+    resolvePageTimeline,
+    getPageAnimations,
+    isEmphasisType,
+    interpolateKeyframes,
+    resolveElementState,
+} from './AnimationEngine';
+export type {
+    AnimatedBaseState,
+    AnimatedClip,
+    AnimatedFrameState,
+    AnimationContext,
+    AnimationSample,
+    ElementAnimationSchedule,
+} from './AnimationEngine';
+
+export { AnimationPlayer, getAnimationPlayer, resetAnimationPlayer } from './AnimationPlayer';
+export type { AnimationPlayerOptions } from './AnimationPlayer';
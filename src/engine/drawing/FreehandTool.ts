@@ -0,0 +1,160 @@
+// Freehand Tool
+// Captures pen, mouse and touch input on the Fabric canvas and previews strokes live
+
+import { fabric } from 'fabric';
+import { PathPoint } from '@/types/canvas';
+import { BRUSH_PRESETS, DrawingSettings } from '@/types/drawing';
+import { getStrokeOutline, smoothPoints } from './freehand';
+import { beginOverlay, suspendSelection } from './overlay';
+
+export interface FreehandToolHandlers {
+    onStroke: (points: PathPoint[]) => void; // Brush stroke finished, in page coordinates
+    onErase: (trail: Array<{ x: number; y: number }>) => void; // Eraser lifted
+}
+
+// Pressure reported for devices without a pressure sensor
+const DEFAULT_PRESSURE = 0.5;
+
+export class FreehandTool {
+    private canvas: fabric.Canvas;
+    private settings: DrawingSettings;
+    private handlers: FreehandToolHandlers;
+    private points: PathPoint[] = [];
+    private pointerId: number | null = null;
+    private restoreSelection: (() => void) | null = null;
+
+    constructor(canvas: fabric.Canvas, settings: DrawingSettings, handlers: FreehandToolHandlers) {
+        this.canvas = canvas;
+        this.settings = settings;
+        this.handlers = handlers;
+    }
+
+    /**
+     * Start capturing input; selection is suspended while drawing
+     */
+    public enable(): void {
+        if (this.restoreSelection) return;
+
+        this.restoreSelection = suspendSelection(this.canvas, 'crosshair');
+
+        const element = this.canvas.getSelectionElement();
+        element.addEventListener('pointerdown', this.handlePointerDown);
+        element.addEventListener('pointermove', this.handlePointerMove);
+        element.addEventListener('pointerup', this.handlePointerUp);
+        element.addEventListener('pointercancel', this.handlePointerCancel);
+    }
+
+    /**
+     * Stop capturing input and restore selection
+     */
+    public disable(): void {
+        if (!this.restoreSelection) return;
+
+        const element = this.canvas.getSelectionElement();
+        element.removeEventListener('pointerdown', this.handlePointerDown);
+        element.removeEventListener('pointermove', this.handlePointerMove);
+        element.removeEventListener('pointerup', this.handlePointerUp);
+        element.removeEventListener('pointercancel', this.handlePointerCancel);
+
+        this.reset();
+        this.restoreSelection();
+        this.restoreSelection = null;
+    }
+
+    public setSettings(settings: DrawingSettings): void {
+        this.settings = settings;
+    }
+
+    private handlePointerDown = (e: PointerEvent): void => {
+        if (this.pointerId !== null || e.button !== 0) return;
+
+        e.preventDefault();
+        this.pointerId = e.pointerId;
+        this.canvas.getSelectionElement().setPointerCapture(e.pointerId);
+        this.points = [this.toPoint(e)];
+        this.renderPreview();
+    };
+
+    private handlePointerMove = (e: PointerEvent): void => {
+        if (e.pointerId !== this.pointerId) return;
+
+        // Coalesced events keep fast strokes smooth
+        const events = e.getCoalescedEvents?.() ?? [];
+        (events.length > 0 ? events : [e]).forEach(event => this.points.push(this.toPoint(event)));
+        this.renderPreview();
+    };
+
+    private handlePointerUp = (e: PointerEvent): void => {
+        if (e.pointerId !== this.pointerId) return;
+
+        const points = this.points;
+        this.reset();
+        if (points.length === 0) return;
+
+        if (this.settings.tool === 'eraser') {
+            this.handlers.onErase(points.map(({ x, y }) => ({ x, y })));
+        } else {
+            this.handlers.onStroke(points);
+        }
+    };
+
+    private handlePointerCancel = (e: PointerEvent): void => {
+        if (e.pointerId === this.pointerId) this.reset();
+    };
+
+    private reset(): void {
+        if (this.pointerId !== null && this.canvas.getSelectionElement().hasPointerCapture(this.pointerId)) {
+            this.canvas.getSelectionElement().releasePointerCapture(this.pointerId);
+        }
+        this.pointerId = null;
+        this.points = [];
+        this.canvas.clearContext(this.canvas.getSelectionContext());
+    }
+
+    /**
+     * Page coordinates and pressure of a pointer sample
+     */
+    private toPoint(e: PointerEvent): PathPoint {
+        const pointer = this.canvas.getPointer(e);
+        const pressure = e.pointerType === 'pen' && e.pressure > 0 ? e.pressure : DEFAULT_PRESSURE;
+        return { x: pointer.x, y: pointer.y, pressure };
+    }
+
+    /**
+     * Draw the stroke in progress on Fabric's top layer
+     */
+    private renderPreview(): void {
+        const ctx = beginOverlay(this.canvas);
+        if (this.points.length === 0) {
+            ctx.restore();
+            return;
+        }
+
+        if (this.settings.tool === 'eraser') {
+            ctx.strokeStyle = 'rgba(100, 116, 139, 0.35)';
+            ctx.lineWidth = this.settings.eraserSize;
+            ctx.lineCap = 'round';
+            ctx.lineJoin = 'round';
+            ctx.beginPath();
+            this.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+            if (this.points.length === 1) ctx.lineTo(this.points[0].x + 0.01, this.points[0].y);
+            ctx.stroke();
+        } else {
+            const { thinning } = BRUSH_PRESETS[this.settings.tool];
+            const outline = getStrokeOutline(
+                smoothPoints(this.points, this.settings.smoothing, this.settings.size),
+                this.settings.size,
+                thinning
+            );
+
+            ctx.globalAlpha = this.settings.opacity;
+            ctx.fillStyle = this.settings.color;
+            ctx.beginPath();
+            outline.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+            ctx.closePath();
+            ctx.fill();
+        }
+
+        ctx.restore();
+    }
+}
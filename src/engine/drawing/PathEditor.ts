@@ -0,0 +1,286 @@
+// Path Editor
+// Drags anchors and handles of a path element, and adds, deletes and converts nodes
+
+import { fabric } from 'fabric';
+import { PathElement } from '@/types/canvas';
+import { PathContour } from '@/types/drawing';
+import {
+    contoursToCommands,
+    findNodeAt,
+    findSegmentAt,
+    insertNode,
+    moveHandle,
+    moveNode,
+    pagePointToPath,
+    pathDataToContours,
+    pathPointToPage,
+    placeEditedPath,
+    removeNode,
+    toggleNodeType,
+    translateContours,
+} from './vectorPath';
+import { OVERLAY_COLOR, beginOverlay, drawAnchor, drawHandle, getDisplayScale, suspendSelection, traceCommands } from './overlay';
+
+export interface PathEditorHandlers {
+    onPreview: (element: PathElement) => void; // Geometry changed mid-drag
+    onChange: (element: PathElement) => void; // Edit finished
+    onExit: () => void; // Clicked away, or Escape/Enter
+}
+
+interface NodeRef {
+    contour: number;
+    node: number;
+}
+
+type Drag =
+    | { type: 'node'; target: NodeRef; last: { x: number; y: number } }
+    | { type: 'handle'; target: NodeRef; side: 'in' | 'out' };
+
+// Screen pixels
+const ANCHOR_SIZE = 8;
+const HIT_RADIUS = 6;
+
+export class PathEditor {
+    private canvas: fabric.Canvas;
+    private element: PathElement;
+    private handlers: PathEditorHandlers;
+    private contours: PathContour[];
+    private selected: NodeRef | null = null;
+    private drag: Drag | null = null;
+    private changed = false;
+    private restoreSelection: (() => void) | null = null;
+
+    constructor(canvas: fabric.Canvas, element: PathElement, handlers: PathEditorHandlers) {
+        this.canvas = canvas;
+        this.element = element;
+        this.handlers = handlers;
+        this.contours = pathDataToContours(element.pathData);
+    }
+
+    public enable(): void {
+        if (this.restoreSelection) return;
+
+        this.restoreSelection = suspendSelection(this.canvas, 'default');
+
+        const element = this.canvas.getSelectionElement();
+        element.addEventListener('pointerdown', this.handlePointerDown);
+        element.addEventListener('pointermove', this.handlePointerMove);
+        element.addEventListener('pointerup', this.handlePointerUp);
+        element.addEventListener('dblclick', this.handleDoubleClick);
+        window.addEventListener('keydown', this.handleKeyDown, true);
+        this.canvas.on('after:render', this.render);
+        this.render();
+    }
+
+    public disable(): void {
+        if (!this.restoreSelection) return;
+
+        const element = this.canvas.getSelectionElement();
+        element.removeEventListener('pointerdown', this.handlePointerDown);
+        element.removeEventListener('pointermove', this.handlePointerMove);
+        element.removeEventListener('pointerup', this.handlePointerUp);
+        element.removeEventListener('dblclick', this.handleDoubleClick);
+        window.removeEventListener('keydown', this.handleKeyDown, true);
+        this.canvas.off('after:render', this.render);
+
+        this.restoreSelection();
+        this.restoreSelection = null;
+    }
+
+    /**
+     * Pointer position in the path's own coordinates, and the hit radius there
+     */
+    private toLocal(e: PointerEvent | MouseEvent): { point: { x: number; y: number }; tolerance: number } {
+        const { transform } = this.element;
+        const scale = Math.max(Math.abs(transform.scaleX), Math.abs(transform.scaleY)) || 1;
+        return {
+            point: pagePointToPath(this.element, this.canvas.getPointer(e)),
+            tolerance: HIT_RADIUS / getDisplayScale(this.canvas) / scale,
+        };
+    }
+
+    /**
+     * Handles shown for the selected node and the neighbouring segment ends
+     */
+    private getVisibleHandles(): Array<{ target: NodeRef; side: 'in' | 'out' }> {
+        if (!this.selected) return [];
+
+        const { contour, node } = this.selected;
+        const { nodes, closed } = this.contours[contour];
+        const handles: Array<{ target: NodeRef; side: 'in' | 'out' }> = [
+            { target: this.selected, side: 'in' },
+            { target: this.selected, side: 'out' },
+        ];
+        if (node > 0 || closed) {
+            handles.push({ target: { contour, node: (node - 1 + nodes.length) % nodes.length }, side: 'out' });
+        }
+        if (node < nodes.length - 1 || closed) {
+            handles.push({ target: { contour, node: (node + 1) % nodes.length }, side: 'in' });
+        }
+
+        return handles.filter(({ target, side }) => {
+            const n = this.contours[target.contour].nodes[target.node];
+            return side === 'in' ? n.handleIn : n.handleOut;
+        });
+    }
+
+    private handlePointerDown = (e: PointerEvent): void => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+
+        const { point, tolerance } = this.toLocal(e);
+
+        const handle = this.getVisibleHandles().find(({ target, side }) => {
+            const node = this.contours[target.contour].nodes[target.node];
+            const position = side === 'in' ? node.handleIn : node.handleOut;
+            return position && Math.hypot(position.x - point.x, position.y - point.y) <= tolerance;
+        });
+
+        if (handle) {
+            this.drag = { type: 'handle', ...handle };
+        } else {
+            const nodeHit = findNodeAt(this.contours, point, tolerance);
+            const segmentHit = nodeHit ? null : findSegmentAt(this.contours, point, tolerance);
+
+            if (nodeHit) {
+                this.selected = nodeHit;
+                // Alt-click converts between sharp and smooth
+                if (e.altKey) {
+                    toggleNodeType(this.contours[nodeHit.contour], nodeHit.node);
+                    this.applyChange(true);
+                    return;
+                }
+            } else if (segmentHit) {
+                // Clicking a segment adds a node there
+                const node = insertNode(this.contours[segmentHit.contour], segmentHit.segment, segmentHit.t);
+                this.selected = { contour: segmentHit.contour, node };
+                this.applyChange(false);
+            } else {
+                this.handlers.onExit();
+                return;
+            }
+            this.drag = { type: 'node', target: this.selected, last: point };
+        }
+
+        this.canvas.getSelectionElement().setPointerCapture(e.pointerId);
+        this.render();
+    };
+
+    private handlePointerMove = (e: PointerEvent): void => {
+        if (!this.drag) return;
+
+        const { point } = this.toLocal(e);
+        const { target } = this.drag;
+        const node = this.contours[target.contour].nodes[target.node];
+
+        if (this.drag.type === 'node') {
+            moveNode(node, point.x - this.drag.last.x, point.y - this.drag.last.y);
+            this.drag.last = point;
+        } else {
+            // Alt breaks a smooth node's handles apart
+            moveHandle(node, this.drag.side, point, !e.altKey);
+        }
+
+        this.applyChange(false);
+        // Local coordinates shift when the bounds change
+        if (this.drag.type === 'node') this.drag.last = pagePointToPath(this.element, this.canvas.getPointer(e));
+    };
+
+    private handlePointerUp = (e: PointerEvent): void => {
+        const element = this.canvas.getSelectionElement();
+        if (element.hasPointerCapture(e.pointerId)) element.releasePointerCapture(e.pointerId);
+
+        this.drag = null;
+        if (this.changed) {
+            this.changed = false;
+            this.handlers.onChange(this.element);
+        }
+    };
+
+    private handleDoubleClick = (e: MouseEvent): void => {
+        const { point, tolerance } = this.toLocal(e);
+        const hit = findNodeAt(this.contours, point, tolerance);
+        if (!hit) return;
+
+        this.selected = hit;
+        toggleNodeType(this.contours[hit.contour], hit.node);
+        this.applyChange(true);
+    };
+
+    private handleKeyDown = (e: KeyboardEvent): void => {
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+        if (e.key === 'Escape' || e.key === 'Enter') {
+            this.handlers.onExit();
+        } else if (e.key === 'Delete' || e.key === 'Backspace') {
+            if (this.selected && removeNode(this.contours[this.selected.contour], this.selected.node)) {
+                this.selected = null;
+                this.applyChange(true);
+            }
+        } else {
+            return;
+        }
+
+        e.preventDefault();
+        e.stopPropagation();
+    };
+
+    /**
+     * Rebuild the element from the nodes, keeping untouched nodes where they are on the page
+     */
+    private applyChange(commit: boolean): void {
+        const placement = placeEditedPath(this.element, contoursToCommands(this.contours));
+        translateContours(this.contours, -placement.offset.x, -placement.offset.y);
+
+        this.element = {
+            ...this.element,
+            pathData: placement.pathData,
+            transform: placement.transform,
+            freehand: undefined, // The outline no longer follows the recorded stroke
+        };
+
+        this.handlers.onPreview(this.element);
+        this.changed = !commit;
+        if (commit) this.handlers.onChange(this.element);
+        this.render();
+    }
+
+    /**
+     * Draw the outline, anchors and handles over the canvas
+     */
+    private render = (): void => {
+        if (!this.restoreSelection) return;
+
+        const ctx = beginOverlay(this.canvas);
+        const unit = 1 / getDisplayScale(this.canvas);
+        const toPage = (point: { x: number; y: number }) => pathPointToPage(this.element, point);
+
+        const pageContours = this.contours.map(contour => ({
+            closed: contour.closed,
+            nodes: contour.nodes.map(node => ({
+                ...toPage(node),
+                handleIn: node.handleIn && toPage(node.handleIn),
+                handleOut: node.handleOut && toPage(node.handleOut),
+            })),
+        }));
+
+        ctx.strokeStyle = OVERLAY_COLOR;
+        ctx.lineWidth = 1.5 * unit;
+        ctx.beginPath();
+        traceCommands(ctx, contoursToCommands(pageContours));
+        ctx.stroke();
+
+        this.getVisibleHandles().forEach(({ target, side }) => {
+            const node = pageContours[target.contour].nodes[target.node];
+            const handle = side === 'in' ? node.handleIn : node.handleOut;
+            if (handle) drawHandle(ctx, node, handle, ANCHOR_SIZE * unit);
+        });
+
+        pageContours.forEach((contour, c) => contour.nodes.forEach((node, n) => {
+            const selected = this.selected?.contour === c && this.selected.node === n;
+            drawAnchor(ctx, node, ANCHOR_SIZE * unit, selected);
+        }));
+
+        ctx.restore();
+    };
+}
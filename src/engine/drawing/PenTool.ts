@@ -0,0 +1,184 @@
+// Pen Tool
+// Places anchors with click and drag to build open or closed Bezier paths
+
+import { fabric } from 'fabric';
+import { PathContour, PathNode } from '@/types/drawing';
+import { contoursToCommands } from './vectorPath';
+import { OVERLAY_COLOR, beginOverlay, drawAnchor, drawHandle, getDisplayScale, suspendSelection, traceCommands } from './overlay';
+
+export interface PenToolHandlers {
+    onPath: (contour: PathContour) => void; // Finished path, in page coordinates
+    onCancel: () => void; // Finished without enough anchors for a path
+}
+
+// Screen pixels
+const ANCHOR_SIZE = 8;
+const CLOSE_RADIUS = 8;
+const MIN_DRAG = 3;
+
+export class PenTool {
+    private canvas: fabric.Canvas;
+    private handlers: PenToolHandlers;
+    private nodes: PathNode[] = [];
+    private pointer: { x: number; y: number } | null = null;
+    private dragging = false;
+    private restoreSelection: (() => void) | null = null;
+
+    constructor(canvas: fabric.Canvas, handlers: PenToolHandlers) {
+        this.canvas = canvas;
+        this.handlers = handlers;
+    }
+
+    /**
+     * Start placing anchors
+     */
+    public enable(): void {
+        if (this.restoreSelection) return;
+
+        this.restoreSelection = suspendSelection(this.canvas, 'crosshair');
+
+        const element = this.canvas.getSelectionElement();
+        element.addEventListener('pointerdown', this.handlePointerDown);
+        element.addEventListener('pointermove', this.handlePointerMove);
+        element.addEventListener('pointerup', this.handlePointerUp);
+        element.addEventListener('pointerleave', this.handlePointerLeave);
+        window.addEventListener('keydown', this.handleKeyDown, true);
+    }
+
+    /**
+     * Stop the tool; a path in progress is kept if it has enough anchors
+     */
+    public disable(): void {
+        if (!this.restoreSelection) return;
+
+        const element = this.canvas.getSelectionElement();
+        element.removeEventListener('pointerdown', this.handlePointerDown);
+        element.removeEventListener('pointermove', this.handlePointerMove);
+        element.removeEventListener('pointerup', this.handlePointerUp);
+        element.removeEventListener('pointerleave', this.handlePointerLeave);
+        window.removeEventListener('keydown', this.handleKeyDown, true);
+
+        this.restoreSelection();
+        this.restoreSelection = null;
+
+        const nodes = this.nodes;
+        this.nodes = [];
+        this.dragging = false;
+        if (nodes.length >= 2) this.handlers.onPath({ nodes, closed: false });
+    }
+
+    private handlePointerDown = (e: PointerEvent): void => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+
+        const point = this.canvas.getPointer(e);
+        const first = this.nodes[0];
+        const closeRadius = CLOSE_RADIUS / getDisplayScale(this.canvas);
+
+        // Clicking the first anchor closes the path
+        if (this.nodes.length >= 2 && Math.hypot(point.x - first.x, point.y - first.y) <= closeRadius) {
+            this.finish(true);
+            return;
+        }
+
+        this.canvas.getSelectionElement().setPointerCapture(e.pointerId);
+        this.nodes.push({ x: point.x, y: point.y, handleIn: null, handleOut: null });
+        this.dragging = true;
+        this.render();
+    };
+
+    private handlePointerMove = (e: PointerEvent): void => {
+        const point = this.canvas.getPointer(e);
+        this.pointer = { x: point.x, y: point.y };
+
+        // Dragging out of a new anchor pulls symmetric handles
+        const node = this.nodes[this.nodes.length - 1];
+        if (this.dragging && node) {
+            const distance = Math.hypot(point.x - node.x, point.y - node.y);
+            if (distance * getDisplayScale(this.canvas) >= MIN_DRAG) {
+                node.handleOut = { x: point.x, y: point.y };
+                node.handleIn = { x: 2 * node.x - point.x, y: 2 * node.y - point.y };
+            } else {
+                node.handleOut = null;
+                node.handleIn = null;
+            }
+        }
+
+        this.render();
+    };
+
+    private handlePointerUp = (e: PointerEvent): void => {
+        const element = this.canvas.getSelectionElement();
+        if (element.hasPointerCapture(e.pointerId)) element.releasePointerCapture(e.pointerId);
+        this.dragging = false;
+        this.render();
+    };
+
+    private handlePointerLeave = (): void => {
+        if (this.dragging) return;
+        this.pointer = null;
+        this.render();
+    };
+
+    private handleKeyDown = (e: KeyboardEvent): void => {
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+        if (e.key === 'Enter' || e.key === 'Escape') {
+            this.finish(false);
+        } else if ((e.key === 'Backspace' || e.key === 'Delete') && this.nodes.length > 0) {
+            this.nodes.pop();
+            this.render();
+        } else {
+            return;
+        }
+
+        e.preventDefault();
+        e.stopPropagation();
+    };
+
+    private finish(closed: boolean): void {
+        const nodes = this.nodes;
+        this.nodes = [];
+        this.dragging = false;
+        this.render();
+
+        if (nodes.length >= 2) {
+            this.handlers.onPath({ nodes, closed });
+        } else {
+            this.handlers.onCancel();
+        }
+    }
+
+    /**
+     * Draw the path so far, the segment to the pointer, and the anchors
+     */
+    private render(): void {
+        const ctx = beginOverlay(this.canvas);
+        const unit = 1 / getDisplayScale(this.canvas);
+        const last = this.nodes[this.nodes.length - 1];
+
+        if (last) {
+            ctx.strokeStyle = OVERLAY_COLOR;
+            ctx.lineWidth = 1.5 * unit;
+            ctx.beginPath();
+            traceCommands(ctx, contoursToCommands([{ nodes: this.nodes, closed: false }]));
+            ctx.stroke();
+
+            // Rubber band to where the next anchor would go
+            if (this.pointer && !this.dragging) {
+                const preview = { ...this.pointer, handleIn: null, handleOut: null };
+                ctx.setLineDash([4 * unit, 4 * unit]);
+                ctx.beginPath();
+                traceCommands(ctx, contoursToCommands([{ nodes: [last, preview], closed: false }]));
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+
+            if (last.handleIn) drawHandle(ctx, last, last.handleIn, ANCHOR_SIZE * unit);
+            if (last.handleOut) drawHandle(ctx, last, last.handleOut, ANCHOR_SIZE * unit);
+            this.nodes.forEach(node => drawAnchor(ctx, node, ANCHOR_SIZE * unit, node === last));
+        }
+
+        ctx.restore();
+    }
+}
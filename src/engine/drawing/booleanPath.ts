@@ -0,0 +1,387 @@
+// Boolean Path
+// Union, subtract, intersect and exclude of filled outlines, by splitting edges where they cross
+
+import { fabric } from 'fabric';
+import { PathCommand } from '@/utils/pathData';
+import { CanvasElement } from '@/types/canvas';
+import { BooleanOperation } from '@/types/drawing';
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+type Ring = Point[];
+
+interface Edge {
+    a: Point;
+    b: Point;
+    splits: Point[];
+}
+
+interface DirectedEdge {
+    from: Point;
+    to: Point;
+    used: boolean;
+}
+
+// Page units
+const FLATTEN_STEP = 2; // Length of the lines curves are flattened into
+const PROBE_DISTANCE = 1e-3; // How far either side of an edge is sampled
+const SNAP_DISTANCE = 1e-6;
+const MAX_CURVE_STEPS = 64;
+
+// Circle quadrant control point distance
+const KAPPA = 0.5522847498;
+
+// Whether a point ends up filled, given whether each operand covers it (bottom operand first)
+const RESULT_INSIDE: Record<BooleanOperation, (inside: boolean[]) => boolean> = {
+    union: inside => inside.some(Boolean),
+    subtract: ([first, ...rest]) => first && !rest.some(Boolean),
+    intersect: inside => inside.every(Boolean),
+    exclude: inside => inside.filter(Boolean).length % 2 === 1,
+};
+
+/**
+ * Whether an element has a filled outline that boolean operations can use
+ */
+export const isBooleanOperand = (element: CanvasElement): boolean => {
+    if (element.type === 'shape') return element.shapeType !== 'line';
+    return element.type === 'path';
+};
+
+const cross = (ax: number, ay: number, bx: number, by: number) => ax * by - ay * bx;
+
+const isSamePoint = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y) < SNAP_DISTANCE;
+
+const pointKey = (p: Point) => `${Math.round(p.x * 1e4)},${Math.round(p.y * 1e4)}`;
+
+const bezierPoint = (points: Point[], t: number): Point => {
+    let level = points;
+    while (level.length > 1) {
+        level = level.slice(1).map((p, i) => ({
+            x: level[i].x + (p.x - level[i].x) * t,
+            y: level[i].y + (p.y - level[i].y) * t,
+        }));
+    }
+    return level[0];
+};
+
+/**
+ * Flatten path commands into closed polygons; open subpaths are closed the way they fill
+ */
+export const flattenCommands = (commands: PathCommand[]): Ring[] => {
+    const rings: Ring[] = [];
+    let ring: Ring = [];
+    let start: Point = { x: 0, y: 0 };
+    let current: Point = start;
+
+    const closeRing = () => {
+        const last = ring[ring.length - 1];
+        if (ring.length > 1 && isSamePoint(ring[0], last)) ring.pop();
+        if (ring.length >= 3) rings.push(ring);
+        ring = [];
+    };
+
+    const lineTo = (point: Point) => {
+        const last = ring[ring.length - 1];
+        if (!last || !isSamePoint(last, point)) ring.push(point);
+        current = point;
+    };
+
+    commands.forEach(({ type, values: v }) => {
+        switch (type) {
+            case 'M':
+                closeRing();
+                start = { x: v[0], y: v[1] };
+                lineTo(start);
+                break;
+            case 'L':
+                lineTo({ x: v[0], y: v[1] });
+                break;
+            case 'Q':
+            case 'C': {
+                const controls = [current];
+                for (let i = 0; i < v.length; i += 2) controls.push({ x: v[i], y: v[i + 1] });
+
+                const length = controls.slice(1).reduce(
+                    (sum, p, i) => sum + Math.hypot(p.x - controls[i].x, p.y - controls[i].y),
+                    0
+                );
+                const steps = Math.min(MAX_CURVE_STEPS, Math.max(1, Math.ceil(length / FLATTEN_STEP)));
+                for (let i = 1; i <= steps; i++) lineTo(bezierPoint(controls, i / steps));
+                break;
+            }
+            case 'Z':
+                closeRing();
+                lineTo(start);
+                break;
+        }
+    });
+    closeRing();
+
+    return rings;
+};
+
+/**
+ * Nonzero winding number of a point against a set of rings
+ */
+const getWinding = (rings: Ring[], p: Point): number => {
+    let winding = 0;
+    rings.forEach(ring => ring.forEach((a, i) => {
+        const b = ring[(i + 1) % ring.length];
+        const side = cross(b.x - a.x, b.y - a.y, p.x - a.x, p.y - a.y);
+        if (a.y <= p.y) {
+            if (b.y > p.y && side > 0) winding++;
+        } else if (b.y <= p.y && side < 0) {
+            winding--;
+        }
+    }));
+    return winding;
+};
+
+/**
+ * Record a point where an edge must be split, unless it is one of the edge's ends
+ */
+const addSplit = (edge: Edge, point: Point) => {
+    if (isSamePoint(point, edge.a) || isSamePoint(point, edge.b)) return;
+    edge.splits.push(point);
+};
+
+/**
+ * Split points for every pair of crossing or overlapping edges
+ */
+const findSplits = (edges: Edge[]) => {
+    const boxes = edges.map(({ a, b }) => ({
+        minX: Math.min(a.x, b.x) - SNAP_DISTANCE,
+        maxX: Math.max(a.x, b.x) + SNAP_DISTANCE,
+        minY: Math.min(a.y, b.y) - SNAP_DISTANCE,
+        maxY: Math.max(a.y, b.y) + SNAP_DISTANCE,
+    }));
+
+    for (let i = 0; i < edges.length; i++) {
+        for (let j = i + 1; j < edges.length; j++) {
+            const bi = boxes[i];
+            const bj = boxes[j];
+            if (bi.maxX < bj.minX || bj.maxX < bi.minX || bi.maxY < bj.minY || bj.maxY < bi.minY) continue;
+
+            const e1 = edges[i];
+            const e2 = edges[j];
+            const d1x = e1.b.x - e1.a.x;
+            const d1y = e1.b.y - e1.a.y;
+            const d2x = e2.b.x - e2.a.x;
+            const d2y = e2.b.y - e2.a.y;
+            const ox = e2.a.x - e1.a.x;
+            const oy = e2.a.y - e1.a.y;
+            const length1 = Math.hypot(d1x, d1y);
+            const length2 = Math.hypot(d2x, d2y);
+            const denominator = cross(d1x, d1y, d2x, d2y);
+
+            if (Math.abs(denominator) <= 1e-12 * length1 * length2) {
+                // Parallel: overlapping collinear edges split at each other's ends
+                if (Math.abs(cross(ox, oy, d1x, d1y)) > SNAP_DISTANCE * length1) continue;
+                [e2.a, e2.b].forEach(p => {
+                    const t = ((p.x - e1.a.x) * d1x + (p.y - e1.a.y) * d1y) / (length1 * length1);
+                    if (t > 0 && t < 1) addSplit(e1, p);
+                });
+                [e1.a, e1.b].forEach(p => {
+                    const t = ((p.x - e2.a.x) * d2x + (p.y - e2.a.y) * d2y) / (length2 * length2);
+                    if (t > 0 && t < 1) addSplit(e2, p);
+                });
+                continue;
+            }
+
+            const t = cross(ox, oy, d2x, d2y) / denominator;
+            const u = cross(ox, oy, d1x, d1y) / denominator;
+            const tolerance1 = SNAP_DISTANCE / length1;
+            const tolerance2 = SNAP_DISTANCE / length2;
+            if (t < -tolerance1 || t > 1 + tolerance1 || u < -tolerance2 || u > 1 + tolerance2) continue;
+
+            // Snap to an existing end so both edges split at exactly the same point
+            const crossing = { x: e1.a.x + d1x * t, y: e1.a.y + d1y * t };
+            const point = [e1.a, e1.b, e2.a, e2.b].find(p => isSamePoint(p, crossing)) ?? crossing;
+            addSplit(e1, point);
+            addSplit(e2, point);
+        }
+    }
+};
+
+/**
+ * Pieces of an edge between its split points
+ */
+const getEdgePieces = ({ a, b, splits }: Edge): Array<[Point, Point]> => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const points = [a, ...splits.sort((p, q) => ((p.x - q.x) * dx + (p.y - q.y) * dy)), b];
+
+    const pieces: Array<[Point, Point]> = [];
+    points.slice(1).forEach((p, i) => {
+        if (!isSamePoint(points[i], p)) pieces.push([points[i], p]);
+    });
+    return pieces;
+};
+
+/**
+ * Drop points that lie on the line between their neighbours
+ */
+const removeCollinearPoints = (ring: Ring): Ring => {
+    return ring.filter((p, i) => {
+        const prev = ring[(i - 1 + ring.length) % ring.length];
+        const next = ring[(i + 1) % ring.length];
+        const length = Math.hypot(next.x - prev.x, next.y - prev.y);
+        const deviation = Math.abs(cross(p.x - prev.x, p.y - prev.y, next.x - prev.x, next.y - prev.y));
+        return deviation > SNAP_DISTANCE * Math.max(length, 1);
+    });
+};
+
+/**
+ * Join directed edges end to start into closed rings
+ */
+const chainEdges = (edges: DirectedEdge[]): Ring[] => {
+    const outgoing = new Map<string, DirectedEdge[]>();
+    edges.forEach(edge => {
+        const key = pointKey(edge.from);
+        outgoing.set(key, [...(outgoing.get(key) ?? []), edge]);
+    });
+
+    const rings: Ring[] = [];
+    edges.forEach(first => {
+        const ring: Ring = [];
+        let edge: DirectedEdge | undefined = first;
+        while (edge && !edge.used) {
+            edge.used = true;
+            ring.push(edge.from);
+            edge = outgoing.get(pointKey(edge.to))?.find(next => !next.used);
+        }
+
+        const simplified = removeCollinearPoints(ring);
+        if (simplified.length >= 3) rings.push(simplified);
+    });
+    return rings;
+};
+
+/**
+ * Combine filled outlines (in one coordinate space, bottom first) into a single outline.
+ * Curves come back as short straight segments.
+ */
+export const combineOutlines = (outlines: PathCommand[][], operation: BooleanOperation): PathCommand[] => {
+    const operands = outlines.map(flattenCommands);
+    const edges: Edge[] = operands.flatMap(rings => rings.flatMap(ring => ring.map((a, i) => ({
+        a,
+        b: ring[(i + 1) % ring.length],
+        splits: [],
+    }))));
+
+    findSplits(edges);
+
+    const isInside = (p: Point) => RESULT_INSIDE[operation](operands.map(rings => getWinding(rings, p) !== 0));
+
+    // Keep the pieces with the result on one side only, turned so the result is on their left
+    const kept = new Map<string, DirectedEdge>();
+    edges.flatMap(getEdgePieces).forEach(([from, to]) => {
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        const nx = (-(to.y - from.y) / length) * PROBE_DISTANCE;
+        const ny = ((to.x - from.x) / length) * PROBE_DISTANCE;
+        const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+
+        const left = isInside({ x: mid.x + nx, y: mid.y + ny });
+        const right = isInside({ x: mid.x - nx, y: mid.y - ny });
+        if (left === right) return;
+
+        const edge = left ? { from, to, used: false } : { from: to, to: from, used: false };
+        // Shared edges of touching operands only count once
+        kept.set(`${pointKey(edge.from)}>${pointKey(edge.to)}`, edge);
+    });
+
+    return chainEdges([...kept.values()]).flatMap(ring => [
+        { type: 'M' as const, values: [ring[0].x, ring[0].y] },
+        ...ring.slice(1).map(p => ({ type: 'L' as const, values: [p.x, p.y] })),
+        { type: 'Z' as const, values: [] },
+    ]);
+};
+
+const getEllipseCommands = (rx: number, ry: number): PathCommand[] => {
+    const kx = rx * KAPPA;
+    const ky = ry * KAPPA;
+    return [
+        { type: 'M', values: [rx, 0] },
+        { type: 'C', values: [rx, ky, kx, ry, 0, ry] },
+        { type: 'C', values: [-kx, ry, -rx, ky, -rx, 0] },
+        { type: 'C', values: [-rx, -ky, -kx, -ry, 0, -ry] },
+        { type: 'C', values: [kx, -ry, rx, -ky, rx, 0] },
+        { type: 'Z', values: [] },
+    ];
+};
+
+const getPolygonCommands = (points: Point[]): PathCommand[] => [
+    ...points.map((p, i) => ({ type: i === 0 ? 'M' as const : 'L' as const, values: [p.x, p.y] })),
+    { type: 'Z', values: [] },
+];
+
+const getRectCommands = (width: number, height: number, rx: number, ry: number): PathCommand[] => {
+    const x0 = -width / 2;
+    const y0 = -height / 2;
+    const x1 = width / 2;
+    const y1 = height / 2;
+    const radiusX = Math.min(rx, width / 2);
+    const radiusY = Math.min(ry, height / 2);
+
+    if (radiusX <= 0 || radiusY <= 0) {
+        return getPolygonCommands([{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }]);
+    }
+
+    const kx = radiusX * (1 - KAPPA);
+    const ky = radiusY * (1 - KAPPA);
+    return [
+        { type: 'M', values: [x0 + radiusX, y0] },
+        { type: 'L', values: [x1 - radiusX, y0] },
+        { type: 'C', values: [x1 - kx, y0, x1, y0 + ky, x1, y0 + radiusY] },
+        { type: 'L', values: [x1, y1 - radiusY] },
+        { type: 'C', values: [x1, y1 - ky, x1 - kx, y1, x1 - radiusX, y1] },
+        { type: 'L', values: [x0 + radiusX, y1] },
+        { type: 'C', values: [x0 + kx, y1, x0, y1 - ky, x0, y1 - radiusY] },
+        { type: 'L', values: [x0, y0 + radiusY] },
+        { type: 'C', values: [x0, y0 + ky, x0 + kx, y0, x0 + radiusX, y0] },
+        { type: 'Z', values: [] },
+    ];
+};
+
+/**
+ * Filled outline of a Fabric shape or path on the canvas plane; null for objects without one
+ */
+export const getObjectOutline = (obj: fabric.Object): PathCommand[] | null => {
+    let commands: PathCommand[];
+
+    if (obj instanceof fabric.Rect) {
+        commands = getRectCommands(obj.width ?? 0, obj.height ?? 0, obj.rx ?? 0, obj.ry ?? 0);
+    } else if (obj instanceof fabric.Circle) {
+        commands = getEllipseCommands(obj.radius ?? 0, obj.radius ?? 0);
+    } else if (obj instanceof fabric.Ellipse) {
+        commands = getEllipseCommands(obj.rx ?? 0, obj.ry ?? 0);
+    } else if (obj instanceof fabric.Triangle) {
+        const w = (obj.width ?? 0) / 2;
+        const h = (obj.height ?? 0) / 2;
+        commands = getPolygonCommands([{ x: -w, y: h }, { x: 0, y: -h }, { x: w, y: h }]);
+    } else if (obj instanceof fabric.Polyline) {
+        const offset = (obj as fabric.Polyline & { pathOffset: Point }).pathOffset;
+        commands = getPolygonCommands((obj.points ?? []).map(p => ({ x: p.x - offset.x, y: p.y - offset.y })));
+    } else if (obj instanceof fabric.Path) {
+        const offset = (obj as fabric.Path & { pathOffset: Point }).pathOffset;
+        commands = (obj.path as unknown as Array<[PathCommand['type'], ...number[]]>).map(([type, ...values]) => ({
+            type,
+            values: values.map((value, i) => value - (i % 2 === 0 ? offset.x : offset.y)),
+        }));
+    } else {
+        return null;
+    }
+
+    const matrix = obj.calcTransformMatrix();
+    return commands.map(({ type, values }) => {
+        const transformed: number[] = [];
+        for (let i = 0; i < values.length; i += 2) {
+            const p = fabric.util.transformPoint(new fabric.Point(values[i], values[i + 1]), matrix);
+            transformed.push(p.x, p.y);
+        }
+        return { type, values: transformed };
+    });
+};
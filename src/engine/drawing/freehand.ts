@@ -0,0 +1,203 @@
+// Freehand Geometry
+// Turns sampled pointer input into smoothed, pressure-aware stroke outlines
+
+import { FreehandStroke, PathElement, PathPoint } from '@/types/canvas';
+import { PathBounds, PathCommand, getPathBounds, serializePathData, translatePathCommands } from '@/utils/pathData';
+import { pagePointToPath } from './vectorPath';
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+export interface FreehandPath {
+    pathData: string; // Outline path data, origin at the bounds' top-left
+    bounds: PathBounds; // Outline bounds in the input coordinates
+    stroke: FreehandStroke; // Input points relative to the bounds' top-left
+}
+
+// Points closer than this fraction of the stroke size are dropped
+const MIN_SPACING = 0.1;
+
+// Segments per round cap
+const CAP_SEGMENTS = 8;
+
+// Thinnest a stroke gets, as a fraction of its size
+const MIN_WIDTH_RATIO = 0.15;
+
+/**
+ * Pull each point towards the previous smoothed point to take out jitter
+ */
+export const smoothPoints = (points: PathPoint[], smoothing: number, size: number): PathPoint[] => {
+    if (points.length === 0) return [];
+
+    const follow = 1 - Math.min(0.95, Math.max(0, smoothing));
+    const minSpacing = size * MIN_SPACING;
+    const smoothed: PathPoint[] = [points[0]];
+
+    for (let i = 1; i < points.length; i++) {
+        const previous = smoothed[smoothed.length - 1];
+        const point = {
+            x: previous.x + (points[i].x - previous.x) * follow,
+            y: previous.y + (points[i].y - previous.y) * follow,
+            pressure: previous.pressure + (points[i].pressure - previous.pressure) * follow,
+        };
+        if (Math.hypot(point.x - previous.x, point.y - previous.y) >= minSpacing) {
+            smoothed.push(point);
+        }
+    }
+
+    // Always end where the pointer was lifted
+    const last = points[points.length - 1];
+    if (smoothed.length > 1 || last !== points[0]) {
+        smoothed.push({ ...last, pressure: smoothed[smoothed.length - 1].pressure });
+    }
+
+    return smoothed;
+};
+
+/**
+ * Stroke radius at a point
+ */
+const getRadius = (pressure: number, size: number, thinning: number): number => {
+    const scale = 1 - thinning + thinning * pressure * 2;
+    return (size / 2) * Math.max(MIN_WIDTH_RATIO, scale);
+};
+
+/**
+ * Points of a half circle around a stroke end, turning clockwise on screen from the given angle
+ */
+const getCap = (center: Point, radius: number, fromAngle: number): Point[] => {
+    const cap: Point[] = [];
+    for (let i = 1; i < CAP_SEGMENTS; i++) {
+        const a = fromAngle - (Math.PI * i) / CAP_SEGMENTS;
+        cap.push({ x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius });
+    }
+    return cap;
+};
+
+/**
+ * Closed outline polygon around a smoothed stroke
+ */
+export const getStrokeOutline = (points: PathPoint[], size: number, thinning: number): Point[] => {
+    if (points.length === 0) return [];
+
+    // A tap leaves a dot
+    if (points.length === 1) {
+        const radius = getRadius(points[0].pressure, size, thinning);
+        return Array.from({ length: CAP_SEGMENTS * 2 }, (_, i) => {
+            const a = (Math.PI * i) / CAP_SEGMENTS;
+            return { x: points[0].x + Math.cos(a) * radius, y: points[0].y + Math.sin(a) * radius };
+        });
+    }
+
+    const left: Point[] = [];
+    const right: Point[] = [];
+    const radii = points.map(point => getRadius(point.pressure, size, thinning));
+
+    points.forEach((point, i) => {
+        const previous = points[Math.max(0, i - 1)];
+        const next = points[Math.min(points.length - 1, i + 1)];
+        const length = Math.hypot(next.x - previous.x, next.y - previous.y) || 1;
+        const nx = -(next.y - previous.y) / length;
+        const ny = (next.x - previous.x) / length;
+
+        left.push({ x: point.x + nx * radii[i], y: point.y + ny * radii[i] });
+        right.push({ x: point.x - nx * radii[i], y: point.y - ny * radii[i] });
+    });
+
+    const first = points[0];
+    const second = points[1];
+    const last = points[points.length - 1];
+    const beforeLast = points[points.length - 2];
+    // Caps run from the left edge round the tip to the right edge, and back at the start
+    const startAngle = Math.atan2(second.y - first.y, second.x - first.x) - Math.PI / 2;
+    const endAngle = Math.atan2(last.y - beforeLast.y, last.x - beforeLast.x) + Math.PI / 2;
+
+    return [
+        ...left,
+        ...getCap(last, radii[radii.length - 1], endAngle),
+        ...right.reverse(),
+        ...getCap(first, radii[0], startAngle),
+    ];
+};
+
+/**
+ * Smooth closed path through an outline, curving between edge midpoints
+ */
+const outlineToCommands = (outline: Point[]): PathCommand[] => {
+    if (outline.length < 3) return [];
+
+    const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+    const start = midpoint(outline[outline.length - 1], outline[0]);
+    const commands: PathCommand[] = [{ type: 'M', values: [start.x, start.y] }];
+
+    outline.forEach((point, i) => {
+        const end = midpoint(point, outline[(i + 1) % outline.length]);
+        commands.push({ type: 'Q', values: [point.x, point.y, end.x, end.y] });
+    });
+    commands.push({ type: 'Z', values: [] });
+
+    return commands;
+};
+
+/**
+ * Build the outline path for a stroke drawn in page coordinates
+ */
+export const createFreehandPath = (
+    points: PathPoint[],
+    options: Omit<FreehandStroke, 'points'>
+): FreehandPath | null => {
+    const smoothed = smoothPoints(points, options.smoothing, options.size);
+    const commands = outlineToCommands(getStrokeOutline(smoothed, options.size, options.thinning));
+    if (commands.length === 0) return null;
+
+    const bounds = getPathBounds(commands);
+
+    return {
+        pathData: serializePathData(translatePathCommands(commands, -bounds.x, -bounds.y)),
+        bounds,
+        stroke: {
+            ...options,
+            points: smoothed.map(point => ({
+                x: Math.round((point.x - bounds.x) * 100) / 100,
+                y: Math.round((point.y - bounds.y) * 100) / 100,
+                pressure: Math.round(point.pressure * 100) / 100,
+            })),
+        },
+    };
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0
+        ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared))
+        : 0;
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Whether an eraser of the given radius touches a path along its trail (page coordinates)
+ */
+export const isPathHitByTrail = (element: PathElement, trail: Point[], radius: number): boolean => {
+    const scale = Math.max(Math.abs(element.transform.scaleX), Math.abs(element.transform.scaleY)) || 1;
+    const localRadius = radius / scale;
+    const local = trail.map(point => pagePointToPath(element, point));
+
+    // Freehand strokes are tested against their centre line
+    if (element.freehand) {
+        const { points, size, thinning } = element.freehand;
+        return local.some(p => points.some((point, i) => {
+            const reach = localRadius + getRadius(point.pressure, size, thinning);
+            const next = points[Math.min(points.length - 1, i + 1)];
+            return distanceToSegment(p, point, next) <= reach;
+        }));
+    }
+
+    // Other paths by their bounds
+    const { width, height } = element.transform;
+    return local.some(p => p.x >= -localRadius && p.y >= -localRadius &&
+        p.x <= width + localRadius && p.y <= height + localRadius);
+};
@@ -0,0 +1,22 @@
+// Drawing Index
+// Re-export freehand drawing, the pen tool, path editing and boolean operations
+
+export { FreehandTool } from './FreehandTool';
+export type { FreehandToolHandlers } from './FreehandTool';
+export { createFreehandPath, getStrokeOutline, isPathHitByTrail, smoothPoints } from './freehand';
+export type { FreehandPath } from './freehand';
+export { PenTool } from './PenTool';
+export type { PenToolHandlers } from './PenTool';
+export { PathEditor } from './PathEditor';
+export type { PathEditorHandlers } from './PathEditor';
+export {
+    contoursToCommands,
+    contoursToPathData,
+    pagePointToPath,
+    pathDataToContours,
+    pathPointToPage,
+    placeEditedPath,
+    placeNewPath,
+} from './vectorPath';
+export type { PathPlacement } from './vectorPath';
+export { combineOutlines, flattenCommands, getObjectOutline, isBooleanOperand } from './booleanPath';
@@ -0,0 +1,113 @@
+// Drawing Overlay
+// Canvas setup and top-layer drawing shared by the freehand, pen and path editing tools
+
+import { fabric } from 'fabric';
+import { PathCommand } from '@/utils/pathData';
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+export const OVERLAY_COLOR = '#7c3aed';
+
+/**
+ * Turn off object selection while a tool owns the pointer; returns a function that restores it
+ */
+export const suspendSelection = (canvas: fabric.Canvas, cursor: string): (() => void) => {
+    const previous = {
+        selection: canvas.selection ?? true,
+        skipTargetFind: canvas.skipTargetFind ?? false,
+        defaultCursor: canvas.defaultCursor ?? 'default',
+    };
+
+    canvas.discardActiveObject();
+    canvas.selection = false;
+    canvas.skipTargetFind = true;
+    canvas.defaultCursor = cursor;
+    canvas.setCursor(cursor);
+    canvas.requestRenderAll();
+
+    return () => {
+        canvas.selection = previous.selection;
+        canvas.skipTargetFind = previous.skipTargetFind;
+        canvas.defaultCursor = previous.defaultCursor;
+        canvas.setCursor(previous.defaultCursor);
+        canvas.clearContext(canvas.getSelectionContext());
+    };
+};
+
+/**
+ * Screen pixels per canvas unit; the stage zooms the canvas with CSS
+ */
+export const getDisplayScale = (canvas: fabric.Canvas): number => {
+    const width = canvas.getSelectionElement().getBoundingClientRect().width;
+    return width > 0 ? width / (canvas.getWidth() || width) : 1;
+};
+
+/**
+ * Clear the top layer and return its context in page coordinates; call restore() when done
+ */
+export const beginOverlay = (canvas: fabric.Canvas): CanvasRenderingContext2D => {
+    const ctx = canvas.getSelectionContext();
+    canvas.clearContext(ctx);
+
+    const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0];
+    ctx.save();
+    ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5]);
+    return ctx;
+};
+
+/**
+ * Add path commands to the current path
+ */
+export const traceCommands = (ctx: CanvasRenderingContext2D, commands: PathCommand[]): void => {
+    commands.forEach(({ type, values: v }) => {
+        switch (type) {
+            case 'M':
+                ctx.moveTo(v[0], v[1]);
+                break;
+            case 'L':
+                ctx.lineTo(v[0], v[1]);
+                break;
+            case 'C':
+                ctx.bezierCurveTo(v[0], v[1], v[2], v[3], v[4], v[5]);
+                break;
+            case 'Q':
+                ctx.quadraticCurveTo(v[0], v[1], v[2], v[3]);
+                break;
+            case 'Z':
+                ctx.closePath();
+                break;
+        }
+    });
+};
+
+/**
+ * Square anchor marker
+ */
+export const drawAnchor = (ctx: CanvasRenderingContext2D, point: Point, size: number, selected: boolean): void => {
+    ctx.fillStyle = selected ? OVERLAY_COLOR : '#ffffff';
+    ctx.strokeStyle = OVERLAY_COLOR;
+    ctx.lineWidth = size / 6;
+    ctx.fillRect(point.x - size / 2, point.y - size / 2, size, size);
+    ctx.strokeRect(point.x - size / 2, point.y - size / 2, size, size);
+};
+
+/**
+ * Handle line and round knob
+ */
+export const drawHandle = (ctx: CanvasRenderingContext2D, anchor: Point, handle: Point, size: number): void => {
+    ctx.strokeStyle = OVERLAY_COLOR;
+    ctx.lineWidth = size / 8;
+    ctx.beginPath();
+    ctx.moveTo(anchor.x, anchor.y);
+    ctx.lineTo(handle.x, handle.y);
+    ctx.stroke();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.arc(handle.x, handle.y, size / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+};
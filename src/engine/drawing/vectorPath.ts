@@ -0,0 +1,422 @@
+// Vector Paths
+// Editable anchors and handles over path data, and placement of path elements on the page
+
+import { PathElement, Transform } from '@/types/canvas';
+import { PathContour, PathNode } from '@/types/drawing';
+import { PathCommand, getPathBounds, parsePathData, serializePathData, translatePathCommands } from '@/utils/pathData';
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+export interface PathPlacement {
+    pathData: string; // Origin at the bounds' top-left
+    transform: Transform;
+    offset: Point; // Where the old local origin moved to, in the old local coordinates
+}
+
+export interface SegmentHit {
+    contour: number;
+    segment: number; // Index of the segment's start node
+    t: number;
+}
+
+type PathGeometry = Pick<PathElement, 'transform' | 'style'>;
+
+// Samples per segment when hit-testing curves
+const SEGMENT_SAMPLES = 32;
+
+// Fraction of the origin offset from the centre, per origin
+const ORIGIN_FACTORS = { left: -0.5, center: 0, right: 0.5, top: -0.5, bottom: 0.5 };
+
+const lerp = (a: Point, b: Point, t: number): Point => ({
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+});
+
+const isSamePoint = (a: Point, b: Point) => Math.abs(a.x - b.x) < 1e-6 && Math.abs(a.y - b.y) < 1e-6;
+
+// Handles sitting on their anchor are no handles at all
+const toHandle = (anchor: Point, handle: Point): Point | null => (isSamePoint(anchor, handle) ? null : handle);
+
+/**
+ * Split path data into editable contours; quadratic curves become cubic
+ */
+export const pathDataToContours = (pathData: string): PathContour[] => {
+    const contours: PathContour[] = [];
+    let current: PathContour | null = null;
+    let start: Point = { x: 0, y: 0 };
+
+    parsePathData(pathData).forEach(({ type, values }) => {
+        if (type === 'Z') {
+            if (!current) return;
+            // A closing curve that ends on the first node hands its handle over
+            const { nodes } = current;
+            const last = nodes[nodes.length - 1];
+            if (nodes.length > 1 && isSamePoint(last, nodes[0])) {
+                nodes[0].handleIn = last.handleIn;
+                nodes.pop();
+            }
+            current.closed = true;
+            current = null;
+            return;
+        }
+
+        if (type === 'M' || !current) {
+            const origin = type === 'M' ? { x: values[0], y: values[1] } : start;
+            start = origin;
+            current = { nodes: [{ ...origin, handleIn: null, handleOut: null }], closed: false };
+            contours.push(current);
+            if (type === 'M') return;
+        }
+
+        const previous = current.nodes[current.nodes.length - 1];
+        const end = { x: values[values.length - 2], y: values[values.length - 1] };
+        const node: PathNode = { ...end, handleIn: null, handleOut: null };
+
+        if (type === 'C') {
+            previous.handleOut = toHandle(previous, { x: values[0], y: values[1] });
+            node.handleIn = toHandle(end, { x: values[2], y: values[3] });
+        } else if (type === 'Q') {
+            // Exact cubic form of the quadratic
+            const control = { x: values[0], y: values[1] };
+            previous.handleOut = toHandle(previous, lerp(previous, control, 2 / 3));
+            node.handleIn = toHandle(end, lerp(end, control, 2 / 3));
+        }
+
+        current.nodes.push(node);
+    });
+
+    return contours;
+};
+
+const getSegmentCommand = (from: PathNode, to: PathNode): PathCommand => {
+    if (!from.handleOut && !to.handleIn) return { type: 'L', values: [to.x, to.y] };
+
+    const c1 = from.handleOut ?? from;
+    const c2 = to.handleIn ?? to;
+    return { type: 'C', values: [c1.x, c1.y, c2.x, c2.y, to.x, to.y] };
+};
+
+/**
+ * Commands for a set of contours
+ */
+export const contoursToCommands = (contours: PathContour[]): PathCommand[] => {
+    return contours.flatMap(({ nodes, closed }) => {
+        if (nodes.length === 0) return [];
+
+        const commands: PathCommand[] = [{ type: 'M', values: [nodes[0].x, nodes[0].y] }];
+        for (let i = 1; i < nodes.length; i++) {
+            commands.push(getSegmentCommand(nodes[i - 1], nodes[i]));
+        }
+
+        if (closed) {
+            // Straight closing segments are drawn by the close itself
+            const closing = getSegmentCommand(nodes[nodes.length - 1], nodes[0]);
+            if (closing.type === 'C') commands.push(closing);
+            commands.push({ type: 'Z', values: [] });
+        }
+
+        return commands;
+    });
+};
+
+/**
+ * Control points of each segment of a contour
+ */
+export const getContourSegments = (contour: PathContour): Point[][] => {
+    const { nodes, closed } = contour;
+    const count = closed ? nodes.length : nodes.length - 1;
+
+    return Array.from({ length: Math.max(0, count) }, (_, i) => {
+        const from = nodes[i];
+        const to = nodes[(i + 1) % nodes.length];
+        return [from, from.handleOut ?? from, to.handleIn ?? to, to];
+    });
+};
+
+const pointOnSegment = (points: Point[], t: number): Point => {
+    const a = lerp(points[0], points[1], t);
+    const b = lerp(points[1], points[2], t);
+    const c = lerp(points[2], points[3], t);
+    return lerp(lerp(a, b, t), lerp(b, c, t), t);
+};
+
+/**
+ * Closest node within the tolerance
+ */
+export const findNodeAt = (
+    contours: PathContour[],
+    point: Point,
+    tolerance: number
+): { contour: number; node: number } | null => {
+    let best: { contour: number; node: number } | null = null;
+    let bestDistance = tolerance;
+
+    contours.forEach((contour, c) => contour.nodes.forEach((node, n) => {
+        const distance = Math.hypot(node.x - point.x, node.y - point.y);
+        if (distance <= bestDistance) {
+            best = { contour: c, node: n };
+            bestDistance = distance;
+        }
+    }));
+
+    return best;
+};
+
+/**
+ * Closest point on any segment within the tolerance
+ */
+export const findSegmentAt = (contours: PathContour[], point: Point, tolerance: number): SegmentHit | null => {
+    let best: SegmentHit | null = null;
+    let bestDistance = tolerance;
+
+    contours.forEach((contour, c) => getContourSegments(contour).forEach((segment, s) => {
+        for (let i = 1; i < SEGMENT_SAMPLES; i++) {
+            const t = i / SEGMENT_SAMPLES;
+            const sample = pointOnSegment(segment, t);
+            const distance = Math.hypot(sample.x - point.x, sample.y - point.y);
+            if (distance <= bestDistance) {
+                best = { contour: c, segment: s, t };
+                bestDistance = distance;
+            }
+        }
+    }));
+
+    return best;
+};
+
+/**
+ * Split a segment at t, keeping its shape; returns the new node's index
+ */
+export const insertNode = (contour: PathContour, segment: number, t: number): number => {
+    const { nodes } = contour;
+    const from = nodes[segment];
+    const to = nodes[(segment + 1) % nodes.length];
+    const [p0, p1, p2, p3] = getContourSegments(contour)[segment];
+
+    let node: PathNode;
+    if (!from.handleOut && !to.handleIn) {
+        node = { ...lerp(p0, p3, t), handleIn: null, handleOut: null };
+    } else {
+        // de Casteljau split
+        const a = lerp(p0, p1, t);
+        const b = lerp(p1, p2, t);
+        const c = lerp(p2, p3, t);
+        const d = lerp(a, b, t);
+        const e = lerp(b, c, t);
+        node = { ...lerp(d, e, t), handleIn: d, handleOut: e };
+        from.handleOut = a;
+        to.handleIn = c;
+    }
+
+    nodes.splice(segment + 1, 0, node);
+    return segment + 1;
+};
+
+/**
+ * Remove a node; false when the contour would become too short to draw
+ */
+export const removeNode = (contour: PathContour, index: number): boolean => {
+    if (contour.nodes.length <= (contour.closed ? 3 : 2)) return false;
+    contour.nodes.splice(index, 1);
+    return true;
+};
+
+/**
+ * Whether a node's handles form a straight line through it
+ */
+export const isSmoothNode = (node: PathNode): boolean => {
+    if (!node.handleIn || !node.handleOut) return false;
+
+    const ax = node.handleIn.x - node.x;
+    const ay = node.handleIn.y - node.y;
+    const bx = node.handleOut.x - node.x;
+    const by = node.handleOut.y - node.y;
+    const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by);
+    return lengths > 0 && (ax * bx + ay * by) / lengths < -0.999;
+};
+
+/**
+ * Convert a node between sharp (no handles) and smooth
+ */
+export const toggleNodeType = (contour: PathContour, index: number): void => {
+    const { nodes, closed } = contour;
+    const node = nodes[index];
+
+    if (node.handleIn || node.handleOut) {
+        node.handleIn = null;
+        node.handleOut = null;
+        return;
+    }
+
+    const previous = index > 0 || closed ? nodes[(index - 1 + nodes.length) % nodes.length] : null;
+    const next = index < nodes.length - 1 || closed ? nodes[(index + 1) % nodes.length] : null;
+    const from = previous ?? node;
+    const to = next ?? node;
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (length === 0) return;
+
+    // Handles follow the line between the neighbours, a third of the way to each
+    const dx = (to.x - from.x) / length;
+    const dy = (to.y - from.y) / length;
+    if (previous) {
+        const reach = Math.hypot(node.x - previous.x, node.y - previous.y) / 3;
+        node.handleIn = { x: node.x - dx * reach, y: node.y - dy * reach };
+    }
+    if (next) {
+        const reach = Math.hypot(next.x - node.x, next.y - node.y) / 3;
+        node.handleOut = { x: node.x + dx * reach, y: node.y + dy * reach };
+    }
+};
+
+/**
+ * Move a node together with its handles
+ */
+export const moveNode = (node: PathNode, dx: number, dy: number): void => {
+    node.x += dx;
+    node.y += dy;
+    if (node.handleIn) node.handleIn = { x: node.handleIn.x + dx, y: node.handleIn.y + dy };
+    if (node.handleOut) node.handleOut = { x: node.handleOut.x + dx, y: node.handleOut.y + dy };
+};
+
+/**
+ * Move one handle; smooth nodes keep the opposite handle in line unless told otherwise
+ */
+export const moveHandle = (node: PathNode, side: 'in' | 'out', point: Point, keepSmooth: boolean): void => {
+    const opposite = side === 'in' ? node.handleOut : node.handleIn;
+    const mirror = keepSmooth && opposite && isSmoothNode(node);
+
+    if (side === 'in') node.handleIn = point;
+    else node.handleOut = point;
+
+    if (mirror && opposite) {
+        const length = Math.hypot(point.x - node.x, point.y - node.y);
+        const reach = Math.hypot(opposite.x - node.x, opposite.y - node.y);
+        if (length === 0) return;
+        const mirrored = {
+            x: node.x - ((point.x - node.x) / length) * reach,
+            y: node.y - ((point.y - node.y) / length) * reach,
+        };
+        if (side === 'in') node.handleOut = mirrored;
+        else node.handleIn = mirrored;
+    }
+};
+
+/**
+ * Scale then rotate a local vector into page space
+ */
+const toPageVector = (transform: Transform, x: number, y: number): Point => {
+    const angle = (transform.rotation * Math.PI) / 180;
+    const sx = x * transform.scaleX;
+    const sy = y * transform.scaleY;
+    return {
+        x: sx * Math.cos(angle) - sy * Math.sin(angle),
+        y: sx * Math.sin(angle) + sy * Math.cos(angle),
+    };
+};
+
+/**
+ * Page position of the centre of a path element's bounds (Fabric positions by the stroked box)
+ */
+const getPathCenter = (transform: Transform, strokeWidth: number): Point => {
+    const offset = toPageVector(
+        transform,
+        ORIGIN_FACTORS[transform.originX] * (transform.width + strokeWidth),
+        ORIGIN_FACTORS[transform.originY] * (transform.height + strokeWidth)
+    );
+    return { x: transform.x - offset.x, y: transform.y - offset.y };
+};
+
+/**
+ * Map a point in a path element's path data onto the page
+ */
+export const pathPointToPage = (element: PathGeometry, point: Point): Point => {
+    const { transform } = element;
+    const center = getPathCenter(transform, element.style.strokeWidth);
+    const vector = toPageVector(transform, point.x - transform.width / 2, point.y - transform.height / 2);
+    return { x: center.x + vector.x, y: center.y + vector.y };
+};
+
+/**
+ * Map a page point into a path element's path data coordinates
+ */
+export const pagePointToPath = (element: PathGeometry, point: Point): Point => {
+    const { transform } = element;
+    const center = getPathCenter(transform, element.style.strokeWidth);
+    const angle = (-transform.rotation * Math.PI) / 180;
+    const dx = point.x - center.x;
+    const dy = point.y - center.y;
+    const rx = dx * Math.cos(angle) - dy * Math.sin(angle);
+    const ry = dx * Math.sin(angle) + dy * Math.cos(angle);
+
+    return {
+        x: rx / (transform.scaleX || 1) + transform.width / 2,
+        y: ry / (transform.scaleY || 1) + transform.height / 2,
+    };
+};
+
+/**
+ * Re-fit an edited path: normalise its data to the new bounds and keep it in place on the page
+ */
+export const placeEditedPath = (element: PathGeometry, commands: PathCommand[]): PathPlacement => {
+    const { transform, style } = element;
+    const bounds = getPathBounds(commands);
+    const center = pathPointToPage(element, {
+        x: bounds.x + bounds.width / 2,
+        y: bounds.y + bounds.height / 2,
+    });
+    const offset = toPageVector(
+        transform,
+        ORIGIN_FACTORS[transform.originX] * (bounds.width + style.strokeWidth),
+        ORIGIN_FACTORS[transform.originY] * (bounds.height + style.strokeWidth)
+    );
+
+    return {
+        pathData: serializePathData(translatePathCommands(commands, -bounds.x, -bounds.y)),
+        transform: {
+            ...transform,
+            x: center.x + offset.x,
+            y: center.y + offset.y,
+            width: bounds.width,
+            height: bounds.height,
+        },
+        offset: { x: bounds.x, y: bounds.y },
+    };
+};
+
+/**
+ * Place a path drawn in page coordinates, positioned by its top-left
+ */
+export const placeNewPath = (commands: PathCommand[], strokeWidth: number): Omit<PathPlacement, 'offset'> => {
+    const bounds = getPathBounds(commands);
+
+    return {
+        pathData: serializePathData(translatePathCommands(commands, -bounds.x, -bounds.y)),
+        transform: {
+            x: bounds.x - strokeWidth / 2,
+            y: bounds.y - strokeWidth / 2,
+            width: bounds.width,
+            height: bounds.height,
+            scaleX: 1,
+            scaleY: 1,
+            rotation: 0,
+            skewX: 0,
+            skewY: 0,
+            originX: 'left',
+            originY: 'top',
+        },
+    };
+};
+
+/**
+ * Move every node and handle of a set of contours
+ */
+export const translateContours = (contours: PathContour[], dx: number, dy: number): void => {
+    contours.forEach(contour => contour.nodes.forEach(node => moveNode(node, dx, dy)));
+};
+
+export const contoursToPathData = (contours: PathContour[]): string => {
+    return serializePathData(contoursToCommands(contours));
+};
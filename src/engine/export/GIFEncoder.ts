@@ -0,0 +1,270 @@
+// GIF Encoder
+// Client-side animated GIF89a encoder (median-cut palette + LZW)
+
+export interface GIFEncoderOptions {
+    width: number;
+    height: number;
+    loop: boolean; // Loop forever instead of playing once
+}
+
+interface ColorBox {
+    bins: number[]; // 15-bit RGB histogram bins in this box
+    count: number;
+}
+
+const MAX_COLORS = 256;
+const MAX_CODE = 4096;
+
+// 5-bit channel accessors for 15-bit histogram bins
+const binRed = (bin: number) => (bin >> 10) & 31;
+const binGreen = (bin: number) => (bin >> 5) & 31;
+const binBlue = (bin: number) => bin & 31;
+const expand5 = (value: number) => (value << 3) | (value >> 2);
+
+/**
+ * Reduce RGBA pixels to a 256-colour palette with median cut
+ */
+const quantize = (pixels: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } => {
+    const pixelCount = pixels.length / 4;
+    const histogram = new Uint32Array(32768);
+    const pixelBins = new Uint16Array(pixelCount);
+
+    for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+        const bin = ((pixels[p] >> 3) << 10) | ((pixels[p + 1] >> 3) << 5) | (pixels[p + 2] >> 3);
+        pixelBins[i] = bin;
+        histogram[bin]++;
+    }
+
+    const usedBins: number[] = [];
+    for (let bin = 0; bin < histogram.length; bin++) {
+        if (histogram[bin] > 0) usedBins.push(bin);
+    }
+
+    const boxes: ColorBox[] = [{ bins: usedBins, count: pixelCount }];
+
+    // Split the most populous box along its widest channel until we run out
+    while (boxes.length < MAX_COLORS) {
+        let target = -1;
+        for (let i = 0; i < boxes.length; i++) {
+            if (boxes[i].bins.length > 1 && (target === -1 || boxes[i].count > boxes[target].count)) {
+                target = i;
+            }
+        }
+        if (target === -1) break;
+
+        const box = boxes[target];
+        const channels = [binRed, binGreen, binBlue];
+        const ranges = channels.map((channel) => {
+            let min = 31;
+            let max = 0;
+            box.bins.forEach((bin) => {
+                const value = channel(bin);
+                if (value < min) min = value;
+                if (value > max) max = value;
+            });
+            return max - min;
+        });
+        const channel = channels[ranges.indexOf(Math.max(...ranges))];
+
+        box.bins.sort((a, b) => channel(a) - channel(b));
+
+        // Split at the population median
+        let running = 0;
+        let splitIndex = 1;
+        for (let i = 0; i < box.bins.length - 1; i++) {
+            running += histogram[box.bins[i]];
+            if (running >= box.count / 2) {
+                splitIndex = i + 1;
+                break;
+            }
+            splitIndex = i + 1;
+        }
+
+        const lower = box.bins.slice(0, splitIndex);
+        const upper = box.bins.slice(splitIndex);
+        const lowerCount = lower.reduce((sum, bin) => sum + histogram[bin], 0);
+
+        boxes.splice(target, 1,
+            { bins: lower, count: lowerCount },
+            { bins: upper, count: box.count - lowerCount }
+        );
+    }
+
+    // Average each box into a palette entry and map its bins to that entry
+    const palette = new Uint8Array(MAX_COLORS * 3);
+    const binToIndex = new Uint8Array(32768);
+    boxes.forEach((box, index) => {
+        let r = 0;
+        let g = 0;
+        let b = 0;
+        box.bins.forEach((bin) => {
+            const weight = histogram[bin];
+            r += expand5(binRed(bin)) * weight;
+            g += expand5(binGreen(bin)) * weight;
+            b += expand5(binBlue(bin)) * weight;
+            binToIndex[bin] = index;
+        });
+        const count = Math.max(1, box.count);
+        palette[index * 3] = Math.round(r / count);
+        palette[index * 3 + 1] = Math.round(g / count);
+        palette[index * 3 + 2] = Math.round(b / count);
+    });
+
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+        indices[i] = binToIndex[pixelBins[i]];
+    }
+
+    return { palette, indices };
+};
+
+/**
+ * LZW-compress palette indices into GIF image data sub-blocks
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+    const output: number[] = [];
+    const clearCode = 1 << minCodeSize;
+    const eoiCode = clearCode + 1;
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = eoiCode + 1;
+    let table = new Map<number, number>();
+
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            output.push(bitBuffer & 0xff);
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const k = indices[i];
+        const key = (prefix << 8) | k;
+        const existing = table.get(key);
+
+        if (existing !== undefined) {
+            prefix = existing;
+            continue;
+        }
+
+        emit(prefix);
+
+        if (nextCode === MAX_CODE) {
+            // Table full: reset the dictionary
+            emit(clearCode);
+            table = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = eoiCode + 1;
+        } else {
+            if (nextCode >= (1 << codeSize)) codeSize++;
+            table.set(key, nextCode++);
+        }
+
+        prefix = k;
+    }
+
+    emit(prefix);
+    emit(eoiCode);
+    if (bitCount > 0) output.push(bitBuffer & 0xff);
+
+    // Pack into length-prefixed sub-blocks
+    const blockCount = Math.ceil(output.length / 255);
+    const data = new Uint8Array(output.length + blockCount + 1);
+    let offset = 0;
+    for (let i = 0; i < output.length; i += 255) {
+        const block = output.slice(i, i + 255);
+        data[offset++] = block.length;
+        data.set(block, offset);
+        offset += block.length;
+    }
+    data[offset] = 0; // Block terminator
+
+    return data;
+};
+
+export class GIFEncoder {
+    private chunks: Uint8Array[] = [];
+    private width: number;
+    private height: number;
+    private finished = false;
+
+    constructor(options: GIFEncoderOptions) {
+        this.width = options.width;
+        this.height = options.height;
+        this.writeHeader(options.loop);
+    }
+
+    /**
+     * Add an RGBA frame (width * height * 4 bytes) shown for `delayMs`
+     */
+    public addFrame(pixels: Uint8ClampedArray, delayMs: number): void {
+        if (this.finished) throw new Error('GIF encoder already finished');
+        if (pixels.length !== this.width * this.height * 4) {
+            throw new Error('Frame size does not match GIF dimensions');
+        }
+
+        const { palette, indices } = quantize(pixels);
+        const delay = Math.max(2, Math.round(delayMs / 10)); // centiseconds
+
+        // Graphic control extension (no transparency, leave frame in place)
+        this.write([0x21, 0xf9, 0x04, 0x04, delay & 0xff, (delay >> 8) & 0xff, 0x00, 0x00]);
+
+        // Image descriptor with a 256-entry local colour table
+        this.write([
+            0x2c,
+            0, 0, 0, 0,
+            this.width & 0xff, (this.width >> 8) & 0xff,
+            this.height & 0xff, (this.height >> 8) & 0xff,
+            0x87,
+        ]);
+        this.chunks.push(palette);
+
+        // LZW minimum code size followed by image data
+        this.write([8]);
+        this.chunks.push(lzwEncode(indices, 8));
+    }
+
+    /**
+     * Write the trailer and return the encoded GIF
+     */
+    public finish(): Blob {
+        if (!this.finished) {
+            this.write([0x3b]);
+            this.finished = true;
+        }
+        return new Blob(this.chunks as BlobPart[], { type: 'image/gif' });
+    }
+
+    private writeHeader(loop: boolean): void {
+        // "GIF89a"
+        this.write([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]);
+
+        // Logical screen descriptor (no global colour table)
+        this.write([
+            this.width & 0xff, (this.width >> 8) & 0xff,
+            this.height & 0xff, (this.height >> 8) & 0xff,
+            0x00, 0x00, 0x00,
+        ]);
+
+        if (loop) {
+            // NETSCAPE2.0 application extension, loop count 0 = forever
+            this.write([
+                0x21, 0xff, 0x0b,
+                0x4e, 0x45, 0x54, 0x53, 0x43, 0x41, 0x50, 0x45, 0x32, 0x2e, 0x30,
+                0x03, 0x01, 0x00, 0x00, 0x00,
+            ]);
+        }
+    }
+
+    private write(bytes: number[]): void {
+        this.chunks.push(Uint8Array.from(bytes));
+    }
+}
@@ -1,15 +1,20 @@
 // Export PDF
 // PDF generation using pdf-lib
 
-import { PDFDocument, rgb, PageSizes } from 'pdf-lib';
+import { PDFDocument, PDFPage, cmyk, rgb, PageSizes } from 'pdf-lib';
 import { Page } from '@/types/project';
-import { PDFExportSettings } from '@/types/export';
+import { GamutWarning, PDFColorSpace, PDFExportSettings } from '@/types/export';
+import { useEditorStore } from '@/store/editorStore';
+import { getPagePrintMargins } from '@/utils/units';
 import { getCanvasRenderer } from '../CanvasRenderer';
+import { PDFVectorRenderer } from './pdfVector';
+import { drawEmbeddedImage, embedCMYKPng, findOutOfGamutColors } from './pdfCMYK';
 
 export interface PDFExportResult {
     blob: Blob;
     pageCount: number;
     size: number;
+    gamutWarnings: GamutWarning[]; // Colors that shift in CMYK; empty for RGB exports
 }
 
 /**
@@ -27,12 +32,115 @@ const hexToRgb = (hex: string): { r: number; g: number; b: number } => {
     return { r: 0, g: 0, b: 0 };
 };
 
+/**
+ * Draw crop marks at the trim box corners
+ */
+const drawCropMarks = (
+    pdfPage: PDFPage,
+    pageWidth: number,
+    pageHeight: number,
+    markOffset: number,
+    colorSpace: PDFColorSpace
+): void => {
+    const markLength = 18; // ~6mm
+    const { r, g, b } = hexToRgb('#000000');
+    const color = colorSpace === 'cmyk' ? cmyk(0, 0, 0, 1) : rgb(r, g, b);
+
+    // Top-left
+    pdfPage.drawLine({
+        start: { x: markOffset - markLength, y: pageHeight - markOffset },
+        end: { x: markOffset, y: pageHeight - markOffset },
+        thickness: 0.5,
+        color,
+    });
+    pdfPage.drawLine({
+        start: { x: markOffset, y: pageHeight - markOffset },
+        end: { x: markOffset, y: pageHeight - markOffset + markLength },
+        thickness: 0.5,
+        color,
+    });
+
+    // Top-right
+    pdfPage.drawLine({
+        start: { x: pageWidth - markOffset, y: pageHeight - markOffset },
+        end: { x: pageWidth - markOffset + markLength, y: pageHeight - markOffset },
+        thickness: 0.5,
+        color,
+    });
+    pdfPage.drawLine({
+        start: { x: pageWidth - markOffset, y: pageHeight - markOffset },
+        end: { x: pageWidth - markOffset, y: pageHeight - markOffset + markLength },
+        thickness: 0.5,
+        color,
+    });
+
+    // Bottom-left
+    pdfPage.drawLine({
+        start: { x: markOffset - markLength, y: markOffset },
+        end: { x: markOffset, y: markOffset },
+        thickness: 0.5,
+        color,
+    });
+    pdfPage.drawLine({
+        start: { x: markOffset, y: markOffset },
+        end: { x: markOffset, y: markOffset - markLength },
+        thickness: 0.5,
+        color,
+    });
+
+    // Bottom-right
+    pdfPage.drawLine({
+        start: { x: pageWidth - markOffset, y: markOffset },
+        end: { x: pageWidth - markOffset + markLength, y: markOffset },
+        thickness: 0.5,
+        color,
+    });
+    pdfPage.drawLine({
+        start: { x: pageWidth - markOffset, y: markOffset },
+        end: { x: pageWidth - markOffset, y: markOffset - markLength },
+        thickness: 0.5,
+        color,
+    });
+};
+
+/**
+ * Place a rendered page image, converted to DeviceCMYK for CMYK exports
+ */
+const drawRasterPage = async (
+    pdfDoc: PDFDocument,
+    pdfPage: PDFPage,
+    pngBytes: ArrayBuffer,
+    colorSpace: PDFColorSpace,
+    options: { x: number; y: number; width: number; height: number }
+): Promise<void> => {
+    if (colorSpace === 'cmyk') {
+        drawEmbeddedImage(pdfPage, await embedCMYKPng(pdfDoc, pngBytes), options);
+        return;
+    }
+
+    const pngImage = await pdfDoc.embedPng(pngBytes);
+    pdfPage.drawImage(pngImage, options);
+};
+
+/**
+ * Page currently shown in the editor
+ */
+const getActivePage = (): Page | null => {
+    const { project } = useEditorStore.getState();
+    return project?.pages.find(p => p.id === project.activePageId) ?? null;
+};
+
 /**
  * Export single canvas to PDF
  */
 export const exportToPDF = async (
     settings: Partial<PDFExportSettings> = {}
 ): Promise<PDFExportResult> => {
+    const activePage = getActivePage();
+    if (activePage && !settings.flattenLayers) {
+        return exportPagesToPDF([activePage], settings);
+    }
+
     const renderer = getCanvasRenderer();
     const dimensions = renderer.getDimensions();
 
@@ -49,12 +157,9 @@ export const exportToPDF = async (
         quality: 1,
     });
 
-    // Embed image into PDF
+    // Embed image into PDF and draw it on the page
     const pngBytes = await pngBlob.arrayBuffer();
-    const pngImage = await pdfDoc.embedPng(pngBytes);
-
-    // Draw image on page
-    page.drawImage(pngImage, {
+    await drawRasterPage(pdfDoc, page, pngBytes, settings.colorSpace ?? 'rgb', {
         x: 0,
         y: 0,
         width: dimensions.width,
@@ -69,43 +174,61 @@ export const exportToPDF = async (
         blob,
         pageCount: 1,
         size: blob.size,
+        gamutWarnings: [],
     };
 };
 
 /**
- * Export multiple pages to PDF
+ * Export multiple pages to PDF.
+ * Pages are drawn as vector content unless `flattenLayers` is set.
  */
 export const exportPagesToPDF = async (
     pages: Page[],
     settings: Partial<PDFExportSettings> = {}
 ): Promise<PDFExportResult> => {
     const renderer = getCanvasRenderer();
+    const scale = settings.quality === 'maximum' ? 2 : 1;
+    const colorSpace = settings.colorSpace ?? 'rgb';
+    const gamutWarnings = colorSpace === 'cmyk' ? findOutOfGamutColors(pages) : [];
 
     // Create PDF document
     const pdfDoc = await PDFDocument.create();
+    const vectorRenderer = new PDFVectorRenderer(pdfDoc, colorSpace);
+
+    try {
+        // Add each page
+        for (const canvasPage of pages) {
+            // Add PDF page with canvas dimensions
+            const pdfPage = pdfDoc.addPage([canvasPage.width, canvasPage.height]);
+
+            if (!settings.flattenLayers) {
+                await vectorRenderer.drawPage(pdfPage, canvasPage, {
+                    offsetX: 0,
+                    offsetY: 0,
+                    embedFonts: settings.embedFonts ?? true,
+                    rasterScale: scale,
+                });
+                continue;
+            }
+
+            // Flattened: render page
+            const pngBlob = await renderer.renderPage(canvasPage, {
+                format: 'png',
+                scale,
+                quality: 1,
+            });
 
-    // Add each page
-    for (const canvasPage of pages) {
-        // Render page
-        const pngBlob = await renderer.renderPage(canvasPage, {
-            format: 'png',
-            scale: settings.quality === 'maximum' ? 2 : 1,
-            quality: 1,
-        });
-
-        // Add PDF page with canvas dimensions
-        const pdfPage = pdfDoc.addPage([canvasPage.width, canvasPage.height]);
-
-        // Embed and draw image
-        const pngBytes = await pngBlob.arrayBuffer();
-        const pngImage = await pdfDoc.embedPng(pngBytes);
-
-        pdfPage.drawImage(pngImage, {
-            x: 0,
-            y: 0,
-            width: canvasPage.width,
-            height: canvasPage.height,
-        });
+            // Embed and draw image
+            const pngBytes = await pngBlob.arrayBuffer();
+            await drawRasterPage(pdfDoc, pdfPage, pngBytes, colorSpace, {
+                x: 0,
+                y: 0,
+                width: canvasPage.width,
+                height: canvasPage.height,
+            });
+        }
+    } finally {
+        vectorRenderer.dispose();
     }
 
     // Save PDF
@@ -116,6 +239,7 @@ export const exportPagesToPDF = async (
         blob,
         pageCount: pages.length,
         size: blob.size,
+        gamutWarnings,
     };
 };
 
@@ -127,98 +251,63 @@ export const exportPrintPDF = async (
     settings: PDFExportSettings
 ): Promise<PDFExportResult> => {
     const renderer = getCanvasRenderer();
-    const bleedSize = settings.bleedSize || 9; // 3mm = ~9pt
+    const gamutWarnings = settings.colorSpace === 'cmyk' ? findOutOfGamutColors(pages) : [];
 
     // Create PDF document
     const pdfDoc = await PDFDocument.create();
-
-    for (const canvasPage of pages) {
-        // Calculate page size with bleed
-        const pageWidth = canvasPage.width + (settings.includeBleed ? bleedSize * 2 : 0);
-        const pageHeight = canvasPage.height + (settings.includeBleed ? bleedSize * 2 : 0);
-
-        const pdfPage = pdfDoc.addPage([pageWidth, pageHeight]);
-
-        // Render page
-        const pngBlob = await renderer.renderPage(canvasPage, {
-            format: 'png',
-            scale: 2, // High quality for print
-            quality: 1,
-        });
-
-        // Embed and draw image
-        const pngBytes = await pngBlob.arrayBuffer();
-        const pngImage = await pdfDoc.embedPng(pngBytes);
-
-        pdfPage.drawImage(pngImage, {
-            x: settings.includeBleed ? bleedSize : 0,
-            y: settings.includeBleed ? bleedSize : 0,
-            width: canvasPage.width,
-            height: canvasPage.height,
-        });
-
-        // Draw crop marks if enabled
-        if (settings.cropMarks) {
-            const markLength = 18; // ~6mm
-            const markOffset = settings.includeBleed ? bleedSize : 0;
-            const { r, g, b } = hexToRgb('#000000');
-
-            // Top-left
-            pdfPage.drawLine({
-                start: { x: markOffset - markLength, y: pageHeight - markOffset },
-                end: { x: markOffset, y: pageHeight - markOffset },
-                thickness: 0.5,
-                color: rgb(r, g, b),
-            });
-            pdfPage.drawLine({
-                start: { x: markOffset, y: pageHeight - markOffset },
-                end: { x: markOffset, y: pageHeight - markOffset + markLength },
-                thickness: 0.5,
-                color: rgb(r, g, b),
-            });
-
-            // Top-right
-            pdfPage.drawLine({
-                start: { x: pageWidth - markOffset, y: pageHeight - markOffset },
-                end: { x: pageWidth - markOffset + markLength, y: pageHeight - markOffset },
-                thickness: 0.5,
-                color: rgb(r, g, b),
-            });
-            pdfPage.drawLine({
-                start: { x: pageWidth - markOffset, y: pageHeight - markOffset },
-                end: { x: pageWidth - markOffset, y: pageHeight - markOffset + markLength },
-                thickness: 0.5,
-                color: rgb(r, g, b),
-            });
-
-            // Bottom-left
-            pdfPage.drawLine({
-                start: { x: markOffset - markLength, y: markOffset },
-                end: { x: markOffset, y: markOffset },
-                thickness: 0.5,
-                color: rgb(r, g, b),
-            });
-            pdfPage.drawLine({
-                start: { x: markOffset, y: markOffset },
-                end: { x: markOffset, y: markOffset - markLength },
-                thickness: 0.5,
-                color: rgb(r, g, b),
-            });
-
-            // Bottom-right
-            pdfPage.drawLine({
-                start: { x: pageWidth - markOffset, y: markOffset },
-                end: { x: pageWidth - markOffset + markLength, y: markOffset },
-                thickness: 0.5,
-                color: rgb(r, g, b),
-            });
-            pdfPage.drawLine({
-                start: { x: pageWidth - markOffset, y: markOffset },
-                end: { x: pageWidth - markOffset, y: markOffset - markLength },
-                thickness: 0.5,
-                color: rgb(r, g, b),
-            });
+    const vectorRenderer = new PDFVectorRenderer(pdfDoc, settings.colorSpace);
+
+    try {
+        for (const canvasPage of pages) {
+            // Bleed from the page's print settings, else the export setting (3mm = ~9pt)
+            const bleedSize = getPagePrintMargins(canvasPage).bleed || settings.bleedSize || 9;
+            const pageOffset = settings.includeBleed ? bleedSize : 0;
+            const vectorOptions = {
+                offsetX: pageOffset,
+                offsetY: pageOffset,
+                embedFonts: settings.embedFonts,
+                rasterScale: 2, // Fallbacks at print resolution
+                bleed: pageOffset,
+            };
+
+            // Calculate page size with bleed
+            const pageWidth = canvasPage.width + pageOffset * 2;
+            const pageHeight = canvasPage.height + pageOffset * 2;
+
+            const pdfPage = pdfDoc.addPage([pageWidth, pageHeight]);
+
+            if (settings.flattenLayers) {
+                // Background into the bleed, under the page image
+                if (pageOffset > 0) {
+                    await vectorRenderer.drawPageBackground(pdfPage, canvasPage, vectorOptions);
+                }
+
+                // Render page
+                const pngBlob = await renderer.renderPage(canvasPage, {
+                    format: 'png',
+                    scale: 2, // High quality for print
+                    quality: 1,
+                });
+
+                // Embed and draw image
+                const pngBytes = await pngBlob.arrayBuffer();
+                await drawRasterPage(pdfDoc, pdfPage, pngBytes, settings.colorSpace, {
+                    x: pageOffset,
+                    y: pageOffset,
+                    width: canvasPage.width,
+                    height: canvasPage.height,
+                });
+            } else {
+                await vectorRenderer.drawPage(pdfPage, canvasPage, vectorOptions);
+            }
+
+            // Draw crop marks if enabled
+            if (settings.cropMarks) {
+                drawCropMarks(pdfPage, pageWidth, pageHeight, pageOffset, settings.colorSpace);
+            }
         }
+    } finally {
+        vectorRenderer.dispose();
     }
 
     // Save PDF
@@ -229,6 +318,7 @@ export const exportPrintPDF = async (
         blob,
         pageCount: pages.length,
         size: blob.size,
+        gamutWarnings,
     };
 };
 
@@ -2,8 +2,11 @@
 // PNG/JPG export utilities
 
 import { getCanvasRenderer, RenderOptions } from '../CanvasRenderer';
+import { loadImage, renderPageBackground } from './exportUtils';
+import { useEditorStore } from '@/store/editorStore';
 import { Page } from '@/types/project';
 import { ImageExportSettings, QUALITY_SCALE_MAP, QUALITY_JPEG_MAP } from '@/types/export';
+import { getPagePrintMargins } from '@/utils/units';
 
 export interface PNGExportResult {
     blob: Blob;
@@ -13,12 +16,69 @@ export interface PNGExportResult {
     size: number;
 }
 
+/**
+ * Bleed for an image export: the page's print bleed, else the export setting
+ */
+const getExportBleed = (page: Page, settings: Partial<ImageExportSettings>): number => {
+    if (!settings.includeBleed) return 0;
+    return getPagePrintMargins(page).bleed || settings.bleedSize || 0;
+};
+
+/**
+ * Surround a rendered page with its bleed, continuing the page background past the edges
+ */
+const addBleed = async (
+    page: Page,
+    pageBlob: Blob,
+    bleed: number,
+    scale: number,
+    transparentBackground: boolean
+): Promise<Blob> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round((page.width + bleed * 2) * scale);
+    canvas.height = Math.round((page.height + bleed * 2) * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    if (!transparentBackground) {
+        const backgroundUrl = await renderPageBackground(page, scale, bleed);
+        if (backgroundUrl) {
+            ctx.drawImage(await loadImage(backgroundUrl), 0, 0, canvas.width, canvas.height);
+        } else if (page.background.type === 'solid') {
+            ctx.fillStyle = page.background.color;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+    }
+
+    const pageUrl = URL.createObjectURL(pageBlob);
+    try {
+        const pageImage = await loadImage(pageUrl, null);
+        ctx.drawImage(pageImage, bleed * scale, bleed * scale, page.width * scale, page.height * scale);
+    } finally {
+        URL.revokeObjectURL(pageUrl);
+    }
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) resolve(blob);
+            else reject(new Error('Failed to create blob'));
+        }, 'image/png');
+    });
+};
+
 /**
  * Export canvas to PNG
  */
 export const exportToPNG = async (
     settings: Partial<ImageExportSettings> = {}
 ): Promise<PNGExportResult> => {
+    // Bleed needs the page background, so export the active page instead
+    if (settings.includeBleed) {
+        const { project } = useEditorStore.getState();
+        const activePage = project?.pages.find(p => p.id === project.activePageId);
+        if (activePage) return exportPageToPNG(activePage, settings);
+    }
+
     const renderer = getCanvasRenderer();
     const dimensions = renderer.getDimensions();
 
@@ -83,19 +143,24 @@ export const exportPageToPNG = async (
 ): Promise<PNGExportResult> => {
     const renderer = getCanvasRenderer();
     const scale = settings.scale || QUALITY_SCALE_MAP[settings.quality || 'high'];
+    const bleed = getExportBleed(page, settings);
 
-    const blob = await renderer.renderPage(page, {
+    let blob = await renderer.renderPage(page, {
         format: 'png',
         scale,
         quality: 1,
         backgroundColor: settings.transparentBackground ? undefined : '#ffffff',
     });
 
+    if (bleed > 0) {
+        blob = await addBleed(page, blob, bleed, scale, !!settings.transparentBackground);
+    }
+
     return {
         blob,
         dataUrl: URL.createObjectURL(blob),
-        width: page.width * scale,
-        height: page.height * scale,
+        width: (page.width + bleed * 2) * scale,
+        height: (page.height + bleed * 2) * scale,
         size: blob.size,
     };
 };
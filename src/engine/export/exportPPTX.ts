@@ -3,8 +3,27 @@
 
 import PptxGenJS from 'pptxgenjs';
 import { Page } from '@/types/project';
+import { CanvasElement, ImageElement, Shadow, ShapeElement, TextElement } from '@/types/canvas';
 import { PPTXExportSettings } from '@/types/export';
+import { resolveCSSColor, rgbToHex } from '@/utils/colors';
+import { POINTS_PER_INCH } from '@/utils/units';
 import { getCanvasRenderer } from '../CanvasRenderer';
+import { FabricCanvas } from '../fabric/FabricCanvas';
+import { resolvePageTimeline } from '../animation/AnimationEngine';
+import {
+    ElementBox,
+    applyTextTransform,
+    getElementBox,
+    getShapePoints,
+    getSolidFill,
+    loadImage,
+    measureText,
+    renderPageBackground,
+} from './exportUtils';
+import { injectSlideAnimations, SlideAnimationEntry } from './pptxAnimations';
+import { getTextLines, resolveRunStyle } from '../text/richText';
+import { getListLevels, getListMarkers, getListNumbers } from '../text/lists';
+import { getFilteredSrc } from '../filters/filterStack';
 
 export interface PPTXExportResult {
     blob: Blob;
@@ -35,6 +54,459 @@ const getSlideLayout = (
     }
 };
 
+// Where a page sits on its slide: inches per page pixel plus centring offset
+interface SlideFrame {
+    scale: number;
+    offsetX: number;
+    offsetY: number;
+}
+
+interface PPTXColor {
+    color: string; // hex without '#'
+    alpha: number; // 0-1
+}
+
+/**
+ * Fit the page inside the slide, centred
+ */
+const getSlideFrame = (page: Page, layout: { width: number; height: number }): SlideFrame => {
+    const scale = Math.min(layout.width / page.width, layout.height / page.height);
+    return {
+        scale,
+        offsetX: (layout.width - page.width * scale) / 2,
+        offsetY: (layout.height - page.height * scale) / 2,
+    };
+};
+
+/**
+ * Convert any CSS color to a pptxgenjs hex color and alpha
+ */
+const toPPTXColor = (color: string | null | undefined): PPTXColor | null => {
+    const rgba = color ? resolveCSSColor(color) : null;
+    if (!rgba) return null;
+
+    return {
+        color: rgbToHex(rgba.r, rgba.g, rgba.b).slice(1).toUpperCase(),
+        alpha: rgba.a,
+    };
+};
+
+const toTransparency = (alpha: number, opacity: number): number => {
+    return Math.round(Math.min(1, Math.max(0, 1 - alpha * opacity)) * 100);
+};
+
+/**
+ * Position props shared by every slide object
+ */
+const getPositionProps = (element: CanvasElement, box: ElementBox, frame: SlideFrame) => ({
+    x: frame.offsetX + box.x * frame.scale,
+    y: frame.offsetY + box.y * frame.scale,
+    w: box.width * frame.scale,
+    h: box.height * frame.scale,
+    rotate: element.transform.rotation,
+    flipH: element.transform.scaleX < 0,
+    flipV: element.transform.scaleY < 0,
+    objectName: element.name,
+});
+
+/**
+ * Convert a drop shadow to slide points
+ */
+const toPPTXShadow = (shadow: Shadow | null, frame: SlideFrame): PptxGenJS.ShadowProps | undefined => {
+    const color = shadow ? toPPTXColor(shadow.color) : null;
+    if (!shadow || !color) return undefined;
+
+    const pointsPerPixel = frame.scale * POINTS_PER_INCH;
+    const angle = (Math.atan2(shadow.offsetY, shadow.offsetX) * 180) / Math.PI;
+
+    return {
+        type: 'outer',
+        color: color.color,
+        opacity: color.alpha,
+        blur: Math.min(100, shadow.blur * pointsPerPixel),
+        offset: Math.min(200, Math.hypot(shadow.offsetX, shadow.offsetY) * pointsPerPixel),
+        angle: Math.round((angle + 360) % 360),
+    };
+};
+
+// PowerPoint numbering for each nesting level, matching formatListNumber
+const LIST_NUMBER_TYPES = ['arabicPeriod', 'alphaLcPeriod', 'romanLcPeriod'] as const;
+
+/**
+ * Native bullet and nesting for each paragraph of a list text; numbers are set explicitly
+ * so they restart exactly where the editor's do
+ */
+const getListProps = (element: TextElement, paragraphCount: number, fontSize: number): PptxGenJS.TextPropsOptions[] => {
+    const { list } = element;
+    if (!list) return [];
+
+    const levels = getListLevels(list, paragraphCount);
+    const numbers = getListNumbers(list, paragraphCount);
+    const markers = getListMarkers(list, paragraphCount);
+    const indent = list.indent * fontSize;
+
+    return levels.map((level, i) => ({
+        indentLevel: level,
+        bullet: list.type === 'numbered'
+            ? { type: 'number', numberType: LIST_NUMBER_TYPES[level % LIST_NUMBER_TYPES.length], numberStartAt: numbers[i], indent }
+            : { characterCode: (markers[i].codePointAt(0) ?? 0x2022).toString(16).toUpperCase().padStart(4, '0'), indent },
+    }));
+};
+
+/**
+ * Add a text element as an editable text box, with a text run per styled range
+ */
+const addTextElement = (slide: PptxGenJS.Slide, element: TextElement, frame: SlideFrame): void => {
+    const { textStyle, style, transform } = element;
+    const content = applyTextTransform(element.content, textStyle.textTransform);
+
+    const measured = measureText(content, element);
+    const box = getElementBox(transform, measured.width, measured.height);
+
+    const pointsPerPixel = frame.scale * POINTS_PER_INCH;
+    const stroke = style.strokeWidth > 0 ? toPPTXColor(style.stroke) : null;
+
+    const lines = getTextLines(element.content, element.runs, text => applyTextTransform(text, textStyle.textTransform));
+    const fontScale = measured.fontScale * Math.abs(transform.scaleY) * pointsPerPixel;
+    const listProps = getListProps(element, lines.length, textStyle.fontSize * fontScale);
+    const textRuns: PptxGenJS.TextProps[] = lines.flatMap((segments, i) => {
+        const parts = segments.length > 0 ? segments : [{ text: '', style: {} }];
+        return parts.map((segment, j) => {
+            const runStyle = resolveRunStyle(textStyle, segment.style);
+            const fontSize = runStyle.fontSize * fontScale;
+            const fill = toPPTXColor(segment.style.fill ?? getSolidFill(style.fill));
+
+            return {
+                text: segment.text,
+                options: {
+                    fontFace: runStyle.fontFamily,
+                    fontSize,
+                    color: fill?.color,
+                    transparency: toTransparency(fill?.alpha ?? 1, style.opacity),
+                    bold: runStyle.fontWeight === 'bold' || Number(runStyle.fontWeight) >= 600,
+                    italic: runStyle.fontStyle === 'italic',
+                    underline: runStyle.textDecoration === 'underline' ? { style: 'sng' } : undefined,
+                    strike: runStyle.textDecoration === 'line-through' ? 'sngStrike' : undefined,
+                    charSpacing: textStyle.letterSpacing * 0.1 * fontSize, // letterSpacing is in tenths of an em
+                    breakLine: j === parts.length - 1 && i < lines.length - 1 ? true : undefined,
+                    ...listProps[i],
+                },
+            };
+        });
+    });
+
+    slide.addText(textRuns, {
+        ...getPositionProps(element, box, frame),
+        align: textStyle.textAlign,
+        valign: 'top',
+        lineSpacingMultiple: textStyle.lineHeight,
+        outline: stroke ? { color: stroke.color, size: style.strokeWidth * pointsPerPixel } : undefined,
+        shadow: toPPTXShadow(style.shadow, frame),
+        margin: 0,
+        wrap: (element.sizing ?? 'auto') !== 'auto',
+    });
+};
+
+/**
+ * Add a shape element as a native PowerPoint shape
+ */
+const addShapeElement = (
+    pptx: PptxGenJS,
+    slide: PptxGenJS.Slide,
+    element: ShapeElement,
+    frame: SlideFrame
+): void => {
+    const { style, transform } = element;
+    const pointsPerPixel = frame.scale * POINTS_PER_INCH;
+    const fill = toPPTXColor(getSolidFill(style.fill));
+    const stroke = style.strokeWidth > 0 ? toPPTXColor(style.stroke) : null;
+
+    const shapeProps: PptxGenJS.ShapeProps = {
+        fill: fill
+            ? { color: fill.color, transparency: toTransparency(fill.alpha, style.opacity) }
+            : { type: 'none' },
+        line: stroke
+            ? {
+                color: stroke.color,
+                width: style.strokeWidth * pointsPerPixel,
+                transparency: toTransparency(stroke.alpha, style.opacity),
+            }
+            : undefined,
+        shadow: toPPTXShadow(style.shadow, frame),
+    };
+
+    switch (element.shapeType) {
+        case 'circle': {
+            const diameter = Math.min(transform.width, transform.height);
+            const box = getElementBox(transform, diameter, diameter);
+            slide.addShape(pptx.ShapeType.ellipse, { ...shapeProps, ...getPositionProps(element, box, frame) });
+            break;
+        }
+
+        case 'triangle': {
+            const box = getElementBox(transform, transform.width, transform.height);
+            slide.addShape(pptx.ShapeType.triangle, { ...shapeProps, ...getPositionProps(element, box, frame) });
+            break;
+        }
+
+        case 'arrow': {
+            const box = getElementBox(transform, transform.width, transform.height);
+            slide.addShape(pptx.ShapeType.rightArrow, { ...shapeProps, ...getPositionProps(element, box, frame) });
+            break;
+        }
+
+        case 'line': {
+            // Lines are drawn with their stroke; fall back to the fill color
+            const color = stroke ?? fill;
+            const box = getElementBox(transform, transform.width, 0);
+            slide.addShape(pptx.ShapeType.line, {
+                ...getPositionProps(element, box, frame),
+                line: color
+                    ? {
+                        color: color.color,
+                        width: (style.strokeWidth || 2) * pointsPerPixel,
+                        transparency: toTransparency(color.alpha, style.opacity),
+                    }
+                    : undefined,
+            });
+            break;
+        }
+
+        case 'polygon':
+        case 'star': {
+            const points = getShapePoints(element);
+            const minX = Math.min(...points.map(p => p.x));
+            const minY = Math.min(...points.map(p => p.y));
+            const width = Math.max(...points.map(p => p.x)) - minX;
+            const height = Math.max(...points.map(p => p.y)) - minY;
+            const box = getElementBox(transform, width, height);
+
+            // Custom geometry points are in inches from the shape's top-left
+            const toInchesX = Math.abs(transform.scaleX) * frame.scale;
+            const toInchesY = Math.abs(transform.scaleY) * frame.scale;
+
+            slide.addShape('custGeom' as PptxGenJS.SHAPE_NAME, {
+                ...shapeProps,
+                ...getPositionProps(element, box, frame),
+                points: [
+                    ...points.map(p => ({ x: (p.x - minX) * toInchesX, y: (p.y - minY) * toInchesY })),
+                    { close: true as const },
+                ],
+            });
+            break;
+        }
+
+        default: {
+            const box = getElementBox(transform, transform.width, transform.height);
+            const cornerRadius = style.cornerRadius * Math.min(Math.abs(transform.scaleX), Math.abs(transform.scaleY));
+            slide.addShape(cornerRadius > 0 ? pptx.ShapeType.roundRect : pptx.ShapeType.rect, {
+                ...shapeProps,
+                ...getPositionProps(element, box, frame),
+                rectRadius: cornerRadius > 0 ? cornerRadius * frame.scale : undefined,
+            });
+        }
+    }
+};
+
+/**
+ * Image data at native resolution with the basic adjustments baked in;
+ * the image is loaded with its filter stack already rendered
+ */
+const getImageData = (img: HTMLImageElement, element: ImageElement): string => {
+    const { filters } = element;
+    const cssFilters = [
+        filters.brightness !== 0 ? `brightness(${1 + filters.brightness / 100})` : '',
+        filters.contrast !== 0 ? `contrast(${1 + filters.contrast / 100})` : '',
+        filters.saturation !== 0 ? `saturate(${1 + filters.saturation / 100})` : '',
+        filters.grayscale ? 'grayscale(1)' : '',
+        filters.sepia ? 'sepia(1)' : '',
+        filters.invert ? 'invert(1)' : '',
+    ].filter(Boolean).join(' ');
+
+    // Data URLs without adjustments can go in as they are
+    if (!cssFilters && img.src.startsWith('data:image/')) {
+        return img.src;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    ctx.filter = cssFilters || 'none';
+    ctx.drawImage(img, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Add an image element as a positioned picture
+ */
+const addImageElement = async (
+    slide: PptxGenJS.Slide,
+    element: ImageElement,
+    frame: SlideFrame
+): Promise<boolean> => {
+    const src = await getFilteredSrc(element).catch(() => element.src);
+    const img = await loadImage(src, element.crossOrigin).catch(() => null);
+    if (!img) return false;
+
+    const box = getElementBox(element.transform, img.naturalWidth, img.naturalHeight);
+
+    slide.addImage({
+        ...getPositionProps(element, box, frame),
+        data: getImageData(img, element),
+        altText: element.name,
+        transparency: toTransparency(1, element.style.opacity),
+        shadow: toPPTXShadow(element.style.shadow, frame),
+    });
+    return true;
+};
+
+// Pixels per page pixel for elements placed as pictures
+const RASTER_SCALE = 2;
+
+/**
+ * Render an element on its own and add it as a positioned picture,
+ * for elements without an editable PowerPoint equivalent
+ */
+const addRasterElement = async (
+    slide: PptxGenJS.Slide,
+    element: CanvasElement,
+    page: Page,
+    frame: SlideFrame,
+    fabricCanvas: FabricCanvas
+): Promise<boolean> => {
+    fabricCanvas.clear();
+    fabricCanvas.resize(page.width, page.height);
+
+    const object = await fabricCanvas.addElement(element).catch(() => null);
+    if (!object) return false;
+
+    // Pad for shadows, which the bounding rect leaves out
+    const shadow = element.style.shadow;
+    const pad = shadow ? shadow.blur + Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY)) : 0;
+    const bounds = object.getBoundingRect(true, true);
+    const left = Math.floor(bounds.left - pad);
+    const top = Math.floor(bounds.top - pad);
+    const width = Math.ceil(bounds.width + pad * 2) + 1;
+    const height = Math.ceil(bounds.height + pad * 2) + 1;
+    if (width <= 0 || height <= 0) return false;
+
+    slide.addImage({
+        data: fabricCanvas.toDataURL({ format: 'png', left, top, width, height, multiplier: RASTER_SCALE }),
+        x: frame.offsetX + left * frame.scale,
+        y: frame.offsetY + top * frame.scale,
+        w: width * frame.scale,
+        h: height * frame.scale,
+        altText: element.name,
+        objectName: element.name,
+    });
+    return true;
+};
+
+/**
+ * Apply the page background to the slide
+ */
+const setSlideBackground = async (slide: PptxGenJS.Slide, page: Page): Promise<void> => {
+    if (page.background.type === 'solid') {
+        const color = toPPTXColor(page.background.color);
+        if (color) slide.background = { color: color.color };
+        return;
+    }
+
+    // Gradients and fitted images become a rendered picture background
+    const data = await renderPageBackground(page).catch(() => null);
+    if (data) slide.background = { data };
+};
+
+/**
+ * Build an editable slide from a page.
+ * Returns the ids of the elements added, in slide drawing order.
+ */
+const addNativeSlide = async (
+    pptx: PptxGenJS,
+    slide: PptxGenJS.Slide,
+    page: Page,
+    layout: { width: number; height: number }
+): Promise<string[]> => {
+    const frame = getSlideFrame(page, layout);
+    const added: string[] = [];
+
+    await setSlideBackground(slide, page);
+
+    const elements = [...page.elements]
+        .filter(element => element.visible)
+        .sort((a, b) => a.zIndex - b.zIndex);
+
+    // Set up on first use, for elements that go in as pictures
+    const rasterCanvas = new FabricCanvas();
+    const addRaster = (element: CanvasElement): Promise<boolean> => {
+        if (!rasterCanvas.getCanvas()) {
+            rasterCanvas.init(document.createElement('canvas'), {
+                width: page.width,
+                height: page.height,
+                backgroundColor: 'rgba(0,0,0,0)',
+                selection: false,
+            });
+        }
+        return addRasterElement(slide, element, page, frame, rasterCanvas);
+    };
+
+    try {
+        for (const element of elements) {
+            let isAdded = true;
+
+            switch (element.type) {
+                case 'text':
+                    addTextElement(slide, element, frame);
+                    break;
+
+                case 'shape':
+                    addShapeElement(pptx, slide, element, frame);
+                    break;
+
+                case 'image':
+                    isAdded = await addImageElement(slide, element, frame) || await addRaster(element);
+                    break;
+
+                default:
+                    isAdded = await addRaster(element);
+                    break;
+            }
+
+            if (isAdded) {
+                added.push(element.id);
+            } else {
+                console.warn(`Could not add element "${element.name}" to the slide`);
+            }
+        }
+    } finally {
+        rasterCanvas.dispose();
+    }
+
+    return added;
+};
+
+/**
+ * Entrance animations for the elements on a native slide
+ */
+const getSlideAnimations = (page: Page, elementIds: string[]): SlideAnimationEntry[] => {
+    const timeline = resolvePageTimeline(page);
+
+    return elementIds.flatMap((elementId, shapeIndex): SlideAnimationEntry[] => {
+        const entrance = page.animations?.find(a => a.elementId === elementId)?.entrance ?? null;
+        const startTime = timeline.tracks.find(t => t.elementId === elementId)?.startTime ?? 0;
+
+        if (entrance && entrance.type !== 'none') {
+            return [{ shapeIndex, config: entrance, startTime }];
+        }
+
+        // Elements that join the timeline later simply appear at their start time
+        return startTime > 0 ? [{ shapeIndex, config: null, startTime }] : [];
+    });
+};
+
 /**
  * Export current canvas to PPTX
  */
@@ -98,6 +570,7 @@ export const exportPagesToPPTX = async (
     settings: Partial<PPTXExportSettings> = {}
 ): Promise<PPTXExportResult> => {
     const renderer = getCanvasRenderer();
+    const mode = settings.mode ?? 'native';
 
     // Create presentation
     const pptx = new PptxGenJS();
@@ -117,8 +590,20 @@ export const exportPagesToPPTX = async (
     });
     pptx.layout = 'CUSTOM';
 
+    const slideAnimations: SlideAnimationEntry[][] = [];
+
     // Add each page as a slide
     for (const canvasPage of pages) {
+        const slide = pptx.addSlide();
+
+        if (mode === 'native') {
+            const addedElements = await addNativeSlide(pptx, slide, canvasPage, layout);
+            slideAnimations.push(
+                settings.preserveAnimations ? getSlideAnimations(canvasPage, addedElements) : []
+            );
+            continue;
+        }
+
         // Render page
         const pngBlob = await renderer.renderPage(canvasPage, {
             format: 'png',
@@ -129,9 +614,6 @@ export const exportPagesToPPTX = async (
         // Convert blob to base64
         const base64 = await blobToBase64(pngBlob);
 
-        // Add slide
-        const slide = pptx.addSlide();
-
         // Add image
         slide.addImage({
             data: base64,
@@ -140,10 +622,16 @@ export const exportPagesToPPTX = async (
             w: '100%',
             h: '100%',
         });
+        slideAnimations.push([]);
     }
 
-    // Write to blob
-    const pptxBlob = await pptx.write({ outputType: 'blob' }) as Blob;
+    // Write to blob, adding animation timing where there is any
+    const pptxBlob = slideAnimations.some(entries => entries.length > 0)
+        ? await injectSlideAnimations(
+            await pptx.write({ outputType: 'arraybuffer' }) as ArrayBuffer,
+            slideAnimations
+        )
+        : await pptx.write({ outputType: 'blob' }) as Blob;
 
     return {
         blob: pptxBlob,
@@ -1,9 +1,12 @@
 // Export SVG
-// SVG export utilities
+// SVG export utilities, and reading exported paths back in
 
+import { fabric } from 'fabric';
 import { SVGExportSettings } from '@/types/export';
 import { getFabricCanvas } from '../fabric/FabricCanvas';
 import { Page } from '@/types/project';
+import { GradientFill, PathElement, createDefaultStyle, createDefaultTransform } from '@/types/canvas';
+import { PathCommand, getPathBounds, serializePathData, translatePathCommands } from '@/utils/pathData';
 
 export interface SVGExportResult {
     svg: string;
@@ -144,6 +147,96 @@ export const resizeSVG = (
     return element.outerHTML;
 };
 
+/**
+ * Element fill for a parsed Fabric fill; patterns are dropped
+ */
+const toElementFill = (fill: fabric.Object['fill'], width: number, height: number): string | GradientFill | null => {
+    if (typeof fill === 'string') return fill && fill !== 'none' ? fill : null;
+    if (!(fill instanceof fabric.Gradient)) return null;
+
+    const colorStops = (fill.colorStops ?? []).map((stop: { offset: number; color: string; opacity?: number }) => {
+        if (stop.opacity === undefined || stop.opacity >= 1) return { offset: stop.offset, color: stop.color };
+        const color = new fabric.Color(stop.color);
+        color.setAlpha(stop.opacity);
+        return { offset: stop.offset, color: color.toRgba() };
+    });
+    const coords = fill.coords ?? {};
+
+    if (fill.type === 'radial') {
+        return { type: 'radial', colorStops, r1: coords.r1, r2: coords.r2 };
+    }
+
+    // Percentage coordinates are relative to the object's box
+    const units = (fill as fabric.Gradient & { gradientUnits?: string }).gradientUnits;
+    const sx = units === 'percentage' ? width : 1;
+    const sy = units === 'percentage' ? height : 1;
+    const dx = ((coords.x2 ?? 1) - (coords.x1 ?? 0)) * sx;
+    const dy = ((coords.y2 ?? 0) - (coords.y1 ?? 0)) * sy;
+    const angle = (Math.atan2(dy, dx) * 180) / Math.PI + 90;
+
+    return { type: 'linear', colorStops, angle: Math.round((angle + 360) % 360) };
+};
+
+/**
+ * Path element for a parsed Fabric path, centred where the path was
+ */
+const toPathElement = (path: fabric.Path): PathElement => {
+    const commands = (path.path as unknown as Array<[PathCommand['type'], ...number[]]>)
+        .map(([type, ...values]) => ({ type, values }));
+    const bounds = getPathBounds(commands);
+    const center = path.getCenterPoint();
+    const stroke = typeof path.stroke === 'string' && path.stroke !== 'none' ? path.stroke : null;
+
+    return {
+        id: crypto.randomUUID(),
+        type: 'path',
+        name: 'Path',
+        pathData: serializePathData(translatePathCommands(commands, -bounds.x, -bounds.y)),
+        transform: {
+            ...createDefaultTransform(),
+            x: center.x,
+            y: center.y,
+            width: bounds.width,
+            height: bounds.height,
+            scaleX: (path.scaleX ?? 1) * (path.flipX ? -1 : 1),
+            scaleY: (path.scaleY ?? 1) * (path.flipY ? -1 : 1),
+            rotation: path.angle ?? 0,
+        },
+        style: {
+            ...createDefaultStyle(),
+            fill: toElementFill(path.fill, bounds.width, bounds.height),
+            stroke,
+            strokeWidth: stroke ? path.strokeWidth ?? 1 : 0,
+            opacity: path.opacity ?? 1,
+        },
+        locked: false,
+        visible: true,
+        selectable: true,
+        zIndex: 0,
+    };
+};
+
+// Drawn SVG content other than paths, which path elements can't hold
+const NON_PATH_ELEMENTS = 'rect, circle, ellipse, line, polyline, polygon, text, image, use, foreignObject';
+
+/**
+ * Read an SVG made only of paths (such as one from exportToSVG) as editable path elements.
+ * Empty when it draws anything else, so it can be added whole as an image instead.
+ */
+export const importSVGPaths = (svg: string): Promise<PathElement[]> => {
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    if (doc.querySelector('parsererror') || doc.querySelector(NON_PATH_ELEMENTS)) {
+        return Promise.resolve([]);
+    }
+
+    return new Promise((resolve) => {
+        fabric.loadSVGFromString(svg, (objects) => {
+            const isAllPaths = objects.every((obj): obj is fabric.Path => obj instanceof fabric.Path);
+            resolve(isAllPaths ? objects.map(toPathElement) : []);
+        });
+    });
+};
+
 /**
  * Download SVG file
  */
@@ -0,0 +1,234 @@
+// Export Utilities
+// Element geometry, image loading and background rendering shared by the vector exporters
+
+import { GradientFill, ShapeElement, TextElement, TextStyle, Transform } from '@/types/canvas';
+import { Page } from '@/types/project';
+import { runsToFabricStyles } from '../text/richText';
+import { CustomText, TextLineRange } from '../fabric/CustomText';
+
+// What text is laid out from
+export type TextLayoutSource = Pick<TextElement, 'textStyle' | 'runs' | 'list' | 'curve' | 'textPath' | 'sizing' | 'transform'>;
+
+// Text laid out by Fabric: its box, shrink-to-fit scale and the wrapped lines shown
+export interface TextMeasure {
+    width: number;
+    height: number;
+    fontScale: number;
+    lines: TextLineRange[];
+}
+
+// Unrotated page-space bounds of an element
+export interface ElementBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Bounds of an element whose unscaled size is width x height.
+ * Rotation happens around the centre, so the origin is resolved to the centre first.
+ */
+export const getElementBox = (transform: Transform, width: number, height: number): ElementBox => {
+    const scaledWidth = width * Math.abs(transform.scaleX);
+    const scaledHeight = height * Math.abs(transform.scaleY);
+
+    const originOffset = { left: 0.5, center: 0, right: -0.5, top: 0.5, bottom: -0.5 };
+    const dx = originOffset[transform.originX] * scaledWidth;
+    const dy = originOffset[transform.originY] * scaledHeight;
+    const angle = (transform.rotation * Math.PI) / 180;
+
+    const centerX = transform.x + dx * Math.cos(angle) - dy * Math.sin(angle);
+    const centerY = transform.y + dx * Math.sin(angle) + dy * Math.cos(angle);
+
+    return {
+        x: centerX - scaledWidth / 2,
+        y: centerY - scaledHeight / 2,
+        width: scaledWidth,
+        height: scaledHeight,
+    };
+};
+
+/**
+ * Solid color for a fill (gradients use their first stop)
+ */
+export const getSolidFill = (fill: string | GradientFill | null): string | null => {
+    if (!fill) return null;
+    if (typeof fill === 'string') return fill;
+    return [...fill.colorStops].sort((a, b) => a.offset - b.offset)[0]?.color ?? null;
+};
+
+/**
+ * Apply a CSS-style text transform to text content
+ */
+export const applyTextTransform = (content: string, textTransform: TextStyle['textTransform']): string => {
+    switch (textTransform) {
+        case 'uppercase':
+            return content.toUpperCase();
+        case 'lowercase':
+            return content.toLowerCase();
+        case 'capitalize':
+            return content.replace(/\b\w/g, char => char.toUpperCase());
+        default:
+            return content;
+    }
+};
+
+/**
+ * Measure text with Fabric so exported boxes match the canvas (unscaled size); curved text
+ * and text on an outline measure the box around their path
+ */
+export const measureText = (content: string, source: TextLayoutSource): TextMeasure => {
+    const { textStyle, transform } = source;
+    const measured = new CustomText(content, {
+        fontFamily: textStyle.fontFamily,
+        fontSize: textStyle.fontSize,
+        fontWeight: textStyle.fontWeight as number,
+        fontStyle: textStyle.fontStyle,
+        lineHeight: textStyle.lineHeight,
+        charSpacing: textStyle.letterSpacing * 100,
+        styles: runsToFabricStyles(content, source.runs),
+        list: source.list,
+        curve: source.curve,
+        textPath: source.textPath,
+        sizing: source.sizing,
+        width: transform.width,
+        boxHeight: transform.height,
+    });
+    return {
+        width: measured.width ?? 0,
+        height: measured.height ?? 0,
+        fontScale: measured.fontScale,
+        lines: measured.getLineRanges(),
+    };
+};
+
+/**
+ * Outline points for polygons and stars, matching FabricCanvas
+ */
+export const getShapePoints = (element: ShapeElement): Array<{ x: number; y: number }> => {
+    const isStar = element.shapeType === 'star';
+    const count = isStar ? 2 * (element.points || 5) : element.points || 6;
+    const outerRadius = 50;
+    const innerRadius = element.innerRadius || 25;
+    const step = (2 * Math.PI) / count;
+
+    return Array.from({ length: count }, (_, i) => {
+        const radius = isStar && i % 2 === 1 ? innerRadius : outerRadius;
+        return {
+            x: radius * Math.cos(i * step - Math.PI / 2),
+            y: radius * Math.sin(i * step - Math.PI / 2),
+        };
+    });
+};
+
+/**
+ * Load an image for export
+ */
+export const loadImage = (src: string, crossOrigin: string | null = 'anonymous'): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        if (crossOrigin) img.crossOrigin = crossOrigin;
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${src}`));
+        img.src = src;
+    });
+};
+
+/**
+ * Render a gradient or image page background to a PNG data URL.
+ * The background is laid out on the page and continues `bleed` pixels past each edge.
+ * Returns null for solid backgrounds, which exporters draw natively.
+ */
+export const renderPageBackground = async (
+    page: Pick<Page, 'background' | 'width' | 'height'>,
+    scale: number = 1,
+    bleed: number = 0
+): Promise<string | null> => {
+    const { background } = page;
+    if (background.type === 'solid') return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round((page.width + bleed * 2) * scale);
+    canvas.height = Math.round((page.height + bleed * 2) * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    // Page-space layout, shifted so the bleed is drawn too
+    const width = page.width * scale;
+    const height = page.height * scale;
+    const offset = bleed * scale;
+    ctx.translate(offset, offset);
+
+    if (background.type === 'gradient') {
+        let gradient: CanvasGradient;
+
+        if (background.gradientType === 'linear') {
+            // CSS angles: 0deg = bottom to top, 90deg = left to right
+            const angle = ((background.angle || 0) * Math.PI) / 180;
+            const dirX = Math.sin(angle);
+            const dirY = -Math.cos(angle);
+            const halfLength = (Math.abs(width * dirX) + Math.abs(height * dirY)) / 2;
+            gradient = ctx.createLinearGradient(
+                width / 2 - dirX * halfLength,
+                height / 2 - dirY * halfLength,
+                width / 2 + dirX * halfLength,
+                height / 2 + dirY * halfLength
+            );
+        } else {
+            const position = background.radialPosition || 'center';
+            const cx = position.endsWith('left') ? 0 : position.endsWith('right') ? width : width / 2;
+            const cy = position.startsWith('top') ? 0 : position.startsWith('bottom') ? height : height / 2;
+            const radius = Math.hypot(Math.max(cx, width - cx), Math.max(cy, height - cy));
+            gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, radius);
+        }
+
+        [...background.colorStops]
+            .sort((a, b) => a.offset - b.offset)
+            .forEach(stop => gradient.addColorStop(stop.offset, stop.color));
+
+        ctx.fillStyle = gradient;
+        ctx.fillRect(-offset, -offset, canvas.width, canvas.height);
+        return canvas.toDataURL('image/png');
+    }
+
+    const img = await loadImage(background.src);
+
+    // Pages have no transparent backgrounds: fade over white
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(-offset, -offset, canvas.width, canvas.height);
+    ctx.globalAlpha = background.opacity;
+
+    if (background.fit === 'tile') {
+        const pattern = ctx.createPattern(img, 'repeat');
+        if (pattern) {
+            pattern.setTransform(new DOMMatrix().scale(scale));
+            ctx.fillStyle = pattern;
+            ctx.fillRect(-offset, -offset, canvas.width, canvas.height);
+        }
+    } else {
+        const drawFitted = (left: number, top: number, boxWidth: number, boxHeight: number) => {
+            const scaleX = boxWidth / img.naturalWidth;
+            const scaleY = boxHeight / img.naturalHeight;
+            const fitScale = background.fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+            const drawWidth = background.fit === 'fill' ? boxWidth : img.naturalWidth * fitScale;
+            const drawHeight = background.fit === 'fill' ? boxHeight : img.naturalHeight * fitScale;
+            ctx.drawImage(img, left + (boxWidth - drawWidth) / 2, top + (boxHeight - drawHeight) / 2, drawWidth, drawHeight);
+        };
+
+        // The image fits the trim box; an underlay fitted to the bleed box fills the bleed
+        if (offset > 0) {
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(-offset, -offset, canvas.width, canvas.height);
+            ctx.rect(width, 0, -width, height); // Counter-wound hole over the page
+            ctx.clip();
+            drawFitted(-offset, -offset, canvas.width, canvas.height);
+            ctx.restore();
+        }
+
+        drawFitted(0, 0, width, height);
+    }
+
+    return canvas.toDataURL('image/png');
+};
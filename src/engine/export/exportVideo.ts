@@ -0,0 +1,320 @@
+// Export Video
+// MP4/WebM and animated GIF export by stepping the animation timeline
+
+import { getCanvasRenderer } from '../CanvasRenderer';
+import { getAnimationPlayer } from '../animation/AnimationPlayer';
+import { getFabricCanvas } from '../fabric/FabricCanvas';
+import { resolvePageTimeline } from '../animation/AnimationEngine';
+import { GIFEncoder } from './GIFEncoder';
+import { useExportStore } from '@/store/exportStore';
+import { useCanvasStore } from '@/store/canvasStore';
+import { Page } from '@/types/project';
+import {
+    VideoExportSettings,
+    VideoFormat,
+    QUALITY_VIDEO_BITRATE_MAP,
+    createDefaultVideoExportSettings,
+} from '@/types/export';
+
+export interface VideoExportResult {
+    blob: Blob;
+    width: number;
+    height: number;
+    size: number;
+    duration: number; // in milliseconds
+    frameCount: number;
+    mimeType: string;
+}
+
+// Recorder MIME types to try for each container, best first
+const VIDEO_MIME_TYPES: Record<'mp4' | 'webm', string[]> = {
+    mp4: ['video/mp4;codecs=avc1.42E01E', 'video/mp4;codecs=avc1', 'video/mp4'],
+    webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+};
+
+/**
+ * Find a MediaRecorder MIME type the browser can encode
+ */
+export const getSupportedVideoMimeType = (format: 'mp4' | 'webm'): string | null => {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return VIDEO_MIME_TYPES[format].find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+/**
+ * Check whether a video/GIF format can be exported in this browser
+ */
+export const isVideoFormatSupported = (format: VideoFormat): boolean => {
+    return format === 'gif' || getSupportedVideoMimeType(format) !== null;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+
+// Cancelling the export resets the progress status to idle
+const isCancelled = () => useExportStore.getState().progress.status === 'idle';
+
+/**
+ * Shared frame stepping: renders each frame of the timeline onto an output canvas
+ */
+const createFrameRenderer = (page: Page, settings: VideoExportSettings) => {
+    const renderer = getCanvasRenderer();
+    const player = getAnimationPlayer();
+    const timeline = resolvePageTimeline(page);
+
+    // H.264 needs even dimensions
+    const width = Math.max(2, Math.round(page.width * settings.scale / 2) * 2);
+    const height = Math.max(2, Math.round(page.height * settings.scale / 2) * 2);
+    const duration = settings.duration ?? timeline.totalDuration;
+    const frameCount = Math.max(1, Math.ceil((duration / 1000) * settings.fps));
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const outputCtx = output.getContext('2d', { willReadFrequently: settings.format === 'gif' });
+
+    const frameCanvas = document.createElement('canvas');
+    const frameCtx = frameCanvas.getContext('2d');
+
+    if (!outputCtx || !frameCtx) {
+        throw new Error('Could not get canvas context');
+    }
+
+    // Selection borders and controls are drawn on the frames' canvas, so the selection is put aside meanwhile
+    const fabricCanvas = getFabricCanvas();
+    const selectedIds = [...useCanvasStore.getState().selectedIds];
+    fabricCanvas.selectObjects([]);
+
+    player.loadPage(page);
+
+    /**
+     * Render frame `index` onto the output canvas
+     */
+    const drawFrame = (index: number) => {
+        const time = (index * 1000) / settings.fps;
+        const timelineTime = settings.loop
+            ? time % timeline.totalDuration
+            : Math.min(time, timeline.totalDuration);
+
+        player.renderAt(timelineTime);
+
+        const frame = renderer.renderFrame();
+        if (!frame) throw new Error('Canvas not initialized');
+
+        if (frameCanvas.width !== frame.width || frameCanvas.height !== frame.height) {
+            frameCanvas.width = frame.width;
+            frameCanvas.height = frame.height;
+        }
+        frameCtx.putImageData(frame, 0, 0);
+
+        // Videos and GIFs have no alpha: flatten onto white
+        outputCtx.fillStyle = '#ffffff';
+        outputCtx.fillRect(0, 0, width, height);
+        outputCtx.drawImage(frameCanvas, 0, 0, width, height);
+    };
+
+    return {
+        output,
+        outputCtx,
+        width,
+        height,
+        duration,
+        frameCount,
+        drawFrame,
+        restore: () => {
+            player.stop();
+            fabricCanvas.selectObjects(selectedIds);
+        },
+    };
+};
+
+/**
+ * Record the timeline to MP4 or WebM with MediaRecorder.
+ * Frames are paced in real time, so this takes as long as the video.
+ */
+const recordVideo = async (
+    page: Page,
+    settings: VideoExportSettings & { format: 'mp4' | 'webm' }
+): Promise<VideoExportResult> => {
+    const mimeType = getSupportedVideoMimeType(settings.format);
+    if (!mimeType) {
+        throw new Error(`${settings.format.toUpperCase()} export is not supported in this browser`);
+    }
+
+    const frames = createFrameRenderer(page, settings);
+    const { setProgress } = useExportStore.getState();
+
+    // Scale bitrate with the pixel count relative to 1080p
+    const pixelRatio = (frames.width * frames.height) / (1920 * 1080);
+    const videoBitsPerSecond = Math.round(
+        QUALITY_VIDEO_BITRATE_MAP[settings.quality] * Math.max(0.25, pixelRatio)
+    );
+
+    const stream = frames.output.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond });
+
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+        recorder.onstop = () => resolve();
+    });
+
+    try {
+        recorder.start();
+        const frameInterval = 1000 / settings.fps;
+        const startedAt = performance.now();
+
+        for (let i = 0; i < frames.frameCount; i++) {
+            if (isCancelled()) throw new Error('Export cancelled');
+
+            frames.drawFrame(i);
+            track.requestFrame();
+
+            setProgress({
+                status: 'rendering',
+                progress: Math.round(((i + 1) / frames.frameCount) * 100),
+                message: `Recording frame ${i + 1} of ${frames.frameCount}`,
+            });
+
+            await wait(startedAt + (i + 1) * frameInterval - performance.now());
+        }
+    } finally {
+        if (recorder.state !== 'inactive') recorder.stop();
+        await stopped;
+        stream.getTracks().forEach(t => t.stop());
+        frames.restore();
+    }
+
+    const blob = new Blob(chunks, { type: mimeType.split(';')[0] });
+
+    return {
+        blob,
+        width: frames.width,
+        height: frames.height,
+        size: blob.size,
+        duration: frames.duration,
+        frameCount: frames.frameCount,
+        mimeType,
+    };
+};
+
+/**
+ * Encode the timeline to an animated GIF
+ */
+const encodeGIF = async (page: Page, settings: VideoExportSettings): Promise<VideoExportResult> => {
+    const frames = createFrameRenderer(page, settings);
+    const { setProgress } = useExportStore.getState();
+    const encoder = new GIFEncoder({
+        width: frames.width,
+        height: frames.height,
+        loop: settings.loop,
+    });
+
+    try {
+        for (let i = 0; i < frames.frameCount; i++) {
+            if (isCancelled()) throw new Error('Export cancelled');
+
+            frames.drawFrame(i);
+            const pixels = frames.outputCtx.getImageData(0, 0, frames.width, frames.height).data;
+
+            // Round per frame so delays don't drift from the timeline
+            const delay = Math.round(((i + 1) * 1000) / settings.fps) - Math.round((i * 1000) / settings.fps);
+            encoder.addFrame(pixels, delay);
+
+            setProgress({
+                status: 'encoding',
+                progress: Math.round(((i + 1) / frames.frameCount) * 100),
+                message: `Encoding frame ${i + 1} of ${frames.frameCount}`,
+            });
+
+            // Yield so the progress UI can update
+            await wait(0);
+        }
+    } finally {
+        frames.restore();
+    }
+
+    const blob = encoder.finish();
+
+    return {
+        blob,
+        width: frames.width,
+        height: frames.height,
+        size: blob.size,
+        duration: frames.duration,
+        frameCount: frames.frameCount,
+        mimeType: 'image/gif',
+    };
+};
+
+/**
+ * Export the page's animation timeline to MP4, WebM or GIF.
+ * The page must be the one currently shown on the canvas.
+ */
+export const exportToVideo = async (
+    page: Page,
+    settings: Partial<VideoExportSettings> = {}
+): Promise<VideoExportResult> => {
+    const fullSettings: VideoExportSettings = {
+        ...createDefaultVideoExportSettings(settings.format ?? 'mp4'),
+        ...settings,
+    };
+    const { setProgress } = useExportStore.getState();
+
+    setProgress({
+        status: 'preparing',
+        progress: 0,
+        currentPage: 1,
+        totalPages: 1,
+        message: 'Preparing animation...',
+    });
+
+    try {
+        const result = fullSettings.format === 'gif'
+            ? await encodeGIF(page, fullSettings)
+            : await recordVideo(page, fullSettings as VideoExportSettings & { format: 'mp4' | 'webm' });
+
+        setProgress({
+            status: 'complete',
+            progress: 100,
+            message: 'Export complete!',
+        });
+
+        return result;
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Export failed';
+        if (!isCancelled()) {
+            setProgress({ status: 'error', message, error: message });
+        }
+        throw error;
+    }
+};
+
+/**
+ * Export the page's animation timeline to an animated GIF
+ */
+export const exportToGIF = async (
+    page: Page,
+    settings: Partial<VideoExportSettings> = {}
+): Promise<VideoExportResult> => {
+    return exportToVideo(page, { ...settings, format: 'gif' });
+};
+
+/**
+ * Download exported video or GIF
+ */
+export const downloadVideo = (
+    blob: Blob,
+    filename: string,
+    format: VideoFormat = 'mp4'
+): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${filename}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
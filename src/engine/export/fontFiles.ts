@@ -0,0 +1,104 @@
+// Font Files
+// Font files bundled with the editor for the families it offers, for embedding in exports
+
+import { TextStyle } from '@/types/canvas';
+
+type FontFileStyle = Pick<TextStyle, 'fontFamily' | 'fontWeight' | 'fontStyle'>;
+
+interface FontFileSet {
+    regular: URL;
+    bold: URL;
+    italic: URL;
+    boldItalic: URL;
+}
+
+// Open-licensed Latin files; system families use metric-compatible stand-ins, so lines break the same
+const INTER: FontFileSet = {
+    regular: new URL('@fontsource/inter/files/inter-latin-400-normal.woff', import.meta.url),
+    bold: new URL('@fontsource/inter/files/inter-latin-700-normal.woff', import.meta.url),
+    italic: new URL('@fontsource/inter/files/inter-latin-400-italic.woff', import.meta.url),
+    boldItalic: new URL('@fontsource/inter/files/inter-latin-700-italic.woff', import.meta.url),
+};
+
+const ARIMO: FontFileSet = {
+    regular: new URL('@fontsource/arimo/files/arimo-latin-400-normal.woff', import.meta.url),
+    bold: new URL('@fontsource/arimo/files/arimo-latin-700-normal.woff', import.meta.url),
+    italic: new URL('@fontsource/arimo/files/arimo-latin-400-italic.woff', import.meta.url),
+    boldItalic: new URL('@fontsource/arimo/files/arimo-latin-700-italic.woff', import.meta.url),
+};
+
+const TINOS: FontFileSet = {
+    regular: new URL('@fontsource/tinos/files/tinos-latin-400-normal.woff', import.meta.url),
+    bold: new URL('@fontsource/tinos/files/tinos-latin-700-normal.woff', import.meta.url),
+    italic: new URL('@fontsource/tinos/files/tinos-latin-400-italic.woff', import.meta.url),
+    boldItalic: new URL('@fontsource/tinos/files/tinos-latin-700-italic.woff', import.meta.url),
+};
+
+const COUSINE: FontFileSet = {
+    regular: new URL('@fontsource/cousine/files/cousine-latin-400-normal.woff', import.meta.url),
+    bold: new URL('@fontsource/cousine/files/cousine-latin-700-normal.woff', import.meta.url),
+    italic: new URL('@fontsource/cousine/files/cousine-latin-400-italic.woff', import.meta.url),
+    boldItalic: new URL('@fontsource/cousine/files/cousine-latin-700-italic.woff', import.meta.url),
+};
+
+const GELASIO: FontFileSet = {
+    regular: new URL('@fontsource/gelasio/files/gelasio-latin-400-normal.woff', import.meta.url),
+    bold: new URL('@fontsource/gelasio/files/gelasio-latin-700-normal.woff', import.meta.url),
+    italic: new URL('@fontsource/gelasio/files/gelasio-latin-400-italic.woff', import.meta.url),
+    boldItalic: new URL('@fontsource/gelasio/files/gelasio-latin-700-italic.woff', import.meta.url),
+};
+
+// Lowercase family names to their files; Verdana has no stand-in and falls back to a standard font
+const FONT_FILES: Record<string, FontFileSet> = {
+    'inter': INTER,
+    'arial': ARIMO,
+    'helvetica': ARIMO,
+    'arimo': ARIMO,
+    'times new roman': TINOS,
+    'times': TINOS,
+    'tinos': TINOS,
+    'courier new': COUSINE,
+    'courier': COUSINE,
+    'cousine': COUSINE,
+    'georgia': GELASIO,
+    'gelasio': GELASIO,
+};
+
+const fontFiles: Map<string, Promise<ArrayBuffer | null>> = new Map();
+
+/**
+ * First family in a font-family list, without quotes
+ */
+const getPrimaryFamily = (fontFamily: string): string =>
+    fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+
+/**
+ * URL of the bundled file a text style is drawn with, or null for families without one
+ */
+const getFontFileURL = (style: FontFileStyle): string | null => {
+    const files = FONT_FILES[getPrimaryFamily(style.fontFamily).toLowerCase()];
+    if (!files) return null;
+
+    const bold = style.fontWeight === 'bold' || Number(style.fontWeight) >= 600;
+    const italic = style.fontStyle === 'italic';
+    if (bold && italic) return files.boldItalic.href;
+    if (bold) return files.bold.href;
+    return italic ? files.italic.href : files.regular.href;
+};
+
+/**
+ * Load the bundled font file for a text style; null when the family has none or it can't be fetched
+ */
+export const loadFontFile = (style: FontFileStyle): Promise<ArrayBuffer | null> => {
+    const url = getFontFileURL(style);
+    if (!url) return Promise.resolve(null);
+
+    let file = fontFiles.get(url);
+    if (!file) {
+        file = fetch(url)
+            .then(response => response.ok ? response.arrayBuffer() : null)
+            .catch(() => null);
+        fontFiles.set(url, file);
+    }
+    return file;
+};
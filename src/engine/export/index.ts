@@ -19,6 +19,16 @@ export {
 } from './exportPDF';
 export type { PDFExportResult } from './exportPDF';
 
+export { PDFVectorRenderer } from './pdfVector';
+export type { VectorPageOptions } from './pdfVector';
+
+export {
+    embedCMYKImage,
+    embedCMYKPixels,
+    findOutOfGamutColors,
+} from './pdfCMYK';
+export type { EmbeddedImage } from './pdfCMYK';
+
 export {
     exportToPPTX,
     exportPagesToPPTX,
@@ -33,5 +43,18 @@ export {
     parseSVGElements,
     getSVGDimensions,
     resizeSVG,
+    importSVGPaths,
 } from './exportSVG';
 export type { SVGExportResult } from './exportSVG';
+
+export {
+    exportToVideo,
+    exportToGIF,
+    downloadVideo,
+    getSupportedVideoMimeType,
+    isVideoFormatSupported,
+} from './exportVideo';
+export type { VideoExportResult } from './exportVideo';
+
+export { GIFEncoder } from './GIFEncoder';
+export type { GIFEncoderOptions } from './GIFEncoder';
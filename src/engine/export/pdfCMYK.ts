@@ -0,0 +1,165 @@
+// PDF CMYK
+// DeviceCMYK images and out-of-gamut checks for print PDF export
+
+import {
+    PDFDocument,
+    PDFPage,
+    PDFRef,
+    concatTransformationMatrix,
+    drawObject,
+    popGraphicsState,
+    pushGraphicsState,
+} from 'pdf-lib';
+import { Page } from '@/types/project';
+import { GamutWarning } from '@/types/export';
+import { isInCmykGamut, resolveCSSColor } from '@/utils/colors';
+import { loadImage } from './exportUtils';
+
+// An image XObject ready to be drawn (pdf-lib's PDFImage fits this shape)
+export interface EmbeddedImage {
+    ref: PDFRef;
+    width: number;
+    height: number;
+}
+
+/**
+ * Embed RGBA pixels as a DeviceCMYK image, with the alpha channel as a soft mask
+ */
+export const embedCMYKPixels = (doc: PDFDocument, imageData: ImageData): EmbeddedImage => {
+    const { width, height, data } = imageData;
+    const pixelCount = width * height;
+    const cmyk = new Uint8Array(pixelCount * 4);
+    const alpha = new Uint8Array(pixelCount);
+    let hasAlpha = false;
+
+    for (let i = 0, p = 0; i < pixelCount; i++, p += 4) {
+        const r = data[p] / 255;
+        const g = data[p + 1] / 255;
+        const b = data[p + 2] / 255;
+        const k = 1 - Math.max(r, g, b);
+        const scale = k < 1 ? 255 / (1 - k) : 0;
+
+        cmyk[p] = Math.round((1 - r - k) * scale);
+        cmyk[p + 1] = Math.round((1 - g - k) * scale);
+        cmyk[p + 2] = Math.round((1 - b - k) * scale);
+        cmyk[p + 3] = Math.round(k * 255);
+
+        alpha[i] = data[p + 3];
+        if (data[p + 3] < 255) hasAlpha = true;
+    }
+
+    const image = {
+        Type: 'XObject',
+        Subtype: 'Image',
+        Width: width,
+        Height: height,
+        BitsPerComponent: 8,
+    };
+
+    const softMask = hasAlpha
+        ? doc.context.register(doc.context.flateStream(alpha, { ...image, ColorSpace: 'DeviceGray' }))
+        : undefined;
+
+    const ref = doc.context.register(doc.context.flateStream(cmyk, {
+        ...image,
+        ColorSpace: 'DeviceCMYK',
+        ...(softMask ? { SMask: softMask } : {}),
+    }));
+
+    return { ref, width, height };
+};
+
+/**
+ * Load an image (URL, data URL or blob URL) and embed it as DeviceCMYK at native resolution
+ */
+export const embedCMYKImage = async (
+    doc: PDFDocument,
+    src: string,
+    crossOrigin: string | null = 'anonymous'
+): Promise<EmbeddedImage> => {
+    const img = await loadImage(src, crossOrigin);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    ctx.drawImage(img, 0, 0);
+    return embedCMYKPixels(doc, ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+/**
+ * Embed PNG bytes as DeviceCMYK
+ */
+export const embedCMYKPng = async (doc: PDFDocument, pngBytes: ArrayBuffer): Promise<EmbeddedImage> => {
+    const url = URL.createObjectURL(new Blob([pngBytes], { type: 'image/png' }));
+    try {
+        return await embedCMYKImage(doc, url, null);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+/**
+ * Draw an embedded image like `PDFPage.drawImage` (bottom-left origin, in points)
+ */
+export const drawEmbeddedImage = (
+    pdfPage: PDFPage,
+    image: EmbeddedImage,
+    options: { x: number; y: number; width: number; height: number }
+): void => {
+    const name = pdfPage.node.newXObject('Image', image.ref);
+    pdfPage.pushOperators(
+        pushGraphicsState(),
+        concatTransformationMatrix(options.width, 0, 0, options.height, options.x, options.y),
+        drawObject(name),
+        popGraphicsState()
+    );
+};
+
+/**
+ * List the solid and gradient colors on the pages that fall outside the CMYK gamut.
+ * Image content isn't checked; it is converted pixel by pixel.
+ */
+export const findOutOfGamutColors = (pages: Page[]): GamutWarning[] => {
+    const warnings: GamutWarning[] = [];
+
+    const check = (
+        page: Page,
+        elementId: string | null,
+        property: GamutWarning['property'],
+        colors: string[]
+    ) => {
+        colors.forEach((color) => {
+            const rgba = resolveCSSColor(color);
+            if (!rgba || rgba.a === 0 || isInCmykGamut(rgba.r, rgba.g, rgba.b)) return;
+            if (warnings.some(w => w.pageId === page.id && w.elementId === elementId && w.property === property && w.color === color)) return;
+            warnings.push({ pageId: page.id, elementId, property, color });
+        });
+    };
+
+    pages.forEach((page) => {
+        const { background } = page;
+        if (background.type === 'solid') {
+            check(page, null, 'background', [background.color]);
+        } else if (background.type === 'gradient') {
+            check(page, null, 'background', background.colorStops.map(stop => stop.color));
+        }
+
+        page.elements.filter(element => element.visible).forEach((element) => {
+            const { fill, stroke, strokeWidth } = element.style;
+            if (fill) {
+                check(page, element.id, 'fill', typeof fill === 'string' ? [fill] : fill.colorStops.map(stop => stop.color));
+            }
+            if (stroke && strokeWidth > 0) {
+                check(page, element.id, 'stroke', [stroke]);
+            }
+            if (element.type === 'text' && element.runs) {
+                check(page, element.id, 'fill', element.runs.flatMap(run => run.style.fill ? [run.style.fill] : []));
+            }
+        });
+    });
+
+    return warnings;
+};
@@ -0,0 +1,857 @@
+// PDF Vector Renderer
+// Draws pages into pdf-lib documents as vector paths, live text and native-resolution images
+
+import {
+    PDFDocument,
+    PDFFont,
+    PDFName,
+    PDFOperator,
+    PDFPage,
+    StandardFonts,
+    TextRenderingMode,
+    appendBezierCurve,
+    appendQuadraticCurve,
+    beginText,
+    clip,
+    closePath,
+    concatTransformationMatrix,
+    drawObject,
+    endPath,
+    endText,
+    fill,
+    fillAndStroke,
+    lineTo,
+    moveTo,
+    popGraphicsState,
+    pushGraphicsState,
+    rectangle,
+    setCharacterSpacing,
+    setFillingCmykColor,
+    setFillingRgbColor,
+    setFontAndSize,
+    setGraphicsState,
+    setLineWidth,
+    setStrokingCmykColor,
+    setStrokingRgbColor,
+    setTextMatrix,
+    setTextRenderingMode,
+    showText,
+    stroke,
+} from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { FabricCanvas } from '../fabric/FabricCanvas';
+import { CanvasElement, ImageElement, PathElement, ShapeElement, TextElement, TextRunStyle, TextStyle } from '@/types/canvas';
+import { Page } from '@/types/project';
+import { PDFColorSpace } from '@/types/export';
+import { RGB, resolveCSSColor, rgbToCmyk } from '@/utils/colors';
+import { getPathBounds, parsePathData, translatePathCommands } from '@/utils/pathData';
+import { EmbeddedImage, embedCMYKImage } from './pdfCMYK';
+import { loadFontFile } from './fontFiles';
+import { getTextLines, resolveRunStyle, sliceTextSegments } from '../text/richText';
+import { LIST_MARKER_GAP, getListIndent, getListLevels, getListMarkers } from '../text/lists';
+import { hasFilterStack } from '../filters/filterStack';
+import {
+    applyTextTransform,
+    getElementBox,
+    getShapePoints,
+    getSolidFill,
+    loadImage,
+    measureText,
+    renderPageBackground,
+} from './exportUtils';
+
+export interface VectorPageOptions {
+    offsetX: number; // page left edge on the PDF page, in points
+    offsetY: number; // page top edge, in points from the top of the PDF page
+    embedFonts: boolean; // true = text is set in embedded fonts; false = text is rasterized
+    rasterScale: number; // resolution multiplier for rasterized fallbacks
+    bleed?: number; // the background continues this far past the page edges
+}
+
+interface PDFColor {
+    rgb: RGB;
+    alpha: number;
+}
+
+// A run of text set in one font, size and color
+interface PDFTextSegment {
+    text: string;
+    font: PDFFont;
+    fontSize: number;
+    characterSpacing: number;
+    fillColor: PDFColor | null;
+    decoration: TextStyle['textDecoration'];
+    width: number;
+}
+
+// A line of text segments, after its list marker and indent if it has them
+interface PDFTextLine {
+    segments: PDFTextSegment[];
+    marker: PDFTextSegment | null;
+    indent: number;
+    width: number; // Without the indent
+    fontSize: number; // Largest on the line
+}
+
+// Affine matrix in canvas order: x' = a*x + c*y + e, y' = b*x + d*y + f
+type Matrix = [number, number, number, number, number, number];
+
+// Fabric text layout constants (fabric.Text defaults)
+const FONT_SIZE_MULT = 1.13;
+const FONT_SIZE_FRACTION = 0.222;
+const UNDERLINE_OFFSET = 0.1;
+const LINETHROUGH_OFFSET = -0.315;
+
+// Bezier handle length for quarter circles
+const KAPPA = 0.5522847498;
+
+const SERIF_FAMILIES = /times|georgia|garamond|serif|playfair|merriweather|lora|baskerville|didot|bodoni|cambria/i;
+const MONO_FAMILIES = /mono|courier|consolas|menlo|code/i;
+
+/**
+ * Closest standard PDF font for a text style, for families without a bundled font file
+ */
+const getStandardFont = (textStyle: TextStyle): StandardFonts => {
+    const family = textStyle.fontFamily;
+    const bold = textStyle.fontWeight === 'bold' || Number(textStyle.fontWeight) >= 600;
+    const italic = textStyle.fontStyle === 'italic';
+
+    if (MONO_FAMILIES.test(family)) {
+        if (bold && italic) return StandardFonts.CourierBoldOblique;
+        if (bold) return StandardFonts.CourierBold;
+        return italic ? StandardFonts.CourierOblique : StandardFonts.Courier;
+    }
+
+    if (SERIF_FAMILIES.test(family) && !/sans/i.test(family)) {
+        if (bold && italic) return StandardFonts.TimesRomanBoldItalic;
+        if (bold) return StandardFonts.TimesRomanBold;
+        return italic ? StandardFonts.TimesRomanItalic : StandardFonts.TimesRoman;
+    }
+
+    if (bold && italic) return StandardFonts.HelveticaBoldOblique;
+    if (bold) return StandardFonts.HelveticaBold;
+    return italic ? StandardFonts.HelveticaOblique : StandardFonts.Helvetica;
+};
+
+const toPDFColor = (color: string | null | undefined): PDFColor | null => {
+    const rgba = color ? resolveCSSColor(color) : null;
+    if (!rgba || rgba.a === 0) return null;
+    return { rgb: { r: rgba.r, g: rgba.g, b: rgba.b }, alpha: rgba.a };
+};
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+/**
+ * Element-local matrix: origin at the element centre, unscaled units, y down
+ */
+const getElementMatrix = (element: CanvasElement, width: number, height: number): Matrix => {
+    const { transform, style } = element;
+
+    // Fabric positions by the stroked bounds
+    const box = getElementBox(transform, width + style.strokeWidth, height + style.strokeWidth);
+    const angle = (transform.rotation * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return multiply(
+        [cos, sin, -sin, cos, box.x + box.width / 2, box.y + box.height / 2],
+        [transform.scaleX, 0, 0, transform.scaleY, 0, 0]
+    );
+};
+
+/**
+ * Path operators for an ellipse centred on the origin
+ */
+const ellipsePath = (rx: number, ry: number): PDFOperator[] => {
+    const kx = rx * KAPPA;
+    const ky = ry * KAPPA;
+    return [
+        moveTo(-rx, 0),
+        appendBezierCurve(-rx, -ky, -kx, -ry, 0, -ry),
+        appendBezierCurve(kx, -ry, rx, -ky, rx, 0),
+        appendBezierCurve(rx, ky, kx, ry, 0, ry),
+        appendBezierCurve(-kx, ry, -rx, ky, -rx, 0),
+        closePath(),
+    ];
+};
+
+/**
+ * Path operators for a (rounded) rectangle centred on the origin
+ */
+const rectPath = (width: number, height: number, radius: number): PDFOperator[] => {
+    const x = -width / 2;
+    const y = -height / 2;
+    const r = Math.min(radius, width / 2, height / 2);
+    if (r <= 0) return [rectangle(x, y, width, height)];
+
+    const k = r * (1 - KAPPA);
+    return [
+        moveTo(x + r, y),
+        lineTo(x + width - r, y),
+        appendBezierCurve(x + width - k, y, x + width, y + k, x + width, y + r),
+        lineTo(x + width, y + height - r),
+        appendBezierCurve(x + width, y + height - k, x + width - k, y + height, x + width - r, y + height),
+        lineTo(x + r, y + height),
+        appendBezierCurve(x + k, y + height, x, y + height - k, x, y + height - r),
+        lineTo(x, y + r),
+        appendBezierCurve(x, y + k, x + k, y, x + r, y),
+        closePath(),
+    ];
+};
+
+const polygonPath = (points: Array<{ x: number; y: number }>): PDFOperator[] => [
+    moveTo(points[0].x, points[0].y),
+    ...points.slice(1).map(p => lineTo(p.x, p.y)),
+    closePath(),
+];
+
+/**
+ * Path operators for SVG path data, centred on the origin like Fabric centres paths on their bounds
+ */
+const svgPath = (pathData: string): { path: PDFOperator[]; width: number; height: number } => {
+    const commands = parsePathData(pathData);
+    const bounds = getPathBounds(commands);
+    const centred = translatePathCommands(commands, -bounds.x - bounds.width / 2, -bounds.y - bounds.height / 2);
+
+    const path = centred.map(({ type, values: v }) => {
+        switch (type) {
+            case 'M':
+                return moveTo(v[0], v[1]);
+            case 'L':
+                return lineTo(v[0], v[1]);
+            case 'C':
+                return appendBezierCurve(v[0], v[1], v[2], v[3], v[4], v[5]);
+            case 'Q':
+                return appendQuadraticCurve(v[0], v[1], v[2], v[3]);
+            default:
+                return closePath();
+        }
+    });
+
+    return { path, width: bounds.width, height: bounds.height };
+};
+
+const isPNG = (bytes: Uint8Array) =>
+    bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+const isJPEG = (bytes: Uint8Array) =>
+    bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+/**
+ * Check for effects the vector path can't reproduce
+ */
+const needsRaster = (element: CanvasElement, options: VectorPageOptions): boolean => {
+    if (element.style.shadow) return true;
+    if (element.style.fill && typeof element.style.fill !== 'string') return true;
+
+    if (element.type === 'text') {
+        // Text on a curve or outline is laid out by Fabric, character by character;
+        // text no font can set is rasterized by drawText
+        return !options.embedFonts || element.effect.type !== 'none' || !!element.curve || !!element.textPath;
+    }
+
+    if (element.type === 'image') {
+        // Only the preset stack and adjustments FabricCanvas actually renders
+        const { filters } = element;
+        return hasFilterStack(element) ||
+            filters.brightness !== 0 ||
+            filters.contrast !== 0 ||
+            filters.saturation !== 0 ||
+            filters.blur > 0 ||
+            filters.grayscale ||
+            filters.sepia ||
+            filters.invert ||
+            !!element.colorReplace?.enabled;
+    }
+
+    return false;
+};
+
+export class PDFVectorRenderer {
+    private doc: PDFDocument;
+    private colorSpace: PDFColorSpace;
+    private fonts: Map<ArrayBuffer, Promise<PDFFont | null>> = new Map();
+    private standardFonts: Map<StandardFonts, Promise<PDFFont>> = new Map();
+    private fontCharacters: Map<PDFFont, Set<number>> = new Map();
+    private images: Map<string, EmbeddedImage> = new Map();
+    private rasterCanvas: FabricCanvas | null = null;
+
+    // Per-page resource names
+    private pdfPage: PDFPage | null = null;
+    private fontNames: Map<PDFFont, PDFName> = new Map();
+    private graphicsStates: Map<string, PDFName> = new Map();
+    private imageCount = 0;
+
+    constructor(doc: PDFDocument, colorSpace: PDFColorSpace = 'rgb') {
+        this.doc = doc;
+        this.colorSpace = colorSpace;
+        this.doc.registerFontkit(fontkit);
+    }
+
+    /**
+     * Draw a page onto a PDF page
+     */
+    public async drawPage(pdfPage: PDFPage, page: Page, options: VectorPageOptions): Promise<void> {
+        const pageMatrix = this.beginPage(pdfPage, options);
+
+        await this.drawBackground(page, pageMatrix, options);
+
+        const elements = [...page.elements]
+            .filter(element => element.visible)
+            .sort((a, b) => a.zIndex - b.zIndex);
+
+        for (const element of elements) {
+            const drawn = !needsRaster(element, options) &&
+                await this.drawElement(element, pageMatrix).catch(() => false);
+
+            if (!drawn) {
+                await this.drawRasterElement(element, page, pageMatrix, options.rasterScale);
+            }
+        }
+
+        this.pdfPage = null;
+    }
+
+    /**
+     * Draw only the page background (with its bleed), e.g. under a flattened page image
+     */
+    public async drawPageBackground(pdfPage: PDFPage, page: Page, options: VectorPageOptions): Promise<void> {
+        await this.drawBackground(page, this.beginPage(pdfPage, options), options);
+        this.pdfPage = null;
+    }
+
+    /**
+     * Release the offscreen canvas used for rasterized fallbacks
+     */
+    public dispose(): void {
+        this.rasterCanvas?.dispose();
+        this.rasterCanvas = null;
+    }
+
+    /**
+     * Reset per-page resources; returns the canvas-space matrix (page top-left at the origin, y down)
+     */
+    private beginPage(pdfPage: PDFPage, options: VectorPageOptions): Matrix {
+        this.pdfPage = pdfPage;
+        this.fontNames = new Map();
+        this.graphicsStates = new Map();
+        return [1, 0, 0, -1, options.offsetX, pdfPage.getHeight() - options.offsetY];
+    }
+
+    private async drawBackground(page: Page, pageMatrix: Matrix, options: VectorPageOptions): Promise<void> {
+        const bleed = options.bleed ?? 0;
+
+        if (page.background.type === 'solid') {
+            const color = toPDFColor(page.background.color);
+            if (!color) return;
+            this.push(
+                pushGraphicsState(),
+                concatTransformationMatrix(...pageMatrix),
+                ...this.fillStyle(color),
+                rectangle(-bleed, -bleed, page.width + bleed * 2, page.height + bleed * 2),
+                fill(),
+                popGraphicsState()
+            );
+            return;
+        }
+
+        // Gradients and fitted images are rendered at page size plus bleed
+        const dataUrl = await renderPageBackground(page, options.rasterScale, bleed).catch(() => null);
+        if (!dataUrl) return;
+
+        const width = page.width + bleed * 2;
+        const height = page.height + bleed * 2;
+        const image = await this.embedDataUrl(dataUrl);
+        this.drawImageAt(image, pageMatrix, [width, 0, 0, -height, -bleed, page.height + bleed]);
+    }
+
+    /**
+     * Draw an element natively; resolves false when it has to be rasterized
+     */
+    private async drawElement(element: CanvasElement, pageMatrix: Matrix): Promise<boolean> {
+        switch (element.type) {
+            case 'text':
+                return this.drawText(element, pageMatrix);
+            case 'shape':
+                return this.drawShape(element, pageMatrix);
+            case 'image':
+                return this.drawImageElement(element, pageMatrix);
+            case 'path':
+                return this.drawPath(element, pageMatrix);
+            default:
+                return true; // Not rendered on the canvas either
+        }
+    }
+
+    private drawShape(element: ShapeElement, pageMatrix: Matrix): boolean {
+        const { transform, style } = element;
+        let fillColor = toPDFColor(getSolidFill(style.fill));
+        let strokeColor = style.strokeWidth > 0 ? toPDFColor(style.stroke) : null;
+        let lineWidth = style.strokeWidth;
+        let path: PDFOperator[];
+        let size = { width: transform.width, height: transform.height };
+
+        switch (element.shapeType) {
+            case 'circle': {
+                const radius = Math.min(transform.width, transform.height) / 2;
+                size = { width: radius * 2, height: radius * 2 };
+                path = ellipsePath(radius, radius);
+                break;
+            }
+
+            case 'triangle':
+                path = polygonPath([
+                    { x: -transform.width / 2, y: transform.height / 2 },
+                    { x: 0, y: -transform.height / 2 },
+                    { x: transform.width / 2, y: transform.height / 2 },
+                ]);
+                break;
+
+            case 'polygon':
+            case 'star': {
+                const points = getShapePoints(element);
+                const xs = points.map(p => p.x);
+                const ys = points.map(p => p.y);
+                const cx = (Math.min(...xs) + Math.max(...xs)) / 2;
+                const cy = (Math.min(...ys) + Math.max(...ys)) / 2;
+                size = { width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+                path = polygonPath(points.map(p => ({ x: p.x - cx, y: p.y - cy })));
+                break;
+            }
+
+            case 'line':
+                // Lines are drawn with their stroke; fall back to the fill color
+                strokeColor = strokeColor ?? fillColor;
+                fillColor = null;
+                lineWidth = style.strokeWidth || 2;
+                size = { width: transform.width, height: 0 };
+                path = [moveTo(-transform.width / 2, 0), lineTo(transform.width / 2, 0)];
+                break;
+
+            default:
+                // Rectangles, and arrows, which the canvas also draws as rectangles
+                path = rectPath(transform.width, transform.height, style.cornerRadius);
+        }
+
+        if (!fillColor && !strokeColor) return true;
+
+        const paint = fillColor && strokeColor ? fillAndStroke() : fillColor ? fill() : stroke();
+
+        this.push(
+            pushGraphicsState(),
+            concatTransformationMatrix(...multiply(pageMatrix, getElementMatrix(element, size.width, size.height))),
+            ...this.opacity(
+                (fillColor?.alpha ?? 1) * style.opacity,
+                (strokeColor?.alpha ?? 1) * style.opacity
+            ),
+            ...(fillColor ? this.fillStyle(fillColor) : []),
+            ...(strokeColor ? [...this.strokeStyle(strokeColor), setLineWidth(lineWidth)] : []),
+            ...path,
+            paint,
+            popGraphicsState()
+        );
+        return true;
+    }
+
+    private drawPath(element: PathElement, pageMatrix: Matrix): boolean {
+        const { style } = element;
+        const fillColor = toPDFColor(getSolidFill(style.fill));
+        const strokeColor = style.strokeWidth > 0 ? toPDFColor(style.stroke) : null;
+        if (!fillColor && !strokeColor) return true;
+
+        const { path, width, height } = svgPath(element.pathData);
+        if (path.length === 0) return true;
+
+        const paint = fillColor && strokeColor ? fillAndStroke() : fillColor ? fill() : stroke();
+
+        this.push(
+            pushGraphicsState(),
+            concatTransformationMatrix(...multiply(pageMatrix, getElementMatrix(element, width, height))),
+            ...this.opacity(
+                (fillColor?.alpha ?? 1) * style.opacity,
+                (strokeColor?.alpha ?? 1) * style.opacity
+            ),
+            ...(fillColor ? this.fillStyle(fillColor) : []),
+            ...(strokeColor ? [...this.strokeStyle(strokeColor), setLineWidth(style.strokeWidth)] : []),
+            ...path,
+            paint,
+            popGraphicsState()
+        );
+        return true;
+    }
+
+    private async drawText(element: TextElement, pageMatrix: Matrix): Promise<boolean> {
+        const { textStyle, style, list } = element;
+        const content = applyTextTransform(element.content, textStyle.textTransform);
+        const lines = getTextLines(element.content, element.runs, text => applyTextTransform(text, textStyle.textTransform));
+        const levels = list ? getListLevels(list, lines.length) : [];
+        const markers = list ? getListMarkers(list, lines.length) : [];
+
+        const baseFill = getSolidFill(style.fill);
+        const strokeColor = style.strokeWidth > 0 ? toPDFColor(style.stroke) : null;
+
+        // Lines as Fabric wraps them, at the size a shrink-to-fit box shows
+        const size = measureText(content, element);
+        const fontScale = size.fontScale;
+        const scaledStyle = { ...textStyle, fontSize: textStyle.fontSize * fontScale };
+        const scaleRun = (runStyle: TextRunStyle): TextRunStyle =>
+            runStyle.fontSize ? { ...runStyle, fontSize: runStyle.fontSize * fontScale } : runStyle;
+
+        // Lay out each styled segment; text no font has the glyphs for is rasterized
+        const laidOut: PDFTextLine[] = [];
+        for (const { paragraph, start, end } of size.lines) {
+            const segments: PDFTextSegment[] = [];
+            for (const segment of sliceTextSegments(lines[paragraph] ?? [], start, end)) {
+                const runStyle = resolveRunStyle(scaledStyle, scaleRun(segment.style));
+                const font = await this.getFont(runStyle, segment.text);
+                if (!font) return false;
+
+                const characterSpacing = textStyle.letterSpacing * 0.1 * runStyle.fontSize; // tenths of an em
+                segments.push({
+                    text: segment.text,
+                    font,
+                    fontSize: runStyle.fontSize,
+                    characterSpacing,
+                    fillColor: toPDFColor(segment.style.fill ?? baseFill),
+                    decoration: runStyle.textDecoration,
+                    width: font.widthOfTextAtSize(segment.text, runStyle.fontSize) + characterSpacing * [...segment.text].length,
+                });
+            }
+
+            // List markers take the style of their paragraph's first character, on its first line only
+            let marker: PDFTextSegment | null = null;
+            if (list && start === 0) {
+                const markerStyle = lines[paragraph]?.[0]?.style ?? {};
+                const runStyle = resolveRunStyle(scaledStyle, scaleRun(markerStyle));
+                const font = await this.getFont(runStyle, markers[paragraph]);
+                if (!font) return false;
+                marker = {
+                    text: markers[paragraph],
+                    font,
+                    fontSize: runStyle.fontSize,
+                    characterSpacing: 0,
+                    fillColor: toPDFColor(markerStyle.fill ?? baseFill),
+                    decoration: 'none',
+                    width: font.widthOfTextAtSize(markers[paragraph], runStyle.fontSize),
+                };
+            }
+
+            // The last character has no spacing after it
+            const last = segments[segments.length - 1];
+            laidOut.push({
+                segments,
+                marker,
+                indent: list ? getListIndent(list, levels[paragraph], scaledStyle.fontSize) : 0,
+                width: segments.reduce((sum, segment) => sum + segment.width, 0) - (last?.characterSpacing ?? 0),
+                fontSize: segments.length > 0 ? Math.max(...segments.map(segment => segment.fontSize)) : scaledStyle.fontSize,
+            });
+        }
+
+        const hasFill = laidOut.some(line => line.marker?.fillColor || line.segments.some(segment => segment.fillColor));
+        if (!strokeColor && !hasFill) return true;
+
+        const left = -size.width / 2;
+        const top = -size.height / 2;
+
+        const segmentOps: PDFOperator[] = [];
+        let lineTop = top;
+
+        laidOut.forEach((line) => {
+            const baseline = lineTop + line.fontSize * FONT_SIZE_MULT * (1 - FONT_SIZE_FRACTION);
+            const lineWidth = line.width + line.indent;
+            let x = line.indent + (textStyle.textAlign === 'center'
+                ? -lineWidth / 2
+                : textStyle.textAlign === 'right' ? -left - lineWidth : left);
+
+            if (line.marker) {
+                const markerX = x - LIST_MARKER_GAP * line.marker.fontSize - line.marker.width;
+                segmentOps.push(...this.textSegmentOps(line.marker, markerX, baseline, strokeColor, style.opacity));
+            }
+
+            line.segments.forEach((segment) => {
+                segmentOps.push(...this.textSegmentOps(segment, x, baseline, strokeColor, style.opacity));
+                x += segment.width;
+            });
+
+            lineTop += line.fontSize * FONT_SIZE_MULT * textStyle.lineHeight;
+        });
+
+        this.push(
+            pushGraphicsState(),
+            concatTransformationMatrix(...multiply(pageMatrix, getElementMatrix(element, size.width, size.height))),
+            ...(strokeColor ? [...this.strokeStyle(strokeColor), setLineWidth(style.strokeWidth)] : []),
+            ...segmentOps,
+            popGraphicsState()
+        );
+        return true;
+    }
+
+    /**
+     * One run of text, in its own graphics state, starting at x on the baseline
+     */
+    private textSegmentOps(
+        segment: PDFTextSegment,
+        x: number,
+        baseline: number,
+        strokeColor: PDFColor | null,
+        opacity: number
+    ): PDFOperator[] {
+        const { fillColor, fontSize } = segment;
+        if (!fillColor && !strokeColor) return [];
+
+        const renderingMode = fillColor && strokeColor
+            ? TextRenderingMode.FillAndOutline
+            : fillColor ? TextRenderingMode.Fill : TextRenderingMode.Outline;
+
+        const ops: PDFOperator[] = [
+            pushGraphicsState(),
+            ...this.opacity((fillColor?.alpha ?? 1) * opacity, (strokeColor?.alpha ?? 1) * opacity),
+            ...(fillColor ? this.fillStyle(fillColor) : []),
+            beginText(),
+            setFontAndSize(this.getFontName(segment.font), fontSize),
+            setCharacterSpacing(segment.characterSpacing),
+            setTextRenderingMode(renderingMode),
+            // Text space is y up; flip it back inside the y-down element space
+            setTextMatrix(1, 0, 0, -1, x, baseline),
+            showText(segment.font.encodeText(segment.text)),
+            endText(),
+        ];
+
+        if (fillColor && segment.decoration !== 'none' && segment.text.length > 0) {
+            const offset = segment.decoration === 'underline' ? UNDERLINE_OFFSET : LINETHROUGH_OFFSET;
+            const thickness = fontSize / 15;
+            ops.push(rectangle(x, baseline + offset * fontSize - thickness / 2, segment.width, thickness), fill());
+        }
+        ops.push(popGraphicsState());
+        return ops;
+    }
+
+    private async drawImageElement(element: ImageElement, pageMatrix: Matrix): Promise<boolean> {
+        const image = await this.getImage(element);
+        const crop = element.crop;
+
+        // The element shows the crop region of the full-resolution image
+        const width = crop ? crop.width : image.width;
+        const height = crop ? crop.height : image.height;
+        const imageLeft = -width / 2 - (crop?.x ?? 0);
+        const imageTop = -height / 2 - (crop?.y ?? 0);
+        const elementMatrix = multiply(pageMatrix, getElementMatrix(element, width, height));
+
+        this.push(pushGraphicsState(), ...this.opacity(element.style.opacity, 1));
+        if (crop) {
+            this.push(
+                concatTransformationMatrix(...elementMatrix),
+                rectangle(-width / 2, -height / 2, width, height),
+                clip(),
+                endPath()
+            );
+            this.drawImageAt(image, [1, 0, 0, 1, 0, 0], [image.width, 0, 0, -image.height, imageLeft, imageTop + image.height]);
+        } else {
+            this.drawImageAt(image, elementMatrix, [image.width, 0, 0, -image.height, imageLeft, imageTop + image.height]);
+        }
+        this.push(popGraphicsState());
+        return true;
+    }
+
+    /**
+     * Render an element with Fabric and place it as an image
+     */
+    private async drawRasterElement(
+        element: CanvasElement,
+        page: Page,
+        pageMatrix: Matrix,
+        scale: number
+    ): Promise<void> {
+        if (!this.rasterCanvas) {
+            this.rasterCanvas = new FabricCanvas();
+            this.rasterCanvas.init(document.createElement('canvas'), {
+                width: page.width,
+                height: page.height,
+                backgroundColor: 'rgba(0,0,0,0)',
+                selection: false,
+            });
+        }
+
+        const fabricCanvas = this.rasterCanvas;
+        fabricCanvas.clear();
+        fabricCanvas.resize(page.width, page.height);
+
+        const object = await fabricCanvas.addElement(element).catch(() => null);
+        if (!object) return;
+
+        // Pad for shadows, which the bounding rect leaves out
+        const shadow = element.style.shadow;
+        const pad = shadow ? shadow.blur + Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY)) : 0;
+        const bounds = object.getBoundingRect(true, true);
+        const left = Math.floor(bounds.left - pad);
+        const top = Math.floor(bounds.top - pad);
+        const width = Math.ceil(bounds.width + pad * 2) + 1;
+        const height = Math.ceil(bounds.height + pad * 2) + 1;
+        if (width <= 0 || height <= 0) return;
+
+        const dataUrl = fabricCanvas.toDataURL({ format: 'png', left, top, width, height, multiplier: scale });
+        const image = await this.embedDataUrl(dataUrl);
+
+        this.drawImageAt(image, pageMatrix, [width, 0, 0, -height, left, top + height]);
+    }
+
+    /**
+     * Draw an image XObject; `placement` maps the unit square into the current space
+     */
+    private drawImageAt(image: EmbeddedImage, matrix: Matrix, placement: Matrix): void {
+        const pdfPage = this.pdfPage;
+        if (!pdfPage) return;
+
+        const name = pdfPage.node.newXObject(`Image-${++this.imageCount}`, image.ref);
+        this.push(
+            pushGraphicsState(),
+            concatTransformationMatrix(...multiply(matrix, placement)),
+            drawObject(name),
+            popGraphicsState()
+        );
+    }
+
+    /**
+     * Font to set text in: the style's bundled font file, else the closest standard font;
+     * null when neither has every character
+     */
+    private async getFont(textStyle: TextStyle, text: string): Promise<PDFFont | null> {
+        const embedded = await this.getEmbeddedFont(textStyle);
+        if (embedded && this.hasGlyphs(embedded, text)) return embedded;
+
+        const standardFont = getStandardFont(textStyle);
+        let standard = this.standardFonts.get(standardFont);
+        if (!standard) {
+            standard = this.doc.embedFont(standardFont);
+            this.standardFonts.set(standardFont, standard);
+        }
+        const font = await standard;
+        return this.hasGlyphs(font, text) ? font : null;
+    }
+
+    /**
+     * Embed the bundled font file a text style is drawn with, subset to the glyphs used
+     */
+    private async getEmbeddedFont(textStyle: TextStyle): Promise<PDFFont | null> {
+        const file = await loadFontFile(textStyle);
+        if (!file) return null;
+
+        let font = this.fonts.get(file);
+        if (!font) {
+            font = this.doc.embedFont(file, { subset: true }).catch(() => null);
+            this.fonts.set(file, font);
+        }
+        return font;
+    }
+
+    /**
+     * Check a font has every character, as missing glyphs would print as boxes
+     */
+    private hasGlyphs(font: PDFFont, text: string): boolean {
+        let characters = this.fontCharacters.get(font);
+        if (!characters) {
+            characters = new Set(font.getCharacterSet());
+            this.fontCharacters.set(font, characters);
+        }
+        return [...text].every(char => /\s/.test(char) || characters.has(char.codePointAt(0)!));
+    }
+
+    private getFontName(font: PDFFont): PDFName {
+        let name = this.fontNames.get(font);
+        if (!name && this.pdfPage) {
+            name = this.pdfPage.node.newFontDictionary(font.name, font.ref);
+            this.fontNames.set(font, name);
+        }
+        return name!;
+    }
+
+    /**
+     * Embed an image element's source at its native resolution
+     */
+    private async getImage(element: ImageElement): Promise<EmbeddedImage> {
+        const cached = this.images.get(element.src);
+        if (cached) return cached;
+
+        if (this.colorSpace === 'cmyk') {
+            const image = await embedCMYKImage(this.doc, element.src, element.crossOrigin);
+            this.images.set(element.src, image);
+            return image;
+        }
+
+        const response = await fetch(element.src);
+        let bytes = new Uint8Array(await response.arrayBuffer());
+
+        // PDF takes PNG and JPEG directly; convert anything else to PNG
+        if (!isPNG(bytes) && !isJPEG(bytes)) {
+            const img = await loadImage(element.src, element.crossOrigin);
+            const canvas = document.createElement('canvas');
+            canvas.width = img.naturalWidth;
+            canvas.height = img.naturalHeight;
+            canvas.getContext('2d')?.drawImage(img, 0, 0);
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+            if (!blob) throw new Error('Could not convert image');
+            bytes = new Uint8Array(await blob.arrayBuffer());
+        }
+
+        const image = isJPEG(bytes) ? await this.doc.embedJpg(bytes) : await this.doc.embedPng(bytes);
+        this.images.set(element.src, image);
+        return image;
+    }
+
+    /**
+     * Embed a rendered PNG in the document's color space
+     */
+    private async embedDataUrl(dataUrl: string): Promise<EmbeddedImage> {
+        return this.colorSpace === 'cmyk'
+            ? embedCMYKImage(this.doc, dataUrl, null)
+            : this.doc.embedPng(dataUrl);
+    }
+
+    private fillStyle(color: PDFColor): PDFOperator[] {
+        const { r, g, b } = color.rgb;
+        if (this.colorSpace === 'cmyk') {
+            const { c, m, y, k } = rgbToCmyk(r, g, b);
+            return [setFillingCmykColor(c / 100, m / 100, y / 100, k / 100)];
+        }
+        return [setFillingRgbColor(r / 255, g / 255, b / 255)];
+    }
+
+    private strokeStyle(color: PDFColor): PDFOperator[] {
+        const { r, g, b } = color.rgb;
+        if (this.colorSpace === 'cmyk') {
+            const { c, m, y, k } = rgbToCmyk(r, g, b);
+            return [setStrokingCmykColor(c / 100, m / 100, y / 100, k / 100)];
+        }
+        return [setStrokingRgbColor(r / 255, g / 255, b / 255)];
+    }
+
+    /**
+     * Graphics state for fill / stroke opacity (nothing when fully opaque)
+     */
+    private opacity(fillAlpha: number, strokeAlpha: number): PDFOperator[] {
+        const pdfPage = this.pdfPage;
+        if (!pdfPage || (fillAlpha >= 1 && strokeAlpha >= 1)) return [];
+
+        const ca = Math.round(Math.max(0, fillAlpha) * 1000) / 1000;
+        const CA = Math.round(Math.max(0, strokeAlpha) * 1000) / 1000;
+        const key = `${ca}-${CA}`;
+
+        let name = this.graphicsStates.get(key);
+        if (!name) {
+            const state = this.doc.context.obj({ Type: 'ExtGState', ca, CA });
+            name = pdfPage.node.newExtGState('GS', this.doc.context.register(state));
+            this.graphicsStates.set(key, name);
+        }
+        return [setGraphicsState(name)];
+    }
+
+    private push(...operators: PDFOperator[]): void {
+        this.pdfPage?.pushOperators(...operators);
+    }
+}
@@ -0,0 +1,236 @@
+// PPTX Animations
+// Writes element entrance animations into PowerPoint slide timing XML
+
+import JSZip from 'jszip';
+import { AnimationConfig, AnimationType, EasingType } from '@/types/animation';
+
+export interface SlideAnimationEntry {
+    shapeIndex: number; // Order the element was added to the slide
+    config: AnimationConfig | null; // null = appear without an effect
+    startTime: number; // in milliseconds from slide start
+}
+
+interface EntrancePreset {
+    presetId: number;
+    presetSubtype: number;
+    behaviours: (spid: string, duration: number, nextId: () => number) => string;
+}
+
+const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const target = (spid: string) => `<p:tgtEl><p:spTgt spid="${spid}"/></p:tgtEl>`;
+
+const animEffect = (spid: string, duration: number, filter: string, nextId: () => number) =>
+    `<p:animEffect transition="in" filter="${filter}"><p:cBhvr><p:cTn id="${nextId()}" dur="${duration}"/>${target(spid)}</p:cBhvr></p:animEffect>`;
+
+const animProperty = (
+    spid: string,
+    duration: number,
+    attribute: string,
+    from: string,
+    to: string,
+    nextId: () => number
+) =>
+    `<p:anim calcmode="lin" valueType="num"><p:cBhvr additive="base"><p:cTn id="${nextId()}" dur="${duration}" fill="hold"/>${target(spid)}` +
+    `<p:attrNameLst><p:attrName>${attribute}</p:attrName></p:attrNameLst></p:cBhvr>` +
+    `<p:tavLst><p:tav tm="0"><p:val><p:strVal val="${from}"/></p:val></p:tav>` +
+    `<p:tav tm="100000"><p:val><p:strVal val="${to}"/></p:val></p:tav></p:tavLst></p:anim>`;
+
+const flyIn = (subtype: number, attribute: 'ppt_x' | 'ppt_y', from: string): EntrancePreset => ({
+    presetId: 2,
+    presetSubtype: subtype,
+    behaviours: (spid, duration, nextId) => {
+        const other = attribute === 'ppt_x' ? 'ppt_y' : 'ppt_x';
+        return animProperty(spid, duration, attribute, from, `#${attribute}`, nextId) +
+            animProperty(spid, duration, other, `#${other}`, `#${other}`, nextId);
+    },
+});
+
+const FADE: EntrancePreset = {
+    presetId: 10,
+    presetSubtype: 0,
+    behaviours: (spid, duration, nextId) => animEffect(spid, duration, 'fade', nextId),
+};
+
+const APPEAR: EntrancePreset = {
+    presetId: 1,
+    presetSubtype: 0,
+    behaviours: () => '',
+};
+
+// PowerPoint entrance presets; types without an equivalent fall back to Fade
+const ENTRANCE_PRESETS: Partial<Record<AnimationType, EntrancePreset>> = {
+    'fade-in': FADE,
+    'slide-in-left': flyIn(8, 'ppt_x', '0-#ppt_w/2'),
+    'slide-in-right': flyIn(2, 'ppt_x', '1+#ppt_w/2'),
+    'slide-in-top': flyIn(1, 'ppt_y', '0-#ppt_h/2'),
+    'slide-in-bottom': flyIn(4, 'ppt_y', '1+#ppt_h/2'),
+    'zoom-in': {
+        presetId: 53,
+        presetSubtype: 16,
+        behaviours: (spid, duration, nextId) =>
+            animProperty(spid, duration, 'ppt_w', '0', '#ppt_w', nextId) +
+            animProperty(spid, duration, 'ppt_h', '0', '#ppt_h', nextId) +
+            animEffect(spid, duration, 'fade', nextId),
+    },
+    // Our wipe direction names the edge the reveal travels towards
+    'wipe-left': {
+        presetId: 22,
+        presetSubtype: 2,
+        behaviours: (spid, duration, nextId) => animEffect(spid, duration, 'wipe(right)', nextId),
+    },
+    'wipe-right': {
+        presetId: 22,
+        presetSubtype: 8,
+        behaviours: (spid, duration, nextId) => animEffect(spid, duration, 'wipe(left)', nextId),
+    },
+};
+
+// Acceleration / deceleration attributes (percent * 1000)
+const EASING_ATTRIBUTES: Partial<Record<EasingType, string>> = {
+    'ease-in': ' accel="100000"',
+    'ease-out': ' decel="100000"',
+    'ease': ' accel="25000" decel="75000"',
+    'ease-in-out': ' accel="50000" decel="50000"',
+};
+
+/**
+ * Build one entrance effect node
+ */
+const buildEffect = (
+    spid: string,
+    entry: SlideAnimationEntry,
+    delay: number,
+    nodeType: 'clickEffect' | 'withEffect',
+    nextId: () => number
+): string => {
+    const preset = entry.config
+        ? ENTRANCE_PRESETS[entry.config.type] ?? FADE
+        : APPEAR;
+    const duration = Math.max(1, Math.round(entry.config?.duration ?? 1));
+    const easing = entry.config ? EASING_ATTRIBUTES[entry.config.easing] ?? '' : '';
+
+    return `<p:par><p:cTn id="${nextId()}" presetID="${preset.presetId}" presetClass="entr" presetSubtype="${preset.presetSubtype}" fill="hold" grpId="0" nodeType="${nodeType}"${easing}>` +
+        `<p:stCondLst><p:cond delay="${Math.max(0, Math.round(delay))}"/></p:stCondLst><p:childTnLst>` +
+        `<p:set><p:cBhvr><p:cTn id="${nextId()}" dur="1" fill="hold"><p:stCondLst><p:cond delay="0"/></p:stCondLst></p:cTn>${target(spid)}` +
+        `<p:attrNameLst><p:attrName>style.visibility</p:attrName></p:attrNameLst></p:cBhvr><p:to><p:strVal val="visible"/></p:to></p:set>` +
+        preset.behaviours(spid, duration, nextId) +
+        '</p:childTnLst></p:cTn></p:par>';
+};
+
+/**
+ * Build a click group; `autoStart` groups begin with the slide instead of a click.
+ * Ids are taken before the effects are built so they stay in document order.
+ */
+const buildGroup = (
+    autoStart: boolean,
+    nextId: () => number,
+    buildEffects: () => string[]
+): string => {
+    const startConditions = autoStart
+        ? '<p:cond delay="indefinite"/><p:cond evt="onBegin" delay="0"><p:tn val="2"/></p:cond>'
+        : '<p:cond delay="indefinite"/>';
+    const groupId = nextId();
+    const innerId = nextId();
+
+    return `<p:par><p:cTn id="${groupId}" fill="hold"><p:stCondLst>${startConditions}</p:stCondLst><p:childTnLst>` +
+        `<p:par><p:cTn id="${innerId}" fill="hold"><p:stCondLst><p:cond delay="0"/></p:stCondLst><p:childTnLst>` +
+        buildEffects().join('') +
+        '</p:childTnLst></p:cTn></p:par></p:childTnLst></p:cTn></p:par>';
+};
+
+/**
+ * Build the <p:timing> element for a slide.
+ * On-load entrances play together from the slide start, offset by their start time;
+ * on-click entrances each get their own click, in start order.
+ */
+export const buildSlideTimingXml = (
+    entries: SlideAnimationEntry[],
+    shapes: Array<{ spid: string; isPicture: boolean }>
+): string => {
+    const resolved = entries
+        .filter(entry => shapes[entry.shapeIndex])
+        .sort((a, b) => a.startTime - b.startTime);
+    if (resolved.length === 0) return '';
+
+    // cTn ids 1 and 2 are the root and main sequence
+    let id = 2;
+    const nextId = () => ++id;
+
+    const groups: string[] = [];
+    const isClick = (entry: SlideAnimationEntry) => entry.config?.trigger === 'on-click';
+
+    const autoEntries = resolved.filter(entry => !isClick(entry));
+    if (autoEntries.length > 0) {
+        groups.push(buildGroup(true, nextId, () => autoEntries.map((entry) => {
+            const delay = entry.startTime + (entry.config?.delay ?? 0);
+            return buildEffect(shapes[entry.shapeIndex].spid, entry, delay, 'withEffect', nextId);
+        })));
+    }
+
+    resolved.filter(isClick).forEach((entry) => {
+        groups.push(buildGroup(false, nextId, () => [
+            buildEffect(shapes[entry.shapeIndex].spid, entry, entry.config?.delay ?? 0, 'clickEffect', nextId),
+        ]));
+    });
+
+    // Shapes (text boxes included) need a build entry; pictures don't
+    const builds = Array.from(new Set(resolved.map(entry => entry.shapeIndex)))
+        .filter(index => !shapes[index].isPicture)
+        .map(index => `<p:bldP spid="${shapes[index].spid}" grpId="0" animBg="1"/>`)
+        .join('');
+
+    return '<p:timing><p:tnLst><p:par><p:cTn id="1" dur="indefinite" restart="never" nodeType="tmRoot"><p:childTnLst>' +
+        '<p:seq concurrent="1" nextAc="seek"><p:cTn id="2" dur="indefinite" nodeType="mainSeq"><p:childTnLst>' +
+        groups.join('') +
+        '</p:childTnLst></p:cTn>' +
+        '<p:prevCondLst><p:cond evt="onPrev" delay="0"><p:tgtEl><p:sldTgt/></p:tgtEl></p:cond></p:prevCondLst>' +
+        '<p:nextCondLst><p:cond evt="onNext" delay="0"><p:tgtEl><p:sldTgt/></p:tgtEl></p:cond></p:nextCondLst>' +
+        '</p:seq></p:childTnLst></p:cTn></p:par></p:tnLst>' +
+        (builds ? `<p:bldLst>${builds}</p:bldLst>` : '') +
+        '</p:timing>';
+};
+
+/**
+ * List the slide's shapes and pictures in drawing order
+ */
+const getSlideShapes = (slideXml: string): Array<{ spid: string; isPicture: boolean }> => {
+    const shapes: Array<{ spid: string; isPicture: boolean }> = [];
+    const pattern = /<p:(sp|pic)>\s*<p:nv(?:Sp|Pic)Pr>\s*<p:cNvPr id="(\d+)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(slideXml)) !== null) {
+        shapes.push({ spid: match[2], isPicture: match[1] === 'pic' });
+    }
+    return shapes;
+};
+
+/**
+ * Add entrance animations to a generated presentation.
+ * `slides[i]` holds the entries for slide i + 1.
+ */
+export const injectSlideAnimations = async (
+    pptxData: ArrayBuffer,
+    slides: SlideAnimationEntry[][]
+): Promise<Blob> => {
+    const zip = await JSZip.loadAsync(pptxData);
+
+    for (let i = 0; i < slides.length; i++) {
+        if (slides[i].length === 0) continue;
+
+        const path = `ppt/slides/slide${i + 1}.xml`;
+        const file = zip.file(path);
+        if (!file) continue;
+
+        const slideXml = await file.async('string');
+        const timing = buildSlideTimingXml(slides[i], getSlideShapes(slideXml));
+        if (!timing) continue;
+
+        zip.file(path, slideXml.replace('</p:sld>', `${timing}</p:sld>`));
+    }
+
+    return zip.generateAsync({
+        type: 'blob',
+        mimeType: PPTX_MIME_TYPE,
+        compression: 'DEFLATE',
+    });
+};
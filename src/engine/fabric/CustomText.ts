@@ -2,32 +2,651 @@
 // Extended Fabric.js text object with rich formatting support
 
 import { fabric } from 'fabric';
-import { TextEffect, TextStyle } from '@/types/canvas';
+import { TextEffect, TextList, TextPath, TextSizing, TextStyle } from '@/types/canvas';
+import { parsePathData, serializePathData } from '@/utils/pathData';
+import { LIST_MARKER_GAP, MAX_LIST_LEVEL, getListIndent, getListLevels, getListMarkers, reconcileListLevels } from '../text/lists';
+import { getCurveCommands, toTextPathCommands } from '../text/textPath';
 
-export interface CustomTextOptions extends fabric.ITextOptions {
+export interface CustomTextOptions extends fabric.ITextboxOptions {
     customId?: string;
     effect?: TextEffect;
     textStyle?: Partial<TextStyle>;
+    list?: TextList | null;
+    curve?: number;
+    textPath?: TextPath | null;
+    sizing?: TextSizing;
+    boxHeight?: number;
 }
 
+// A line as shown: the characters of a paragraph it holds, as grapheme offsets into the paragraph
+export interface TextLineRange {
+    paragraph: number;
+    start: number;
+    end: number;
+}
+
+// Smallest share of its font size that shrink-to-fit text is drawn at
+const MIN_FONT_SCALE = 0.1;
+
+// Fabric's control helpers, which its typings leave out
+interface ControlsUtils {
+    changeWidth: fabric.Control['actionHandler'];
+    wrapWithFireEvent(eventName: string, handler: fabric.Control['actionHandler']): fabric.Control['actionHandler'];
+    wrapWithFixedAnchor(handler: fabric.Control['actionHandler']): fabric.Control['actionHandler'];
+    getLocalPoint(transform: fabric.Transform, originX: string, originY: string, x: number, y: number): fabric.Point;
+}
+
+// Fabric text internals used to place list markers and lay text on a path
+interface TextInternals {
+    _getLeftOffset(): number;
+    _getTopOffset(): number;
+    _getFontDeclaration(style: object): string;
+    _getSVGTextAndBg(textTopOffset: number, textLeftOffset: number): { textSpans: string[]; textBgRects: string[] };
+    _createTextCharSpan(char: string, style: object, left: number, top: number, charBox: object): string;
+    _getWidthOfCharSpacing(): number;
+    _createBaseSVGMarkup(objectMarkup: string[], options: object): string;
+    _toSVG(): string[];
+    calcTextWidth(): number;
+    setPathInfo(): void;
+    path?: fabric.Path & { segmentsInfo?: Array<{ length: number }> };
+    pathSide: 'left' | 'right';
+    pathStartOffset: number;
+    __isMousedown?: boolean;
+    _styleMap?: Record<number, { line: number; offset: number }>; // Wrapped lines of a textbox
+    _splitTextIntoLines(text: string): object;
+    _generateStyleMap(textInfo: object): Record<number, { line: number; offset: number }>;
+    _wrapLine(line: string, lineIndex: number, desiredWidth: number, reservedSpace?: number): string[][];
+    __skipDimension?: boolean;
+}
+
+// Where Fabric placed a character of text on a path, relative to the object's center
+interface PathCharBox {
+    width: number;
+    renderLeft: number;
+    renderTop: number;
+    angle: number;
+}
+
+// A list marker and where its line's text starts
+interface ListMarker {
+    lineIndex: number;
+    text: string;
+    style: { fill?: unknown; fontSize?: number };
+}
+
+// Fabric's own text methods, for calling on a CustomText
+const textMethods = fabric.Text.prototype as unknown as TextInternals;
+const textboxMethods = fabric.Textbox.prototype as unknown as TextInternals;
+const iTextMethods = fabric.IText.prototype as unknown as TextInternals;
+
+const getControlsUtils = (): ControlsUtils =>
+    (fabric as unknown as { controlsUtils: ControlsUtils }).controlsUtils;
+
+/**
+ * Side handles set the width lines wrap at; dragging one on auto width text fixes its width
+ */
+const changeBoxWidth: fabric.Control['actionHandler'] = (eventData, transform, x, y) => {
+    const target = transform.target as CustomText;
+    if (target.curve || target.textPath) return false;
+    if (target.sizing === 'auto') target.sizing = 'wrap';
+    return getControlsUtils().changeWidth(eventData, transform, x, y);
+};
+
+/**
+ * Top and bottom handles set the height shrink-to-fit text fits in
+ */
+const changeBoxHeight: fabric.Control['actionHandler'] = (eventData, transform, x, y) => {
+    const utils = getControlsUtils();
+    const resize = utils.wrapWithFixedAnchor((_, t, px, py) => {
+        const target = t.target as CustomText;
+        const local = utils.getLocalPoint(t, t.originX, t.originY, px, py);
+        const multiplier = (t.originY as string) === 'center' ? 2 : 1;
+        const height = Math.max(target.getMinBoxHeight(), Math.abs(local.y * multiplier / (target.scaleY || 1)));
+        if (height === target.boxHeight) return false;
+        target.setTextBox(target.sizing, target.width ?? 0, height);
+        return true;
+    });
+    return utils.wrapWithFireEvent('resizing', resize)(eventData, transform, x, y);
+};
+
+/**
+ * Controls for a sizing mode, drawn like the default ones
+ */
+const getSizingControls = (sizing: TextSizing): Record<string, fabric.Control> => {
+    const defaults = fabric.Object.prototype.controls;
+    const side = (name: 'ml' | 'mr' | 'mt' | 'mb', actionHandler: fabric.Control['actionHandler']) => new fabric.Control({
+        x: defaults[name].x,
+        y: defaults[name].y,
+        actionHandler,
+        cursorStyleHandler: defaults[name].cursorStyleHandler,
+        actionName: 'resizing',
+        render: (...args) => fabric.Object.prototype.controls[name].render(...args),
+    });
+
+    return {
+        ...defaults,
+        ml: side('ml', changeBoxWidth),
+        mr: side('mr', changeBoxWidth),
+        ...(sizing === 'shrink' && { mt: side('mt', changeBoxHeight), mb: side('mb', changeBoxHeight) }),
+    };
+};
+
 /**
- * Extended IText class with additional features
+ * Extended Textbox class with additional features; auto width text sizes to its content like IText
  */
-export class CustomText extends fabric.IText {
+export class CustomText extends fabric.Textbox {
     public customId?: string;
     public effect?: TextEffect;
     public customTextStyle?: Partial<TextStyle>;
 
+    public list: TextList | null;
+    private listText: string;
+
+    public curve: number;
+    public textPath: TextPath | null;
+    // Page position of the bound outline's center, which the text is centered on
+    private textPathCenter: fabric.Point | null = null;
+
+    public sizing: TextSizing;
+    public boxHeight: number;
+    // Shrink-to-fit scale of the font sizes; the text keeps them unscaled
+    public fontScale = 1;
+
     constructor(text: string, options?: CustomTextOptions) {
         super(text, options);
 
         this.customId = options?.customId;
         this.effect = options?.effect;
         this.customTextStyle = options?.textStyle;
+        this.list = options?.list ?? null;
+        this.listText = text;
+        this.curve = options?.curve ?? 0;
+        this.textPath = options?.textPath ?? null;
+        this.sizing = options?.sizing ?? 'auto';
+        this.boxHeight = options?.boxHeight ?? 0;
+        this.controls = getSizingControls(this.sizing);
+
+        // Fabric measured the lines before the list indents, sizing and path were known
+        if (this.curve || this.textPath) {
+            this.updatePath();
+        } else {
+            this.initDimensions();
+        }
 
         if (this.effect) {
             this.applyEffect(this.effect);
         }
+
+        // Paragraphs added or removed while typing keep the levels around them
+        this.on('changed', () => {
+            if (this.list && this.text !== this.listText) {
+                this.list = { ...this.list, levels: reconcileListLevels(this.listText, this.text ?? '', this.list.levels) };
+            }
+            this.listText = this.text ?? '';
+            // The arc is as long as the text
+            if (this.curve && !this.textPath) this.updatePath();
+        });
+    }
+
+    /**
+     * Set how the text box is sized; width and box height apply to the fixed modes
+     */
+    public setTextBox(sizing: TextSizing, width: number, boxHeight: number): void {
+        if (sizing !== this.sizing) this.controls = getSizingControls(sizing);
+        this.sizing = sizing;
+        this.boxHeight = boxHeight;
+        if (sizing !== 'auto') this.width = width;
+        this.refreshLayout();
+    }
+
+    /**
+     * Apply unscaled text options, such as a text element's font sizes; shrink-to-fit scales them again
+     */
+    public setTextOptions(options: fabric.ITextOptions): void {
+        this.applyFontScale(1);
+        this.set(options as Partial<this>);
+    }
+
+    /**
+     * This text with the Fabric members its typings leave out
+     */
+    private get internals(): TextInternals {
+        return this as unknown as TextInternals;
+    }
+
+    /**
+     * Lines wrap at the box width unless the text sizes to its content or runs along a path
+     */
+    private wrapsLines(): boolean {
+        return (this.sizing === 'wrap' || this.sizing === 'shrink') && !this.curve && !this.textPath;
+    }
+
+    /**
+     * Shortest box that still shows a line of text at the smallest font scale
+     */
+    public getMinBoxHeight(): number {
+        return (this.fontSize ?? 0) / (this.fontScale || 1) * MIN_FONT_SCALE * (this.lineHeight ?? 1);
+    }
+
+    public _splitTextIntoLines(text: string): object {
+        const methods = this.wrapsLines() ? textboxMethods : textMethods;
+        return methods._splitTextIntoLines.call(this, text);
+    }
+
+    /**
+     * List paragraphs wrap within the space right of their indent
+     */
+    public _wrapLine(line: string, lineIndex: number, desiredWidth: number, reservedSpace = 0): string[][] {
+        const indent = this.list ? getListIndent(this.list, this.list.levels[lineIndex] ?? 0, this.fontSize ?? 0) : 0;
+        return textboxMethods._wrapLine.call(this, line, lineIndex, desiredWidth, reservedSpace + indent);
+    }
+
+    public initDimensions(): void {
+        if (this.internals.__skipDimension) return;
+
+        if (!this.wrapsLines()) {
+            // Sized to the content like IText, with each line its own paragraph
+            const { internals } = this;
+            internals._styleMap = internals._generateStyleMap(textMethods._splitTextIntoLines.call(this, this.text ?? ''));
+            fabric.Text.prototype.initDimensions.call(this);
+            return;
+        }
+
+        if (this.sizing === 'shrink') {
+            this.fitToBox();
+        } else {
+            super.initDimensions();
+        }
+    }
+
+    /**
+     * Largest font scale, up to the unscaled sizes, whose wrapped lines fit the box
+     */
+    private fitToBox(): void {
+        const boxWidth = this.width ?? 0;
+        const fits = (scale: number) => {
+            this.applyFontScale(scale);
+            this.width = boxWidth;
+            fabric.Textbox.prototype.initDimensions.call(this);
+            return (this.height ?? 0) <= this.boxHeight && (this.width ?? 0) <= boxWidth;
+        };
+
+        if (!fits(1)) {
+            let low = MIN_FONT_SCALE;
+            let high = 1;
+            for (let i = 0; i < 8; i++) {
+                const scale = (low + high) / 2;
+                if (fits(scale)) low = scale;
+                else high = scale;
+            }
+            fits(low);
+        }
+        this.height = Math.max(this.height ?? 0, this.boxHeight);
+    }
+
+    /**
+     * Scale the font size and per-character sizes from unscaled
+     */
+    private applyFontScale(scale: number): void {
+        const ratio = scale / this.fontScale;
+        if (ratio === 1) return;
+
+        this.fontSize = (this.fontSize ?? 0) * ratio;
+        Object.values(this.styles ?? {}).forEach((line) => {
+            Object.values(line as Record<number, { fontSize?: number }>).forEach((style) => {
+                if (style.fontSize) style.fontSize *= ratio;
+            });
+        });
+        this.fontScale = scale;
+    }
+
+    /**
+     * Per-character styles with unscaled font sizes
+     */
+    public getUnscaledStyles(): fabric.IText['styles'] {
+        const unscale = (size: number) => Math.round((size / this.fontScale) * 100) / 100;
+        const styles: Record<number, Record<number, Record<string, unknown>>> = {};
+        Object.entries(this.styles ?? {}).forEach(([lineIndex, line]) => {
+            styles[Number(lineIndex)] = {};
+            Object.entries(line as Record<number, Record<string, unknown>>).forEach(([charIndex, style]) => {
+                styles[Number(lineIndex)][Number(charIndex)] = typeof style.fontSize === 'number'
+                    ? { ...style, fontSize: unscale(style.fontSize) }
+                    : { ...style };
+            });
+        });
+        return styles;
+    }
+
+    /**
+     * Bend the text along an arc, or bind it to an element's outline; the outline wins
+     */
+    public setTextPath(curve: number, textPath: TextPath | null): void {
+        this.curve = curve;
+        this.textPath = textPath;
+        this.updatePath();
+        this.dirty = true;
+        this.canvas?.requestRenderAll();
+    }
+
+    /**
+     * Where the text must be centered on the page to sit on its bound outline
+     */
+    public getTextPathCenter(): fabric.Point | null {
+        return this.textPath ? this.textPathCenter : null;
+    }
+
+    /**
+     * Build the Fabric path the characters are laid along
+     */
+    private updatePath(): void {
+        const { internals } = this;
+        internals.path = undefined;
+        this.textPathCenter = null;
+        this.initDimensions();
+
+        const outline = this.textPath ? parsePathData(this.textPath.pathData) : [];
+        const commands = this.textPath
+            ? toTextPathCommands(outline)
+            : getCurveCommands(internals.calcTextWidth(), this.curve);
+
+        if (commands.length > 1) {
+            const path = new fabric.Path(serializePathData(commands), { visible: false });
+            const start = outline[0]?.values ?? [0, 0];
+            this.textPathCenter = new fabric.Point(start[0] + path.pathOffset.x, start[1] + path.pathOffset.y);
+
+            internals.path = path;
+            internals.pathSide = this.textPath?.flip ? 'right' : 'left';
+            internals.setPathInfo();
+            internals.pathStartOffset = this.getPathStartOffset();
+            this.textAlign = 'center';
+            this.initDimensions();
+        }
+        this.setCoords();
+    }
+
+    /**
+     * Offset that centers the text at its position along the outline. Fabric counts the letter
+     * spacing after the last character as part of the line, so half of it is taken back
+     */
+    private getPathStartOffset(): number {
+        const { internals } = this;
+        const segments = internals.path?.segmentsInfo ?? [];
+        const length = segments[segments.length - 1]?.length ?? 0;
+        const position = (this.textPath?.position ?? 50) / 100;
+        const spacing = internals._getWidthOfCharSpacing() / 2;
+        return (this.textPath?.flip ? 0.5 - position : position - 0.5) * length + spacing;
+    }
+
+    /**
+     * Set or clear list formatting
+     */
+    public setList(list: TextList | null): void {
+        this.list = list;
+        this.listText = this.text ?? '';
+        this.refreshLayout();
+    }
+
+    /**
+     * Nest or un-nest the list paragraphs under the selection while editing, or all of them otherwise
+     */
+    public shiftListLevels(delta: number): void {
+        if (!this.list) return;
+
+        const paragraphCount = (this.text ?? '').split('\n').length;
+        const levels = getListLevels(this.list, paragraphCount);
+        const first = this.isEditing ? this.get2DCursorLocation(this.selectionStart, true).lineIndex : 0;
+        const last = this.isEditing ? this.get2DCursorLocation(this.selectionEnd, true).lineIndex : paragraphCount - 1;
+
+        for (let i = first; i <= last; i++) {
+            levels[i] = Math.min(MAX_LIST_LEVEL, Math.max(0, levels[i] + delta));
+        }
+        this.list = { ...this.list, levels };
+        this.refreshLayout();
+    }
+
+    /**
+     * Tab and Shift+Tab change the nesting of list paragraphs
+     */
+    public onKeyDown(e: Event): void {
+        const event = e as KeyboardEvent;
+        if (this.isEditing && this.list && event.key === 'Tab') {
+            event.preventDefault();
+            this.shiftListLevels(event.shiftKey ? -1 : 1);
+            this.fire('changed');
+            this.canvas?.fire('text:changed', { target: this });
+            return;
+        }
+        super.onKeyDown(e);
+    }
+
+    /**
+     * Paragraph shown on a line, and whether the line starts it (wrapped lines continue one)
+     */
+    private getLineParagraph(lineIndex: number): { paragraph: number; isFirstLine: boolean } {
+        const map = this.internals._styleMap?.[lineIndex];
+        return map ? { paragraph: map.line, isFirstLine: map.offset === 0 } : { paragraph: lineIndex, isFirstLine: true };
+    }
+
+    /**
+     * The part of a paragraph each line shows, once wrapped
+     */
+    public getLineRanges(): TextLineRange[] {
+        const styleMap = this.internals._styleMap;
+        return this._textLines.map((line, lineIndex) => {
+            const start = styleMap?.[lineIndex]?.offset ?? 0;
+            return { paragraph: this.getLineParagraph(lineIndex).paragraph, start, end: start + line.length };
+        });
+    }
+
+    /**
+     * Indent of a line's text; list markers hang inside it
+     */
+    private getLineIndent(lineIndex: number): number {
+        if (!this.list || this.path) return 0;
+        const { paragraph } = this.getLineParagraph(lineIndex);
+        return getListIndent(this.list, this.list.levels[paragraph] ?? 0, this.fontSize ?? 0);
+    }
+
+    public getLineWidth(lineIndex: number): number {
+        return super.getLineWidth(lineIndex) + this.getLineIndent(lineIndex);
+    }
+
+    public _getLineLeftOffset(lineIndex: number): number {
+        return super._getLineLeftOffset(lineIndex) + this.getLineIndent(lineIndex);
+    }
+
+    /**
+     * Markers for the lines that start list paragraphs, styled like each line's first character
+     */
+    private getListMarkers(): ListMarker[] {
+        // Text on a path runs as one line, without list markers
+        if (!this.list || this.path) return [];
+
+        const markers = getListMarkers(this.list, (this.text ?? '').split('\n').length);
+        return this._textLines.flatMap((_, lineIndex) => {
+            const { paragraph, isFirstLine } = this.getLineParagraph(lineIndex);
+            if (!isFirstLine) return [];
+            return [{ lineIndex, text: markers[paragraph], style: this.getCompleteStyleDeclaration(lineIndex, 0) }];
+        });
+    }
+
+    /**
+     * Marker position: right-aligned before the line's text, on its baseline
+     */
+    private getMarkerPosition(marker: ListMarker, left: number, top: number): { x: number; y: number } {
+        const { internals } = this;
+        const ctx = this.getMeasuringContext();
+        ctx.font = internals._getFontDeclaration(marker.style);
+        const width = ctx.measureText(marker.text).width;
+
+        let lineTop = top;
+        for (let i = 0; i < marker.lineIndex; i++) lineTop += this.getHeightOfLine(i);
+        const lineHeight = this.getHeightOfLine(marker.lineIndex);
+
+        return {
+            x: left + this._getLineLeftOffset(marker.lineIndex) - LIST_MARKER_GAP * (marker.style.fontSize ?? this.fontSize ?? 0) - width,
+            y: lineTop + lineHeight * (1 - this._fontSizeFraction) / (this.lineHeight ?? 1),
+        };
+    }
+
+    public _renderText(ctx: CanvasRenderingContext2D): void {
+        super._renderText(ctx);
+
+        const { internals } = this;
+        const left = internals._getLeftOffset();
+        const top = internals._getTopOffset();
+
+        this.getListMarkers().forEach((marker) => {
+            const { x, y } = this.getMarkerPosition(marker, left, top);
+            const fill = marker.style.fill ?? this.fill;
+
+            ctx.save();
+            ctx.font = internals._getFontDeclaration(marker.style);
+            ctx.textBaseline = 'alphabetic';
+            ctx.fillStyle = typeof fill === 'string' ? fill : (fill as fabric.Gradient)?.colorStops?.[0]?.color ?? '#000000';
+            ctx.fillText(marker.text, x, y);
+            if (this.stroke && this.strokeWidth) {
+                ctx.strokeStyle = this.stroke;
+                ctx.lineWidth = this.strokeWidth;
+                ctx.strokeText(marker.text, x, y);
+            }
+            ctx.restore();
+        });
+    }
+
+    /**
+     * SVG text with the list markers as extra spans
+     */
+    public _getSVGTextAndBg(textTopOffset: number, textLeftOffset: number): { textSpans: string[]; textBgRects: string[] } {
+        const result = iTextMethods._getSVGTextAndBg.call(this, textTopOffset, textLeftOffset);
+
+        this.getListMarkers().forEach((marker) => {
+            const { x, y } = this.getMarkerPosition(marker, textLeftOffset, textTopOffset);
+            result.textSpans.push(iTextMethods._createTextCharSpan.call(this, marker.text, marker.style, x, y, {}));
+        });
+        return result;
+    }
+
+    /**
+     * Characters laid on the path, in reading order across lines
+     */
+    private getPathCharBoxes(): PathCharBox[][] {
+        const bounds = this.__charBounds as unknown as PathCharBox[][];
+        return this._textLines.map((line, lineIndex) => bounds[lineIndex]?.slice(0, line.length) ?? []);
+    }
+
+    /**
+     * Draw in a character's frame on the path: its baseline along x, starting at x = 0
+     */
+    private withPathChar(ctx: CanvasRenderingContext2D, box: PathCharBox, draw: () => void): void {
+        ctx.save();
+        ctx.translate(box.renderLeft, box.renderTop);
+        ctx.rotate(box.angle);
+        ctx.translate(-box.width / 2, 0);
+        draw();
+        ctx.restore();
+    }
+
+    /**
+     * Cursor on the path, rotated with the character it stands before (or after, at a line end)
+     */
+    public renderCursor(boundaries: object, ctx: CanvasRenderingContext2D): void {
+        if (!this.path) {
+            super.renderCursor(boundaries, ctx);
+            return;
+        }
+
+        const { lineIndex, charIndex } = this.get2DCursorLocation();
+        const line = this.getPathCharBoxes()[lineIndex] ?? [];
+        const box = line[Math.min(charIndex, line.length - 1)];
+        if (!box) return;
+
+        const fontSize = this.getValueOfPropertyAt(lineIndex, Math.max(0, charIndex - 1), 'fontSize') as number;
+        const cursorWidth = (this.cursorWidth ?? 2) / ((this.scaleX ?? 1) * (this.canvas?.getZoom() ?? 1));
+        const x = charIndex < line.length ? 0 : box.width - this.internals._getWidthOfCharSpacing();
+
+        ctx.fillStyle = this.cursorColor || (this.getValueOfPropertyAt(lineIndex, Math.max(0, charIndex - 1), 'fill') as string);
+        ctx.globalAlpha = this.internals.__isMousedown ? 1 : this._currentCursorOpacity;
+        this.withPathChar(ctx, box, () => {
+            ctx.fillRect(x - cursorWidth / 2, -fontSize * (1 - this._fontSizeFraction), cursorWidth, fontSize);
+        });
+    }
+
+    /**
+     * Selection on the path, as a box behind each selected character
+     */
+    public renderSelection(boundaries: object, ctx: CanvasRenderingContext2D): void {
+        if (!this.path) {
+            super.renderSelection(boundaries, ctx);
+            return;
+        }
+
+        const start = this.selectionStart ?? 0;
+        const end = this.selectionEnd ?? 0;
+        let index = 0;
+
+        ctx.fillStyle = this.selectionColor ?? 'rgba(17,119,255,0.3)';
+        this.getPathCharBoxes().forEach((line, lineIndex) => {
+            line.forEach((box, charIndex) => {
+                if (index + charIndex >= start && index + charIndex < end) {
+                    const fontSize = this.getValueOfPropertyAt(lineIndex, charIndex, 'fontSize') as number;
+                    this.withPathChar(ctx, box, () => {
+                        ctx.fillRect(0, -fontSize * (1 - this._fontSizeFraction), box.width, fontSize);
+                    });
+                }
+            });
+            index += line.length + 1;
+        });
+    }
+
+    /**
+     * Clicks on text on a path place the cursor beside the nearest character
+     */
+    public getSelectionStartFromPointer(e: Event): number {
+        if (!this.path || !this.canvas) return super.getSelectionStartFromPointer(e);
+
+        const pointer = this.canvas.getPointer(e);
+        const local = fabric.util.transformPoint(
+            new fabric.Point(pointer.x, pointer.y),
+            fabric.util.invertTransform(this.calcTransformMatrix())
+        );
+
+        let nearest = { index: 0, distance: Infinity };
+        let index = 0;
+        this.getPathCharBoxes().forEach((line) => {
+            line.forEach((box, charIndex) => {
+                const dx = local.x - box.renderLeft;
+                const dy = local.y - box.renderTop;
+                const distance = dx * dx + dy * dy;
+                if (distance < nearest.distance) {
+                    // Past the middle of the character along its baseline, the cursor goes after it
+                    const isAfter = dx * Math.cos(box.angle) + dy * Math.sin(box.angle) > 0;
+                    nearest = { index: index + charIndex + (isAfter ? 1 : 0), distance };
+                }
+            });
+            index += line.length + 1;
+        });
+        return nearest.index;
+    }
+
+    /**
+     * SVG with the characters of text on a path as rotated spans, leaving out the hidden path
+     */
+    public toSVG(reviver?: (markup: string) => string): string {
+        if (!this.path) return super.toSVG(reviver);
+
+        const { internals } = this;
+        return internals._createBaseSVGMarkup(internals._toSVG(), { reviver, noStyle: true, withShadow: true });
+    }
+
+    /**
+     * Re-measure after a change that moves lines
+     */
+    private refreshLayout(): void {
+        this.initDimensions();
+        this.setCoords();
+        this.dirty = true;
+        this.canvas?.requestRenderAll();
     }
 
     /**
@@ -119,7 +738,7 @@ export class CustomText extends fabric.IText {
     public getTextStyle(): TextStyle {
         return {
             fontFamily: this.fontFamily || 'Inter',
-            fontSize: this.fontSize || 24,
+            fontSize: (this.fontSize || 24) / this.fontScale,
             fontWeight: (this.fontWeight as number | 'normal' | 'bold') || 'normal',
             fontStyle: (this.fontStyle as 'normal' | 'italic') || 'normal',
             textDecoration: this.underline ? 'underline' : this.linethrough ? 'line-through' : 'none',
@@ -139,6 +758,11 @@ export class CustomText extends fabric.IText {
             customId: this.customId,
             effect: this.effect,
             customTextStyle: this.customTextStyle,
+            list: this.list,
+            curve: this.curve,
+            textPath: this.textPath,
+            sizing: this.sizing,
+            boxHeight: this.boxHeight,
         };
     }
 
@@ -2,8 +2,19 @@
 // Core Fabric.js wrapper and initialization
 
 import { fabric } from 'fabric';
-import { CanvasElement, TextElement, ImageElement, ShapeElement } from '@/types/canvas';
-import { Page, PageBackground } from '@/types/project';
+import { CanvasElement, TextElement, ImageElement, ShapeElement, PathElement, GradientFill, TextContent, TextRunStyle, TextSizing } from '@/types/canvas';
+import { Page, PageBackground, PageGuide } from '@/types/project';
+import { DrawingSettings } from '@/types/drawing';
+import { FreehandTool, FreehandToolHandlers } from '../drawing/FreehandTool';
+import { PenTool, PenToolHandlers } from '../drawing/PenTool';
+import { PathEditor, PathEditorHandlers } from '../drawing/PathEditor';
+import { getObjectOutline } from '../drawing/booleanPath';
+import { SnapEngine } from '../snapping/SnapEngine';
+import { CustomText } from './CustomText';
+import { fabricStylesToRuns, runsToFabricStyles } from '../text/richText';
+import { SnapSettings } from '@/types/snapping';
+import { PathCommand, serializePathData } from '@/utils/pathData';
+import { getFilterSource, hasFilterStack, renderFilterStack } from '../filters/filterStack';
 
 export interface FabricCanvasOptions {
     width: number;
@@ -14,10 +25,73 @@ export interface FabricCanvasOptions {
     controlsAboveOverlay?: boolean;
 }
 
+/**
+ * Fabric fill for an element fill; gradients span the object's own box
+ */
+const toFabricFill = (fill: string | GradientFill | null, width: number, height: number): string | fabric.Gradient => {
+    if (!fill) return '';
+    if (typeof fill === 'string') return fill;
+
+    const colorStops = [...fill.colorStops].sort((a, b) => a.offset - b.offset);
+
+    if (fill.type === 'radial') {
+        const radius = Math.sqrt(width * width + height * height) / 2;
+        return new fabric.Gradient({
+            type: 'radial',
+            coords: {
+                x1: width / 2,
+                y1: height / 2,
+                r1: fill.r1 ?? 0,
+                x2: width / 2,
+                y2: height / 2,
+                r2: fill.r2 ?? radius,
+            },
+            colorStops,
+        });
+    }
+
+    // Same angle convention as page backgrounds: 90 runs left to right, 180 top to bottom
+    const angle = ((fill.angle ?? 90) - 90) * (Math.PI / 180);
+    const length = Math.sqrt(width * width + height * height) / 2;
+    return new fabric.Gradient({
+        type: 'linear',
+        coords: {
+            x1: width / 2 - Math.cos(angle) * length,
+            y1: height / 2 - Math.sin(angle) * length,
+            x2: width / 2 + Math.cos(angle) * length,
+            y2: height / 2 + Math.sin(angle) * length,
+        },
+        colorStops,
+    });
+};
+
+/**
+ * Fabric text options for a text element's text style, fill and runs
+ */
+const getTextOptions = (element: TextElement): fabric.ITextOptions => ({
+    fontFamily: element.textStyle.fontFamily,
+    fontSize: element.textStyle.fontSize,
+    fontWeight: element.textStyle.fontWeight as number,
+    fontStyle: element.textStyle.fontStyle,
+    textAlign: element.textStyle.textAlign,
+    lineHeight: element.textStyle.lineHeight,
+    charSpacing: element.textStyle.letterSpacing * 100,
+    underline: element.textStyle.textDecoration === 'underline',
+    linethrough: element.textStyle.textDecoration === 'line-through',
+    fill: element.style.fill as string,
+    styles: runsToFabricStyles(element.content, element.runs),
+});
+
 export class FabricCanvas {
     private canvas: fabric.Canvas | null = null;
     private containerElement: HTMLCanvasElement | null = null;
     private objectIdMap: Map<string, fabric.Object> = new Map();
+    private loadGeneration = 0; // Bumped whenever the canvas is cleared for another page
+    private syncQueue: Promise<void> = Promise.resolve();
+    private freehandTool: FreehandTool | null = null;
+    private penTool: PenTool | null = null;
+    private pathEditor: PathEditor | null = null;
+    private snapEngine: SnapEngine | null = null;
 
     // Event callbacks
     public onSelectionChange?: (selectedIds: string[]) => void;
@@ -25,6 +99,12 @@ export class FabricCanvas {
     public onObjectUpdating?: (id: string) => void;
     public onObjectAdded?: (id: string) => void;
     public onObjectRemoved?: (id: string) => void;
+    public onObjectDoubleClick?: (id: string) => void;
+    public onTextEdited?: (id: string, content: TextContent) => void;
+    public onTextPathChanged?: (id: string, pathData: string) => void;
+    public onTextBoxChanged?: (id: string, box: { sizing: TextSizing; width: number; height: number }) => void;
+    public onTransformStart?: (ids: string[], action: string) => void;
+    public onTransformEnd?: () => void;
 
     constructor() {
         this.objectIdMap = new Map();
@@ -49,6 +129,7 @@ export class FabricCanvas {
             fireMiddleClick: true,
         });
 
+        this.snapEngine = new SnapEngine(this.canvas);
         this.setupEventListeners();
         this.setupCustomControls();
 
@@ -59,6 +140,11 @@ export class FabricCanvas {
      * Dispose of the canvas and clean up resources
      */
     public dispose(): void {
+        this.disableDrawing();
+        this.disablePenTool();
+        this.stopEditingPath();
+        this.snapEngine?.dispose();
+        this.snapEngine = null;
         if (this.canvas) {
             this.canvas.dispose();
             this.canvas = null;
@@ -95,20 +181,48 @@ export class FabricCanvas {
             this.onSelectionChange?.([]);
         });
 
-        // Object modification events (end of transform)
+        // A drag, scale or rotate is starting on the selected objects
+        this.canvas.on('before:transform', (e: fabric.IEvent<MouseEvent>) => {
+            const transform = (e as fabric.IEvent & { transform?: { action?: string; target?: fabric.Object } }).transform;
+            const ids = this.getTargetIds(transform?.target);
+            if (ids.length > 0) {
+                this.onTransformStart?.(ids, transform?.action ?? 'drag');
+            }
+        });
+        this.canvas.on('mouse:up', () => this.onTransformEnd?.());
+
+        // Object modification events (end of transform); a multi-selection reports each of its objects
         this.canvas.on('object:modified', (e: fabric.IEvent<MouseEvent>) => {
+            this.getTargetIds(e.target).forEach((id) => {
+                this.onObjectModified?.(id);
+                this.refreshTextPaths(id);
+            });
+
             const obj = e.target as fabric.Object & { data?: { id: string } };
             if (obj && obj.data?.id) {
-                this.onObjectModified?.(obj.data.id);
+
+                // A side handle set the text's wrap width or shrink-to-fit box
+                if (obj instanceof CustomText && (e as fabric.IEvent & { action?: string }).action === 'resizing') {
+                    this.onTextBoxChanged?.(obj.data.id, {
+                        sizing: obj.sizing,
+                        width: obj.width ?? 0,
+                        height: obj.sizing === 'shrink' ? obj.boxHeight : obj.height ?? 0,
+                    });
+                }
             }
         });
 
+        // Snap before the store reads the new position
+        this.canvas.on('object:moving', (e: fabric.IEvent<MouseEvent>) => this.snapEngine?.handleMoving(e));
+        this.canvas.on('object:scaling', (e: fabric.IEvent<MouseEvent>) => this.snapEngine?.handleScaling(e));
+        this.canvas.on('mouse:up', () => this.snapEngine?.handleTransformEnd());
+
         // Object updating events (during transform)
         const onUpdating = (e: fabric.IEvent<MouseEvent>) => {
-            const obj = e.target as fabric.Object & { data?: { id: string } };
-            if (obj && obj.data?.id) {
-                this.onObjectUpdating?.(obj.data.id);
-            }
+            this.getTargetIds(e.target).forEach((id) => {
+                this.onObjectUpdating?.(id);
+                this.refreshTextPaths(id);
+            });
         };
 
         this.canvas.on('object:scaling', onUpdating);
@@ -123,6 +237,22 @@ export class FabricCanvas {
             }
         });
 
+        this.canvas.on('mouse:dblclick', (e: fabric.IEvent<MouseEvent>) => {
+            const obj = e.target as fabric.Object & { data?: { id: string } };
+            if (obj && obj.data?.id) {
+                this.onObjectDoubleClick?.(obj.data.id);
+            }
+        });
+
+        // Edited text, with the styles Fabric kept per character
+        this.canvas.on('text:editing:exited', (e: fabric.IEvent) => {
+            const obj = e.target as fabric.IText & { data?: { id: string } };
+            const content = obj?.data?.id ? this.getTextContent(obj.data.id) : null;
+            if (obj?.data?.id && content) {
+                this.onTextEdited?.(obj.data.id, content);
+            }
+        });
+
         this.canvas.on('object:removed', (e: fabric.IEvent<MouseEvent>) => {
             const obj = e.target as fabric.Object & { data?: { id: string } };
             if (obj && obj.data?.id) {
@@ -271,6 +401,16 @@ export class FabricCanvas {
             .map((obj: fabric.Object & { data?: { id: string } }) => obj.data!.id);
     }
 
+    /**
+     * Element IDs behind an event target: the object itself, or each object of a multi-selection
+     */
+    private getTargetIds(target: fabric.Object | undefined): string[] {
+        const objects = target instanceof fabric.ActiveSelection ? target.getObjects() : target ? [target] : [];
+        return objects
+            .map((obj: fabric.Object & { data?: { id: string } }) => obj.data?.id)
+            .filter((id): id is string => id !== undefined);
+    }
+
     /**
      * Resize the canvas
      */
@@ -525,18 +665,16 @@ export class FabricCanvas {
     public addText(element: TextElement): fabric.IText {
         if (!this.canvas) throw new Error('Canvas not initialized');
 
-        const text = new fabric.IText(element.content, {
+        const text = new CustomText(element.content, {
             left: element.transform.x,
             top: element.transform.y,
             width: element.transform.width,
-            fontFamily: element.textStyle.fontFamily,
-            fontSize: element.textStyle.fontSize,
-            fontWeight: element.textStyle.fontWeight as number,
-            fontStyle: element.textStyle.fontStyle,
-            textAlign: element.textStyle.textAlign,
-            lineHeight: element.textStyle.lineHeight,
-            charSpacing: element.textStyle.letterSpacing * 100,
-            fill: element.style.fill as string,
+            ...getTextOptions(element),
+            list: element.list ?? null,
+            curve: element.curve ?? 0,
+            textPath: element.textPath ?? null,
+            sizing: element.sizing ?? 'auto',
+            boxHeight: element.transform.height,
             stroke: element.style.stroke ?? undefined,
             strokeWidth: element.style.strokeWidth,
             opacity: element.style.opacity,
@@ -562,22 +700,141 @@ export class FabricCanvas {
             });
         }
 
+        this.placeOnTextPath(text, element.locked);
         this.canvas.add(text);
         this.objectIdMap.set(element.id, text);
 
         return text;
     }
 
+    /**
+     * Center text bound to an outline on it; it then moves only with its outline
+     */
+    private placeOnTextPath(text: CustomText, locked: boolean): void {
+        const center = text.getTextPathCenter();
+        if (center) {
+            text.set({ angle: 0, scaleX: 1, scaleY: 1 });
+            text.setPositionByOrigin(center, 'center', 'center');
+        }
+        text.set({
+            lockMovementX: locked || !!center,
+            lockMovementY: locked || !!center,
+            lockScalingX: !!center,
+            lockScalingY: !!center,
+            lockRotation: !!center,
+        });
+        text.setCoords();
+    }
+
+    /**
+     * Lay text bound to an element along its current outline, after the element moved or changed shape
+     */
+    private refreshTextPaths(targetId: string): void {
+        const outline = this.getOutline(targetId);
+        if (!outline) return;
+
+        const pathData = serializePathData(outline);
+        this.objectIdMap.forEach((obj, id) => {
+            if (!(obj instanceof CustomText) || obj.textPath?.elementId !== targetId || obj.textPath.pathData === pathData) return;
+
+            obj.setTextPath(obj.curve, { ...obj.textPath, pathData });
+            this.placeOnTextPath(obj, obj.lockMovementX ?? false);
+            this.onTextPathChanged?.(id, pathData);
+        });
+    }
+
+    /**
+     * Apply a text element's content, text style, fill and runs to its Fabric object
+     */
+    public updateText(element: TextElement): void {
+        const obj = this.objectIdMap.get(element.id);
+        if (!(obj instanceof fabric.IText)) return;
+
+        // Setting the text while editing would reset the cursor
+        if (!obj.isEditing && obj.text !== element.content) obj.set('text', element.content);
+        if (obj instanceof CustomText) {
+            obj.setTextOptions(getTextOptions(element));
+            obj.setTextBox(element.sizing ?? 'auto', element.transform.width, element.transform.height);
+            obj.setList(element.list ?? null);
+            obj.setTextPath(element.curve ?? 0, element.textPath ?? null);
+            this.placeOnTextPath(obj, element.locked);
+        } else {
+            obj.set(getTextOptions(element));
+        }
+        obj.initDimensions();
+        obj.setCoords();
+        this.canvas?.requestRenderAll();
+    }
+
+    /**
+     * Get a text element's content and runs as currently shown, including unsaved edits
+     */
+    public getTextContent(id: string): TextContent | null {
+        const obj = this.objectIdMap.get(id);
+        if (!(obj instanceof fabric.IText)) return null;
+
+        const content = obj.text ?? '';
+        return {
+            content,
+            runs: fabricStylesToRuns(content, obj instanceof CustomText ? obj.getUnscaledStyles() : obj.styles),
+            list: obj instanceof CustomText ? obj.list : null,
+        };
+    }
+
+    /**
+     * Nest or un-nest a list text's paragraphs (those selected, while editing), and return its content
+     */
+    public indentTextList(id: string, delta: number): TextContent | null {
+        const obj = this.objectIdMap.get(id);
+        if (!(obj instanceof CustomText) || !obj.list) return null;
+
+        obj.shiftListLevels(delta);
+        return this.getTextContent(id);
+    }
+
+    /**
+     * Get the selected character range of a text element being edited, if any
+     */
+    public getTextSelection(id: string): { start: number; end: number } | null {
+        const obj = this.objectIdMap.get(id);
+        if (!(obj instanceof fabric.IText) || !obj.isEditing) return null;
+
+        const start = obj.selectionStart ?? 0;
+        const end = obj.selectionEnd ?? 0;
+        return end > start ? { start, end } : null;
+    }
+
+    /**
+     * Style the selected characters of a text element being edited, and return its content and runs
+     */
+    public styleTextSelection(id: string, style: TextRunStyle): TextContent | null {
+        const obj = this.objectIdMap.get(id);
+        if (!(obj instanceof fabric.IText) || !this.getTextSelection(id)) return null;
+
+        // Shrink-to-fit text holds its font sizes scaled down
+        const fontScale = obj instanceof CustomText ? obj.fontScale : 1;
+        obj.setSelectionStyles(style.fontSize ? { ...style, fontSize: style.fontSize * fontScale } : style);
+        obj.initDimensions();
+        obj.setCoords();
+        this.canvas?.requestRenderAll();
+
+        return this.getTextContent(id);
+    }
+
     /**
      * Add an image element
      */
     public async addImage(element: ImageElement): Promise<fabric.Image> {
         if (!this.canvas) throw new Error('Canvas not initialized');
 
+        // Filtered images are rendered from their unfiltered source
+        const src = hasFilterStack(element) ? getFilterSource(element) : element.src;
+        const generation = this.loadGeneration;
+
         return new Promise((resolve, reject) => {
             fabric.Image.fromURL(
-                element.src,
-                (img: fabric.Image) => {
+                src,
+                async (img: fabric.Image) => {
                     if (!this.canvas) {
                         reject(new Error('Canvas not initialized'));
                         return;
@@ -600,9 +857,24 @@ export class FabricCanvas {
                     });
 
                     // Apply filters
-                    this.applyImageFilters(img, element);
+                    try {
+                        await this.applyImageFilters(img, element);
+                    } catch (error) {
+                        console.error('Image filters failed:', error);
+                    }
 
-                    this.canvas!.add(img);
+                    if (!this.canvas) {
+                        reject(new Error('Canvas not initialized'));
+                        return;
+                    }
+
+                    // Another page was loaded while the filters rendered; the image belongs to the old one
+                    if (generation !== this.loadGeneration) {
+                        resolve(img);
+                        return;
+                    }
+
+                    this.canvas.add(img);
                     this.objectIdMap.set(element.id, img);
 
                     resolve(img);
@@ -613,9 +885,16 @@ export class FabricCanvas {
     }
 
     /**
-     * Apply image filters
+     * Apply image filters: the preset stack first, then the adjustments
      */
-    private applyImageFilters(img: fabric.Image, element: ImageElement): void {
+    private async applyImageFilters(img: fabric.Image, element: ImageElement): Promise<void> {
+        if (hasFilterStack(element)) {
+            const rendered = await renderFilterStack(img.getElement(), element.filterStack!);
+            if (rendered) {
+                (img as unknown as { setElement(element: HTMLCanvasElement): fabric.Image }).setElement(rendered);
+            }
+        }
+
         const filters: fabric.IBaseFilter[] = [];
 
         if (element.filters.brightness !== 0) {
@@ -751,6 +1030,73 @@ export class FabricCanvas {
         return shape;
     }
 
+    /**
+     * Add a path element (freehand strokes and vector paths), optionally stacked just above another object
+     */
+    public addPath(element: PathElement, aboveId?: string): fabric.Path {
+        if (!this.canvas) throw new Error('Canvas not initialized');
+
+        const path = this.createPath(element);
+        const below = aboveId ? this.objectIdMap.get(aboveId) : undefined;
+        if (below) {
+            this.canvas.insertAt(path, this.canvas.getObjects().indexOf(below) + 1, false);
+        } else {
+            this.canvas.add(path);
+        }
+        this.objectIdMap.set(element.id, path);
+
+        return path;
+    }
+
+    /**
+     * Swap a path's Fabric object for one with new geometry, keeping its stacking position
+     */
+    public replacePath(element: PathElement): void {
+        const obj = this.objectIdMap.get(element.id);
+        if (!obj || !this.canvas) return;
+
+        const index = this.canvas.getObjects().indexOf(obj);
+        const path = this.createPath(element);
+        this.canvas.remove(obj);
+        this.canvas.insertAt(path, index, false);
+        this.objectIdMap.set(element.id, path);
+        this.refreshTextPaths(element.id);
+        this.canvas.requestRenderAll();
+    }
+
+    private createPath(element: PathElement): fabric.Path {
+        const path = new fabric.Path(element.pathData, {
+            left: element.transform.x,
+            top: element.transform.y,
+            fill: toFabricFill(element.style.fill, element.transform.width, element.transform.height),
+            stroke: element.style.stroke ?? undefined,
+            strokeWidth: element.style.strokeWidth,
+            opacity: element.style.opacity,
+            angle: element.transform.rotation,
+            scaleX: element.transform.scaleX,
+            scaleY: element.transform.scaleY,
+            originX: element.transform.originX,
+            originY: element.transform.originY,
+            selectable: element.selectable,
+            lockMovementX: element.locked,
+            lockMovementY: element.locked,
+            visible: element.visible,
+            data: { id: element.id, type: 'path' },
+        });
+
+        // Apply shadow if present
+        if (element.style.shadow) {
+            path.shadow = new fabric.Shadow({
+                color: element.style.shadow.color,
+                blur: element.style.shadow.blur,
+                offsetX: element.style.shadow.offsetX,
+                offsetY: element.style.shadow.offsetY,
+            });
+        }
+
+        return path;
+    }
+
     /**
      * Generate polygon points
      */
@@ -784,6 +1130,20 @@ export class FabricCanvas {
         return starPoints;
     }
 
+    /**
+     * Set how moved and resized objects snap
+     */
+    public setSnapSettings(settings: SnapSettings): void {
+        this.snapEngine?.setSettings(settings);
+    }
+
+    /**
+     * Set the ruler guides that moved and resized objects snap to
+     */
+    public setSnapGuides(guides: PageGuide[]): void {
+        this.snapEngine?.setGuides(guides);
+    }
+
     /**
      * Get object by ID
      */
@@ -791,6 +1151,25 @@ export class FabricCanvas {
         return this.objectIdMap.get(id);
     }
 
+    /**
+     * Get an element's filled outline in page coordinates, if it has one
+     */
+    public getOutline(id: string): PathCommand[] | null {
+        const obj = this.objectIdMap.get(id);
+        return obj ? getObjectOutline(obj) : null;
+    }
+
+    /**
+     * Get an element's bounding box on the page, including rotation and stroke
+     */
+    public getObjectBounds(id: string): { left: number; top: number; width: number; height: number } | null {
+        const obj = this.objectIdMap.get(id);
+        if (!obj) return null;
+
+        const { left, top, width, height } = obj.getBoundingRect(true, true);
+        return { left, top, width, height };
+    }
+
     /**
      * Get element's actual rendered dimensions from Fabric.js
      */
@@ -814,13 +1193,14 @@ export class FabricCanvas {
 
     /**
      * Get the underlying HTML image element from a Fabric Image object
+     * (a canvas when the image has a filter stack)
      */
-    public getImageElement(id: string): HTMLImageElement | null {
+    public getImageElement(id: string): HTMLImageElement | HTMLCanvasElement | null {
         const obj = this.objectIdMap.get(id);
         if (!obj) return null;
 
         // Access the internal element - Fabric.js stores it as _element
-        const fabricImg = obj as fabric.Image & { _element?: HTMLImageElement };
+        const fabricImg = obj as fabric.Image & { _element?: HTMLImageElement | HTMLCanvasElement };
         return fabricImg._element || null;
     }
 
@@ -864,6 +1244,7 @@ export class FabricCanvas {
      */
     public clear(): void {
         if (!this.canvas) return;
+        this.loadGeneration++;
         this.canvas.clear();
         this.objectIdMap.clear();
     }
@@ -908,10 +1289,12 @@ export class FabricCanvas {
 
         // Sort elements by zIndex
         const sortedElements = [...page.elements].sort((a, b) => a.zIndex - b.zIndex);
+        const generation = this.loadGeneration;
 
-        // Add elements
+        // Add elements, stopping if another page load takes over
         for (const element of sortedElements) {
             await this.addElement(element);
+            if (generation !== this.loadGeneration) return;
         }
 
         this.render();
@@ -928,6 +1311,8 @@ export class FabricCanvas {
                 return await this.addImage(element as ImageElement);
             case 'shape':
                 return this.addShape(element as ShapeElement);
+            case 'path':
+                return this.addPath(element as PathElement);
             // TODO: Add more element types
             default:
                 console.warn(`Unknown element type: ${element.type}`);
@@ -935,6 +1320,66 @@ export class FabricCanvas {
         }
     }
 
+    /**
+     * Rebuild the objects of changed elements and restack the page, leaving other objects as they are
+     */
+    public syncElements(page: Page, ids: string[]): Promise<void> {
+        // One sync at a time, so quick undos don't add the same element twice
+        const generation = this.loadGeneration;
+        const sync = this.syncQueue.then(() => this.runSync(page, ids, generation));
+        this.syncQueue = sync.catch(() => undefined);
+        return sync;
+    }
+
+    private async runSync(page: Page, ids: string[], generation: number): Promise<void> {
+        if (!this.canvas || generation !== this.loadGeneration) return;
+
+        this.canvas.discardActiveObject();
+        const elements = new Map(page.elements.map(el => [el.id, el]));
+        for (const id of ids) {
+            this.removeObject(id);
+            const element = elements.get(id);
+            if (element) await this.addElement(element);
+
+            // A page load replaced everything meanwhile
+            if (!this.canvas || generation !== this.loadGeneration) return;
+        }
+
+        // Stack element objects by zIndex, within the slots they already take
+        const objects = this.canvas.getObjects();
+        const stacked = [...page.elements]
+            .sort((a, b) => a.zIndex - b.zIndex)
+            .map(el => this.objectIdMap.get(el.id))
+            .filter((obj): obj is fabric.Object => obj !== undefined);
+        const slots = stacked.map(obj => objects.indexOf(obj)).sort((a, b) => a - b);
+        stacked.forEach((obj, i) => this.canvas?.moveTo(obj, slots[i]));
+
+        this.render();
+    }
+
+    /**
+     * Page-space position, scale and rotation of an element's object, also while it is part of a multi-selection
+     */
+    public getObjectTransform(id: string): { x: number; y: number; scaleX: number; scaleY: number; rotation: number } | null {
+        const obj = this.objectIdMap.get(id);
+        if (!obj) return null;
+
+        const group = obj.group;
+        if (!group) {
+            return { x: obj.left ?? 0, y: obj.top ?? 0, scaleX: obj.scaleX ?? 1, scaleY: obj.scaleY ?? 1, rotation: obj.angle ?? 0 };
+        }
+
+        // Grouped objects are placed relative to the selection's center
+        const origin = fabric.util.transformPoint(new fabric.Point(obj.left ?? 0, obj.top ?? 0), group.calcTransformMatrix());
+        return {
+            x: origin.x,
+            y: origin.y,
+            scaleX: (obj.scaleX ?? 1) * (group.scaleX ?? 1),
+            scaleY: (obj.scaleY ?? 1) * (group.scaleY ?? 1),
+            rotation: ((obj.angle ?? 0) + (group.angle ?? 0)) % 360,
+        };
+    }
+
     /**
      * Update element transform on the canvas
      */
@@ -950,24 +1395,84 @@ export class FabricCanvas {
 
         obj.setCoords();
         obj.setCoords();
+        this.refreshTextPaths(id);
         this.canvas.requestRenderAll();
     }
 
     /**
      * Update element style on the canvas
      */
-    public updateElementStyle(id: string, style: { opacity?: number; fill?: string; stroke?: string; strokeWidth?: number }): void {
+    public updateElementStyle(id: string, style: { opacity?: number; fill?: string | GradientFill | null; stroke?: string; strokeWidth?: number }): void {
         const obj = this.objectIdMap.get(id);
         if (!obj || !this.canvas) return;
 
         if (style.opacity !== undefined) obj.set('opacity', style.opacity);
-        if (style.fill !== undefined) obj.set('fill', style.fill);
+        if (style.fill !== undefined) obj.set('fill', toFabricFill(style.fill, obj.width ?? 0, obj.height ?? 0));
         if (style.stroke !== undefined) obj.set('stroke', style.stroke);
         if (style.strokeWidth !== undefined) obj.set('strokeWidth', style.strokeWidth);
 
         this.canvas.requestRenderAll();
     }
 
+    /**
+     * Capture pointer input as freehand strokes instead of selecting objects
+     */
+    public enableDrawing(settings: DrawingSettings, handlers: FreehandToolHandlers): void {
+        if (!this.canvas) return;
+
+        if (this.freehandTool) {
+            this.freehandTool.setSettings(settings);
+            return;
+        }
+
+        this.freehandTool = new FreehandTool(this.canvas, settings, handlers);
+        this.freehandTool.enable();
+    }
+
+    /**
+     * Return to normal selection
+     */
+    public disableDrawing(): void {
+        this.freehandTool?.disable();
+        this.freehandTool = null;
+    }
+
+    /**
+     * Place anchors with the pen tool instead of selecting objects
+     */
+    public enablePenTool(handlers: PenToolHandlers): void {
+        if (!this.canvas || this.penTool) return;
+
+        this.penTool = new PenTool(this.canvas, handlers);
+        this.penTool.enable();
+    }
+
+    public disablePenTool(): void {
+        // Cleared first: finishing a path can switch tools again
+        const tool = this.penTool;
+        this.penTool = null;
+        tool?.disable();
+    }
+
+    /**
+     * Show a path's nodes for editing; changes are previewed by swapping its Fabric object
+     */
+    public editPath(element: PathElement, handlers: Omit<PathEditorHandlers, 'onPreview'>): void {
+        if (!this.canvas) return;
+
+        this.stopEditingPath();
+        this.pathEditor = new PathEditor(this.canvas, element, {
+            ...handlers,
+            onPreview: (updated) => this.replacePath(updated),
+        });
+        this.pathEditor.enable();
+    }
+
+    public stopEditingPath(): void {
+        this.pathEditor?.disable();
+        this.pathEditor = null;
+    }
+
     /**
      * Get canvas JSON representation
      */
@@ -0,0 +1,78 @@
+// Filter Stack
+// Renders an image's ordered preset filters from its unfiltered source
+
+import { FilterStep, ImageElement } from '@/types/canvas';
+import { getFilterPreset } from '@/utils/imageFilters';
+import { loadImage } from '../export/exportUtils';
+import { ImageJobOptions, bitmapToCanvas, getImageProcessor } from '../imaging/ImageProcessor';
+
+// Recently rendered stacks, newest last
+const MAX_CACHED_RENDERS = 8;
+const renderCache: Array<{ source: string; stackKey: string; result: Promise<string> }> = [];
+
+/**
+ * New step for a preset at full strength, or null for presets without a family filter
+ */
+export const createFilterStep = (presetId: string): FilterStep | null => {
+    const preset = getFilterPreset(presetId);
+    if (!preset) return null;
+
+    return {
+        id: crypto.randomUUID(),
+        presetId,
+        family: preset.category,
+        intensity: 100,
+    };
+};
+
+/**
+ * Whether the image has preset filters to render
+ */
+export const hasFilterStack = (element: ImageElement): boolean =>
+    !!element.filterStack?.some(step => step.intensity > 0);
+
+/**
+ * The unfiltered image the stack renders from
+ */
+export const getFilterSource = (element: ImageElement): string =>
+    element.originalSrc || element.src;
+
+/**
+ * Draw an image with a filter stack applied, off the main thread;
+ * null when a newer job on the same channel replaced it
+ */
+export const renderFilterStack = async (
+    source: ImageBitmapSource,
+    stack: FilterStep[],
+    options: ImageJobOptions = {}
+): Promise<HTMLCanvasElement | null> => {
+    const bitmap = await getImageProcessor().process(source, [{ type: 'filterStack', stack }], options);
+    return bitmap ? bitmapToCanvas(bitmap) : null;
+};
+
+/**
+ * Image source with the element's filter stack baked in, e.g. for exporters and previews
+ */
+export const getFilteredSrc = (element: ImageElement): Promise<string> => {
+    if (!hasFilterStack(element)) return Promise.resolve(element.src);
+
+    const source = getFilterSource(element);
+    const stackKey = JSON.stringify(element.filterStack);
+    const cached = renderCache.find(entry => entry.source === source && entry.stackKey === stackKey);
+    if (cached) return cached.result;
+
+    const result = loadImage(source, element.crossOrigin)
+        .then(img => renderFilterStack(img, element.filterStack!))
+        .then(canvas => canvas ? canvas.toDataURL('image/png') : element.src);
+
+    renderCache.push({ source, stackKey, result });
+    if (renderCache.length > MAX_CACHED_RENDERS) renderCache.shift();
+
+    // Failed renders can be retried
+    result.catch(() => {
+        const index = renderCache.findIndex(entry => entry.result === result);
+        if (index !== -1) renderCache.splice(index, 1);
+    });
+
+    return result;
+};
@@ -0,0 +1,60 @@
+// Filter Steps
+// Pixel processing for filter stack steps; no DOM access, so workers can run it too
+
+import { FilterFamily, FilterStep } from '@/types/canvas';
+import { getNaturalFilter, processNaturalFilter } from '@/utils/naturalFilters';
+import { getWarmFilter, processWarmFilter } from '@/utils/warmFilters';
+import { getCoolFilter, processCoolFilter } from '@/utils/coolFilters';
+import { getVividFilter, processVividFilter } from '@/utils/vividFilters';
+import { getSoftFilter, processSoftFilter } from '@/utils/softFilters';
+import { getVintageFilter, processVintageFilter } from '@/utils/vintageFilters';
+import { getMonoFilter, processMonoFilter } from '@/utils/monoFilters';
+import { getColourPopFilter, processColourPopFilter } from '@/utils/colourPopFilters';
+
+type StepProcessor = (imageData: ImageData, presetId: string, params?: Record<string, number>) => boolean;
+
+/**
+ * Processor for one family: looks up the preset's definition and runs it with the step's overrides
+ */
+const familyProcessor = <T extends object>(
+    get: (id: string) => T | undefined,
+    process: (imageData: ImageData, filter: T) => void
+): StepProcessor => (imageData, presetId, params) => {
+    const filter = get(presetId);
+    if (!filter) return false;
+    process(imageData, { ...filter, ...params });
+    return true;
+};
+
+const FAMILY_PROCESSORS: Record<FilterFamily, StepProcessor> = {
+    natural: familyProcessor(getNaturalFilter, processNaturalFilter),
+    warm: familyProcessor(getWarmFilter, processWarmFilter),
+    cool: familyProcessor(getCoolFilter, processCoolFilter),
+    vivid: familyProcessor(getVividFilter, processVividFilter),
+    soft: familyProcessor(getSoftFilter, processSoftFilter),
+    vintage: familyProcessor(getVintageFilter, processVintageFilter),
+    mono: familyProcessor(getMonoFilter, processMonoFilter),
+    colorpop: familyProcessor(getColourPopFilter, processColourPopFilter),
+};
+
+/**
+ * Run a filter stack over image pixels in place
+ */
+export const processFilterStack = (imageData: ImageData, stack: FilterStep[]): void => {
+    const { data } = imageData;
+
+    for (const step of stack) {
+        const intensity = Math.max(0, Math.min(100, step.intensity)) / 100;
+        if (intensity === 0) continue;
+
+        const before = intensity < 1 ? new Uint8ClampedArray(data) : null;
+        if (!FAMILY_PROCESSORS[step.family]?.(imageData, step.presetId, step.params)) continue;
+
+        // Partial strength blends the step's result with the image before it
+        if (before) {
+            for (let i = 0; i < data.length; i++) {
+                data[i] = before[i] + (data[i] - before[i]) * intensity;
+            }
+        }
+    }
+};
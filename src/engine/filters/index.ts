@@ -0,0 +1,11 @@
+// Filters Index
+// Re-export the non-destructive image filter stack
+
+export {
+    createFilterStep,
+    getFilterSource,
+    getFilteredSrc,
+    hasFilterStack,
+    renderFilterStack,
+} from './filterStack';
+export { processFilterStack } from './filterSteps';
@@ -0,0 +1,4 @@
+// History Index
+// Re-export project diffing and patching for undo and redo
+
+export { applyProjectPatch, diffProjects, getPatchedElementIds, getPatchedPageIds } from './projectPatch';
@@ -0,0 +1,189 @@
+// Project Patches
+// Structural diffs between project states, scoped to the pages and elements that changed
+
+import { produce } from 'immer';
+import { CanvasElement } from '@/types/canvas';
+import { Page, Project } from '@/types/project';
+import { ElementPatch, PagePatch, PageFields, PatchDirection, ProjectFields, ProjectPatch } from '@/types/history';
+
+// Bumped by every edit, so not a change on its own
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+/**
+ * Shallow copy without the given keys
+ */
+const omitFields = <T extends object, K extends keyof T>(source: T, keys: K[]): Omit<T, K> => {
+    const fields = { ...source };
+    keys.forEach(key => delete fields[key]);
+    return fields;
+};
+
+const getPageFields = (page: Page): PageFields => omitFields(page, ['elements']);
+
+const getProjectFields = (project: Project): ProjectFields => omitFields(project, ['pages', 'activePageId']);
+
+/**
+ * Whether two sets of fields hold different values (compared by reference)
+ */
+const fieldsDiffer = (before: object, after: object): boolean => {
+    const a = before as Record<string, unknown>;
+    const b = after as Record<string, unknown>;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].some(key => !IGNORED_FIELDS.has(key) && a[key] !== b[key]);
+};
+
+const sameOrder = (a: string[], b: string[]): boolean =>
+    a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * Put a draft's fields to the given values, dropping optional fields they leave out
+ */
+const replaceFields = (draft: object, fields: object, keep: string[]): void => {
+    const target = draft as Record<string, unknown>;
+    Object.keys(target).forEach(key => {
+        if (!keep.includes(key) && !(key in fields)) delete target[key];
+    });
+    Object.assign(target, fields);
+};
+
+/**
+ * Sort items by id into the given order; ids it does not list go last
+ */
+const sortByOrder = <T extends { id: string }>(items: T[], order: string[]): void => {
+    const rank = (id: string) => {
+        const index = order.indexOf(id);
+        return index === -1 ? order.length : index;
+    };
+    items.sort((a, b) => rank(a.id) - rank(b.id));
+};
+
+/**
+ * Changes to one page; either side is undefined where the page does not exist
+ */
+const diffPage = (pageId: string, before: Page | undefined, after: Page | undefined): PagePatch | null => {
+    if (before === after) return null;
+
+    const beforeElements = before?.elements ?? [];
+    const afterElements = after?.elements ?? [];
+    const beforeById = new Map(beforeElements.map(el => [el.id, el]));
+    const afterById = new Map(afterElements.map(el => [el.id, el]));
+
+    const elements: ElementPatch[] = [];
+    new Set([...beforeById.keys(), ...afterById.keys()]).forEach(id => {
+        const beforeElement = beforeById.get(id) ?? null;
+        const afterElement = afterById.get(id) ?? null;
+        if (beforeElement !== afterElement) {
+            elements.push({ id, before: beforeElement, after: afterElement });
+        }
+    });
+
+    const beforeOrder = beforeElements.map(el => el.id);
+    const afterOrder = afterElements.map(el => el.id);
+    const elementOrder = sameOrder(beforeOrder, afterOrder) ? null : { before: beforeOrder, after: afterOrder };
+
+    const beforeFields = before ? getPageFields(before) : null;
+    const afterFields = after ? getPageFields(after) : null;
+    const fields = !beforeFields || !afterFields || fieldsDiffer(beforeFields, afterFields)
+        ? { before: beforeFields, after: afterFields }
+        : null;
+
+    if (!fields && elements.length === 0 && !elementOrder) return null;
+    return { pageId, fields, elements, elementOrder };
+};
+
+/**
+ * What changed from one project state to the next, or null when nothing did
+ */
+export const diffProjects = (before: Project, after: Project): ProjectPatch | null => {
+    if (before === after) return null;
+
+    const beforePages = new Map(before.pages.map(page => [page.id, page]));
+    const afterPages = new Map(after.pages.map(page => [page.id, page]));
+
+    const pages: PagePatch[] = [];
+    new Set([...beforePages.keys(), ...afterPages.keys()]).forEach(pageId => {
+        const pagePatch = diffPage(pageId, beforePages.get(pageId), afterPages.get(pageId));
+        if (pagePatch) pages.push(pagePatch);
+    });
+
+    const beforeOrder = before.pages.map(page => page.id);
+    const afterOrder = after.pages.map(page => page.id);
+    const pageOrder = sameOrder(beforeOrder, afterOrder) ? null : { before: beforeOrder, after: afterOrder };
+
+    const beforeFields = getProjectFields(before);
+    const afterFields = getProjectFields(after);
+    const fields = fieldsDiffer(beforeFields, afterFields) ? { before: beforeFields, after: afterFields } : null;
+
+    if (!fields && pages.length === 0 && !pageOrder) return null;
+    return { fields, pages, pageOrder };
+};
+
+/**
+ * Bring a project to one side of a patch, touching only what the patch covers
+ */
+export const applyProjectPatch = (project: Project, patch: ProjectPatch, direction: PatchDirection): Project =>
+    produce(project, (draft) => {
+        if (patch.fields) {
+            replaceFields(draft, patch.fields[direction], ['pages', 'activePageId']);
+        }
+
+        patch.pages.forEach((pagePatch) => {
+            const index = draft.pages.findIndex(page => page.id === pagePatch.pageId);
+            const fields = pagePatch.fields?.[direction];
+
+            // The page does not exist on this side
+            if (pagePatch.fields && !fields) {
+                if (index !== -1) draft.pages.splice(index, 1);
+                return;
+            }
+
+            let page = draft.pages[index];
+            if (!page) {
+                if (!fields) return;
+                draft.pages.push({ ...fields, elements: [] });
+                page = draft.pages[draft.pages.length - 1];
+            } else if (fields) {
+                replaceFields(page, fields, ['elements']);
+            }
+
+            const elements = page.elements;
+            pagePatch.elements.forEach((elementPatch) => {
+                const element: CanvasElement | null = elementPatch[direction];
+                const elementIndex = elements.findIndex(el => el.id === elementPatch.id);
+                if (!element) {
+                    if (elementIndex !== -1) elements.splice(elementIndex, 1);
+                } else if (elementIndex === -1) {
+                    elements.push(element);
+                } else {
+                    elements[elementIndex] = element;
+                }
+            });
+
+            if (pagePatch.elementOrder) {
+                sortByOrder(elements, pagePatch.elementOrder[direction]);
+            }
+        });
+
+        if (patch.pageOrder) {
+            sortByOrder(draft.pages, patch.pageOrder[direction]);
+        }
+
+        // Fall back to the first page when the active one was taken away
+        if (draft.pages.length > 0 && !draft.pages.some(page => page.id === draft.activePageId)) {
+            draft.activePageId = draft.pages[0].id;
+        }
+    });
+
+/**
+ * Elements a patch adds, removes or changes on a page
+ */
+export const getPatchedElementIds = (patch: ProjectPatch, pageId: string): string[] =>
+    patch.pages
+        .filter(pagePatch => pagePatch.pageId === pageId)
+        .flatMap(pagePatch => pagePatch.elements.map(elementPatch => elementPatch.id));
+
+/**
+ * Pages a patch touches
+ */
+export const getPatchedPageIds = (patch: ProjectPatch): string[] =>
+    patch.pages.map(pagePatch => pagePatch.pageId);
@@ -0,0 +1,257 @@
+// Image Processor
+// Runs pixel operations in a Web Worker, so large photos don't block the editor
+
+import { loadImage } from '../export/exportUtils';
+import { ImageOperation, runImageOperation } from './imageOperations';
+import type { ImageWorkerRequest, ImageWorkerResponse } from './imageWorker';
+
+export interface ImageJobOptions {
+    channel?: string; // A newer job on the same channel cancels this one, e.g. one per element
+    maxSize?: number; // Longest side in pixels; full resolution when left out
+}
+
+interface PendingJob {
+    channel?: string;
+    resolve: (bitmap: ImageBitmap | null) => void;
+    reject: (error: Error) => void;
+}
+
+// Longest side of previews shown while a slider is moving
+const PREVIEW_SIZE = 1024;
+
+/**
+ * Bitmap of the source, scaled down to fit maxSize when it is larger
+ */
+const createInputBitmap = async (source: ImageBitmapSource, maxSize?: number): Promise<ImageBitmap> => {
+    const bitmap = await createImageBitmap(source);
+    const scale = maxSize ? Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height)) : 1;
+    if (scale === 1) return bitmap;
+
+    const scaled = await createImageBitmap(bitmap, {
+        resizeWidth: Math.max(1, Math.round(bitmap.width * scale)),
+        resizeHeight: Math.max(1, Math.round(bitmap.height * scale)),
+        resizeQuality: 'medium',
+    });
+    bitmap.close();
+    return scaled;
+};
+
+/**
+ * Same work as the worker, for browsers without workers or OffscreenCanvas
+ */
+const processOnMainThread = (bitmap: ImageBitmap, operations: ImageOperation[]): Promise<ImageBitmap> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    operations.forEach(operation => runImageOperation(imageData, operation));
+    ctx.putImageData(imageData, 0, 0);
+
+    return createImageBitmap(canvas);
+};
+
+export class ImageProcessor {
+    private worker: Worker | null = null;
+    private workerFailed = false;
+    private pending: Map<number, PendingJob> = new Map();
+    private channels: Map<string, number> = new Map();
+    private nextJobId = 1;
+
+    /**
+     * Run operations over an image.
+     * Resolves to null when a newer job on the same channel replaced this one.
+     */
+    public async process(
+        source: ImageBitmapSource,
+        operations: ImageOperation[],
+        options: ImageJobOptions = {}
+    ): Promise<ImageBitmap | null> {
+        const jobId = this.nextJobId++;
+        const { channel, maxSize } = options;
+
+        if (channel) {
+            const staleJobId = this.channels.get(channel);
+            if (staleJobId !== undefined) this.cancel(staleJobId);
+            this.channels.set(channel, jobId);
+        }
+
+        const result = new Promise<ImageBitmap | null>((resolve, reject) => {
+            this.pending.set(jobId, { channel, resolve, reject });
+        });
+
+        try {
+            const bitmap = await createInputBitmap(source, maxSize);
+
+            // Replaced while the input was being prepared
+            if (!this.pending.has(jobId)) {
+                bitmap.close();
+                return result;
+            }
+
+            const worker = this.getWorker();
+            if (worker) {
+                const request: ImageWorkerRequest = { type: 'process', jobId, bitmap, operations };
+                worker.postMessage(request, [bitmap]);
+            } else {
+                this.finish(jobId, await processOnMainThread(bitmap, operations));
+            }
+        } catch (error) {
+            this.fail(jobId, error instanceof Error ? error : new Error(String(error)));
+        }
+
+        return result;
+    }
+
+    /**
+     * Reduced resolution result for live feedback
+     */
+    public preview(
+        source: ImageBitmapSource,
+        operations: ImageOperation[],
+        options: ImageJobOptions = {}
+    ): Promise<ImageBitmap | null> {
+        return this.process(source, operations, { maxSize: PREVIEW_SIZE, ...options });
+    }
+
+    /**
+     * Full resolution result
+     */
+    public render(
+        source: ImageBitmapSource,
+        operations: ImageOperation[],
+        options: Omit<ImageJobOptions, 'maxSize'> = {}
+    ): Promise<ImageBitmap | null> {
+        return this.process(source, operations, options);
+    }
+
+    /**
+     * Stop a job; its result resolves to null
+     */
+    public cancel(jobId: number): void {
+        const job = this.settle(jobId);
+        if (!job) return;
+
+        job.resolve(null);
+        if (this.worker) {
+            const request: ImageWorkerRequest = { type: 'cancel', jobId };
+            this.worker.postMessage(request);
+        }
+    }
+
+    /**
+     * Stop the worker and every job still running
+     */
+    public dispose(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.forEach(job => job.resolve(null));
+        this.pending.clear();
+        this.channels.clear();
+    }
+
+    private getWorker(): Worker | null {
+        if (this.worker) return this.worker;
+        if (this.workerFailed || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+            return null;
+        }
+
+        try {
+            this.worker = new Worker(new URL('./imageWorker.ts', import.meta.url));
+        } catch {
+            this.workerFailed = true;
+            return null;
+        }
+
+        this.worker.addEventListener('message', (event: MessageEvent<ImageWorkerResponse>) => {
+            const response = event.data;
+            if (response.type === 'done') {
+                this.finish(response.jobId, response.bitmap);
+            } else {
+                this.fail(response.jobId, new Error(response.message));
+            }
+        });
+
+        // A worker that can't start fails its jobs; later ones run on the main thread
+        this.worker.addEventListener('error', () => {
+            this.worker?.terminate();
+            this.worker = null;
+            this.workerFailed = true;
+            [...this.pending.keys()].forEach(jobId => this.fail(jobId, new Error('Image worker failed')));
+        });
+
+        return this.worker;
+    }
+
+    /**
+     * Forget a job, returning it if it was still pending
+     */
+    private settle(jobId: number): PendingJob | undefined {
+        const job = this.pending.get(jobId);
+        if (!job) return undefined;
+
+        this.pending.delete(jobId);
+        if (job.channel && this.channels.get(job.channel) === jobId) {
+            this.channels.delete(job.channel);
+        }
+        return job;
+    }
+
+    private finish(jobId: number, bitmap: ImageBitmap): void {
+        const job = this.settle(jobId);
+        if (job) {
+            job.resolve(bitmap);
+        } else {
+            // Cancelled after the work was already done
+            bitmap.close();
+        }
+    }
+
+    private fail(jobId: number, error: Error): void {
+        this.settle(jobId)?.reject(error);
+    }
+}
+
+/**
+ * Load an image source as a bitmap the processor can take
+ */
+export const loadImageBitmap = async (src: string, crossOrigin: string | null = 'anonymous'): Promise<ImageBitmap> => {
+    return createImageBitmap(await loadImage(src, crossOrigin));
+};
+
+/**
+ * Draw a processed bitmap into a canvas, stretched to the given size (previews are smaller), and release it
+ */
+export const bitmapToCanvas = (
+    bitmap: ImageBitmap,
+    width: number = bitmap.width,
+    height: number = bitmap.height
+): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    return canvas;
+};
+
+// Singleton
+let imageProcessorInstance: ImageProcessor | null = null;
+
+export const getImageProcessor = (): ImageProcessor => {
+    if (!imageProcessorInstance) {
+        imageProcessorInstance = new ImageProcessor();
+    }
+    return imageProcessorInstance;
+};
+
+export const resetImageProcessor = (): void => {
+    if (imageProcessorInstance) {
+        imageProcessorInstance.dispose();
+        imageProcessorInstance = null;
+    }
+};
@@ -0,0 +1,29 @@
+// Image Operations
+// Pixel operations the image processor runs, in order, on or off the main thread
+
+import { ColorReplaceEffect, FilterStep, ImageFilter } from '@/types/canvas';
+import { processImageAdjustments } from '@/utils/imageAdjustments';
+import { processColorReplacement } from '@/utils/colorReplace';
+import { processFilterStack } from '../filters/filterSteps';
+
+export type ImageOperation =
+    | { type: 'filterStack'; stack: FilterStep[] }
+    | { type: 'adjustments'; adjustments: ImageFilter }
+    | { type: 'colorReplace'; effect: ColorReplaceEffect };
+
+/**
+ * Run one operation over image pixels in place
+ */
+export const runImageOperation = (imageData: ImageData, operation: ImageOperation): void => {
+    switch (operation.type) {
+        case 'filterStack':
+            processFilterStack(imageData, operation.stack);
+            break;
+        case 'adjustments':
+            processImageAdjustments(imageData, operation.adjustments);
+            break;
+        case 'colorReplace':
+            processColorReplacement(imageData, operation.effect);
+            break;
+    }
+};
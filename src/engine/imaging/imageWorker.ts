@@ -0,0 +1,94 @@
+// Image Worker
+// Runs image operations off the main thread on an OffscreenCanvas
+
+import { ImageOperation, runImageOperation } from './imageOperations';
+
+export type ImageWorkerRequest =
+    | { type: 'process'; jobId: number; bitmap: ImageBitmap; operations: ImageOperation[] }
+    | { type: 'cancel'; jobId: number };
+
+export type ImageWorkerResponse =
+    | { type: 'done'; jobId: number; bitmap: ImageBitmap }
+    | { type: 'error'; jobId: number; message: string };
+
+type ImageJob = Extract<ImageWorkerRequest, { type: 'process' }>;
+
+// The project compiles against the DOM lib, so the worker scope is typed by hand
+const scope = self as unknown as {
+    postMessage(message: ImageWorkerResponse, transfer?: Transferable[]): void;
+    addEventListener(type: 'message', listener: (event: MessageEvent<ImageWorkerRequest>) => void): void;
+};
+
+const queue: ImageJob[] = [];
+let runningJobId: number | null = null;
+let isRunningCancelled = false;
+
+// Lets cancel messages that arrived during the last operation be handled
+const yieldToMessages = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Run a job's operations in order; null when it was cancelled part way
+ */
+const runJob = async (job: ImageJob): Promise<ImageBitmap | null> => {
+    const { bitmap } = job;
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    for (const operation of job.operations) {
+        await yieldToMessages();
+        if (isRunningCancelled) return null;
+        runImageOperation(imageData, operation);
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.transferToImageBitmap();
+};
+
+/**
+ * Work through queued jobs one at a time
+ */
+const drainQueue = async (): Promise<void> => {
+    if (runningJobId !== null) return;
+
+    let job: ImageJob | undefined;
+    while ((job = queue.shift())) {
+        runningJobId = job.jobId;
+        isRunningCancelled = false;
+
+        try {
+            const bitmap = await runJob(job);
+            if (bitmap) scope.postMessage({ type: 'done', jobId: job.jobId, bitmap }, [bitmap]);
+        } catch (error) {
+            scope.postMessage({
+                type: 'error',
+                jobId: job.jobId,
+                message: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    runningJobId = null;
+};
+
+scope.addEventListener('message', (event) => {
+    const request = event.data;
+
+    if (request.type === 'cancel') {
+        // Queued jobs are dropped; the running one stops before its next operation
+        const index = queue.findIndex(job => job.jobId === request.jobId);
+        if (index !== -1) {
+            queue.splice(index, 1)[0].bitmap.close();
+        } else if (request.jobId === runningJobId) {
+            isRunningCancelled = true;
+        }
+        return;
+    }
+
+    queue.push(request);
+    drainQueue();
+});
@@ -0,0 +1,13 @@
+// Imaging Index
+// Re-export the off-thread image processing service
+
+export {
+    ImageProcessor,
+    getImageProcessor,
+    resetImageProcessor,
+    loadImageBitmap,
+    bitmapToCanvas,
+} from './ImageProcessor';
+export type { ImageJobOptions } from './ImageProcessor';
+export { runImageOperation } from './imageOperations';
+export type { ImageOperation } from './imageOperations';
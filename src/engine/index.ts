@@ -3,7 +3,17 @@
 
 export * from './fabric';
 export * from './export';
+export * from './animation';
+export * from './preflight';
+export * from './drawing';
+export * from './snapping';
+export * from './layout';
+export * from './text';
+export * from './history';
+export * from './filters';
+export * from './imaging';
 export { PageManager, getPageManager, resetPageManager } from './PageManager';
 export type { PageManagerOptions } from './PageManager';
 export { CanvasRenderer, getCanvasRenderer } from './CanvasRenderer';
 export type { RenderOptions, TileRenderOptions } from './CanvasRenderer';
+export * from './storage';
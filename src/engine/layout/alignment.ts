@@ -0,0 +1,78 @@
+// Alignment
+// Offsets that align or evenly distribute element bounds
+
+import { Alignment, DistributeAxis } from '@/types/layout';
+
+export interface LayoutBox {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+export interface LayoutOffset {
+    dx: number;
+    dy: number;
+}
+
+const AXIS_KEYS = {
+    horizontal: { start: 'left', size: 'width' },
+    vertical: { start: 'top', size: 'height' },
+} as const;
+
+/**
+ * Smallest box around a set of boxes
+ */
+export const getUnionBox = (boxes: LayoutBox[]): LayoutBox => {
+    const left = Math.min(...boxes.map(box => box.left));
+    const top = Math.min(...boxes.map(box => box.top));
+    const right = Math.max(...boxes.map(box => box.left + box.width));
+    const bottom = Math.max(...boxes.map(box => box.top + box.height));
+    return { left, top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Offset for each box that lines its edge or center up with the target's
+ */
+export const getAlignOffsets = (boxes: LayoutBox[], alignment: Alignment, target: LayoutBox): LayoutOffset[] => {
+    return boxes.map(box => {
+        switch (alignment) {
+            case 'left':
+                return { dx: target.left - box.left, dy: 0 };
+            case 'center':
+                return { dx: target.left + target.width / 2 - (box.left + box.width / 2), dy: 0 };
+            case 'right':
+                return { dx: target.left + target.width - (box.left + box.width), dy: 0 };
+            case 'top':
+                return { dx: 0, dy: target.top - box.top };
+            case 'middle':
+                return { dx: 0, dy: target.top + target.height / 2 - (box.top + box.height / 2) };
+            case 'bottom':
+                return { dx: 0, dy: target.top + target.height - (box.top + box.height) };
+        }
+    });
+};
+
+/**
+ * Offset for each box that leaves equal gaps between neighbours across the extent;
+ * the boxes keep their order, and the outermost ones touch the extent's edges
+ */
+export const getDistributeOffsets = (boxes: LayoutBox[], axis: DistributeAxis, extent: LayoutBox): LayoutOffset[] => {
+    const { start, size } = AXIS_KEYS[axis];
+    const order = boxes
+        .map((box, index) => ({ box, index }))
+        .sort((a, b) => a.box[start] + a.box[size] / 2 - (b.box[start] + b.box[size] / 2));
+
+    const totalSize = boxes.reduce((sum, box) => sum + box[size], 0);
+    const gap = boxes.length > 1 ? (extent[size] - totalSize) / (boxes.length - 1) : 0;
+
+    const offsets: LayoutOffset[] = boxes.map(() => ({ dx: 0, dy: 0 }));
+    let position = extent[start];
+    order.forEach(({ box, index }) => {
+        const delta = position - box[start];
+        offsets[index] = axis === 'horizontal' ? { dx: delta, dy: 0 } : { dx: 0, dy: delta };
+        position += box[size] + gap;
+    });
+
+    return offsets;
+};
@@ -0,0 +1,5 @@
+// Layout Index
+// Re-export alignment and distribution
+
+export { getAlignOffsets, getDistributeOffsets, getUnionBox } from './alignment';
+export type { LayoutBox, LayoutOffset } from './alignment';
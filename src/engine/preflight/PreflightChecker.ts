@@ -0,0 +1,218 @@
+// Preflight Checker
+// Inspects pages for print problems: resolution, bleed and safe area, hairlines, fonts and colors
+
+import { CanvasElement, ImageElement, TextElement } from '@/types/canvas';
+import { Page } from '@/types/project';
+import {
+    DEFAULT_PREFLIGHT_OPTIONS,
+    PreflightIssue,
+    PreflightOptions,
+    PreflightReport,
+} from '@/types/preflight';
+import { POINTS_PER_INCH, calculateBleedPixels } from '@/utils/units';
+import { applyTextTransform, getElementBox, measureText } from '../export/exportUtils';
+import { findOutOfGamutColors } from '../export/pdfCMYK';
+
+interface Bounds {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+const GENERIC_FONT_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui']);
+const FALLBACK_FONT_FAMILIES = ['monospace', 'serif', 'sans-serif'];
+const FONT_SAMPLE_TEXT = 'mmmmmmmmmmlli WQ@#0';
+
+let fontMeasureContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Check whether a font family is installed or loaded.
+ * A missing family falls back, so its text measures the same as every fallback.
+ */
+export const isFontAvailable = (fontFamily: string): boolean => {
+    if (typeof document === 'undefined') return true;
+
+    const family = fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+    if (!family || GENERIC_FONT_FAMILIES.has(family.toLowerCase())) return true;
+
+    if (!fontMeasureContext) {
+        fontMeasureContext = document.createElement('canvas').getContext('2d');
+    }
+    const ctx = fontMeasureContext;
+    if (!ctx) return true;
+
+    return FALLBACK_FONT_FAMILIES.some((fallback) => {
+        ctx.font = `72px ${fallback}`;
+        const fallbackWidth = ctx.measureText(FONT_SAMPLE_TEXT).width;
+        ctx.font = `72px "${family}", ${fallback}`;
+        return ctx.measureText(FONT_SAMPLE_TEXT).width !== fallbackWidth;
+    });
+};
+
+/**
+ * Axis-aligned page bounds of an element whose unscaled size is width x height
+ */
+const getRotatedBounds = (element: CanvasElement, width: number, height: number): Bounds => {
+    const box = getElementBox(element.transform, width, height);
+    const angle = (element.transform.rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    const halfWidth = (box.width * cos + box.height * sin) / 2;
+    const halfHeight = (box.width * sin + box.height * cos) / 2;
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+
+    return {
+        left: centerX - halfWidth,
+        top: centerY - halfHeight,
+        right: centerX + halfWidth,
+        bottom: centerY + halfHeight,
+    };
+};
+
+const getElementLabel = (element: CanvasElement): string => {
+    if (element.type === 'text') {
+        const text = (element as TextElement).content.replace(/\s+/g, ' ').trim();
+        return `"${text.length > 24 ? `${text.slice(0, 24)}…` : text}"`;
+    }
+    return element.name || element.type;
+};
+
+/**
+ * Image resolution at its placed size, in pixels per inch of print
+ */
+const getEffectiveDPI = (element: ImageElement, page: Page): number => {
+    const scale = Math.max(Math.abs(element.transform.scaleX), Math.abs(element.transform.scaleY));
+    return scale > 0 ? page.dpi / scale : Infinity;
+};
+
+/**
+ * Run all checks over one page
+ */
+const checkPage = (page: Page, options: PreflightOptions): PreflightIssue[] => {
+    const issues: PreflightIssue[] = [];
+    const addIssue = (issue: Omit<PreflightIssue, 'id' | 'pageId'>) => {
+        issues.push({ ...issue, id: `${page.id}:${issue.elementId ?? 'page'}:${issue.type}:${issues.length}`, pageId: page.id });
+    };
+
+    // Pages with their own print settings override the defaults
+    const printSettings = page.print ?? { bleed: options.bleedMm, safeMargin: options.safeMarginMm };
+    const bleed = calculateBleedPixels(printSettings.bleed, page.dpi);
+    const safeMargin = calculateBleedPixels(printSettings.safeMargin, page.dpi);
+    const missingFonts = new Map<string, boolean>();
+
+    page.elements.filter(element => element.visible).forEach((element) => {
+        const label = getElementLabel(element);
+
+        if (element.type === 'image') {
+            const dpi = getEffectiveDPI(element as ImageElement, page);
+            if (dpi < page.dpi) {
+                addIssue({
+                    type: 'low-resolution',
+                    severity: dpi < page.dpi / 2 ? 'error' : 'warning',
+                    elementId: element.id,
+                    message: `${label} is ${Math.round(dpi)} DPI at its current size (page is ${page.dpi} DPI)`,
+                });
+            }
+        }
+
+        if (element.type === 'text') {
+            const text = element as TextElement;
+            const size = measureText(applyTextTransform(text.content, text.textStyle.textTransform), text);
+            const bounds = getRotatedBounds(element, size.width, size.height);
+
+            const pastTrim = bounds.left < 0 || bounds.top < 0 || bounds.right > page.width || bounds.bottom > page.height;
+            const outsideSafe = bounds.left < safeMargin ||
+                bounds.top < safeMargin ||
+                bounds.right > page.width - safeMargin ||
+                bounds.bottom > page.height - safeMargin;
+
+            if (pastTrim) {
+                const pastBleed = bounds.left < -bleed || bounds.top < -bleed ||
+                    bounds.right > page.width + bleed || bounds.bottom > page.height + bleed;
+                addIssue({
+                    type: 'text-in-bleed',
+                    severity: 'error',
+                    elementId: element.id,
+                    message: pastBleed
+                        ? `${label} runs off the page and will be cut off`
+                        : `${label} extends into the bleed and will be trimmed`,
+                });
+            } else if (outsideSafe) {
+                addIssue({
+                    type: 'text-outside-safe-area',
+                    severity: 'warning',
+                    elementId: element.id,
+                    message: `${label} is within ${printSettings.safeMargin}mm of the trim edge`,
+                });
+            }
+
+            // Runs can set fonts of their own
+            const fontFamilies = new Set([text.textStyle.fontFamily]);
+            text.runs?.forEach(run => run.style.fontFamily && fontFamilies.add(run.style.fontFamily));
+            fontFamilies.forEach((fontFamily) => {
+                if (!missingFonts.has(fontFamily)) {
+                    missingFonts.set(fontFamily, !isFontAvailable(fontFamily));
+                }
+                if (missingFonts.get(fontFamily)) {
+                    addIssue({
+                        type: 'missing-font',
+                        severity: 'error',
+                        elementId: element.id,
+                        message: `${label} uses "${fontFamily}", which isn't installed or loaded`,
+                    });
+                }
+            });
+        }
+
+        // Stroke width printed on the page, in points
+        const { stroke, strokeWidth } = element.style;
+        const isLine = element.type === 'shape' && element.shapeType === 'line';
+        const printedWidth = isLine ? strokeWidth || 2 : strokeWidth;
+        if ((stroke || isLine) && printedWidth > 0) {
+            const scale = Math.min(Math.abs(element.transform.scaleX), Math.abs(element.transform.scaleY));
+            const widthPt = (printedWidth * scale / page.dpi) * POINTS_PER_INCH;
+            if (widthPt < options.minStrokeWidthPt) {
+                addIssue({
+                    type: 'hairline-stroke',
+                    severity: 'warning',
+                    elementId: element.id,
+                    message: `${label} has a ${widthPt.toFixed(2)}pt stroke, which may not print`,
+                });
+            }
+        }
+    });
+
+    if (options.checkColors) {
+        findOutOfGamutColors([page]).forEach((warning) => {
+            const element = page.elements.find(el => el.id === warning.elementId);
+            const subject = element ? `${getElementLabel(element)} ${warning.property}` : 'Page background';
+            addIssue({
+                type: 'rgb-color',
+                severity: 'warning',
+                elementId: warning.elementId,
+                message: `${subject} uses ${warning.color}, which shifts in CMYK print`,
+            });
+        });
+    }
+
+    return issues;
+};
+
+/**
+ * Check every page and collect the issues, errors first
+ */
+export const runPreflight = (pages: Page[], options: Partial<PreflightOptions> = {}): PreflightReport => {
+    const fullOptions: PreflightOptions = { ...DEFAULT_PREFLIGHT_OPTIONS, ...options };
+    const issues = pages.flatMap(page => checkPage(page, fullOptions));
+
+    return {
+        issues: [
+            ...issues.filter(issue => issue.severity === 'error'),
+            ...issues.filter(issue => issue.severity === 'warning'),
+        ],
+        pageCount: pages.length,
+        checkedAt: Date.now(),
+    };
+};
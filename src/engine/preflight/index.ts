@@ -0,0 +1,4 @@
+// Preflight Index
+// Re-export print preflight checks
+
+export { runPreflight, isFontAvailable } from './PreflightChecker';
@@ -0,0 +1,457 @@
+// Snap Engine
+// Smart guides: snaps moved and resized objects to the page, other objects, equal spacing and the grid
+
+import { fabric } from 'fabric';
+import { DEFAULT_GRID_SIZE, SNAP_THRESHOLD, SnapSettings } from '@/types/snapping';
+import { PageGuide } from '@/types/project';
+import { beginOverlay, getDisplayScale } from '../drawing/overlay';
+
+type Axis = 'x' | 'y';
+
+interface Box {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+    centerX: number;
+    centerY: number;
+}
+
+interface SnapTarget {
+    value: number;
+    box: Box;
+}
+
+// Alignment line; on the x axis it is vertical, at x = position
+interface AlignmentGuide {
+    axis: Axis;
+    position: number;
+    start: number;
+    end: number;
+}
+
+// Empty space between two boxes along an axis, drawn at a point across it
+interface SpacingGuide {
+    axis: Axis;
+    start: number;
+    end: number;
+    at: number;
+}
+
+interface AxisSnap {
+    delta: number;
+    spacing: SpacingGuide[];
+}
+
+interface FabricTransform {
+    corner: string;
+    originX: string;
+    originY: string;
+}
+
+const GUIDE_COLOR = '#ff00ff';
+const ALIGN_EPSILON = 0.01;
+
+const AXES = {
+    x: { start: 'left', center: 'centerX', end: 'right', crossStart: 'top', crossEnd: 'bottom' },
+    y: { start: 'top', center: 'centerY', end: 'bottom', crossStart: 'left', crossEnd: 'right' },
+} as const;
+
+const toBox = (left: number, top: number, width: number, height: number): Box => ({
+    left,
+    top,
+    right: left + width,
+    bottom: top + height,
+    centerX: left + width / 2,
+    centerY: top + height / 2,
+});
+
+const getObjectBox = (obj: fabric.Object): Box => {
+    const rect = obj.getBoundingRect(true, true);
+    return toBox(rect.left, rect.top, rect.width, rect.height);
+};
+
+const getSnapValues = (box: Box, axis: Axis): number[] => {
+    const keys = AXES[axis];
+    return [box[keys.start], box[keys.center], box[keys.end]];
+};
+
+/**
+ * Index of the first target at or above a value
+ */
+const lowerBound = (targets: SnapTarget[], value: number): number => {
+    let low = 0;
+    let high = targets.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (targets[mid].value < value) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+};
+
+const nearestTarget = (targets: SnapTarget[], value: number): SnapTarget | null => {
+    const index = lowerBound(targets, value);
+    const above = targets[index];
+    const below = targets[index - 1];
+    if (!above) return below ?? null;
+    if (!below) return above;
+    return value - below.value <= above.value - value ? below : above;
+};
+
+export class SnapEngine {
+    private canvas: fabric.Canvas;
+    private settings: SnapSettings = { snapToObjects: true, snapToGrid: false, gridSize: DEFAULT_GRID_SIZE };
+    // Built when a transform starts so each move is a binary search
+    private targets: Record<Axis, SnapTarget[]> | null = null;
+    private boxes: Box[] = [];
+    private guides: PageGuide[] = [];
+    private alignmentGuides: AlignmentGuide[] = [];
+    private spacingGuides: SpacingGuide[] = [];
+    private hasOverlay = false;
+
+    constructor(canvas: fabric.Canvas) {
+        this.canvas = canvas;
+        this.canvas.on('after:render', this.render);
+    }
+
+    public dispose(): void {
+        this.canvas.off('after:render', this.render);
+    }
+
+    public setSettings(settings: SnapSettings): void {
+        this.settings = settings;
+    }
+
+    public setGuides(guides: PageGuide[]): void {
+        this.guides = guides;
+    }
+
+    /**
+     * Snap an object being dragged
+     */
+    public handleMoving(e: fabric.IEvent<MouseEvent>): void {
+        const target = e.target;
+        this.clearGuides();
+        if (!target || !this.isEnabled(e)) return;
+
+        this.prepareTargets(target);
+        const threshold = this.getThreshold();
+        const box = getObjectBox(target);
+
+        const dx = this.snapAxis('x', box, threshold);
+        const dy = this.snapAxis('y', box, threshold);
+        if (dx.delta || dy.delta) {
+            target.set({ left: (target.left ?? 0) + dx.delta, top: (target.top ?? 0) + dy.delta });
+            target.setCoords();
+        }
+
+        if (this.settings.snapToObjects) {
+            const snapped = getObjectBox(target);
+            this.alignmentGuides = [...this.getAlignmentGuides('x', snapped), ...this.getAlignmentGuides('y', snapped)];
+            this.spacingGuides = [...dx.spacing, ...dy.spacing];
+        }
+    }
+
+    /**
+     * Snap the dragged edges of an unrotated object being resized
+     */
+    public handleScaling(e: fabric.IEvent<MouseEvent>): void {
+        const target = e.target;
+        const transform = (e as fabric.IEvent<MouseEvent> & { transform?: FabricTransform }).transform;
+        this.clearGuides();
+        if (!target || !transform || !this.isEnabled(e) || (target.angle ?? 0) % 360 !== 0) return;
+
+        this.prepareTargets(target);
+        const threshold = this.getThreshold();
+        const box = getObjectBox(target);
+        const { corner } = transform;
+
+        const edgeX = corner.includes('l') ? box.left : corner.includes('r') ? box.right : null;
+        const edgeY = corner.includes('t') ? box.top : corner.includes('b') ? box.bottom : null;
+        const deltaX = edgeX === null ? null : this.snapEdge('x', edgeX, threshold);
+        const deltaY = edgeY === null ? null : this.snapEdge('y', edgeY, threshold);
+
+        const width = box.right - box.left;
+        const height = box.bottom - box.top;
+        let factorX = deltaX === null || width === 0 ? 1 : (width + (corner.includes('l') ? -deltaX : deltaX)) / width;
+        let factorY = deltaY === null || height === 0 ? 1 : (height + (corner.includes('t') ? -deltaY : deltaY)) / height;
+
+        // Corner handles keep the aspect ratio; follow whichever edge is closer to its snap
+        const isCorner = corner.length === 2 && !corner.startsWith('m');
+        const uniScaleKey = (this.canvas.uniScaleKey ?? 'shiftKey') as keyof MouseEvent;
+        if (isCorner && (this.canvas.uniformScaling ?? true) !== !!e.e?.[uniScaleKey]) {
+            const useX = deltaY === null || (deltaX !== null && Math.abs(deltaX) <= Math.abs(deltaY));
+            const factor = useX ? factorX : factorY;
+            factorX = factor;
+            factorY = factor;
+        }
+        if (factorX <= 0 || factorY <= 0 || (factorX === 1 && factorY === 1)) return;
+
+        const anchor = target.translateToOriginPoint(target.getCenterPoint(), transform.originX, transform.originY);
+        target.set({ scaleX: (target.scaleX ?? 1) * factorX, scaleY: (target.scaleY ?? 1) * factorY });
+        target.setPositionByOrigin(anchor, transform.originX, transform.originY);
+        target.setCoords();
+
+        if (this.settings.snapToObjects) {
+            const snapped = getObjectBox(target);
+            this.alignmentGuides = [...this.getAlignmentGuides('x', snapped), ...this.getAlignmentGuides('y', snapped)];
+        }
+    }
+
+    /**
+     * Forget the targets and hide the guides once the pointer is released
+     */
+    public handleTransformEnd(): void {
+        this.targets = null;
+        this.boxes = [];
+        this.clearGuides();
+        if (this.hasOverlay) {
+            this.canvas.clearContext(this.canvas.getSelectionContext());
+            this.hasOverlay = false;
+        }
+    }
+
+    private isEnabled(e: fabric.IEvent<MouseEvent>): boolean {
+        if (!this.settings.snapToObjects && !this.settings.snapToGrid) return false;
+        // Holding Ctrl or Cmd moves freely
+        return !(e.e?.ctrlKey || e.e?.metaKey);
+    }
+
+    private getThreshold(): number {
+        return SNAP_THRESHOLD / (getDisplayScale(this.canvas) * this.canvas.getZoom());
+    }
+
+    private clearGuides(): void {
+        this.alignmentGuides = [];
+        this.spacingGuides = [];
+    }
+
+    /**
+     * Collect the page, ruler guides and every other visible object as snap targets, sorted per axis
+     */
+    private prepareTargets(moving: fabric.Object): void {
+        if (this.targets) return;
+
+        const excluded = new Set<fabric.Object>(
+            moving instanceof fabric.ActiveSelection ? moving.getObjects() : [moving]
+        );
+        this.boxes = this.canvas.getObjects()
+            .filter((obj: fabric.Object & { data?: { id: string } }) => obj.data?.id && obj.visible && !excluded.has(obj))
+            .map(getObjectBox);
+
+        const zoom = this.canvas.getZoom();
+        const page = toBox(0, 0, this.canvas.getWidth() / zoom, this.canvas.getHeight() / zoom);
+
+        this.targets = { x: [], y: [] };
+        (['x', 'y'] as const).forEach(axis => {
+            const targets = this.targets![axis];
+            [page, ...this.boxes].forEach(box => {
+                getSnapValues(box, axis).forEach(value => targets.push({ value, box }));
+            });
+            // Ruler guides run across the whole page
+            this.guides
+                .filter(guide => (guide.orientation === 'vertical') === (axis === 'x'))
+                .forEach(guide => targets.push({
+                    value: guide.position,
+                    box: axis === 'x'
+                        ? toBox(guide.position, page.top, 0, page.bottom - page.top)
+                        : toBox(page.left, guide.position, page.right - page.left, 0),
+                }));
+            targets.sort((a, b) => a.value - b.value);
+        });
+    }
+
+    /**
+     * Offset along one axis that snaps a moving box, preferring alignment over spacing over the grid
+     */
+    private snapAxis(axis: Axis, box: Box, threshold: number): AxisSnap {
+        const candidates: AxisSnap[] = [];
+
+        if (this.settings.snapToObjects && this.targets) {
+            getSnapValues(box, axis).forEach(value => {
+                const target = nearestTarget(this.targets![axis], value);
+                if (target && Math.abs(target.value - value) <= threshold) {
+                    candidates.push({ delta: target.value - value, spacing: [] });
+                }
+            });
+            const spacing = this.snapSpacing(axis, box, threshold);
+            if (spacing) candidates.push(spacing);
+        }
+
+        if (candidates.length > 0) {
+            return candidates.reduce((best, candidate) => (
+                Math.abs(candidate.delta) < Math.abs(best.delta) - ALIGN_EPSILON ? candidate : best
+            ));
+        }
+
+        if (this.settings.snapToGrid && this.settings.gridSize > 0) {
+            const start = box[AXES[axis].start];
+            return { delta: Math.round(start / this.settings.gridSize) * this.settings.gridSize - start, spacing: [] };
+        }
+
+        return { delta: 0, spacing: [] };
+    }
+
+    /**
+     * Offset that snaps a single dragged edge
+     */
+    private snapEdge(axis: Axis, value: number, threshold: number): number | null {
+        if (this.settings.snapToObjects && this.targets) {
+            const target = nearestTarget(this.targets[axis], value);
+            if (target && Math.abs(target.value - value) <= threshold) return target.value - value;
+        }
+        if (this.settings.snapToGrid && this.settings.gridSize > 0) {
+            return Math.round(value / this.settings.gridSize) * this.settings.gridSize - value;
+        }
+        return null;
+    }
+
+    /**
+     * Equal spacing with neighbours in the same row (x) or column (y): centred between the
+     * nearest neighbours, or repeating a gap that already exists between two of them
+     */
+    private snapSpacing(axis: Axis, box: Box, threshold: number): AxisSnap | null {
+        const { start, end, crossStart, crossEnd } = AXES[axis];
+        const size = box[end] - box[start];
+
+        const row = this.boxes
+            .filter(other => other[crossStart] < box[crossEnd] && other[crossEnd] > box[crossStart])
+            .sort((a, b) => a[start] - b[start]);
+        const before = row.filter(other => other[end] <= box[start] + threshold);
+        const after = row.filter(other => other[start] >= box[end] - threshold);
+        if (before.length === 0 && after.length === 0) return null;
+
+        const previous = before.reduce<Box | null>((best, other) => (!best || other[end] > best[end] ? other : best), null);
+        const next = after.reduce<Box | null>((best, other) => (!best || other[start] < best[start] ? other : best), null);
+
+        // Gaps between neighbouring boxes already in the row
+        const gaps: Array<{ first: Box; second: Box; gap: number }> = [];
+        row.forEach((first, i) => {
+            for (let j = i + 1; j < row.length; j++) {
+                const second = row[j];
+                if (second[start] < first[end]) continue;
+                gaps.push({ first, second, gap: second[start] - first[end] });
+                break;
+            }
+        });
+
+        const crossOf = (a: Box, b: Box) => (
+            (Math.max(a[crossStart], b[crossStart]) + Math.min(a[crossEnd], b[crossEnd])) / 2
+        );
+        const toGuide = (from: number, to: number, at: number): SpacingGuide => ({ axis, start: from, end: to, at });
+
+        let best: { delta: number; spacing: (snapped: number) => SpacingGuide[] } | null = null;
+        const consider = (position: number, spacing: (snapped: number) => SpacingGuide[]) => {
+            const delta = position - box[start];
+            if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+                best = { delta, spacing };
+            }
+        };
+
+        if (previous && next) {
+            const gap = (next[start] - previous[end] - size) / 2;
+            if (gap >= 0) {
+                consider(previous[end] + gap, snapped => [
+                    toGuide(previous[end], snapped, crossOf(previous, box)),
+                    toGuide(snapped + size, next[start], crossOf(next, box)),
+                ]);
+            }
+        }
+
+        gaps.forEach(({ first, second, gap }) => {
+            const existing = toGuide(first[end], second[start], crossOf(first, second));
+            if (previous) {
+                consider(previous[end] + gap, snapped => [existing, toGuide(previous[end], snapped, crossOf(previous, box))]);
+            }
+            if (next) {
+                consider(next[start] - gap - size, snapped => [existing, toGuide(snapped + size, next[start], crossOf(next, box))]);
+            }
+        });
+
+        if (!best) return null;
+        const { delta, spacing } = best as { delta: number; spacing: (snapped: number) => SpacingGuide[] };
+        return { delta, spacing: spacing(box[start] + delta) };
+    }
+
+    /**
+     * Lines through every target the snapped box lines up with
+     */
+    private getAlignmentGuides(axis: Axis, box: Box): AlignmentGuide[] {
+        if (!this.targets) return [];
+
+        const { crossStart, crossEnd } = AXES[axis];
+        const targets = this.targets[axis];
+        const guides: AlignmentGuide[] = [];
+
+        getSnapValues(box, axis).forEach(value => {
+            let start = box[crossStart];
+            let end = box[crossEnd];
+            let matched = false;
+
+            for (let i = lowerBound(targets, value - ALIGN_EPSILON); i < targets.length; i++) {
+                const target = targets[i];
+                if (target.value > value + ALIGN_EPSILON) break;
+                start = Math.min(start, target.box[crossStart]);
+                end = Math.max(end, target.box[crossEnd]);
+                matched = true;
+            }
+            if (matched) guides.push({ axis, position: value, start, end });
+        });
+
+        return guides;
+    }
+
+    /**
+     * Draw the guides over the canvas while a transform is in progress
+     */
+    private render = (): void => {
+        if (this.alignmentGuides.length === 0 && this.spacingGuides.length === 0) {
+            if (this.hasOverlay) {
+                this.canvas.clearContext(this.canvas.getSelectionContext());
+                this.hasOverlay = false;
+            }
+            return;
+        }
+
+        const ctx = beginOverlay(this.canvas);
+        const unit = 1 / (getDisplayScale(this.canvas) * this.canvas.getZoom());
+        const tick = 4 * unit;
+
+        ctx.strokeStyle = GUIDE_COLOR;
+        ctx.lineWidth = unit;
+        ctx.beginPath();
+        this.alignmentGuides.forEach(({ axis, position, start, end }) => {
+            if (axis === 'x') {
+                ctx.moveTo(position, start);
+                ctx.lineTo(position, end);
+            } else {
+                ctx.moveTo(start, position);
+                ctx.lineTo(end, position);
+            }
+        });
+
+        // Equal gaps as measurement lines with end ticks
+        this.spacingGuides.forEach(({ axis, start, end, at }) => {
+            if (axis === 'x') {
+                ctx.moveTo(start, at);
+                ctx.lineTo(end, at);
+                ctx.moveTo(start, at - tick);
+                ctx.lineTo(start, at + tick);
+                ctx.moveTo(end, at - tick);
+                ctx.lineTo(end, at + tick);
+            } else {
+                ctx.moveTo(at, start);
+                ctx.lineTo(at, end);
+                ctx.moveTo(at - tick, start);
+                ctx.lineTo(at + tick, start);
+                ctx.moveTo(at - tick, end);
+                ctx.lineTo(at + tick, end);
+            }
+        });
+        ctx.stroke();
+        ctx.restore();
+
+        this.hasOverlay = true;
+    };
+}
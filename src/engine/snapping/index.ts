@@ -0,0 +1,4 @@
+// Snapping Index
+// Re-export the smart guides snap engine
+
+export { SnapEngine } from './SnapEngine';
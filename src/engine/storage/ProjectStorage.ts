@@ -0,0 +1,493 @@
+// Project Storage
+// IndexedDB persistence for projects, page thumbnails and binary assets
+
+import { Project } from '@/types/project';
+import { ProjectSummary, RecoverySession } from '@/types/storage';
+import { SerializedProject, deserializeProject, restoreSerializedProject, toSerializedProject } from '@/utils/serialization';
+
+const DB_NAME = 'wildmind_designer';
+const DB_VERSION = 1;
+
+const PROJECTS_STORE = 'projects';
+const SUMMARIES_STORE = 'summaries';
+const THUMBNAILS_STORE = 'thumbnails';
+const ASSETS_STORE = 'assets';
+const SESSION_STORE = 'session';
+
+const SESSION_KEY = 'current';
+const ASSET_REF_PREFIX = 'idb-asset:';
+
+// Data URLs shorter than this stay inline in the project record
+const MIN_ASSET_LENGTH = 1024;
+
+// Prefix used by the old localStorage persistence
+const LEGACY_STORAGE_PREFIX = 'wildmind_designer_';
+
+interface StoredProject extends SerializedProject {
+    id: string;
+    assetIds: string[];
+}
+
+interface StoredSession {
+    project: Project;
+    assetIds: string[];
+    savedAt: number;
+}
+
+interface StoredAsset {
+    id: string;
+    blob: Blob;
+}
+
+/**
+ * Resolve when an IndexedDB request succeeds
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Resolve when a transaction commits
+ */
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+    });
+};
+
+/**
+ * Copy a JSON value, replacing strings along the way
+ */
+const mapStrings = (value: unknown, fn: (value: string) => string): unknown => {
+    if (typeof value === 'string') return fn(value);
+    if (Array.isArray(value)) return value.map(item => mapStrings(item, fn));
+    if (value && typeof value === 'object') {
+        const result: Record<string, unknown> = {};
+        Object.entries(value).forEach(([key, item]) => {
+            result[key] = mapStrings(item, fn);
+        });
+        return result;
+    }
+    return value;
+};
+
+/**
+ * Collect the distinct strings in a JSON value that match a predicate
+ */
+const collectStrings = (value: unknown, predicate: (value: string) => boolean, found = new Set<string>()): Set<string> => {
+    if (typeof value === 'string') {
+        if (predicate(value)) found.add(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectStrings(item, predicate, found));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(item => collectStrings(item, predicate, found));
+    }
+    return found;
+};
+
+const isInlineAsset = (value: string) => value.startsWith('data:') && value.length >= MIN_ASSET_LENGTH;
+const isAssetRef = (value: string) => value.startsWith(ASSET_REF_PREFIX);
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    const response = await fetch(dataUrl);
+    return response.blob();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/**
+ * Content hash, so the same upload is stored once across projects
+ */
+const hashBlob = async (blob: Blob): Promise<string> => {
+    if (!crypto.subtle) return crypto.randomUUID();
+
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const thumbnailKey = (projectId: string, pageId: string) => `${projectId}/${pageId}`;
+
+/**
+ * Range covering every thumbnail key of a project
+ */
+const thumbnailRange = (projectId: string) => IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+
+export class ProjectStorage {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private assetIdsByUrl: Map<string, string> = new Map();
+    private assetUrlsById: Map<string, string> = new Map();
+    private storedAssetIds: Set<string> = new Set();
+
+    /**
+     * Whether IndexedDB is available (false during SSR and in some private modes)
+     */
+    public isSupported(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    /**
+     * Save a project. Thumbnails are data URLs keyed by page ID and replace any stored ones.
+     */
+    public async saveProject(project: Project, thumbnails: Record<string, string> = {}): Promise<ProjectSummary> {
+        return this.writeProject(await this.open(), project, thumbnails);
+    }
+
+    /**
+     * Load a saved project with its assets and thumbnails restored inline
+     */
+    public async loadProject(projectId: string): Promise<Project | null> {
+        const db = await this.open();
+        const tx = db.transaction([PROJECTS_STORE, THUMBNAILS_STORE], 'readonly');
+        const recordRequest = requestToPromise<StoredProject | undefined>(tx.objectStore(PROJECTS_STORE).get(projectId));
+        const thumbnailStore = tx.objectStore(THUMBNAILS_STORE);
+        const keysRequest = requestToPromise(thumbnailStore.getAllKeys(thumbnailRange(projectId)));
+        const blobsRequest = requestToPromise<Blob[]>(thumbnailStore.getAll(thumbnailRange(projectId)));
+
+        const [record, keys, blobs] = await Promise.all([recordRequest, keysRequest, blobsRequest]);
+        if (!record) return null;
+
+        const project = restoreSerializedProject(record);
+        if (!project) return null;
+
+        const restored = await this.restoreAssets(project) as Project;
+        const thumbnails = new Map<string, string>();
+        await Promise.all(keys.map(async (key, index) => {
+            thumbnails.set(String(key).slice(projectId.length + 1), await blobToDataUrl(blobs[index]));
+        }));
+
+        return {
+            ...restored,
+            pages: restored.pages.map(page => (
+                thumbnails.has(page.id) ? { ...page, thumbnail: thumbnails.get(page.id) } : page
+            )),
+        };
+    }
+
+    /**
+     * Delete a project, its thumbnails and any assets no other project uses
+     */
+    public async deleteProject(projectId: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE, THUMBNAILS_STORE], 'readwrite');
+        tx.objectStore(PROJECTS_STORE).delete(projectId);
+        tx.objectStore(SUMMARIES_STORE).delete(projectId);
+        tx.objectStore(THUMBNAILS_STORE).delete(thumbnailRange(projectId));
+        await transactionDone(tx);
+
+        await this.collectGarbage();
+    }
+
+    /**
+     * Saved projects, most recently saved first
+     */
+    public async listRecentProjects(limit = 20): Promise<ProjectSummary[]> {
+        const db = await this.open();
+        const tx = db.transaction(SUMMARIES_STORE, 'readonly');
+        const index = tx.objectStore(SUMMARIES_STORE).index('savedAt');
+
+        const summaries: ProjectSummary[] = [];
+        await new Promise<void>((resolve, reject) => {
+            const request = index.openCursor(null, 'prev');
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor || summaries.length >= limit) {
+                    resolve();
+                    return;
+                }
+                summaries.push(cursor.value as ProjectSummary);
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+
+        return summaries;
+    }
+
+    /**
+     * Stored thumbnail of a page, if any
+     */
+    public async getThumbnail(projectId: string, pageId: string): Promise<Blob | null> {
+        const db = await this.open();
+        const tx = db.transaction(THUMBNAILS_STORE, 'readonly');
+        const blob = await requestToPromise<Blob | undefined>(tx.objectStore(THUMBNAILS_STORE).get(thumbnailKey(projectId, pageId)));
+        return blob ?? null;
+    }
+
+    /**
+     * Snapshot the working project so it can be recovered after a crash
+     */
+    public async saveRecoverySession(project: Project): Promise<void> {
+        const db = await this.open();
+        const { value, assetIds, newAssets } = await this.extractAssets(project);
+        const session: StoredSession = { project: value as Project, assetIds, savedAt: Date.now() };
+
+        const tx = db.transaction([SESSION_STORE, ASSETS_STORE], 'readwrite');
+        newAssets.forEach(asset => tx.objectStore(ASSETS_STORE).put(asset));
+        tx.objectStore(SESSION_STORE).put(session, SESSION_KEY);
+        await transactionDone(tx);
+
+        newAssets.forEach(asset => this.storedAssetIds.add(asset.id));
+    }
+
+    /**
+     * The last snapshot that was never saved, if any
+     */
+    public async getRecoverySession(): Promise<RecoverySession | null> {
+        const db = await this.open();
+        const tx = db.transaction(SESSION_STORE, 'readonly');
+        const session = await requestToPromise<StoredSession | undefined>(tx.objectStore(SESSION_STORE).get(SESSION_KEY));
+        if (!session) return null;
+
+        return {
+            project: await this.restoreAssets(session.project) as Project,
+            savedAt: session.savedAt,
+        };
+    }
+
+    /**
+     * Forget the recovery snapshot
+     */
+    public async clearRecoverySession(): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(SESSION_STORE, 'readwrite');
+        tx.objectStore(SESSION_STORE).delete(SESSION_KEY);
+        await transactionDone(tx);
+    }
+
+    /**
+     * Open the database, creating stores and importing old localStorage projects on first use
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+                if (!this.isSupported()) {
+                    reject(new Error('IndexedDB is not available'));
+                    return;
+                }
+
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                    db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' }).createIndex('savedAt', 'savedAt');
+                    db.createObjectStore(THUMBNAILS_STORE);
+                    db.createObjectStore(ASSETS_STORE, { keyPath: 'id' });
+                    db.createObjectStore(SESSION_STORE);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            }).then(async (db) => {
+                await this.migrateLegacyProjects(db);
+                return db;
+            });
+
+            // Allow a retry after a failed open
+            this.dbPromise.catch(() => {
+                this.dbPromise = null;
+            });
+        }
+        return this.dbPromise;
+    }
+
+    /**
+     * Write a project record with its summary, thumbnails and new assets
+     */
+    private async writeProject(db: IDBDatabase, project: Project, thumbnails: Record<string, string>): Promise<ProjectSummary> {
+        const savedAt = Date.now();
+
+        // Thumbnails live in their own store
+        const pageThumbnails: Record<string, string> = {};
+        project.pages.forEach((page) => {
+            const thumbnail = thumbnails[page.id] ?? page.thumbnail;
+            if (thumbnail) pageThumbnails[page.id] = thumbnail;
+        });
+        const strippedProject: Project = {
+            ...project,
+            pages: project.pages.map((page) => {
+                const stripped = { ...page };
+                delete stripped.thumbnail;
+                return stripped;
+            }),
+        };
+
+        const { value, assetIds, newAssets } = await this.extractAssets(strippedProject);
+        const thumbnailBlobs = await Promise.all(
+            Object.entries(pageThumbnails).map(async ([pageId, dataUrl]) => [pageId, await dataUrlToBlob(dataUrl)] as const)
+        );
+
+        const summary: ProjectSummary = {
+            id: project.id,
+            name: project.name,
+            pageCount: project.pages.length,
+            coverPageId: project.pages[0]?.id ?? null,
+            savedAt,
+        };
+        const record: StoredProject = {
+            ...toSerializedProject(value as Project),
+            id: project.id,
+            assetIds,
+            savedAt,
+        };
+
+        const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE, THUMBNAILS_STORE, ASSETS_STORE], 'readwrite');
+        newAssets.forEach(asset => tx.objectStore(ASSETS_STORE).put(asset));
+        tx.objectStore(PROJECTS_STORE).put(record);
+        tx.objectStore(SUMMARIES_STORE).put(summary);
+
+        // Drop thumbnails of removed pages; pages without a new one keep theirs
+        const thumbnailStore = tx.objectStore(THUMBNAILS_STORE);
+        const pageIds = new Set(project.pages.map(page => page.id));
+        const keysRequest = thumbnailStore.getAllKeys(thumbnailRange(project.id));
+        keysRequest.onsuccess = () => {
+            keysRequest.result.forEach((key) => {
+                if (!pageIds.has(String(key).slice(project.id.length + 1))) thumbnailStore.delete(key);
+            });
+        };
+        thumbnailBlobs.forEach(([pageId, blob]) => thumbnailStore.put(blob, thumbnailKey(project.id, pageId)));
+
+        await transactionDone(tx);
+        newAssets.forEach(asset => this.storedAssetIds.add(asset.id));
+
+        return summary;
+    }
+
+    /**
+     * Replace large data URLs with asset references, returning the assets not yet stored
+     */
+    private async extractAssets(value: unknown): Promise<{ value: unknown; assetIds: string[]; newAssets: StoredAsset[] }> {
+        const newAssets: StoredAsset[] = [];
+
+        await Promise.all(Array.from(collectStrings(value, isInlineAsset)).map(async (dataUrl) => {
+            let id = this.assetIdsByUrl.get(dataUrl);
+            if (id && this.storedAssetIds.has(id)) return;
+
+            const blob = await dataUrlToBlob(dataUrl);
+            id = id ?? await hashBlob(blob);
+            this.assetIdsByUrl.set(dataUrl, id);
+            this.assetUrlsById.set(id, dataUrl);
+            if (!this.storedAssetIds.has(id)) newAssets.push({ id, blob });
+        }));
+
+        const assetIds = new Set<string>();
+        const replaced = mapStrings(value, (item) => {
+            const id = isInlineAsset(item) ? this.assetIdsByUrl.get(item) : undefined;
+            if (!id) return item;
+            assetIds.add(id);
+            return `${ASSET_REF_PREFIX}${id}`;
+        });
+
+        return { value: replaced, assetIds: Array.from(assetIds), newAssets };
+    }
+
+    /**
+     * Swap asset references back to data URLs
+     */
+    private async restoreAssets(value: unknown): Promise<unknown> {
+        const ids = Array.from(collectStrings(value, isAssetRef), ref => ref.slice(ASSET_REF_PREFIX.length));
+        const missing = ids.filter(id => !this.assetUrlsById.has(id));
+
+        if (missing.length > 0) {
+            const db = await this.open();
+            const tx = db.transaction(ASSETS_STORE, 'readonly');
+            const store = tx.objectStore(ASSETS_STORE);
+            const assets = await Promise.all(missing.map(id => requestToPromise<StoredAsset | undefined>(store.get(id))));
+
+            await Promise.all(assets.map(async (asset) => {
+                if (!asset) return;
+                const dataUrl = await blobToDataUrl(asset.blob);
+                this.assetUrlsById.set(asset.id, dataUrl);
+                this.assetIdsByUrl.set(dataUrl, asset.id);
+                this.storedAssetIds.add(asset.id);
+            }));
+        }
+
+        return mapStrings(value, (item) => {
+            if (!isAssetRef(item)) return item;
+            // A missing asset leaves an empty source rather than a broken reference
+            return this.assetUrlsById.get(item.slice(ASSET_REF_PREFIX.length)) ?? '';
+        });
+    }
+
+    /**
+     * Delete assets that no saved project or recovery session references
+     */
+    private async collectGarbage(): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([PROJECTS_STORE, SESSION_STORE, ASSETS_STORE], 'readwrite');
+        const [projects, session, assetKeys] = await Promise.all([
+            requestToPromise<StoredProject[]>(tx.objectStore(PROJECTS_STORE).getAll()),
+            requestToPromise<StoredSession | undefined>(tx.objectStore(SESSION_STORE).get(SESSION_KEY)),
+            requestToPromise(tx.objectStore(ASSETS_STORE).getAllKeys()),
+        ]);
+
+        const used = new Set<string>([
+            ...projects.flatMap(project => project.assetIds),
+            ...(session?.assetIds ?? []),
+        ]);
+        assetKeys.forEach((key) => {
+            const id = String(key);
+            if (used.has(id)) return;
+
+            tx.objectStore(ASSETS_STORE).delete(key);
+            this.storedAssetIds.delete(id);
+            const dataUrl = this.assetUrlsById.get(id);
+            if (dataUrl) this.assetIdsByUrl.delete(dataUrl);
+            this.assetUrlsById.delete(id);
+        });
+
+        await transactionDone(tx);
+    }
+
+    /**
+     * Move projects saved by the old localStorage persistence into IndexedDB
+     */
+    private async migrateLegacyProjects(db: IDBDatabase): Promise<void> {
+        if (typeof localStorage === 'undefined') return;
+
+        const listKey = `${LEGACY_STORAGE_PREFIX}project_list`;
+        const listJson = localStorage.getItem(listKey);
+        if (!listJson) return;
+
+        let entries: Array<{ id: string }> = [];
+        try {
+            entries = JSON.parse(listJson);
+        } catch (error) {
+            console.warn('Discarding unreadable legacy project list:', error);
+        }
+
+        try {
+            for (const entry of entries) {
+                const key = `${LEGACY_STORAGE_PREFIX}project_${entry.id}`;
+                const json = localStorage.getItem(key);
+                const project = json ? deserializeProject(json) : null;
+                if (project) await this.writeProject(db, project, {});
+                localStorage.removeItem(key);
+            }
+            localStorage.removeItem(listKey);
+        } catch (error) {
+            console.error('Failed to migrate legacy projects:', error);
+        }
+    }
+}
+
+// Singleton instance
+let projectStorageInstance: ProjectStorage | null = null;
+
+export const getProjectStorage = (): ProjectStorage => {
+    if (!projectStorageInstance) {
+        projectStorageInstance = new ProjectStorage();
+    }
+    return projectStorageInstance;
+};
@@ -0,0 +1,67 @@
+// Autosave
+// Debounced project saves and recovery snapshots driven by unsaved changes
+
+import { useEditorStore } from '@/store/editorStore';
+import { AutosaveOptions, DEFAULT_AUTOSAVE_OPTIONS } from '@/types/storage';
+import { getProjectStorage } from './ProjectStorage';
+
+/**
+ * Save the project after edits settle and snapshot it for crash recovery in between.
+ * Returns a function that stops autosaving.
+ */
+export const startAutosave = (options: Partial<AutosaveOptions> = {}): (() => void) => {
+    const { delay, recoveryDelay } = { ...DEFAULT_AUTOSAVE_OPTIONS, ...options };
+    const storage = getProjectStorage();
+    if (!storage.isSupported()) return () => {};
+
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+    let recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const snapshot = () => {
+        recoveryTimer = null;
+        const { project, hasUnsavedChanges } = useEditorStore.getState();
+        if (!project || !hasUnsavedChanges) return;
+
+        storage.saveRecoverySession(project).catch((error) => {
+            console.error('Failed to write recovery snapshot:', error);
+        });
+    };
+
+    const save = () => {
+        saveTimer = null;
+        const { hasUnsavedChanges, isSaving, saveProject } = useEditorStore.getState();
+        if (!hasUnsavedChanges) return;
+
+        // Try again once the current save finishes
+        if (isSaving) {
+            saveTimer = setTimeout(save, delay);
+            return;
+        }
+        saveProject();
+    };
+
+    const unsubscribe = useEditorStore.subscribe((state, previous) => {
+        if (!state.project || !state.hasUnsavedChanges || state.project === previous.project) return;
+
+        if (recoveryTimer) clearTimeout(recoveryTimer);
+        recoveryTimer = setTimeout(snapshot, recoveryDelay);
+
+        if (saveTimer) clearTimeout(saveTimer);
+        saveTimer = setTimeout(save, delay);
+    });
+
+    // Snapshot right away when the tab is hidden or closed
+    const handleHidden = () => {
+        if (document.visibilityState !== 'hidden') return;
+        if (recoveryTimer) clearTimeout(recoveryTimer);
+        snapshot();
+    };
+    document.addEventListener('visibilitychange', handleHidden);
+
+    return () => {
+        unsubscribe();
+        document.removeEventListener('visibilitychange', handleHidden);
+        if (saveTimer) clearTimeout(saveTimer);
+        if (recoveryTimer) clearTimeout(recoveryTimer);
+    };
+};
@@ -0,0 +1,5 @@
+// Storage Index
+// Re-export project persistence
+
+export { ProjectStorage, getProjectStorage } from './ProjectStorage';
+export { startAutosave } from './autosave';
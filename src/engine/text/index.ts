@@ -0,0 +1,29 @@
+// Text Index
+// Re-export rich text, list and text path helpers
+
+export {
+    TEXT_RUN_STYLE_KEYS,
+    clearRunStyle,
+    fabricStylesToRuns,
+    getTextLines,
+    resolveRunStyle,
+    runsToFabricStyles,
+    sliceTextSegments,
+} from './richText';
+export type { FabricTextStyles, TextSegment } from './richText';
+export {
+    LIST_MARKER_GAP,
+    MAX_LIST_LEVEL,
+    formatListNumber,
+    getListIndent,
+    getListLevels,
+    getListMarkers,
+    getListNumbers,
+    reconcileListLevels,
+} from './lists';
+export {
+    getCurveCommands,
+    getDefaultTextPathPosition,
+    isTextPathTarget,
+    toTextPathCommands,
+} from './textPath';
@@ -0,0 +1,116 @@
+// Text Lists
+// Bullet and number markers, nesting levels and indents for list formatted text
+
+import { TextList } from '@/types/canvas';
+
+export const MAX_LIST_LEVEL = 8;
+
+// Space between a marker and its paragraph, in ems
+export const LIST_MARKER_GAP = 0.4;
+
+/**
+ * 1 -> a, 26 -> z, 27 -> aa
+ */
+const toLetters = (value: number): string => {
+    let letters = '';
+    for (let n = value; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(97 + ((n - 1) % 26)) + letters;
+    }
+    return letters;
+};
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+];
+
+const toRoman = (value: number): string => {
+    let remaining = value;
+    return ROMAN_NUMERALS.reduce((roman, [amount, numeral]) => {
+        const count = Math.floor(remaining / amount);
+        remaining -= count * amount;
+        return roman + numeral.repeat(count);
+    }, '');
+};
+
+/**
+ * Number marker for a nesting level: 1. then a. then i., repeating
+ */
+export const formatListNumber = (value: number, level: number): string => {
+    switch (level % 3) {
+        case 1:
+            return `${toLetters(value)}.`;
+        case 2:
+            return `${toRoman(value)}.`;
+        default:
+            return `${value}.`;
+    }
+};
+
+/**
+ * Nesting level of each paragraph; paragraphs without one are top level
+ */
+export const getListLevels = (list: TextList, paragraphCount: number): number[] =>
+    Array.from({ length: paragraphCount }, (_, i) => Math.min(MAX_LIST_LEVEL, Math.max(0, list.levels[i] ?? 0)));
+
+/**
+ * Item number of each paragraph; numbers count on within a level and restart under each shallower item
+ */
+export const getListNumbers = (list: TextList, paragraphCount: number): number[] => {
+    let counters: number[] = [];
+    return getListLevels(list, paragraphCount).map(level => {
+        counters = counters.slice(0, level + 1);
+        counters[level] = (counters[level] ?? 0) + 1;
+        return counters[level];
+    });
+};
+
+/**
+ * Bullet or number marker for each paragraph
+ */
+export const getListMarkers = (list: TextList, paragraphCount: number): string[] => {
+    const levels = getListLevels(list, paragraphCount);
+    if (list.type === 'numbered') {
+        return getListNumbers(list, paragraphCount).map((value, i) => formatListNumber(value, levels[i]));
+    }
+    return levels.map(level => (list.bullets.length > 0 ? list.bullets[level % list.bullets.length] : '•'));
+};
+
+/**
+ * Distance from the text box's left edge to a paragraph's text; its marker hangs in this space
+ */
+export const getListIndent = (list: TextList, level: number, fontSize: number): number =>
+    (level + 1) * list.indent * fontSize;
+
+/**
+ * Carry paragraph levels over an edit: untouched paragraphs keep theirs, and new ones take
+ * the level of the paragraph they were split from
+ */
+export const reconcileListLevels = (previous: string, next: string, levels: number[]): number[] => {
+    const previousLines = previous.split('\n');
+    const nextLines = next.split('\n');
+    const shortest = Math.min(previousLines.length, nextLines.length);
+
+    let prefix = 0;
+    while (prefix < shortest && previousLines[prefix] === nextLines[prefix]) prefix++;
+
+    let suffix = 0;
+    while (
+        suffix < shortest - prefix &&
+        previousLines[previousLines.length - 1 - suffix] === nextLines[nextLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const levelAt = (i: number) => levels[i] ?? 0;
+    const replaced = Array.from({ length: previousLines.length - prefix - suffix }, (_, i) => levelAt(prefix + i));
+    const inserted = Array.from({ length: nextLines.length - prefix - suffix }, (_, i) =>
+        replaced[i] ?? replaced[replaced.length - 1] ?? (prefix > 0 ? levelAt(prefix - 1) : 0)
+    );
+
+    return [
+        ...Array.from({ length: prefix }, (_, i) => levelAt(i)),
+        ...inserted,
+        ...Array.from({ length: suffix }, (_, i) => levelAt(previousLines.length - suffix + i)),
+    ];
+};
@@ -0,0 +1,196 @@
+// Rich Text
+// Converts styled text runs to and from Fabric's per-character styles, and splits text for export
+
+import { fabric } from 'fabric';
+import { TextRun, TextRunStyle, TextStyle } from '@/types/canvas';
+
+// Fabric's styles: line index -> character index -> style
+export type FabricTextStyles = Record<number, Record<number, TextRunStyle>>;
+
+export interface TextSegment {
+    text: string;
+    style: TextRunStyle;
+}
+
+// Run style keys share their names with Fabric's character style properties
+export const TEXT_RUN_STYLE_KEYS: Array<keyof TextRunStyle> = [
+    'fontFamily',
+    'fontSize',
+    'fontWeight',
+    'fontStyle',
+    'fill',
+    'underline',
+];
+
+const splitCharacters = (text: string): string[] => fabric.util.string.graphemeSplit(text);
+
+/**
+ * Keep only run style properties that are set
+ */
+const pickRunStyle = (style: Record<string, unknown> | undefined): TextRunStyle => {
+    const picked: Record<string, unknown> = {};
+    if (!style) return picked;
+    TEXT_RUN_STYLE_KEYS.forEach(key => {
+        if (style[key] !== undefined && style[key] !== null) picked[key] = style[key];
+    });
+    return picked as TextRunStyle;
+};
+
+const isSameStyle = (a: TextRunStyle, b: TextRunStyle): boolean =>
+    TEXT_RUN_STYLE_KEYS.every(key => a[key] === b[key]);
+
+const isEmptyStyle = (style: TextRunStyle): boolean =>
+    TEXT_RUN_STYLE_KEYS.every(key => style[key] === undefined);
+
+/**
+ * Style for each character of the content
+ */
+const getCharacterStyles = (length: number, runs: TextRun[] | undefined): TextRunStyle[] => {
+    const styles: TextRunStyle[] = Array.from({ length }, () => ({}));
+    runs?.forEach(run => {
+        for (let i = Math.max(0, run.start); i < Math.min(length, run.end); i++) {
+            styles[i] = { ...styles[i], ...run.style };
+        }
+    });
+    return styles;
+};
+
+/**
+ * Merge per-character styles into runs; unstyled characters are left out
+ */
+const toRuns = (styles: TextRunStyle[]): TextRun[] => {
+    const runs: TextRun[] = [];
+    styles.forEach((style, i) => {
+        if (isEmptyStyle(style)) return;
+        const last = runs[runs.length - 1];
+        if (last && last.end === i && isSameStyle(last.style, style)) {
+            last.end = i + 1;
+        } else {
+            runs.push({ start: i, end: i + 1, style });
+        }
+    });
+    return runs;
+};
+
+/**
+ * Fabric styles for content with runs
+ */
+export const runsToFabricStyles = (content: string, runs: TextRun[] | undefined): FabricTextStyles => {
+    const styles: FabricTextStyles = {};
+    if (!runs?.length) return styles;
+
+    const characterStyles = getCharacterStyles(splitCharacters(content).length, runs);
+    let offset = 0;
+    content.split('\n').forEach((line, lineIndex) => {
+        const length = splitCharacters(line).length;
+        for (let i = 0; i < length; i++) {
+            const style = characterStyles[offset + i];
+            if (isEmptyStyle(style)) continue;
+            styles[lineIndex] = styles[lineIndex] ?? {};
+            styles[lineIndex][i] = { ...style };
+        }
+        offset += length + 1;
+    });
+    return styles;
+};
+
+/**
+ * Runs from a Fabric text object's content and styles
+ */
+export const fabricStylesToRuns = (content: string, styles: fabric.IText['styles'] | undefined): TextRun[] => {
+    const lineStyles = (styles ?? {}) as Record<number, Record<number, Record<string, unknown>>>;
+    const characterStyles: TextRunStyle[] = [];
+
+    content.split('\n').forEach((line, lineIndex) => {
+        const length = splitCharacters(line).length;
+        for (let i = 0; i < length; i++) {
+            characterStyles.push(pickRunStyle(lineStyles[lineIndex]?.[i]));
+        }
+        // The newline itself is unstyled
+        characterStyles.push({});
+    });
+    characterStyles.pop();
+
+    return toRuns(characterStyles);
+};
+
+/**
+ * Remove properties from every run, for when they are set on the whole text
+ */
+export const clearRunStyle = (runs: TextRun[] | undefined, keys: Array<keyof TextRunStyle>): TextRun[] => {
+    if (!runs?.length) return [];
+    const end = Math.max(...runs.map(run => run.end));
+    const styles = getCharacterStyles(end, runs).map(style => {
+        const cleared = { ...style };
+        keys.forEach(key => delete cleared[key]);
+        return cleared;
+    });
+    return toRuns(styles);
+};
+
+/**
+ * Content split into lines of consistently styled segments; the text transform is applied
+ * to the whole content so it still sees word boundaries
+ */
+export const getTextLines = (
+    content: string,
+    runs: TextRun[] | undefined,
+    transform: (text: string) => string = text => text
+): TextSegment[][] => {
+    const original = splitCharacters(content);
+    const transformed = splitCharacters(transform(content));
+    const characterStyles = getCharacterStyles(original.length, runs);
+
+    // Transforms that change the character count (e.g. ß to SS) fall back to per-character
+    const characters = transformed.length === original.length
+        ? transformed
+        : original.map(char => transform(char));
+
+    const lines: TextSegment[][] = [[]];
+    characters.forEach((char, i) => {
+        if (original[i] === '\n') {
+            lines.push([]);
+            return;
+        }
+        const line = lines[lines.length - 1];
+        const last = line[line.length - 1];
+        if (last && isSameStyle(last.style, characterStyles[i])) {
+            last.text += char;
+        } else {
+            line.push({ text: char, style: characterStyles[i] });
+        }
+    });
+    return lines;
+};
+
+/**
+ * The segments covering characters start to end of a line
+ */
+export const sliceTextSegments = (segments: TextSegment[], start: number, end: number): TextSegment[] => {
+    const sliced: TextSegment[] = [];
+    let offset = 0;
+    segments.forEach(segment => {
+        const characters = splitCharacters(segment.text);
+        const from = Math.max(start, offset);
+        const to = Math.min(end, offset + characters.length);
+        if (to > from) {
+            sliced.push({ text: characters.slice(from - offset, to - offset).join(''), style: segment.style });
+        }
+        offset += characters.length;
+    });
+    return sliced;
+};
+
+/**
+ * Text style with a run's overrides applied
+ */
+export const resolveRunStyle = (textStyle: TextStyle, style: TextRunStyle): TextStyle => ({
+    ...textStyle,
+    fontFamily: style.fontFamily ?? textStyle.fontFamily,
+    fontSize: style.fontSize ?? textStyle.fontSize,
+    fontWeight: style.fontWeight ?? textStyle.fontWeight,
+    fontStyle: style.fontStyle ?? textStyle.fontStyle,
+    textDecoration: style.underline === undefined
+        ? textStyle.textDecoration
+        : style.underline ? 'underline' : textStyle.textDecoration === 'underline' ? 'none' : textStyle.textDecoration,
+});
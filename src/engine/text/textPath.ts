@@ -0,0 +1,65 @@
+// Text Path
+// Arcs for curved text, and element outlines that text can be bound to
+
+import { CanvasElement } from '@/types/canvas';
+import { PathCommand, translatePathCommands } from '@/utils/pathData';
+
+// A full turn at the strongest curve
+const MAX_CURVE_SWEEP = 2 * Math.PI;
+
+/**
+ * Whether text can be bound to an element's outline
+ */
+export const isTextPathTarget = (element: CanvasElement): boolean =>
+    (element.type === 'shape' && element.shapeType === 'circle') || element.type === 'path';
+
+/**
+ * Where text first sits along a new target: the top of a circle, the middle of a path
+ */
+export const getDefaultTextPathPosition = (element: CanvasElement): number =>
+    element.type === 'shape' ? 75 : 50;
+
+/**
+ * Arc exactly as long as the text, centered on the top of its circle when the curve is
+ * positive and on the bottom when negative
+ */
+export const getCurveCommands = (textWidth: number, curve: number): PathCommand[] => {
+    const sweep = (Math.min(100, Math.abs(curve)) / 100) * MAX_CURVE_SWEEP;
+    if (textWidth <= 0 || sweep === 0) return [];
+
+    const radius = textWidth / sweep;
+    // Both arcs run left to right, so the text reads the right way up
+    const delta = curve > 0 ? sweep : -sweep;
+    const start = curve > 0 ? -Math.PI / 2 - sweep / 2 : Math.PI / 2 + sweep / 2;
+
+    const segmentCount = Math.ceil(sweep / (Math.PI / 2));
+    const step = delta / segmentCount;
+    const k = (4 / 3) * Math.tan(step / 4);
+
+    const commands: PathCommand[] = [
+        { type: 'M', values: [radius * Math.cos(start), radius * Math.sin(start)] },
+    ];
+    for (let i = 0; i < segmentCount; i++) {
+        const a = start + i * step;
+        const b = a + step;
+        commands.push({
+            type: 'C',
+            values: [
+                radius * (Math.cos(a) - k * Math.sin(a)), radius * (Math.sin(a) + k * Math.cos(a)),
+                radius * (Math.cos(b) + k * Math.sin(b)), radius * (Math.sin(b) - k * Math.cos(b)),
+                radius * Math.cos(b), radius * Math.sin(b),
+            ],
+        });
+    }
+    return commands;
+};
+
+/**
+ * First subpath of an outline, moved to start at the origin as Fabric's text on a path expects
+ */
+export const toTextPathCommands = (commands: PathCommand[]): PathCommand[] => {
+    const nextMove = commands.findIndex((command, i) => i > 0 && command.type === 'M');
+    const subpath = nextMove === -1 ? commands : commands.slice(0, nextMove);
+    const start = subpath[0]?.values;
+    return start ? translatePathCommands(subpath, -start[0], -start[1]) : [];
+};
@@ -9,6 +9,8 @@ import {
     TextElement,
     ImageElement,
     ShapeElement,
+    PathElement,
+    PathPoint,
     createDefaultTransform,
     createDefaultStyle,
     createDefaultTextStyle,
@@ -16,10 +18,43 @@ import {
     Transform,
     Style,
     CropData,
+    TextContent,
+    TextList,
+    TextPath,
+    TextRunStyle,
+    TextSizing,
+    createDefaultTextList,
 } from '@/types/canvas';
+import {
+    AnimationConfig,
+    AnimationSlot,
+    ElementAnimation,
+    TimelineTrack,
+    createElementAnimation,
+    hasElementAnimation,
+} from '@/types/animation';
+import {
+    BOOLEAN_OPERATION_LABELS,
+    BRUSH_PRESETS,
+    BooleanOperation,
+    DEFAULT_PEN_STYLE,
+    DrawingSettings,
+    PathContour,
+} from '@/types/drawing';
+import { createFreehandPath, isPathHitByTrail } from '@/engine/drawing/freehand';
+import { combineOutlines, isBooleanOperand } from '@/engine/drawing/booleanPath';
+import { LayoutBox, LayoutOffset, getAlignOffsets, getDistributeOffsets, getUnionBox } from '@/engine/layout/alignment';
+import { AlignReference, Alignment, DistributeAxis } from '@/types/layout';
+import { clearRunStyle } from '@/engine/text/richText';
+import { getDefaultTextPathPosition, isTextPathTarget } from '@/engine/text/textPath';
+import { serializePathData } from '@/utils/pathData';
+import { contoursToCommands, placeNewPath } from '@/engine/drawing/vectorPath';
+import { getFilterSource, hasFilterStack, renderFilterStack } from '@/engine/filters/filterStack';
+import { loadImage } from '@/engine/export/exportUtils';
 import { useEditorStore } from './editorStore';
 import { useHistoryStore } from './historyStore';
 import { getFabricCanvas } from '@/engine/fabric/FabricCanvas';
+import { PathCommand } from '@/utils/pathData';
 
 interface CropBounds {
     x: number;
@@ -48,6 +83,9 @@ interface CanvasState {
     cropMode: boolean;
     cropBounds: CropBounds | null;
     cropElementId: string | null;
+
+    // Path node editing
+    pathEditId: string | null;
 }
 
 interface CanvasActions {
@@ -62,6 +100,11 @@ interface CanvasActions {
     addTextElement: (options?: Partial<TextElement>) => string;
     addImageElement: (src: string, options?: Partial<ImageElement>) => string;
     addShapeElement: (shapeType: string, options?: Partial<ShapeElement>) => string;
+    addFreehandElement: (points: PathPoint[], settings: DrawingSettings) => string | null;
+    erasePathElements: (trail: Array<{ x: number; y: number }>, radius: number) => string[];
+    addVectorPathElement: (contour: PathContour) => string;
+    addPathElements: (elements: PathElement[]) => void;
+    updatePathGeometry: (id: string, geometry: Pick<PathElement, 'pathData' | 'transform'>) => void;
     updateElement: (id: string, updates: Partial<CanvasElement>) => void;
     removeElement: (id: string | string[]) => void;
     duplicateElements: (ids?: string[]) => string[];
@@ -70,6 +113,16 @@ interface CanvasActions {
     updateTransform: (id: string, transform: Partial<Transform>) => void;
     updateStyle: (id: string, style: Partial<Style>) => void;
 
+    // Text actions
+    styleText: (id: string, style: TextRunStyle) => void;
+    commitTextEdit: (id: string, content: TextContent) => void;
+    setTextList: (id: string, list: Partial<TextList> | null) => void;
+    indentTextList: (id: string, delta: number) => void;
+    setTextSizing: (id: string, sizing: TextSizing) => void;
+    setTextCurve: (id: string, curve: number) => void;
+    bindTextToPath: (id: string, targetId: string | null) => void;
+    setTextPathPlacement: (id: string, placement: Partial<Pick<TextPath, 'position' | 'flip'>>) => void;
+
     // Z-index operations
     bringToFront: (id: string) => void;
     sendToBack: (id: string) => void;
@@ -80,11 +133,24 @@ interface CanvasActions {
     groupElements: (ids: string[]) => string;
     ungroupElement: (groupId: string) => string[];
 
+    // Boolean operations
+    combineShapes: (ids: string[], operation: BooleanOperation) => string | null;
+
+    // Alignment
+    alignElements: (ids: string[], alignment: Alignment, reference?: AlignReference, keyId?: string) => void;
+    distributeElements: (ids: string[], axis: DistributeAxis, reference?: AlignReference) => void;
+
     // Layer operations
     lockElement: (id: string) => void;
     unlockElement: (id: string) => void;
     toggleVisibility: (id: string) => void;
 
+    // Animation actions
+    setElementAnimation: (ids: string | string[], slot: AnimationSlot, config: AnimationConfig | null) => void;
+    updateElementAnimation: (ids: string | string[], slot: AnimationSlot, updates: Partial<AnimationConfig>) => void;
+    removeElementAnimations: (ids: string | string[]) => void;
+    getElementAnimation: (id: string) => ElementAnimation | undefined;
+
     // Clipboard operations
     copy: () => void;
     cut: () => void;
@@ -102,6 +168,10 @@ interface CanvasActions {
     applyCrop: () => void;
     cancelCrop: () => void;
 
+    // Path node editing
+    startPathEdit: (id: string) => void;
+    stopPathEdit: () => void;
+
     // Utility
     getSelectedElements: () => CanvasElement[];
     getElement: (id: string) => CanvasElement | undefined;
@@ -132,6 +202,40 @@ const updateActivePageElements = (updater: (elements: CanvasElement[]) => void)
     }
 };
 
+// Helper to get active page animations
+const getActivePageAnimations = (): ElementAnimation[] => {
+    const project = useEditorStore.getState().project;
+    if (!project) return [];
+    const activePage = project.pages.find(p => p.id === project.activePageId);
+    return activePage?.animations ?? [];
+};
+
+// Helper to update animations for a set of elements on the active page
+const updateActivePageAnimations = (
+    ids: string[],
+    updater: (animation: ElementAnimation) => ElementAnimation
+) => {
+    const editorStore = useEditorStore.getState();
+    if (!editorStore.project) return;
+
+    const animations = getActivePageAnimations();
+    const untouched = animations.filter(a => !ids.includes(a.elementId));
+    const updated = ids
+        .map(id => updater(animations.find(a => a.elementId === id) ?? createElementAnimation(id)))
+        .filter(hasElementAnimation);
+
+    editorStore.updatePage(editorStore.project.activePageId, {
+        animations: [...untouched, ...updated],
+    });
+};
+
+// Helper to get the active page timeline, if one has been set up
+const getActivePageTimeline = () => {
+    const project = useEditorStore.getState().project;
+    if (!project) return undefined;
+    return project.pages.find(p => p.id === project.activePageId)?.timeline;
+};
+
 // Helper to push history state after changes
 const pushHistory = (label: string) => {
     // Use setTimeout to ensure state is updated before capturing
@@ -140,6 +244,84 @@ const pushHistory = (label: string) => {
     }, 0);
 };
 
+// History transaction of the crop in progress; adjusting and applying a crop is one undo step
+let cropTransaction: number | null = null;
+let isApplyingCrop = false;
+
+// Helper to close the crop's transaction, keeping or putting back what it changed
+const endCropTransaction = (keep: boolean) => {
+    if (cropTransaction === null) return;
+
+    const history = useHistoryStore.getState();
+    if (keep) {
+        history.commitTransaction(cropTransaction);
+    } else {
+        history.abortTransaction(cropTransaction);
+    }
+    cropTransaction = null;
+};
+
+// Helper to lay out a text's curve or outline on the canvas, returning it with the transform Fabric gave it
+const layOutTextPath = (updated: TextElement): TextElement => {
+    const fabricCanvas = getFabricCanvas();
+    fabricCanvas.updateText(updated);
+
+    const obj = fabricCanvas.getObjectById(updated.id);
+    const transform = obj
+        ? {
+            ...updated.transform,
+            x: obj.left ?? updated.transform.x,
+            y: obj.top ?? updated.transform.y,
+            scaleX: obj.scaleX ?? updated.transform.scaleX,
+            scaleY: obj.scaleY ?? updated.transform.scaleY,
+            rotation: obj.angle ?? updated.transform.rotation,
+        }
+        : updated.transform;
+    return { ...updated, transform };
+};
+
+// Helper to get the page-space bounds of unlocked elements, with any multi-selection released
+const getLayoutBoxes = (ids: string[]): Array<{ id: string; box: LayoutBox }> => {
+    const fabricCanvas = getFabricCanvas();
+    // Objects in an active selection are positioned relative to it
+    fabricCanvas.getCanvas()?.discardActiveObject();
+
+    const elements = getActivePageElements();
+    return ids
+        .filter(id => elements.some(el => el.id === id && !el.locked))
+        .map(id => ({ id, box: fabricCanvas.getObjectBounds(id) }))
+        .filter((entry): entry is { id: string; box: LayoutBox } => entry.box !== null);
+};
+
+// Helper to get the active page's bounds
+const getActivePageBox = (): LayoutBox | null => {
+    const project = useEditorStore.getState().project;
+    const page = project?.pages.find(p => p.id === project.activePageId);
+    return page ? { left: 0, top: 0, width: page.width, height: page.height } : null;
+};
+
+// Helper to move elements by offsets in one page update, keeping them selected
+const moveElementsBy = (ids: string[], offsets: LayoutOffset[]) => {
+    const editorStore = useEditorStore.getState();
+    if (!editorStore.project) return;
+
+    const moves = new Map(ids.map((id, i) => [id, offsets[i]]));
+    const elements = getActivePageElements().map(el => {
+        const offset = moves.get(el.id);
+        if (!offset || (offset.dx === 0 && offset.dy === 0)) return el;
+        return {
+            ...el,
+            transform: { ...el.transform, x: el.transform.x + offset.dx, y: el.transform.y + offset.dy },
+        } as CanvasElement;
+    });
+    editorStore.updatePage(editorStore.project.activePageId, { elements });
+
+    const fabricCanvas = getFabricCanvas();
+    elements
+        .filter(el => moves.has(el.id))
+        .forEach(el => fabricCanvas.updateElementTransform(el.id, { x: el.transform.x, y: el.transform.y }));
+};
+
 export const useCanvasStore = create<CanvasStore>()(
     immer((set, get) => ({
         // Initial state
@@ -154,6 +336,7 @@ export const useCanvasStore = create<CanvasStore>()(
         cropMode: false,
         cropBounds: null,
         cropElementId: null,
+        pathEditId: null,
         activeTransform: null,
 
         // Selection actions
@@ -298,6 +481,136 @@ export const useCanvasStore = create<CanvasStore>()(
             return id;
         },
 
+        addFreehandElement: (points: PathPoint[], settings: DrawingSettings) => {
+            if (settings.tool === 'eraser') return null;
+
+            const path = createFreehandPath(points, {
+                brush: settings.tool,
+                size: settings.size,
+                thinning: BRUSH_PRESETS[settings.tool].thinning,
+                smoothing: settings.smoothing,
+            });
+            if (!path) return null;
+
+            const id = crypto.randomUUID();
+            const elements = getActivePageElements();
+            const maxZIndex = elements.length > 0
+                ? Math.max(...elements.map(e => e.zIndex))
+                : 0;
+
+            const pathElement: PathElement = {
+                id,
+                type: 'path',
+                name: settings.tool === 'highlighter' ? 'Highlight' : 'Drawing',
+                pathData: path.pathData,
+                freehand: path.stroke,
+                transform: {
+                    ...createDefaultTransform(),
+                    x: path.bounds.x,
+                    y: path.bounds.y,
+                    width: path.bounds.width,
+                    height: path.bounds.height,
+                    originX: 'left',
+                    originY: 'top',
+                },
+                style: {
+                    ...createDefaultStyle(),
+                    fill: settings.color,
+                    stroke: null,
+                    strokeWidth: 0,
+                    opacity: settings.opacity,
+                },
+                locked: false,
+                visible: true,
+                selectable: true,
+                zIndex: maxZIndex + 1,
+            };
+
+            get().addElement(pathElement);
+            return id;
+        },
+
+        erasePathElements: (trail: Array<{ x: number; y: number }>, radius: number) => {
+            const ids = getActivePageElements()
+                .filter((el): el is PathElement => el.type === 'path' && el.visible && !el.locked)
+                .filter(el => isPathHitByTrail(el, trail, radius))
+                .map(el => el.id);
+
+            if (ids.length > 0) {
+                get().removeElement(ids);
+            }
+            return ids;
+        },
+
+        addVectorPathElement: (contour: PathContour) => {
+            const id = crypto.randomUUID();
+            const elements = getActivePageElements();
+            const maxZIndex = elements.length > 0
+                ? Math.max(...elements.map(e => e.zIndex))
+                : 0;
+            const placement = placeNewPath(contoursToCommands([contour]), DEFAULT_PEN_STYLE.strokeWidth);
+
+            const pathElement: PathElement = {
+                id,
+                type: 'path',
+                name: 'Path',
+                pathData: placement.pathData,
+                transform: placement.transform,
+                style: {
+                    ...createDefaultStyle(),
+                    fill: contour.closed ? DEFAULT_PEN_STYLE.fill : null,
+                    stroke: DEFAULT_PEN_STYLE.stroke,
+                    strokeWidth: DEFAULT_PEN_STYLE.strokeWidth,
+                },
+                locked: false,
+                visible: true,
+                selectable: true,
+                zIndex: maxZIndex + 1,
+            };
+
+            get().addElement(pathElement);
+            return id;
+        },
+
+        addPathElements: (pathElements: PathElement[]) => {
+            const editorStore = useEditorStore.getState();
+            if (!editorStore.project || pathElements.length === 0) return;
+
+            const elements = getActivePageElements();
+            const maxZIndex = elements.length > 0
+                ? Math.max(...elements.map(e => e.zIndex))
+                : 0;
+            const added = pathElements.map((element, i) => ({ ...element, zIndex: maxZIndex + i + 1 }));
+
+            editorStore.updatePage(editorStore.project.activePageId, {
+                elements: [...elements, ...added],
+            });
+
+            const fabricCanvas = getFabricCanvas();
+            added.forEach(element => fabricCanvas.addPath(element));
+            fabricCanvas.selectObjects(added.map(element => element.id));
+
+            set((state) => {
+                state.selectedIds = added.map(element => element.id);
+            });
+
+            pushHistory(`Add ${added.length} path(s)`);
+        },
+
+        updatePathGeometry: (id: string, geometry: Pick<PathElement, 'pathData' | 'transform'>) => {
+            const element = get().getElement(id);
+            if (!element || element.type !== 'path') return;
+
+            // Edited outlines no longer follow the recorded stroke
+            get().updateElement(id, {
+                pathData: geometry.pathData,
+                transform: geometry.transform,
+                freehand: undefined,
+            } as Partial<PathElement>);
+
+            pushHistory('Edit path');
+        },
+
         updateElement: (id: string, updates: Partial<CanvasElement>) => {
             const editorStore = useEditorStore.getState();
             if (!editorStore.project) return;
@@ -319,6 +632,8 @@ export const useCanvasStore = create<CanvasStore>()(
 
             const elements = getActivePageElements();
             const updatedElements = elements.filter(el => !ids.includes(el.id));
+            const updatedAnimations = getActivePageAnimations().filter(a => !ids.includes(a.elementId));
+            const timeline = getActivePageTimeline();
 
             // Remove objects from Fabric.js canvas
             const fabricCanvas = getFabricCanvas();
@@ -328,6 +643,13 @@ export const useCanvasStore = create<CanvasStore>()(
 
             editorStore.updatePage(editorStore.project.activePageId, {
                 elements: updatedElements,
+                animations: updatedAnimations,
+                ...(timeline && {
+                    timeline: {
+                        ...timeline,
+                        tracks: timeline.tracks.filter(t => !ids.includes(t.elementId)),
+                    },
+                }),
             });
 
             set((state) => {
@@ -342,12 +664,27 @@ export const useCanvasStore = create<CanvasStore>()(
             if (targetIds.length === 0) return [];
 
             const elements = getActivePageElements();
+            const animations = getActivePageAnimations();
             const duplicatedIds: string[] = [];
+            const duplicatedAnimations: ElementAnimation[] = [];
+            const timeline = getActivePageTimeline();
+            const duplicatedTracks: TimelineTrack[] = [];
 
             const elementsToDuplicate = elements.filter(el => targetIds.includes(el.id));
             const newElements = elementsToDuplicate.map(el => {
                 const newId = crypto.randomUUID();
                 duplicatedIds.push(newId);
+
+                // Copies keep the original's animation
+                const animation = animations.find(a => a.elementId === el.id);
+                if (animation) {
+                    duplicatedAnimations.push({ ...JSON.parse(JSON.stringify(animation)), elementId: newId });
+                }
+                const track = timeline?.tracks.find(t => t.elementId === el.id);
+                if (track) {
+                    duplicatedTracks.push({ ...track, elementId: newId });
+                }
+
                 return {
                     ...JSON.parse(JSON.stringify(el)),
                     id: newId,
@@ -365,6 +702,10 @@ export const useCanvasStore = create<CanvasStore>()(
             if (editorStore.project) {
                 editorStore.updatePage(editorStore.project.activePageId, {
                     elements: [...elements, ...newElements],
+                    animations: [...animations, ...duplicatedAnimations],
+                    ...(timeline && {
+                        timeline: { ...timeline, tracks: [...timeline.tracks, ...duplicatedTracks] },
+                    }),
                 });
             }
 
@@ -415,6 +756,141 @@ export const useCanvasStore = create<CanvasStore>()(
             }
         },
 
+        // Text actions
+        styleText: (id: string, style: TextRunStyle) => {
+            const element = get().getElement(id);
+            if (element?.type !== 'text') return;
+
+            // Characters selected while editing take the style as a run
+            const fabricCanvas = getFabricCanvas();
+            const edited = fabricCanvas.styleTextSelection(id, style);
+            if (edited) {
+                get().updateElement(id, edited as Partial<TextElement>);
+                pushHistory('Format text');
+                return;
+            }
+
+            // Otherwise the whole text takes it, and runs stop overriding it
+            const current = { ...element, ...fabricCanvas.getTextContent(id) } as TextElement;
+            const { fill, underline, ...textStyle } = style;
+            const updated: TextElement = {
+                ...current,
+                textStyle: {
+                    ...current.textStyle,
+                    ...textStyle,
+                    ...(underline !== undefined && { textDecoration: underline ? 'underline' : 'none' }),
+                },
+                style: fill !== undefined ? { ...current.style, fill } : current.style,
+                runs: clearRunStyle(current.runs, Object.keys(style) as Array<keyof TextRunStyle>),
+            };
+
+            get().updateElement(id, updated);
+            fabricCanvas.updateText(updated);
+            pushHistory('Format text');
+        },
+
+        commitTextEdit: (id: string, content: TextContent) => {
+            const element = get().getElement(id);
+            if (element?.type !== 'text') return;
+
+            const current: TextContent = { content: element.content, runs: element.runs ?? [], list: element.list ?? null };
+            if (JSON.stringify(current) === JSON.stringify(content)) return;
+
+            get().updateElement(id, content as Partial<TextElement>);
+            pushHistory('Edit text');
+        },
+
+        setTextList: (id: string, list: Partial<TextList> | null) => {
+            const element = get().getElement(id);
+            if (element?.type !== 'text') return;
+
+            const fabricCanvas = getFabricCanvas();
+            const current = { ...element, ...fabricCanvas.getTextContent(id) } as TextElement;
+            const paragraphCount = current.content.split('\n').length;
+            const updated: TextElement = {
+                ...current,
+                list: list && {
+                    ...(current.list ?? createDefaultTextList(list.type ?? 'bullet', paragraphCount)),
+                    ...list,
+                },
+            };
+
+            get().updateElement(id, updated);
+            fabricCanvas.updateText(updated);
+            pushHistory(list ? 'Format list' : 'Remove list');
+        },
+
+        indentTextList: (id: string, delta: number) => {
+            const content = getFabricCanvas().indentTextList(id, delta);
+            if (!content) return;
+
+            get().updateElement(id, content as Partial<TextElement>);
+            pushHistory(delta > 0 ? 'Increase indent' : 'Decrease indent');
+        },
+
+        setTextSizing: (id: string, sizing: TextSizing) => {
+            const element = get().getElement(id);
+            if (element?.type !== 'text' || (element.sizing ?? 'auto') === sizing) return;
+
+            // Fixed sizes start from the box the text fills now
+            const fabricCanvas = getFabricCanvas();
+            const obj = fabricCanvas.getObjectById(id);
+            const current = { ...element, ...fabricCanvas.getTextContent(id) } as TextElement;
+            const updated: TextElement = {
+                ...current,
+                sizing,
+                transform: {
+                    ...current.transform,
+                    width: obj?.width ?? current.transform.width,
+                    height: obj?.height ?? current.transform.height,
+                },
+            };
+
+            get().updateElement(id, updated);
+            fabricCanvas.updateText(updated);
+            pushHistory('Resize text box');
+        },
+
+        setTextCurve: (id: string, curve: number) => {
+            const element = get().getElement(id);
+            if (element?.type !== 'text') return;
+
+            const current = { ...element, ...getFabricCanvas().getTextContent(id) } as TextElement;
+            get().updateElement(id, layOutTextPath({ ...current, curve: Math.max(-100, Math.min(100, curve)) }));
+            pushHistory(curve ? 'Curve text' : 'Straighten text');
+        },
+
+        bindTextToPath: (id: string, targetId: string | null) => {
+            const element = get().getElement(id);
+            const target = targetId ? get().getElement(targetId) : null;
+            if (element?.type !== 'text' || (target && !isTextPathTarget(target))) return;
+
+            const fabricCanvas = getFabricCanvas();
+            const outline = target ? fabricCanvas.getOutline(target.id) : null;
+            const current = { ...element, ...fabricCanvas.getTextContent(id) } as TextElement;
+            get().updateElement(id, layOutTextPath({
+                ...current,
+                textPath: target && outline
+                    ? {
+                        elementId: target.id,
+                        pathData: serializePathData(outline),
+                        position: getDefaultTextPathPosition(target),
+                        flip: false,
+                    }
+                    : null,
+            }));
+            pushHistory(target ? 'Bind text to path' : 'Unbind text from path');
+        },
+
+        setTextPathPlacement: (id: string, placement: Partial<Pick<TextPath, 'position' | 'flip'>>) => {
+            const element = get().getElement(id);
+            if (element?.type !== 'text' || !element.textPath) return;
+
+            const current = { ...element, ...getFabricCanvas().getTextContent(id) } as TextElement;
+            get().updateElement(id, layOutTextPath({ ...current, textPath: { ...element.textPath, ...placement } }));
+            pushHistory('Move text on path');
+        },
+
         // Z-index operations
         bringToFront: (id: string) => {
             const elements = getActivePageElements();
@@ -492,6 +968,114 @@ export const useCanvasStore = create<CanvasStore>()(
             return [];
         },
 
+        // Boolean operations
+        combineShapes: (ids: string[], operation: BooleanOperation) => {
+            const editorStore = useEditorStore.getState();
+            if (!editorStore.project) return null;
+
+            // Bottom operand first; subtract cuts the others out of it
+            const elements = getActivePageElements();
+            const operands = elements
+                .filter(el => ids.includes(el.id) && isBooleanOperand(el) && !el.locked)
+                .sort((a, b) => a.zIndex - b.zIndex);
+            if (operands.length < 2) return null;
+
+            const fabricCanvas = getFabricCanvas();
+            const outlines = operands.map(el => fabricCanvas.getOutline(el.id));
+            if (outlines.some(outline => !outline)) return null;
+
+            const commands = combineOutlines(outlines as PathCommand[][], operation);
+            if (commands.length === 0) return null;
+
+            // The result takes the bottom operand's look and the top operand's place in the stack
+            const base = operands[0];
+            const top = operands[operands.length - 1];
+            const placement = placeNewPath(commands, base.style.strokeWidth);
+            const id = crypto.randomUUID();
+            const pathElement: PathElement = {
+                id,
+                type: 'path',
+                name: BOOLEAN_OPERATION_LABELS[operation],
+                pathData: placement.pathData,
+                transform: placement.transform,
+                style: { ...base.style },
+                locked: false,
+                visible: true,
+                selectable: true,
+                zIndex: top.zIndex,
+            };
+
+            const operandIds = operands.map(el => el.id);
+            const timeline = getActivePageTimeline();
+            editorStore.updatePage(editorStore.project.activePageId, {
+                elements: [...elements.filter(el => !operandIds.includes(el.id)), pathElement],
+                animations: getActivePageAnimations().filter(a => !operandIds.includes(a.elementId)),
+                ...(timeline && {
+                    timeline: {
+                        ...timeline,
+                        tracks: timeline.tracks.filter(t => !operandIds.includes(t.elementId)),
+                    },
+                }),
+            });
+
+            fabricCanvas.addPath(pathElement, top.id);
+            operandIds.forEach(elementId => fabricCanvas.removeObject(elementId));
+            fabricCanvas.selectObjects([id]);
+
+            set((state) => {
+                state.selectedIds = [id];
+            });
+
+            pushHistory(BOOLEAN_OPERATION_LABELS[operation]);
+            return id;
+        },
+
+        // Alignment
+        alignElements: (ids: string[], alignment: Alignment, reference: AlignReference = 'selection', keyId?: string) => {
+            const entries = getLayoutBoxes(ids);
+            const pageBox = getActivePageBox();
+            if (entries.length === 0 || !pageBox) return;
+
+            // A single element has nothing else to line up with but the page
+            const key = reference === 'key' ? entries.find(entry => entry.id === keyId) : undefined;
+            const target = key
+                ? key.box
+                : reference === 'page' || entries.length === 1
+                    ? pageBox
+                    : getUnionBox(entries.map(entry => entry.box));
+
+            const offsets = getAlignOffsets(entries.map(entry => entry.box), alignment, target);
+            moveElementsBy(entries.map(entry => entry.id), offsets);
+            getFabricCanvas().selectObjects(ids);
+
+            set((state) => {
+                state.selectedIds = ids;
+            });
+
+            pushHistory(`Align ${alignment}`);
+        },
+
+        distributeElements: (ids: string[], axis: DistributeAxis, reference: AlignReference = 'selection') => {
+            const entries = getLayoutBoxes(ids);
+            const pageBox = getActivePageBox();
+            const minimum = reference === 'page' ? 2 : 3;
+            if (entries.length < minimum || !pageBox) {
+                getFabricCanvas().selectObjects(ids);
+                return;
+            }
+
+            const boxes = entries.map(entry => entry.box);
+            const extent = reference === 'page' ? pageBox : getUnionBox(boxes);
+            moveElementsBy(entries.map(entry => entry.id), getDistributeOffsets(boxes, axis, extent));
+            getFabricCanvas().selectObjects(ids);
+
+            set((state) => {
+                state.selectedIds = ids;
+            });
+
+            pushHistory(`Distribute ${axis}ly`);
+        },
+
         // Layer operations
         lockElement: (id: string) => {
             get().updateElement(id, { locked: true, selectable: false });
@@ -552,6 +1136,44 @@ export const useCanvasStore = create<CanvasStore>()(
             }
         },
 
+        // Animation actions
+        setElementAnimation: (ids: string | string[], slot: AnimationSlot, config: AnimationConfig | null) => {
+            const targetIds = Array.isArray(ids) ? ids : [ids];
+            if (targetIds.length === 0) return;
+
+            updateActivePageAnimations(targetIds, animation => ({
+                ...animation,
+                [slot]: config ? { ...config } : null,
+            }));
+
+            pushHistory(config ? `Add ${slot} animation` : `Remove ${slot} animation`);
+        },
+
+        updateElementAnimation: (ids: string | string[], slot: AnimationSlot, updates: Partial<AnimationConfig>) => {
+            const targetIds = Array.isArray(ids) ? ids : [ids];
+            if (targetIds.length === 0) return;
+
+            updateActivePageAnimations(targetIds, animation => {
+                const config = animation[slot];
+                return config ? { ...animation, [slot]: { ...config, ...updates } } : animation;
+            });
+
+            pushHistory(`Edit ${slot} animation`);
+        },
+
+        removeElementAnimations: (ids: string | string[]) => {
+            const targetIds = Array.isArray(ids) ? ids : [ids];
+            if (targetIds.length === 0) return;
+
+            updateActivePageAnimations(targetIds, animation => createElementAnimation(animation.elementId));
+
+            pushHistory('Remove animations');
+        },
+
+        getElementAnimation: (id: string) => {
+            return getActivePageAnimations().find(a => a.elementId === id);
+        },
+
         // Clipboard operations
         copy: () => {
             const selectedIds = get().selectedIds;
@@ -660,6 +1282,12 @@ export const useCanvasStore = create<CanvasStore>()(
             if (enabled && elementId) {
                 const element = get().getElement(elementId);
                 if (element && element.type === 'image') {
+                    // A gesture still open gets its own entry, so the crop's can't swallow or abort it
+                    const history = useHistoryStore.getState();
+                    endCropTransaction(false);
+                    history.commitTransaction();
+                    cropTransaction = history.beginTransaction('Crop image');
+
                     // Initialize crop bounds to element's current bounds
                     const width = element.transform.width * Math.abs(element.transform.scaleX);
                     const height = element.transform.height * Math.abs(element.transform.scaleY);
@@ -675,6 +1303,7 @@ export const useCanvasStore = create<CanvasStore>()(
                     });
                 }
             } else {
+                endCropTransaction(false);
                 set((state) => {
                     state.cropMode = false;
                     state.cropBounds = null;
@@ -724,77 +1353,133 @@ export const useCanvasStore = create<CanvasStore>()(
             const cropWidth = cropBounds.width / imgScaleX;
             const cropHeight = cropBounds.height / imgScaleY;
 
-            // Create a temporary canvas to crop the image
-            const tempCanvas = document.createElement('canvas');
-            tempCanvas.width = cropWidth;
-            tempCanvas.height = cropHeight;
-            const ctx = tempCanvas.getContext('2d');
-
-            if (!ctx) return;
-
-            // Draw the cropped portion of the original image
-            ctx.drawImage(
-                imgElement,
-                cropX, cropY, cropWidth, cropHeight,  // Source rectangle
-                0, 0, cropWidth, cropHeight  // Destination rectangle
-            );
-
-            // Get the cropped image as data URL
-            const croppedDataUrl = tempCanvas.toDataURL('image/png');
+            // Cut the crop rectangle out of an image at its native resolution;
+            // the ratios map it into a source larger or smaller than the displayed image
+            const cropImage = (
+                source: HTMLImageElement | HTMLCanvasElement,
+                ratioX = 1,
+                ratioY = 1
+            ): { dataUrl: string; width: number; height: number } | null => {
+                const tempCanvas = document.createElement('canvas');
+                tempCanvas.width = Math.max(1, Math.round(cropWidth * ratioX));
+                tempCanvas.height = Math.max(1, Math.round(cropHeight * ratioY));
+                const ctx = tempCanvas.getContext('2d');
+                if (!ctx) return null;
+
+                ctx.drawImage(
+                    source,
+                    cropX * ratioX, cropY * ratioY, cropWidth * ratioX, cropHeight * ratioY,  // Source rectangle
+                    0, 0, tempCanvas.width, tempCanvas.height  // Destination rectangle
+                );
+                return { dataUrl: tempCanvas.toDataURL('image/png'), width: tempCanvas.width, height: tempCanvas.height };
+            };
 
             // Calculate new position (center of crop box)
             const newCenterX = cropBounds.x + cropBounds.width / 2;
             const newCenterY = cropBounds.y + cropBounds.height / 2;
+            const filterStack = hasFilterStack(imageElement) ? imageElement.filterStack! : null;
+
+            // Crop mode stays on until the crop is in the store, so no other edit joins its history entry
+            const transaction = cropTransaction;
+            if (isApplyingCrop) return;
+            isApplyingCrop = true;
+
+            // The unfiltered source is cropped too, so filters keep rendering from the cropped image
+            loadImage(getFilterSource(imageElement), imageElement.crossOrigin)
+                .catch(() => null)
+                .then((originalImg) => {
+                    isApplyingCrop = false;
+
+                    // Cancelled while the original loaded
+                    if (transaction !== cropTransaction || get().cropElementId !== cropElementId) return;
+
+                    // An original of another size is scaled to match, unless an earlier crop left it framed differently
+                    const ratioX = originalImg ? originalImg.naturalWidth / imgWidth : 0;
+                    const ratioY = originalImg ? originalImg.naturalHeight / imgHeight : 0;
+                    const sameFraming = !!originalImg && Math.abs(ratioX - ratioY) <= ratioX * 0.01;
+                    const croppedOriginal = sameFraming ? cropImage(originalImg, ratioX, ratioY) : null;
+
+                    // Without a matching original, the filtered image is cropped and its stack baked in
+                    const keepsStack = !!filterStack && !!croppedOriginal;
+                    const cropped = keepsStack ? croppedOriginal : cropImage(imgElement);
+                    if (!cropped) {
+                        console.error('Could not crop the image: no canvas context');
+                        get().cancelCrop();
+                        return;
+                    }
+
+                    // A rescaled original crops to another pixel size, shown at the same size on the page
+                    const newScaleX = imgScaleX * (cropWidth / cropped.width);
+                    const newScaleY = imgScaleY * (cropHeight / cropped.height);
+
+                    // Update element in store
+                    get().updateElement(cropElementId, {
+                        src: cropped.dataUrl,
+                        originalSrc: (croppedOriginal ?? cropped).dataUrl,
+                        ...(filterStack && !keepsStack ? { filterStack: [] } : {}),
+                        transform: {
+                            ...imageElement.transform,
+                            x: newCenterX,
+                            y: newCenterY,
+                            width: cropped.width,
+                            height: cropped.height,
+                            scaleX: newScaleX * (imageElement.transform.scaleX >= 0 ? 1 : -1),
+                            scaleY: newScaleY * (imageElement.transform.scaleY >= 0 ? 1 : -1),
+                        },
+                        crop: null, // Clear crop data since we've actually cropped
+                    });
 
-            // Remove the old image from fabric canvas
-            const canvas = fabricCanvas.getCanvas();
-            if (canvas) {
-                canvas.remove(fabricObj);
-            }
-
-            // Create new fabric image from cropped data
-            fabric.Image.fromURL(croppedDataUrl, (croppedImg) => {
-                if (!canvas) return;
-
-                croppedImg.set({
-                    left: newCenterX,
-                    top: newCenterY,
-                    scaleX: imgScaleX * (fabricObj.scaleX! >= 0 ? 1 : -1),
-                    scaleY: imgScaleY * (fabricObj.scaleY! >= 0 ? 1 : -1),
-                    angle: fabricObj.angle || 0,
-                    originX: 'center',
-                    originY: 'center',
-                    opacity: fabricObj.opacity,
-                    selectable: true,
-                    data: { id: cropElementId, type: 'image' },
-                });
+                    endCropTransaction(true);
 
-                canvas.add(croppedImg);
-                canvas.setActiveObject(croppedImg);
-                canvas.renderAll();
-
-                // Update the object ID map
-                fabricCanvas.setObjectById(cropElementId, croppedImg);
+                    // Exit crop mode
+                    set((state) => {
+                        state.cropMode = false;
+                        state.cropBounds = null;
+                        state.cropElementId = null;
+                    });
 
-                // Update element in store
-                get().updateElement(cropElementId, {
-                    src: croppedDataUrl,
-                    transform: {
-                        ...imageElement.transform,
-                        x: newCenterX,
-                        y: newCenterY,
-                        width: cropWidth,
-                        height: cropHeight,
-                        scaleX: imgScaleX * (imageElement.transform.scaleX >= 0 ? 1 : -1),
-                        scaleY: imgScaleY * (imageElement.transform.scaleY >= 0 ? 1 : -1),
-                    },
-                    crop: null, // Clear crop data since we've actually cropped
+                    // Remove the old image from fabric canvas
+                    const canvas = fabricCanvas.getCanvas();
+                    if (canvas) {
+                        canvas.remove(fabricObj);
+                    }
+
+                    // Create new fabric image from cropped data
+                    fabric.Image.fromURL(cropped.dataUrl, async (croppedImg) => {
+                        if (!canvas) return;
+
+                        const rendered = keepsStack
+                            ? await renderFilterStack(croppedImg.getElement(), filterStack!).catch(() => null)
+                            : null;
+                        if (rendered) {
+                            (croppedImg as unknown as { setElement(element: HTMLCanvasElement): fabric.Image }).setElement(rendered);
+                        }
+
+                        croppedImg.set({
+                            left: newCenterX,
+                            top: newCenterY,
+                            scaleX: newScaleX * (fabricObj.scaleX! >= 0 ? 1 : -1),
+                            scaleY: newScaleY * (fabricObj.scaleY! >= 0 ? 1 : -1),
+                            angle: fabricObj.angle || 0,
+                            originX: 'center',
+                            originY: 'center',
+                            opacity: fabricObj.opacity,
+                            selectable: true,
+                            data: { id: cropElementId, type: 'image' },
+                        });
+
+                        canvas.add(croppedImg);
+                        canvas.setActiveObject(croppedImg);
+                        canvas.renderAll();
+
+                        // Update the object ID map
+                        fabricCanvas.setObjectById(cropElementId, croppedImg);
+                    }, { crossOrigin: 'anonymous' });
                 });
+        },
 
-                pushHistory('Crop image');
-            }, { crossOrigin: 'anonymous' });
-
-            // Exit crop mode
+        cancelCrop: () => {
+            endCropTransaction(false);
             set((state) => {
                 state.cropMode = false;
                 state.cropBounds = null;
@@ -802,11 +1487,20 @@ export const useCanvasStore = create<CanvasStore>()(
             });
         },
 
-        cancelCrop: () => {
+        // Path node editing
+        startPathEdit: (id: string) => {
+            const element = get().getElement(id);
+            if (!element || element.type !== 'path' || element.locked) return;
+
             set((state) => {
-                state.cropMode = false;
-                state.cropBounds = null;
-                state.cropElementId = null;
+                state.pathEditId = id;
+                state.selectedIds = [id];
+            });
+        },
+
+        stopPathEdit: () => {
+            set((state) => {
+                state.pathEditId = null;
             });
         },
     }))
@@ -3,7 +3,15 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import { Project, Page, createDefaultProject, createDefaultPage, PagePreset } from '@/types/project';
+import { Project, Page, PageGuide, createDefaultProject, createDefaultPage, PagePreset } from '@/types/project';
+import { DrawingSettings, DEFAULT_DRAWING_SETTINGS } from '@/types/drawing';
+import { DEFAULT_GRID_SIZE } from '@/types/snapping';
+import { MeasurementUnit } from '@/utils/units';
+import { getProjectStorage } from '@/engine/storage/ProjectStorage';
+import { getFabricCanvas } from '@/engine/fabric/FabricCanvas';
+
+// Width of the page thumbnail stored with each save
+const THUMBNAIL_WIDTH = 320;
 
 export type SidebarPanel =
     | 'library'
@@ -14,6 +22,9 @@ export type SidebarPanel =
     | 'uploads'
     | 'layers'
     | 'animations'
+    | 'preflight'
+    | 'draw'
+    | 'history'
     | null;
 
 export type RightPanel = 'properties' | 'colors' | 'filters' | null;
@@ -23,6 +34,7 @@ export type ToolMode =
     | 'select'
     | 'pan'
     | 'draw'
+    | 'pen'
     | 'text'
     | 'shape';
 
@@ -32,18 +44,22 @@ interface EditorState {
     isLoading: boolean;
     isSaving: boolean;
     hasUnsavedChanges: boolean;
+    lastSavedAt: number | null;
 
     // UI state
     activeSidebarPanel: SidebarPanel;
     toolMode: ToolMode;
+    drawingSettings: DrawingSettings;
     zoom: number;
     isFitMode: boolean; // Track if zoom is at "fit to screen" level
     fitTrigger: number; // Increment to trigger re-fit calculation
     showGrid: boolean;
     showRulers: boolean;
+    rulerUnit: MeasurementUnit;
     showGuides: boolean;
     snapToGrid: boolean;
     snapToGuides: boolean;
+    gridSize: number;
 
     // Right panel state
     activeRightPanel: RightPanel;
@@ -59,6 +75,7 @@ interface EditorActions {
     createNewProject: (preset?: PagePreset) => void;
     loadProject: (project: Project) => void;
     saveProject: () => Promise<void>;
+    openProject: (projectId: string) => Promise<boolean>;
     updateProjectName: (name: string) => void;
 
     // Page actions
@@ -68,10 +85,14 @@ interface EditorActions {
     setActivePage: (pageId: string) => void;
     reorderPages: (fromIndex: number, toIndex: number) => void;
     updatePage: (pageId: string, updates: Partial<Page>) => void;
+    addPageGuide: (pageId: string, orientation: PageGuide['orientation'], position: number) => string;
+    movePageGuide: (pageId: string, guideId: string, position: number) => void;
+    removePageGuide: (pageId: string, guideId: string) => void;
 
     // UI actions
     setSidebarPanel: (panel: SidebarPanel) => void;
     setToolMode: (mode: ToolMode) => void;
+    setDrawingSettings: (settings: Partial<DrawingSettings>) => void;
     setZoom: (zoom: number, isFit?: boolean) => void;
     zoomIn: () => void;
     zoomOut: () => void;
@@ -79,9 +100,11 @@ interface EditorActions {
     fitToScreen: () => void;
     toggleGrid: () => void;
     toggleRulers: () => void;
+    setRulerUnit: (unit: MeasurementUnit) => void;
     toggleGuides: () => void;
     toggleSnapToGrid: () => void;
     toggleSnapToGuides: () => void;
+    setGridSize: (size: number) => void;
 
     // Right panel actions
     setRightPanel: (panel: RightPanel) => void;
@@ -112,16 +135,20 @@ export const useEditorStore = create<EditorStore>()(
         isLoading: false,
         isSaving: false,
         hasUnsavedChanges: false,
+        lastSavedAt: null,
         activeSidebarPanel: 'templates',
         toolMode: 'select',
+        drawingSettings: { ...DEFAULT_DRAWING_SETTINGS },
         zoom: 100,
         isFitMode: true,
         fitTrigger: 0,
         showGrid: false,
         showRulers: true,
+        rulerUnit: 'px',
         showGuides: true,
         snapToGrid: false,
         snapToGuides: true,
+        gridSize: DEFAULT_GRID_SIZE,
         activeRightPanel: 'properties',
         isExportModalOpen: false,
         isResizeModalOpen: false,
@@ -145,21 +172,66 @@ export const useEditorStore = create<EditorStore>()(
         },
 
         saveProject: async () => {
+            const project = get().project;
+            if (!project) return;
+
             set((state) => {
                 state.isSaving = true;
             });
 
-            // TODO: Implement actual save logic (localStorage, server, etc.)
-            const project = get().project;
-            if (project) {
-                // Placeholder: save to localStorage
-                localStorage.setItem(`project-${project.id}`, JSON.stringify(project));
+            try {
+                // Thumbnail of the page on the canvas; other pages keep their stored one
+                const page = project.pages.find(p => p.id === project.activePageId);
+                const thumbnail = page
+                    ? getFabricCanvas().toDataURL({ format: 'jpeg', quality: 0.7, multiplier: THUMBNAIL_WIDTH / page.width })
+                    : '';
+
+                const storage = getProjectStorage();
+                await storage.saveProject(project, thumbnail ? { [project.activePageId]: thumbnail } : {});
+
+                // Edits made while saving stay unsaved for the next autosave
+                const unchanged = get().project === project;
+                if (unchanged) {
+                    await storage.clearRecoverySession();
+                }
+
+                set((state) => {
+                    state.isSaving = false;
+                    state.lastSavedAt = Date.now();
+                    if (unchanged) {
+                        state.hasUnsavedChanges = false;
+                    }
+                });
+            } catch (error) {
+                console.error('Failed to save project:', error);
+                set((state) => {
+                    state.isSaving = false;
+                });
             }
+        },
 
+        openProject: async (projectId: string) => {
             set((state) => {
-                state.isSaving = false;
-                state.hasUnsavedChanges = false;
+                state.isLoading = true;
             });
+
+            try {
+                const project = await getProjectStorage().loadProject(projectId);
+                if (project) {
+                    get().loadProject(project);
+                    set((state) => {
+                        state.lastSavedAt = project.updatedAt;
+                    });
+                    return true;
+                }
+            } catch (error) {
+                console.error('Failed to open project:', error);
+            }
+
+            set((state) => {
+                state.isLoading = false;
+            });
+            return false;
         },
 
         updateProjectName: (name: string) => {
@@ -257,6 +329,40 @@ export const useEditorStore = create<EditorStore>()(
             });
         },
 
+        addPageGuide: (pageId: string, orientation: PageGuide['orientation'], position: number) => {
+            const id = crypto.randomUUID();
+            set((state) => {
+                const page = state.project?.pages.find((p) => p.id === pageId);
+                if (page) {
+                    page.guides = [...(page.guides ?? []), { id, orientation, position }];
+                    state.hasUnsavedChanges = true;
+                }
+            });
+            return id;
+        },
+
+        movePageGuide: (pageId: string, guideId: string, position: number) => {
+            set((state) => {
+                const guide = state.project?.pages
+                    .find((p) => p.id === pageId)
+                    ?.guides?.find((g) => g.id === guideId);
+                if (guide) {
+                    guide.position = position;
+                    state.hasUnsavedChanges = true;
+                }
+            });
+        },
+
+        removePageGuide: (pageId: string, guideId: string) => {
+            set((state) => {
+                const page = state.project?.pages.find((p) => p.id === pageId);
+                if (page?.guides) {
+                    page.guides = page.guides.filter((g) => g.id !== guideId);
+                    state.hasUnsavedChanges = true;
+                }
+            });
+        },
+
         // UI actions
         setSidebarPanel: (panel: SidebarPanel) => {
             set((state) => {
@@ -270,6 +376,12 @@ export const useEditorStore = create<EditorStore>()(
             });
         },
 
+        setDrawingSettings: (settings: Partial<DrawingSettings>) => {
+            set((state) => {
+                Object.assign(state.drawingSettings, settings);
+            });
+        },
+
         setZoom: (zoom: number, isFit: boolean = false) => {
             set((state) => {
                 state.zoom = Math.min(Math.max(zoom, 5), 500);
@@ -318,6 +430,12 @@ export const useEditorStore = create<EditorStore>()(
             });
         },
 
+        setRulerUnit: (unit: MeasurementUnit) => {
+            set((state) => {
+                state.rulerUnit = unit;
+            });
+        },
+
         toggleGuides: () => {
             set((state) => {
                 state.showGuides = !state.showGuides;
@@ -336,6 +454,12 @@ export const useEditorStore = create<EditorStore>()(
             });
         },
 
+        setGridSize: (size: number) => {
+            set((state) => {
+                state.gridSize = Math.max(1, size);
+            });
+        },
+
         // Right panel actions
         setRightPanel: (panel: RightPanel) => {
             set((state) => {
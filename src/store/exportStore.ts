@@ -11,10 +11,13 @@ import {
     PDFExportSettings,
     PPTXExportSettings,
     SVGExportSettings,
+    VideoExportSettings,
+    ExportFormat,
     createDefaultImageExportSettings,
     createDefaultPDFExportSettings,
     createDefaultPPTXExportSettings,
     createDefaultSVGExportSettings,
+    createDefaultVideoExportSettings,
 } from '@/types/export';
 
 interface ExportState {
@@ -36,7 +39,7 @@ interface ExportState {
 interface ExportActions {
     // Settings management
     setSettings: (settings: Partial<ExportSettings>) => void;
-    setFormat: (format: 'png' | 'jpg' | 'svg' | 'pdf' | 'pptx') => void;
+    setFormat: (format: ExportFormat) => void;
     resetSettings: () => void;
 
     // Image-specific settings
@@ -51,6 +54,9 @@ interface ExportActions {
     // SVG-specific settings
     setSVGSettings: (settings: Partial<SVGExportSettings>) => void;
 
+    // Video/GIF-specific settings
+    setVideoSettings: (settings: Partial<VideoExportSettings>) => void;
+
     // Progress management
     setProgress: (progress: Partial<ExportProgress>) => void;
     resetProgress: () => void;
@@ -97,7 +103,7 @@ export const useExportStore = create<ExportStore>()(
             });
         },
 
-        setFormat: (format: 'png' | 'jpg' | 'svg' | 'pdf' | 'pptx') => {
+        setFormat: (format: ExportFormat) => {
             set((state) => {
                 switch (format) {
                     case 'png':
@@ -115,6 +121,11 @@ export const useExportStore = create<ExportStore>()(
                     case 'pptx':
                         state.settings = createDefaultPPTXExportSettings();
                         break;
+                    case 'mp4':
+                    case 'webm':
+                    case 'gif':
+                        state.settings = createDefaultVideoExportSettings(format);
+                        break;
                 }
             });
         },
@@ -170,6 +181,17 @@ export const useExportStore = create<ExportStore>()(
             });
         },
 
+        setVideoSettings: (settings: Partial<VideoExportSettings>) => {
+            set((state) => {
+                if (state.settings.format === 'mp4' || state.settings.format === 'webm' || state.settings.format === 'gif') {
+                    state.settings = {
+                        ...state.settings,
+                        ...settings
+                    } as VideoExportSettings;
+                }
+            });
+        },
+
         // Progress management
         setProgress: (progress: Partial<ExportProgress>) => {
             set((state) => {
@@ -1,16 +1,20 @@
 // History Store
-// Undo/Redo state management using Zustand
+// Undo/Redo state management using Zustand, with entries stored as structural patches
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
+import type { KeyboardEvent as ReactKeyboardEvent, PointerEvent as ReactPointerEvent } from 'react';
 import { Project } from '@/types/project';
+import { PatchDirection, ProjectPatch } from '@/types/history';
+import { applyProjectPatch, diffProjects, getPatchedElementIds, getPatchedPageIds } from '@/engine/history';
+import { getFabricCanvas } from '@/engine/fabric/FabricCanvas';
 import { useEditorStore } from './editorStore';
 
-interface HistoryEntry {
+export interface HistoryEntry {
     id: string;
     timestamp: number;
     label: string;
-    projectSnapshot: string; // Serialized project JSON
+    patch: ProjectPatch; // What the entry changed, sharing values with the project
 }
 
 interface HistoryState {
@@ -19,12 +23,19 @@ interface HistoryState {
     maxHistorySize: number;
     isUndoing: boolean;
     isRedoing: boolean;
+    transaction: string | null; // Label of the gesture being grouped into one entry
 }
 
 interface HistoryActions {
     // State capture
     pushState: (label: string) => void;
 
+    // Transactions: everything between begin and commit becomes one entry.
+    // Begin returns an id to end it with, or null when another transaction is already open.
+    beginTransaction: (label: string) => number | null;
+    commitTransaction: (id?: number) => void;
+    abortTransaction: (id?: number) => void;
+
     // Navigation
     undo: () => void;
     redo: () => void;
@@ -34,7 +45,7 @@ interface HistoryActions {
     canRedo: () => boolean;
     clear: () => void;
     getHistory: () => HistoryEntry[];
-    jumpToState: (entryId: string) => void;
+    jumpToState: (entryId: string | null) => void; // null goes back to before the first entry
 
     // Configuration
     setMaxHistorySize: (size: number) => void;
@@ -42,6 +53,69 @@ interface HistoryActions {
 
 export type HistoryStore = HistoryState & HistoryActions;
 
+// Project as of the latest entry; the next entry is the diff from it
+let present: Project | null = null;
+
+// Project when the open transaction began; aborting returns to it
+let transactionBase: Project | null = null;
+
+// Id of the latest transaction, so its owner can end it without ending someone else's
+let transactionId = 0;
+
+// Label for edits that were never pushed, such as moves, when undo picks them up
+const PENDING_LABEL = 'Edit';
+
+const createEntry = (label: string, patch: ProjectPatch): HistoryEntry => ({
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    label,
+    patch,
+});
+
+/**
+ * Bring the editor to one side of some patches, in order, and update only what they touched on the canvas
+ */
+const applyPatches = (patches: ProjectPatch[], direction: PatchDirection): Project | null => {
+    const editorStore = useEditorStore.getState();
+    const current = editorStore.project;
+    if (!current || patches.length === 0) return current;
+
+    let next = patches.reduce((project, patch) => applyProjectPatch(project, patch, direction), current);
+
+    // Show the page that changed when the edit was on another one
+    const pageIds = patches.flatMap(patch => getPatchedPageIds(patch));
+    const changedPage = pageIds.find(pageId => next.pages.some(page => page.id === pageId));
+    if (changedPage && !pageIds.includes(next.activePageId)) {
+        next = { ...next, activePageId: changedPage };
+    }
+
+    editorStore.loadProject(next);
+    editorStore.markAsChanged();
+
+    // A new active page or page size reloads the whole page from CanvasStage instead
+    const previousPage = current.pages.find(p => p.id === current.activePageId);
+    const page = next.pages.find(p => p.id === next.activePageId);
+    if (!page || !previousPage || page.id !== previousPage.id ||
+        page.width !== previousPage.width || page.height !== previousPage.height) {
+        return next;
+    }
+
+    const ids = [...new Set(patches.flatMap(patch => getPatchedElementIds(patch, page.id)))];
+    if (ids.length > 0) {
+        getFabricCanvas().syncElements(page, ids)
+            .catch(error => console.error('Failed to update the canvas after undo/redo:', error));
+    }
+    return next;
+};
+
+/**
+ * Undo or redo whole entries, leaving the project where they put it
+ */
+const applyEntries = (entries: HistoryEntry[], direction: PatchDirection): void => {
+    if (entries.length === 0) return;
+    present = applyPatches(entries.map(entry => entry.patch), direction);
+};
+
 export const useHistoryStore = create<HistoryStore>()(
     immer((set, get) => ({
         // Initial state
@@ -50,6 +124,7 @@ export const useHistoryStore = create<HistoryStore>()(
         maxHistorySize: 50,
         isUndoing: false,
         isRedoing: false,
+        transaction: null,
 
         // State capture
         pushState: (label: string) => {
@@ -57,18 +132,27 @@ export const useHistoryStore = create<HistoryStore>()(
             const project = editorStore.project;
             if (!project) return;
 
-            // Don't push state during undo/redo operations
-            if (get().isUndoing || get().isRedoing) return;
+            // Don't push state during undo/redo operations, or part way through a transaction
+            if (get().isUndoing || get().isRedoing || get().transaction) return;
+
+            // The first state of a project is where its history starts
+            if (!present || present.id !== project.id) {
+                present = project;
+                set((state) => {
+                    state.past = [];
+                    state.future = [];
+                });
+                return;
+            }
 
-            const entry: HistoryEntry = {
-                id: crypto.randomUUID(),
-                timestamp: Date.now(),
-                label,
-                projectSnapshot: JSON.stringify(project),
-            };
+            const patch = diffProjects(present, project);
+            present = project;
+            if (!patch) return;
+
+            const entry = createEntry(label, patch);
 
             set((state) => {
-                // Add current state to past
+                // Add the change to past
                 state.past.push(entry);
 
                 // Trim history if it exceeds max size
@@ -81,37 +165,62 @@ export const useHistoryStore = create<HistoryStore>()(
             });
         },
 
+        // Transactions
+        beginTransaction: (label: string) => {
+            // A gesture inside another one belongs to the outer entry
+            if (get().transaction) return null;
+
+            transactionBase = useEditorStore.getState().project;
+            set((state) => {
+                state.transaction = label;
+            });
+            return ++transactionId;
+        },
+
+        commitTransaction: (id?: number) => {
+            const label = get().transaction;
+            if (!label || (id !== undefined && id !== transactionId)) return;
+
+            transactionBase = null;
+            set((state) => {
+                state.transaction = null;
+            });
+            get().pushState(label);
+        },
+
+        abortTransaction: (id?: number) => {
+            if (!get().transaction || (id !== undefined && id !== transactionId)) return;
+
+            // Put back what the gesture changed; earlier unpushed edits stay
+            const project = useEditorStore.getState().project;
+            const patch = transactionBase && project ? diffProjects(transactionBase, project) : null;
+            transactionBase = null;
+            set((state) => {
+                state.transaction = null;
+            });
+            if (patch) applyPatches([patch], 'before');
+        },
+
         // Navigation
         undo: () => {
+            // Edits that were never pushed are undone first
+            get().commitTransaction();
+            get().pushState(PENDING_LABEL);
+
             const { past } = get();
             if (past.length === 0) return;
 
-            const editorStore = useEditorStore.getState();
-            const currentProject = editorStore.project;
-            if (!currentProject) return;
+            const entry = past[past.length - 1];
 
             set((state) => {
                 state.isUndoing = true;
             });
 
-            // Save current state to future
-            const currentEntry: HistoryEntry = {
-                id: crypto.randomUUID(),
-                timestamp: Date.now(),
-                label: 'Current',
-                projectSnapshot: JSON.stringify(currentProject),
-            };
-
-            // Get the previous state
-            const previousEntry = past[past.length - 1];
-            const previousProject: Project = JSON.parse(previousEntry.projectSnapshot);
-
-            // Restore previous state
-            editorStore.loadProject(previousProject);
+            applyEntries([entry], 'before');
 
             set((state) => {
-                // Move current to future
-                state.future.unshift(currentEntry);
+                // Move the entry to future
+                state.future.unshift(entry);
                 // Remove from past
                 state.past.pop();
                 state.isUndoing = false;
@@ -119,35 +228,29 @@ export const useHistoryStore = create<HistoryStore>()(
         },
 
         redo: () => {
+            get().commitTransaction();
+
             const { future } = get();
             if (future.length === 0) return;
 
-            const editorStore = useEditorStore.getState();
-            const currentProject = editorStore.project;
-            if (!currentProject) return;
+            // Edits since the last undo replace what could be redone
+            const project = useEditorStore.getState().project;
+            if (present && project && diffProjects(present, project)) {
+                get().pushState(PENDING_LABEL);
+                return;
+            }
+
+            const entry = future[0];
 
             set((state) => {
                 state.isRedoing = true;
             });
 
-            // Save current state to past
-            const currentEntry: HistoryEntry = {
-                id: crypto.randomUUID(),
-                timestamp: Date.now(),
-                label: 'Current',
-                projectSnapshot: JSON.stringify(currentProject),
-            };
-
-            // Get the next state
-            const nextEntry = future[0];
-            const nextProject: Project = JSON.parse(nextEntry.projectSnapshot);
-
-            // Restore next state
-            editorStore.loadProject(nextProject);
+            applyEntries([entry], 'after');
 
             set((state) => {
-                // Move current to past
-                state.past.push(currentEntry);
+                // Move the entry to past
+                state.past.push(entry);
                 // Remove from future
                 state.future.shift();
                 state.isRedoing = false;
@@ -164,9 +267,12 @@ export const useHistoryStore = create<HistoryStore>()(
         },
 
         clear: () => {
+            present = null;
+            transactionBase = null;
             set((state) => {
                 state.past = [];
                 state.future = [];
+                state.transaction = null;
             });
         },
 
@@ -174,35 +280,46 @@ export const useHistoryStore = create<HistoryStore>()(
             return get().past;
         },
 
-        jumpToState: (entryId: string) => {
-            const { past } = get();
-            const entryIndex = past.findIndex(e => e.id === entryId);
-            if (entryIndex === -1) return;
-
-            const entry = past[entryIndex];
-            const project: Project = JSON.parse(entry.projectSnapshot);
-
-            const editorStore = useEditorStore.getState();
-            const currentProject = editorStore.project;
-            if (!currentProject) return;
-
-            // Save current and all states after target to future
-            const currentEntry: HistoryEntry = {
-                id: crypto.randomUUID(),
-                timestamp: Date.now(),
-                label: 'Current',
-                projectSnapshot: JSON.stringify(currentProject),
-            };
-
-            const statesAfter = past.slice(entryIndex + 1);
-
-            // Restore target state
-            editorStore.loadProject(project);
-
-            set((state) => {
-                state.future = [currentEntry, ...statesAfter.reverse(), ...state.future];
-                state.past = past.slice(0, entryIndex);
-            });
+        jumpToState: (entryId: string | null) => {
+            get().commitTransaction();
+            get().pushState(PENDING_LABEL);
+
+            const { past, future } = get();
+            const pastIndex = entryId === null ? -1 : past.findIndex(e => e.id === entryId);
+            const futureIndex = entryId === null ? -1 : future.findIndex(e => e.id === entryId);
+
+            if (entryId === null || pastIndex !== -1) {
+                // Undo every entry after the target, newest first
+                const statesAfter = past.slice(pastIndex + 1).reverse();
+                if (statesAfter.length === 0) return;
+
+                set((state) => {
+                    state.isUndoing = true;
+                });
+
+                applyEntries(statesAfter, 'before');
+
+                set((state) => {
+                    state.future = [...statesAfter, ...state.future];
+                    state.past = past.slice(0, pastIndex + 1);
+                    state.isUndoing = false;
+                });
+            } else if (futureIndex !== -1) {
+                // Redo up to and including the target
+                const statesBefore = future.slice(0, futureIndex + 1);
+
+                set((state) => {
+                    state.isRedoing = true;
+                });
+
+                applyEntries(statesBefore, 'after');
+
+                set((state) => {
+                    state.past = [...past, ...statesBefore];
+                    state.future = future.slice(futureIndex + 1);
+                    state.isRedoing = false;
+                });
+            }
         },
 
         // Configuration
@@ -218,6 +335,47 @@ export const useHistoryStore = create<HistoryStore>()(
     }))
 );
 
+// Keys that change a range input's value
+const SLIDER_KEYS = new Set(['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'PageUp', 'PageDown', 'Home', 'End']);
+
+// Range inputs with a gesture in progress
+const activeSliders = new WeakSet<HTMLInputElement>();
+
+/**
+ * Event props that make each drag or key press on a range input one history entry.
+ * The gesture ends on release anywhere in the window, a committed change or lost focus; onEnd then runs once.
+ */
+export const getSliderHistoryProps = (label: string, onEnd?: () => void) => {
+    const begin = (input: HTMLInputElement) => {
+        if (activeSliders.has(input)) return;
+
+        const id = useHistoryStore.getState().beginTransaction(label);
+        const end = () => {
+            window.removeEventListener('pointerup', end);
+            window.removeEventListener('pointercancel', end);
+            input.removeEventListener('change', end);
+            input.removeEventListener('blur', end);
+            activeSliders.delete(input);
+
+            if (id !== null) useHistoryStore.getState().commitTransaction(id);
+            onEnd?.();
+        };
+
+        activeSliders.add(input);
+        window.addEventListener('pointerup', end);
+        window.addEventListener('pointercancel', end);
+        input.addEventListener('change', end);
+        input.addEventListener('blur', end);
+    };
+
+    return {
+        onPointerDown: (e: ReactPointerEvent<HTMLInputElement>) => begin(e.currentTarget),
+        onKeyDown: (e: ReactKeyboardEvent<HTMLInputElement>) => {
+            if (SLIDER_KEYS.has(e.key)) begin(e.currentTarget);
+        },
+    };
+};
+
 // Hook for keyboard shortcuts
 export const useHistoryShortcuts = () => {
     const undo = useHistoryStore((state) => state.undo);
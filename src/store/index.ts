@@ -8,7 +8,10 @@ export { useCanvasStore, useSelectedIds, useIsSelected } from './canvasStore';
 export type { CanvasStore } from './canvasStore';
 
 export { useHistoryStore, useHistoryShortcuts } from './historyStore';
-export type { HistoryStore } from './historyStore';
+export type { HistoryStore, HistoryEntry } from './historyStore';
 
 export { useExportStore, useExportProgress, useExportSettings, useIsExporting } from './exportStore';
 export type { ExportStore } from './exportStore';
+
+export { useTimelineStore, useTimelineOpen, MIN_TRACK_DURATION } from './timelineStore';
+export type { TimelineStore, PreviewSource } from './timelineStore';
@@ -0,0 +1,260 @@
+// Timeline Store
+// Page animation timeline editing and playback state using Zustand
+
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { AnimationTimeline, ElementAnimation, TimelineTrack } from '@/types/animation';
+import { Page } from '@/types/project';
+import { getAnimationPlayer } from '@/engine/animation/AnimationPlayer';
+import { resolvePageTimeline } from '@/engine/animation/AnimationEngine';
+import { useEditorStore } from './editorStore';
+import { useHistoryStore } from './historyStore';
+
+// Shortest track / timeline the editor allows (ms)
+export const MIN_TRACK_DURATION = 100;
+const MIN_PIXELS_PER_SECOND = 20;
+const MAX_PIXELS_PER_SECOND = 400;
+
+// What the animation player currently has loaded
+export type PreviewSource = 'page' | 'selection' | null;
+
+interface TimelineState {
+    isOpen: boolean;
+    previewSource: PreviewSource;
+    isPlaying: boolean;
+    currentTime: number;
+    duration: number; // length of the loaded preview
+    pixelsPerSecond: number;
+    snapEnabled: boolean;
+}
+
+interface TimelineActions {
+    // Panel actions
+    toggleTimeline: () => void;
+    setPixelsPerSecond: (pixelsPerSecond: number) => void;
+    toggleSnap: () => void;
+
+    // Editing (live; call commitTimeline when an interaction ends)
+    getTimeline: () => AnimationTimeline | null;
+    setTrackTiming: (elementId: string, timing: Partial<Omit<TimelineTrack, 'elementId'>>) => void;
+    setTotalDuration: (duration: number) => void;
+    commitTimeline: (label: string) => void;
+
+    // Playback
+    loadPage: () => boolean;
+    loadPreview: (animations: ElementAnimation[]) => boolean;
+    play: () => void;
+    pause: () => void;
+    stop: () => void;
+    seek: (time: number) => void;
+    resetPreview: () => void;
+}
+
+export type TimelineStore = TimelineState & TimelineActions;
+
+// Helper to get the active page
+const getActivePage = (): Page | null => {
+    const project = useEditorStore.getState().project;
+    if (!project) return null;
+    return project.pages.find(p => p.id === project.activePageId) ?? null;
+};
+
+// Helper to write the active page timeline
+const updateActivePageTimeline = (updater: (timeline: AnimationTimeline) => AnimationTimeline) => {
+    const page = getActivePage();
+    if (!page) return;
+
+    useEditorStore.getState().updatePage(page.id, {
+        timeline: updater(resolvePageTimeline(page)),
+    });
+};
+
+export const useTimelineStore = create<TimelineStore>()(
+    immer((set, get) => {
+        // Route player callbacks into the store
+        const bindPlayer = () => {
+            const player = getAnimationPlayer();
+            player.onTimeUpdate = (time, duration) => {
+                set((state) => {
+                    state.currentTime = time;
+                    state.duration = duration;
+                });
+            };
+            player.onPlayStateChange = (isPlaying) => {
+                set((state) => {
+                    state.isPlaying = isPlaying;
+                });
+            };
+            return player;
+        };
+
+        // Re-render the current frame after an edit while previewing
+        const refreshPreview = () => {
+            const player = getAnimationPlayer();
+            if (get().previewSource !== 'page' || !player.isPreviewing()) return;
+
+            const time = get().currentTime;
+            if (get().loadPage()) {
+                player.seek(time);
+            }
+        };
+
+        return {
+            // Initial state
+            isOpen: false,
+            previewSource: null,
+            isPlaying: false,
+            currentTime: 0,
+            duration: 0,
+            pixelsPerSecond: 100,
+            snapEnabled: true,
+
+            // Panel actions
+            toggleTimeline: () => {
+                if (get().isOpen) {
+                    get().resetPreview();
+                }
+                set((state) => {
+                    state.isOpen = !state.isOpen;
+                });
+            },
+
+            setPixelsPerSecond: (pixelsPerSecond: number) => {
+                set((state) => {
+                    state.pixelsPerSecond = Math.min(
+                        Math.max(pixelsPerSecond, MIN_PIXELS_PER_SECOND),
+                        MAX_PIXELS_PER_SECOND
+                    );
+                });
+            },
+
+            toggleSnap: () => {
+                set((state) => {
+                    state.snapEnabled = !state.snapEnabled;
+                });
+            },
+
+            // Editing
+            getTimeline: () => {
+                const page = getActivePage();
+                return page ? resolvePageTimeline(page) : null;
+            },
+
+            setTrackTiming: (elementId: string, timing: Partial<Omit<TimelineTrack, 'elementId'>>) => {
+                updateActivePageTimeline((timeline) => ({
+                    ...timeline,
+                    tracks: timeline.tracks.map((track) => {
+                        if (track.elementId !== elementId) return track;
+
+                        const startTime = Math.min(
+                            Math.max(0, timing.startTime ?? track.startTime),
+                            timeline.totalDuration - MIN_TRACK_DURATION
+                        );
+
+                        // Moving keeps the duration and stops at the page end
+                        if (timing.duration === undefined) {
+                            return {
+                                ...track,
+                                startTime: Math.max(0, Math.min(startTime, timeline.totalDuration - track.duration)),
+                            };
+                        }
+
+                        return {
+                            ...track,
+                            startTime,
+                            duration: Math.min(
+                                Math.max(MIN_TRACK_DURATION, timing.duration),
+                                timeline.totalDuration - startTime
+                            ),
+                        };
+                    }),
+                }));
+                refreshPreview();
+            },
+
+            setTotalDuration: (duration: number) => {
+                updateActivePageTimeline((timeline) => {
+                    const totalDuration = Math.max(MIN_TRACK_DURATION, duration);
+                    return {
+                        ...timeline,
+                        totalDuration,
+                        tracks: timeline.tracks.map((track) => {
+                            // Full-length tracks follow the page length
+                            if (track.startTime === 0 && track.duration === timeline.totalDuration) {
+                                return { ...track, duration: totalDuration };
+                            }
+                            const startTime = Math.min(track.startTime, totalDuration - MIN_TRACK_DURATION);
+                            return {
+                                ...track,
+                                startTime,
+                                duration: Math.min(track.duration, totalDuration - startTime),
+                            };
+                        }),
+                    };
+                });
+                refreshPreview();
+            },
+
+            commitTimeline: (label: string) => {
+                // Use setTimeout to ensure state is updated before capturing
+                setTimeout(() => {
+                    useHistoryStore.getState().pushState(label);
+                }, 0);
+            },
+
+            // Playback
+            loadPage: () => {
+                const page = getActivePage();
+                if (!page || page.elements.length === 0) return false;
+
+                bindPlayer().loadPage(page);
+                set((state) => {
+                    state.previewSource = 'page';
+                });
+                return true;
+            },
+
+            loadPreview: (animations: ElementAnimation[]) => {
+                if (animations.length === 0) return false;
+                bindPlayer().load(animations);
+                set((state) => {
+                    state.previewSource = 'selection';
+                });
+                return true;
+            },
+
+            play: () => {
+                const player = bindPlayer();
+                if (!get().previewSource && !get().loadPage()) return;
+                player.play();
+            },
+
+            pause: () => {
+                getAnimationPlayer().pause();
+            },
+
+            stop: () => {
+                bindPlayer().stop();
+            },
+
+            seek: (time: number) => {
+                const player = bindPlayer();
+                if (!get().previewSource && !get().loadPage()) return;
+                player.pause();
+                player.seek(time);
+            },
+
+            resetPreview: () => {
+                bindPlayer().stop();
+                set((state) => {
+                    state.previewSource = null;
+                });
+            },
+        };
+    })
+);
+
+// Selector hooks
+export const useTimelineOpen = () => {
+    return useTimelineStore((state) => state.isOpen);
+};
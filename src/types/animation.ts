@@ -60,6 +60,9 @@ export interface ElementAnimation {
     custom?: AnimationKeyframes;
 }
 
+// Slots an element animation can occupy
+export type AnimationSlot = 'entrance' | 'exit' | 'emphasis';
+
 // Custom keyframe animation
 export interface AnimationKeyframe {
     offset: number; // 0 to 1
@@ -83,15 +86,18 @@ export interface AnimationKeyframes {
     iterations: number;
 }
 
+// Placement of an element on the page timeline
+export interface TimelineTrack {
+    elementId: string;
+    startTime: number; // in milliseconds from page start
+    duration: number; // how long the element stays on the page
+}
+
 // Animation timeline for page animations
 export interface AnimationTimeline {
     pageId: string;
     totalDuration: number;
-    animations: Array<{
-        elementId: string;
-        startTime: number;
-        animation: AnimationConfig;
-    }>;
+    tracks: TimelineTrack[];
 }
 
 // Preset animation configurations
@@ -115,6 +121,29 @@ export const createDefaultAnimationConfig = (): AnimationConfig => ({
     fillMode: 'forwards',
 });
 
+// Empty animation entry for an element
+export const createElementAnimation = (elementId: string): ElementAnimation => ({
+    elementId,
+    entrance: null,
+    exit: null,
+    emphasis: null,
+});
+
+// Check whether an element animation has anything to play
+export const hasElementAnimation = (animation: ElementAnimation): boolean => {
+    return !!(animation.entrance || animation.exit || animation.emphasis || animation.custom);
+};
+
+// Default page timeline length in milliseconds
+export const DEFAULT_TIMELINE_DURATION = 5000;
+
+// Empty timeline for a page
+export const createDefaultTimeline = (pageId: string): AnimationTimeline => ({
+    pageId,
+    totalDuration: DEFAULT_TIMELINE_DURATION,
+    tracks: [],
+});
+
 // Animation presets
 export const ANIMATION_PRESETS: AnimationPreset[] = [
     // Entrance animations
@@ -1,7 +1,7 @@
 // Canvas Element Type Definitions
 // Core types for all canvas elements in the design editor
 
-export type ElementType = 'text' | 'image' | 'shape' | 'svg' | 'group' | 'chart' | 'video';
+export type ElementType = 'text' | 'image' | 'shape' | 'path' | 'svg' | 'group' | 'chart' | 'video';
 
 export type ShapeType =
     | 'rectangle'
@@ -79,6 +79,45 @@ export interface TextStyle {
     textTransform: 'none' | 'uppercase' | 'lowercase' | 'capitalize';
 }
 
+// Character styles a range of text can override
+export interface TextRunStyle {
+    fontFamily?: string;
+    fontSize?: number;
+    fontWeight?: TextStyle['fontWeight'];
+    fontStyle?: TextStyle['fontStyle'];
+    fill?: string;
+    underline?: boolean;
+}
+
+// A styled range of text; offsets count characters (graphemes) in content, newlines included
+export interface TextRun {
+    start: number;
+    end: number; // exclusive
+    style: TextRunStyle;
+}
+
+export type TextListType = 'bullet' | 'numbered';
+
+// List formatting for every paragraph of a text
+export interface TextList {
+    type: TextListType;
+    bullets: string[]; // Bullet glyph per nesting level, repeating for deeper levels
+    indent: number; // Per nesting level, in ems
+    levels: number[]; // Nesting level per paragraph (line of content)
+}
+
+// How a text box is sized: to its content, to a fixed width its lines wrap at, or to a fixed
+// box its font shrinks to fit
+export type TextSizing = 'auto' | 'wrap' | 'shrink';
+
+// An element outline that text runs along
+export interface TextPath {
+    elementId: string; // Circle or path element the text follows
+    pathData: string; // Its outline on the page, kept in step as it moves
+    position: number; // 0-100: where along the outline the text is centered
+    flip: boolean; // Run the text the other way, on the other side of the outline
+}
+
 export interface TextEffect {
     type: 'none' | 'shadow' | 'outline' | 'glow' | 'neon' | 'lift';
     color?: string;
@@ -90,10 +129,18 @@ export interface TextElement extends BaseElement {
     type: 'text';
     content: string;
     textStyle: TextStyle;
+    runs?: TextRun[]; // Overrides of textStyle and fill, in content order
+    list?: TextList | null;
+    curve?: number; // -100 to 100: bends the text along an arc, arching up when positive
+    textPath?: TextPath | null; // Takes precedence over curve
+    sizing?: TextSizing; // Defaults to auto; wrap uses transform.width, shrink the width and height
     effect: TextEffect;
     editable: boolean;
 }
 
+// The parts of a text element that editing it in place changes
+export type TextContent = Pick<TextElement, 'content' | 'runs' | 'list'>;
+
 // Image element specific properties
 export interface ImageFilter {
     brightness: number; // -100 to 100
@@ -116,6 +163,18 @@ export interface ImageFilter {
     filterPreset: string | null; // e.g., 'fresco', 'bali', 'nordic', etc.
 }
 
+// Preset families with their own pixel processing
+export type FilterFamily = 'natural' | 'warm' | 'cool' | 'vivid' | 'soft' | 'vintage' | 'mono' | 'colorpop';
+
+// One preset in an image's filter stack, applied over the steps before it
+export interface FilterStep {
+    id: string;
+    presetId: string; // e.g., 'bali', 'noir'
+    family: FilterFamily;
+    intensity: number; // 0-100, blend with the image before this step
+    params?: Record<string, number>; // Overrides of the preset's own values
+}
+
 export interface CropData {
     x: number;
     y: number;
@@ -137,6 +196,7 @@ export interface ImageElement extends BaseElement {
     src: string;
     originalSrc: string;
     filters: ImageFilter;
+    filterStack?: FilterStep[]; // Rendered in order from originalSrc; src stays unfiltered while it has steps
     crop: CropData | null;
     colorReplace: ColorReplaceEffect | null;
     crossOrigin: 'anonymous' | 'use-credentials' | null;
@@ -153,6 +213,32 @@ export interface ShapeElement extends BaseElement {
     innerRadius?: number; // for stars
 }
 
+// Freehand brushes
+export type BrushType = 'pen' | 'marker' | 'highlighter';
+
+// Sampled input point; pressure runs 0-1 (0.5 for mice and touch)
+export interface PathPoint {
+    x: number;
+    y: number;
+    pressure: number;
+}
+
+// The input a freehand path was generated from
+export interface FreehandStroke {
+    brush: BrushType;
+    points: PathPoint[]; // In the element's local coordinates
+    size: number; // Nominal stroke width at half pressure
+    thinning: number; // 0-1, how much pressure changes the width
+    smoothing: number; // 0-1, how much input jitter is smoothed out
+}
+
+// Path element: freehand strokes and drawn vector paths
+export interface PathElement extends BaseElement {
+    type: 'path';
+    pathData: string; // SVG path data, origin at the element's top-left
+    freehand?: FreehandStroke;
+}
+
 // SVG element specific properties
 export interface SVGElement extends BaseElement {
     type: 'svg';
@@ -180,6 +266,7 @@ export type CanvasElement =
     | TextElement
     | ImageElement
     | ShapeElement
+    | PathElement
     | SVGElement
     | GroupElement
     | ChartElement;
@@ -220,6 +307,15 @@ export const createDefaultTextStyle = (): TextStyle => ({
     textTransform: 'none',
 });
 
+export const DEFAULT_BULLET_GLYPHS = ['•', '◦', '▪'];
+
+export const createDefaultTextList = (type: TextListType, paragraphCount: number): TextList => ({
+    type,
+    bullets: [...DEFAULT_BULLET_GLYPHS],
+    indent: 1.6,
+    levels: Array.from({ length: paragraphCount }, () => 0),
+});
+
 export const createDefaultImageFilter = (): ImageFilter => ({
     brightness: 0,
     contrast: 0,
@@ -0,0 +1,68 @@
+// Drawing Type Definitions
+// Freehand and pen tool settings, brush presets, editable path nodes and boolean operations
+
+import { BrushType } from './canvas';
+
+export type DrawingTool = BrushType | 'eraser';
+
+export interface BrushPreset {
+    size: number;
+    thinning: number;
+    smoothing: number;
+    opacity: number;
+    color: string;
+}
+
+export interface DrawingSettings {
+    tool: DrawingTool;
+    color: string;
+    size: number;
+    smoothing: number;
+    opacity: number;
+    eraserSize: number;
+}
+
+export const BRUSH_PRESETS: Record<BrushType, BrushPreset> = {
+    pen: { size: 4, thinning: 0.3, smoothing: 0.5, opacity: 1, color: '#1a1a1a' },
+    marker: { size: 12, thinning: 0.6, smoothing: 0.6, opacity: 1, color: '#2563eb' },
+    highlighter: { size: 24, thinning: 0, smoothing: 0.7, opacity: 0.4, color: '#facc15' },
+};
+
+export const DEFAULT_DRAWING_SETTINGS: DrawingSettings = {
+    tool: 'pen',
+    color: BRUSH_PRESETS.pen.color,
+    size: BRUSH_PRESETS.pen.size,
+    smoothing: BRUSH_PRESETS.pen.smoothing,
+    opacity: BRUSH_PRESETS.pen.opacity,
+    eraserSize: 20,
+};
+
+// Anchor of an editable vector path; handles are absolute, null for a sharp side
+export interface PathNode {
+    x: number;
+    y: number;
+    handleIn: { x: number; y: number } | null;
+    handleOut: { x: number; y: number } | null;
+}
+
+// One subpath of a vector path
+export interface PathContour {
+    nodes: PathNode[];
+    closed: boolean;
+}
+
+export const DEFAULT_PEN_STYLE = {
+    stroke: '#1a1a1a',
+    strokeWidth: 2,
+    fill: '#4A90D9', // Closed paths only
+};
+
+// Boolean path operations on overlapping shapes
+export type BooleanOperation = 'union' | 'subtract' | 'intersect' | 'exclude';
+
+export const BOOLEAN_OPERATION_LABELS: Record<BooleanOperation, string> = {
+    union: 'Union',
+    subtract: 'Subtract',
+    intersect: 'Intersect',
+    exclude: 'Exclude',
+};
@@ -1,12 +1,17 @@
 // Export Type Definitions
 // Types for all export formats and settings
 
-export type ExportFormat = 'png' | 'jpg' | 'svg' | 'pdf' | 'pptx';
+export type ExportFormat = 'png' | 'jpg' | 'svg' | 'pdf' | 'pptx' | 'mp4' | 'webm' | 'gif';
+
+export type VideoFormat = 'mp4' | 'webm' | 'gif';
 
 export type ImageQuality = 'low' | 'medium' | 'high' | 'maximum';
 
 export type PDFColorSpace = 'rgb' | 'cmyk';
 
+// 'native' builds editable text/shapes/images (other elements become pictures), 'image' places one screenshot per slide
+export type PPTXMode = 'native' | 'image';
+
 // Base export settings
 export interface BaseExportSettings {
     format: ExportFormat;
@@ -49,17 +54,29 @@ export interface PDFExportSettings extends BaseExportSettings {
 // PPTX export settings
 export interface PPTXExportSettings extends BaseExportSettings {
     format: 'pptx';
+    mode: PPTXMode;
     slideSize: '16:9' | '4:3' | 'custom';
     embedFonts: boolean;
     preserveAnimations: boolean;
 }
 
+// Video and animated GIF export settings
+export interface VideoExportSettings extends BaseExportSettings {
+    format: VideoFormat;
+    fps: number;
+    duration: number | null; // in milliseconds, null = timeline length
+    loop: boolean; // Repeat the timeline to fill the duration; GIFs loop forever
+    quality: ImageQuality;
+    scale: number; // 1 = page size
+}
+
 // Union type for all export settings
 export type ExportSettings =
     | ImageExportSettings
     | SVGExportSettings
     | PDFExportSettings
-    | PPTXExportSettings;
+    | PPTXExportSettings
+    | VideoExportSettings;
 
 // Export progress tracking
 export interface ExportProgress {
@@ -71,6 +88,14 @@ export interface ExportProgress {
     error?: string;
 }
 
+// A color that will shift when converted for CMYK print
+export interface GamutWarning {
+    pageId: string;
+    elementId: string | null; // null = page background
+    property: 'fill' | 'stroke' | 'background';
+    color: string;
+}
+
 // Export result
 export interface ExportResult {
     success: boolean;
@@ -99,6 +124,14 @@ export const QUALITY_JPEG_MAP: Record<ImageQuality, number> = {
     maximum: 1,
 };
 
+// Quality to video bitrate mapping (bits per second at 1080p)
+export const QUALITY_VIDEO_BITRATE_MAP: Record<ImageQuality, number> = {
+    low: 2_500_000,
+    medium: 5_000_000,
+    high: 8_000_000,
+    maximum: 16_000_000,
+};
+
 // Default export settings factory
 export const createDefaultImageExportSettings = (
     format: 'png' | 'jpg' = 'png'
@@ -132,6 +165,7 @@ export const createDefaultPPTXExportSettings = (): PPTXExportSettings => ({
     format: 'pptx',
     filename: 'presentation',
     pages: 'all',
+    mode: 'native',
     slideSize: '16:9',
     embedFonts: true,
     preserveAnimations: false,
@@ -145,3 +179,16 @@ export const createDefaultSVGExportSettings = (): SVGExportSettings => ({
     embedImages: true,
     optimizePaths: true,
 });
+
+export const createDefaultVideoExportSettings = (
+    format: VideoFormat = 'mp4'
+): VideoExportSettings => ({
+    format,
+    filename: format === 'gif' ? 'animation' : 'video',
+    pages: 'current',
+    fps: format === 'gif' ? 15 : 30,
+    duration: null,
+    loop: format === 'gif',
+    quality: 'high',
+    scale: format === 'gif' ? 0.5 : 1,
+});
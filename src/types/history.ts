@@ -0,0 +1,40 @@
+// History Type Definitions
+// Structural patches that undo and redo apply to a project
+
+import { CanvasElement } from './canvas';
+import { Page, Project } from './project';
+
+// Which side of a patch to restore: undo goes back to before, redo forward to after
+export type PatchDirection = 'before' | 'after';
+
+// A value on both sides of a patch
+export interface PatchValues<T> {
+    before: T;
+    after: T;
+}
+
+// Page settings without its elements
+export type PageFields = Omit<Page, 'elements'>;
+
+// Project settings without its pages; the active page is navigation, not an edit
+export type ProjectFields = Omit<Project, 'pages' | 'activePageId'>;
+
+// One element, null on the side where it does not exist
+export interface ElementPatch extends PatchValues<CanvasElement | null> {
+    id: string;
+}
+
+// Changes to one page: its settings, the elements that changed and their order when it changed
+export interface PagePatch {
+    pageId: string;
+    fields: PatchValues<PageFields | null> | null; // null sides are where the page does not exist
+    elements: ElementPatch[];
+    elementOrder: PatchValues<string[]> | null;
+}
+
+// Everything one history entry changed; values are shared with the project, never copied
+export interface ProjectPatch {
+    fields: PatchValues<ProjectFields> | null;
+    pages: PagePatch[];
+    pageOrder: PatchValues<string[]> | null;
+}
@@ -6,3 +6,9 @@ export * from './project';
 export * from './template';
 export * from './export';
 export * from './animation';
+export * from './preflight';
+export * from './storage';
+export * from './drawing';
+export * from './snapping';
+export * from './layout';
+export * from './history';
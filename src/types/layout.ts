@@ -0,0 +1,9 @@
+// Layout Type Definitions
+// Alignment and distribution of selected elements
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// What elements line up with: the selection's bounds, the page, or one selected element that stays put
+export type AlignReference = 'selection' | 'page' | 'key';
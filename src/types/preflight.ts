@@ -0,0 +1,51 @@
+// Preflight Type Definitions
+// Print readiness checks run over a project's pages
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export type PreflightIssueType =
+    | 'low-resolution'
+    | 'text-in-bleed'
+    | 'text-outside-safe-area'
+    | 'hairline-stroke'
+    | 'missing-font'
+    | 'rgb-color';
+
+export interface PreflightIssue {
+    id: string;
+    type: PreflightIssueType;
+    severity: PreflightSeverity;
+    pageId: string;
+    elementId: string | null; // null = page-level issue (e.g. background)
+    message: string;
+}
+
+export interface PreflightOptions {
+    bleedMm: number; // Bleed beyond the trim edge, for pages without print settings
+    safeMarginMm: number; // Keep text this far inside the trim edge, for pages without print settings
+    minStrokeWidthPt: number; // Thinner strokes may not print
+    checkColors: boolean; // Flag colors that can't be reproduced in CMYK
+}
+
+export interface PreflightReport {
+    issues: PreflightIssue[];
+    pageCount: number;
+    checkedAt: number;
+}
+
+export const DEFAULT_PREFLIGHT_OPTIONS: PreflightOptions = {
+    bleedMm: 3,
+    safeMarginMm: 3,
+    minStrokeWidthPt: 0.25,
+    checkColors: true,
+};
+
+// Display labels for the report panel
+export const PREFLIGHT_ISSUE_LABELS: Record<PreflightIssueType, string> = {
+    'low-resolution': 'Low resolution',
+    'text-in-bleed': 'Text in bleed',
+    'text-outside-safe-area': 'Outside safe area',
+    'hairline-stroke': 'Hairline stroke',
+    'missing-font': 'Missing font',
+    'rgb-color': 'RGB-only color',
+};
@@ -2,6 +2,7 @@
 // Core types for project structure and page management
 
 import { CanvasElement } from './canvas';
+import { ElementAnimation, AnimationTimeline } from './animation';
 
 // Page preset categories
 export type PresetCategory =
@@ -46,6 +47,24 @@ export interface ImageBackground {
 
 export type PageBackground = SolidBackground | GradientBackground | ImageBackground;
 
+// Print layout for a page, in millimetres (converted to pixels with the page DPI)
+export interface PagePrintSettings {
+    bleed: number; // Background extends this far past the trim edge
+    safeMargin: number; // Keep important content this far inside the trim edge
+}
+
+export const DEFAULT_PAGE_PRINT_SETTINGS: PagePrintSettings = {
+    bleed: 3,
+    safeMargin: 3,
+};
+
+// Guide dragged out of a ruler, in page pixels
+export interface PageGuide {
+    id: string;
+    orientation: 'horizontal' | 'vertical'; // Horizontal guides sit at y = position
+    position: number;
+}
+
 // Single page in a project
 export interface Page {
     id: string;
@@ -54,7 +73,11 @@ export interface Page {
     height: number;
     dpi: number;
     background: PageBackground;
+    print?: PagePrintSettings; // Bleed and safe area; unset for screen designs
+    guides?: PageGuide[];
     elements: CanvasElement[];
+    animations: ElementAnimation[]; // One entry per animated element
+    timeline?: AnimationTimeline; // Element timing; elements without a track span the whole page
     thumbnail?: string; // Base64 thumbnail for preview
     createdAt: number;
     updatedAt: number;
@@ -275,7 +298,9 @@ export const createDefaultPage = (preset?: PagePreset): Page => {
         height: defaultPreset.height,
         dpi: defaultPreset.dpi,
         background: { type: 'solid', color: '#FFFFFF' },
+        print: defaultPreset.category === 'print' ? { ...DEFAULT_PAGE_PRINT_SETTINGS } : undefined,
         elements: [],
+        animations: [],
         createdAt: Date.now(),
         updatedAt: Date.now(),
     };
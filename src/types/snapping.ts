@@ -0,0 +1,13 @@
+// Snapping Type Definitions
+// Settings for smart guides and grid snapping while moving and resizing
+
+export interface SnapSettings {
+    snapToObjects: boolean; // Page and element edges, centers and equal spacing
+    snapToGrid: boolean;
+    gridSize: number; // Page units
+}
+
+// Screen pixels within which an edge or center snaps
+export const SNAP_THRESHOLD = 6;
+
+export const DEFAULT_GRID_SIZE = 10;
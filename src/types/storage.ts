@@ -0,0 +1,29 @@
+// Storage Type Definitions
+// Saved projects, recent-project entries and crash recovery
+
+import { Project } from './project';
+
+// Lightweight entry shown in the recent projects list
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    pageCount: number;
+    coverPageId: string | null; // Page whose thumbnail represents the project
+    savedAt: number;
+}
+
+// Snapshot of the working project, kept until it has been saved
+export interface RecoverySession {
+    project: Project;
+    savedAt: number;
+}
+
+export interface AutosaveOptions {
+    delay: number; // ms after the last change before saving the project
+    recoveryDelay: number; // ms after the last change before snapshotting for recovery
+}
+
+export const DEFAULT_AUTOSAVE_OPTIONS: AutosaveOptions = {
+    delay: 3000,
+    recoveryDelay: 500,
+};
@@ -1,6 +1,7 @@
 // Template Type Definitions
 // For JSON-based editable templates
 
+import { TextSizing } from './canvas';
 import { Page } from './project';
 
 export type TemplateCategory =
@@ -97,6 +98,9 @@ export interface TextPreset {
     textAlign: 'left' | 'center' | 'right';
     letterSpacing: number;
     lineHeight: number;
+    sizing: TextSizing;
+    width: number; // Box width for wrapped and shrink-to-fit text
+    height: number; // Box height for shrink-to-fit text
 }
 
 // Shape preset
@@ -125,6 +129,9 @@ export const DEFAULT_TEXT_PRESETS: TextPreset[] = [
         textAlign: 'left',
         letterSpacing: -0.5,
         lineHeight: 1.2,
+        sizing: 'auto',
+        width: 600,
+        height: 60,
     },
     {
         id: 'heading-2',
@@ -138,6 +145,9 @@ export const DEFAULT_TEXT_PRESETS: TextPreset[] = [
         textAlign: 'left',
         letterSpacing: 0,
         lineHeight: 1.3,
+        sizing: 'auto',
+        width: 500,
+        height: 45,
     },
     {
         id: 'body-text',
@@ -151,6 +161,9 @@ export const DEFAULT_TEXT_PRESETS: TextPreset[] = [
         textAlign: 'left',
         letterSpacing: 0,
         lineHeight: 1.6,
+        sizing: 'wrap',
+        width: 300,
+        height: 50,
     },
     {
         id: 'quote',
@@ -164,5 +177,8 @@ export const DEFAULT_TEXT_PRESETS: TextPreset[] = [
         textAlign: 'center',
         letterSpacing: 0.5,
         lineHeight: 1.5,
+        sizing: 'shrink',
+        width: 360,
+        height: 120,
     },
 ];
@@ -88,6 +88,129 @@ export function hslToRgb(h: number, s: number, l: number): { r: number; g: numbe
     };
 }
 
+/**
+ * Run color replacement over image pixels in place
+ */
+export function processColorReplacement(imageData: ImageData, effect: ColorReplaceEffect): void {
+    const { data } = imageData;
+
+    // Get target color in HSL
+    const targetRgb = hexToRgb(effect.targetColor);
+    if (!targetRgb) return;
+
+    const targetHsl = rgbToHsl(targetRgb.r, targetRgb.g, targetRgb.b);
+    const intensity = effect.intensity / 100;
+
+    // First pass: Analyze the image to find the dominant saturated color
+    // This helps us identify what is the "main object" vs background
+    const saturationThreshold = 20; // Minimum saturation to consider as "colorful object"
+    const lightnessMin = 20; // Too dark = shadow/background
+    const lightnessMax = 90; // Too light = highlight/background
+
+    // Process each pixel
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        const a = data[i + 3];
+
+        // Skip fully transparent pixels
+        if (a < 10) continue;
+
+        // Convert to HSL
+        const pixelHsl = rgbToHsl(r, g, b);
+
+        // Decision logic: Should we color this pixel?
+        // Key insight from Canva: Only color HIGH SATURATION pixels (the main object)
+        // Skip LOW SATURATION pixels (background, shadows, highlights)
+
+        let shouldColor = false;
+        let colorStrength = 0;
+
+        // Check if this is a colorful pixel (main object)
+        if (pixelHsl.s > saturationThreshold &&
+            pixelHsl.l > lightnessMin &&
+            pixelHsl.l < lightnessMax) {
+
+            // This is likely the main object (e.g., golden chicken)
+            shouldColor = true;
+
+            // Color strength based on saturation
+            // Higher saturation = stronger color application
+            colorStrength = Math.min(1, pixelHsl.s / 60); // Normalize to 0-1
+
+        } else if (pixelHsl.s > 10 && pixelHsl.l > 30 && pixelHsl.l < 80) {
+            // Medium saturation - apply color but less intensely
+            shouldColor = true;
+            colorStrength = Math.min(0.5, pixelHsl.s / 80);
+
+        } else {
+            // Low saturation or extreme lightness/darkness
+            // This is background, shadows, or highlights - don't color
+            continue;
+        }
+
+        if (!shouldColor) continue;
+
+        // Apply hue shift based on blend mode
+        let newHsl = { ...pixelHsl };
+
+        switch (effect.blendMode) {
+            case 'hue':
+                // Replace hue completely while preserving saturation and lightness
+                newHsl.h = targetHsl.h;
+
+                // Boost saturation slightly to make the color more vibrant
+                newHsl.s = Math.min(100, pixelHsl.s + (targetHsl.s - pixelHsl.s) * 0.4);
+
+                // Preserve lightness exactly to maintain texture
+                newHsl.l = pixelHsl.l;
+                break;
+
+            case 'multiply':
+                // Multiply mode - darker, richer colors
+                newHsl.h = targetHsl.h;
+                newHsl.s = Math.min(100, pixelHsl.s * 1.2);
+                newHsl.l = pixelHsl.l * 0.9; // Slightly darker
+                break;
+
+            case 'screen':
+                // Screen mode - lighter, more pastel colors
+                newHsl.h = targetHsl.h;
+                newHsl.s = pixelHsl.s * 0.8;
+                newHsl.l = pixelHsl.l + (100 - pixelHsl.l) * 0.2;
+                break;
+
+            case 'overlay':
+                // Overlay mode - enhanced contrast
+                newHsl.h = targetHsl.h;
+                if (pixelHsl.l < 50) {
+                    newHsl.l = pixelHsl.l * 0.95;
+                } else {
+                    newHsl.l = pixelHsl.l + (100 - pixelHsl.l) * 0.1;
+                }
+                break;
+        }
+
+        // Blend with original based on intensity and color strength
+        const finalIntensity = intensity * colorStrength;
+
+        const finalHsl = {
+            h: pixelHsl.h + (newHsl.h - pixelHsl.h) * finalIntensity,
+            s: Math.max(0, Math.min(100, pixelHsl.s + (newHsl.s - pixelHsl.s) * finalIntensity)),
+            l: Math.max(0, Math.min(100, newHsl.l)),
+        };
+
+        // Convert back to RGB
+        const newRgb = hslToRgb(finalHsl.h, finalHsl.s, finalHsl.l);
+
+        data[i] = newRgb.r;
+        data[i + 1] = newRgb.g;
+        data[i + 2] = newRgb.b;
+        // Keep original alpha
+    }
+}
+
 /**
  * Apply color replacement to an image using canvas
  * This creates a new image with the color replaced
@@ -114,126 +237,14 @@ export async function applyColorReplacement(
 
         // Get image data
         const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
 
-        // Get target color in HSL
-        const targetRgb = hexToRgb(effect.targetColor);
-        if (!targetRgb) {
+        // An unknown target color leaves the image as it is
+        if (!hexToRgb(effect.targetColor)) {
             resolve(imgElement.src);
             return;
         }
 
-        const targetHsl = rgbToHsl(targetRgb.r, targetRgb.g, targetRgb.b);
-        const intensity = effect.intensity / 100;
-
-        // First pass: Analyze the image to find the dominant saturated color
-        // This helps us identify what is the "main object" vs background
-        const saturationThreshold = 20; // Minimum saturation to consider as "colorful object"
-        const lightnessMin = 20; // Too dark = shadow/background
-        const lightnessMax = 90; // Too light = highlight/background
-
-        // Process each pixel
-        for (let i = 0; i < data.length; i += 4) {
-            const r = data[i];
-            const g = data[i + 1];
-            const b = data[i + 2];
-            const a = data[i + 3];
-
-            // Skip fully transparent pixels
-            if (a < 10) continue;
-
-            // Convert to HSL
-            const pixelHsl = rgbToHsl(r, g, b);
-
-            // Decision logic: Should we color this pixel?
-            // Key insight from Canva: Only color HIGH SATURATION pixels (the main object)
-            // Skip LOW SATURATION pixels (background, shadows, highlights)
-
-            let shouldColor = false;
-            let colorStrength = 0;
-
-            // Check if this is a colorful pixel (main object)
-            if (pixelHsl.s > saturationThreshold &&
-                pixelHsl.l > lightnessMin &&
-                pixelHsl.l < lightnessMax) {
-
-                // This is likely the main object (e.g., golden chicken)
-                shouldColor = true;
-
-                // Color strength based on saturation
-                // Higher saturation = stronger color application
-                colorStrength = Math.min(1, pixelHsl.s / 60); // Normalize to 0-1
-
-            } else if (pixelHsl.s > 10 && pixelHsl.l > 30 && pixelHsl.l < 80) {
-                // Medium saturation - apply color but less intensely
-                shouldColor = true;
-                colorStrength = Math.min(0.5, pixelHsl.s / 80);
-
-            } else {
-                // Low saturation or extreme lightness/darkness
-                // This is background, shadows, or highlights - don't color
-                continue;
-            }
-
-            if (!shouldColor) continue;
-
-            // Apply hue shift based on blend mode
-            let newHsl = { ...pixelHsl };
-
-            switch (effect.blendMode) {
-                case 'hue':
-                    // Replace hue completely while preserving saturation and lightness
-                    newHsl.h = targetHsl.h;
-
-                    // Boost saturation slightly to make the color more vibrant
-                    newHsl.s = Math.min(100, pixelHsl.s + (targetHsl.s - pixelHsl.s) * 0.4);
-
-                    // Preserve lightness exactly to maintain texture
-                    newHsl.l = pixelHsl.l;
-                    break;
-
-                case 'multiply':
-                    // Multiply mode - darker, richer colors
-                    newHsl.h = targetHsl.h;
-                    newHsl.s = Math.min(100, pixelHsl.s * 1.2);
-                    newHsl.l = pixelHsl.l * 0.9; // Slightly darker
-                    break;
-
-                case 'screen':
-                    // Screen mode - lighter, more pastel colors
-                    newHsl.h = targetHsl.h;
-                    newHsl.s = pixelHsl.s * 0.8;
-                    newHsl.l = pixelHsl.l + (100 - pixelHsl.l) * 0.2;
-                    break;
-
-                case 'overlay':
-                    // Overlay mode - enhanced contrast
-                    newHsl.h = targetHsl.h;
-                    if (pixelHsl.l < 50) {
-                        newHsl.l = pixelHsl.l * 0.95;
-                    } else {
-                        newHsl.l = pixelHsl.l + (100 - pixelHsl.l) * 0.1;
-                    }
-                    break;
-            }
-
-            // Blend with original based on intensity and color strength
-            const finalIntensity = intensity * colorStrength;
-
-            const finalHsl = {
-                h: pixelHsl.h + (newHsl.h - pixelHsl.h) * finalIntensity,
-                s: Math.max(0, Math.min(100, pixelHsl.s + (newHsl.s - pixelHsl.s) * finalIntensity)),
-                l: Math.max(0, Math.min(100, newHsl.l)),
-            };
-
-            // Convert back to RGB
-            const newRgb = hslToRgb(finalHsl.h, finalHsl.s, finalHsl.l);
-
-            data[i] = newRgb.r;
-            data[i + 1] = newRgb.g;
-            data[i + 2] = newRgb.b;
-            // Keep original alpha
-        }
+        processColorReplacement(imageData, effect);
 
         // Put modified image data back
         ctx.putImageData(imageData, 0, 0);
@@ -189,6 +189,57 @@ export const cmykToHex = (c: number, m: number, y: number, k: number): string =>
     return rgbToHex(rgb.r, rgb.g, rgb.b);
 };
 
+// Process colors on coated stock (approximate sRGB), ordered by hue: R, Y, G, C, B, M.
+// Together they bound how saturated a printed color of each hue can be.
+const PROCESS_PRIMARIES: RGB[] = [
+    { r: 237, g: 28, b: 36 },
+    { r: 255, g: 242, b: 0 },
+    { r: 0, g: 166, b: 81 },
+    { r: 0, g: 174, b: 239 },
+    { r: 46, g: 49, b: 146 },
+    { r: 236, g: 0, b: 140 },
+];
+
+/**
+ * Hue (0-360), chroma (0-1) and value (0-1) of an RGB color
+ */
+const getHueChroma = ({ r, g, b }: RGB): { hue: number; chroma: number; value: number } => {
+    const { h } = rgbToHsl(r, g, b);
+    const max = Math.max(r, g, b) / 255;
+    const min = Math.min(r, g, b) / 255;
+    return { hue: h, chroma: max - min, value: max };
+};
+
+/**
+ * Check whether an RGB color can be reproduced in CMYK print.
+ * The gamut is approximated by the chroma of the process primaries either side of the color's hue,
+ * scaled down for darker colors. `tolerance` is in chroma units (0-1).
+ */
+export const isInCmykGamut = (r: number, g: number, b: number, tolerance: number = 0.08): boolean => {
+    const color = getHueChroma({ r, g, b });
+    if (color.chroma <= tolerance) return true;
+
+    const primaries = PROCESS_PRIMARIES.map(getHueChroma);
+
+    // Find the primaries bracketing the hue (wrapping from magenta back to red)
+    let limit = primaries[0].chroma * Math.min(1, color.value / primaries[0].value);
+    for (let i = 0; i < primaries.length; i++) {
+        const from = primaries[i];
+        const to = primaries[(i + 1) % primaries.length];
+        const span = (to.hue - from.hue + 360) % 360;
+        const offset = (color.hue - from.hue + 360) % 360;
+        if (offset > span) continue;
+
+        const t = span === 0 ? 0 : offset / span;
+        const chroma = from.chroma + (to.chroma - from.chroma) * t;
+        const value = from.value + (to.value - from.value) * t;
+        limit = chroma * Math.min(1, color.value / value);
+        break;
+    }
+
+    return color.chroma <= limit + tolerance;
+};
+
 /**
  * Lighten a color
  */
@@ -286,6 +337,42 @@ export const parseColor = (color: string): string | null => {
     return null;
 };
 
+let colorContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Resolve any CSS color (named, hex, rgb(a), hsl(a)) to RGB plus alpha (0-1).
+ * Uses the browser's color parser, so it only works client-side.
+ */
+export const resolveCSSColor = (color: string): (RGB & { a: number }) | null => {
+    if (!color || color === 'transparent' || typeof document === 'undefined') return null;
+
+    colorContext ??= document.createElement('canvas').getContext('2d');
+    const context = colorContext;
+    if (!context) return null;
+
+    // Invalid colors leave fillStyle unchanged, so parse against two sentinels and compare
+    const parse = (sentinel: string): string => {
+        context.fillStyle = sentinel;
+        context.fillStyle = color;
+        return String(context.fillStyle);
+    };
+    const normalized = parse('#000000');
+    if (normalized !== parse('#ffffff')) return null;
+
+    const rgb = hexToRgb(normalized);
+    if (rgb) return { ...rgb, a: 1 };
+
+    const match = normalized.match(/rgba?\(\s*(\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\s*\)/);
+    if (!match) return null;
+
+    return {
+        r: Number(match[1]),
+        g: Number(match[2]),
+        b: Number(match[3]),
+        a: match[4] !== undefined ? Number(match[4]) : 1,
+    };
+};
+
 /**
  * Generate color palette
  */
@@ -85,6 +85,146 @@ export const COLOUR_POP_FILTERS: ColourPopFilter[] = [
     },
 ];
 
+/**
+ * Run the Colour Pop filter over image pixels in place
+ */
+export function processColourPopFilter(imageData: ImageData, filter: ColourPopFilter): void {
+    const data = imageData.data;
+
+    // Process each pixel
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i];
+        const g = data[i + 1];
+        const b = data[i + 2];
+        const a = data[i + 3];
+
+        // Skip transparent pixels
+        if (a < 10) continue;
+
+        // Convert to HSL
+        const hsl = rgbToHsl(r, g, b);
+
+        // STORE original lightness - we will NEVER modify this
+        const originalLightness = hsl.l;
+        const originalSaturation = hsl.s;
+
+        // Calculate influence based on saturation and lightness
+        // High saturation = main subject, low saturation = background/neutral
+        // Very dark or very bright = protected regions
+
+        // Subject detection - more subtle
+        const saturationFactor = Math.min(1, hsl.s / 40); // 0-1 based on saturation
+        const midtoneFactor = 1 - Math.abs(hsl.l - 50) / 50; // 1 at 50% lightness, 0 at extremes
+
+        // Combine factors - strong on saturated midtones, weak on dark/bright/neutral
+        let colorInfluence = saturationFactor * midtoneFactor;
+
+        // Protect very dark regions (background)
+        if (hsl.l < 15) colorInfluence *= 0.2;
+        // Protect very bright regions (highlights)
+        if (hsl.l > 90) colorInfluence *= 0.3;
+
+        let newHue = hsl.h;
+        let newSaturation = originalSaturation;
+
+        // Apply filter-specific hue remapping
+        switch (filter.effect) {
+            case 'duotone':
+                // Dual-tone: shadows get primary hue, highlights get secondary
+                const shadowWeight = 1 - (hsl.l / 100);
+                const highlightWeight = hsl.l / 100;
+
+                if (colorInfluence > 0.1) {
+                    // Blend between two hues based on lightness
+                    const targetHue = filter.secondaryHue !== undefined
+                        ? (filter.primaryHue * shadowWeight + filter.secondaryHue * highlightWeight)
+                        : filter.primaryHue;
+
+                    // Smooth hue shift
+                    newHue = hsl.h + (targetHue - hsl.h) * colorInfluence * 0.7;
+                    while (newHue < 0) newHue += 360;
+                    while (newHue >= 360) newHue -= 360;
+
+                    // Subtle saturation boost on colorful areas only
+                    newSaturation = Math.min(100, originalSaturation + filter.saturationBoost * colorInfluence * 0.5);
+                }
+                break;
+
+            case 'posterize':
+                // Reduce saturation for grayscale base, keep red accents
+                if (originalSaturation > 50 && (hsl.h < 30 || hsl.h > 330)) {
+                    // Keep reds saturated
+                    newSaturation = originalSaturation;
+                } else {
+                    // Desaturate other colors
+                    newSaturation = Math.max(0, originalSaturation + filter.saturationBoost);
+                }
+                // Keep original hue
+                newHue = hsl.h;
+                break;
+
+            case 'vintage':
+                // Subtle green/muted shift
+                if (colorInfluence > 0.1) {
+                    const hueShift = (filter.primaryHue - 180) * 0.15 * colorInfluence;
+                    newHue = hsl.h + hueShift;
+                    while (newHue < 0) newHue += 360;
+                    while (newHue >= 360) newHue -= 360;
+
+                    // Slightly muted
+                    newSaturation = Math.max(0, originalSaturation + filter.saturationBoost * colorInfluence);
+                }
+                break;
+
+            case 'crossprocess':
+                // Warm cross-processed look
+                if (colorInfluence > 0.1) {
+                    // Shift towards golden/warm
+                    const hueShift = (filter.primaryHue - hsl.h) * 0.25 * colorInfluence;
+                    newHue = hsl.h + hueShift;
+                    while (newHue < 0) newHue += 360;
+                    while (newHue >= 360) newHue -= 360;
+
+                    newSaturation = Math.min(100, originalSaturation + filter.saturationBoost * colorInfluence);
+                }
+                break;
+
+            default:
+                // Standard hue remap for non-effect filters (amethyst, minty, hibiscus)
+                if (colorInfluence > 0.1) {
+                    // Shift hue towards primary color
+                    let hueDistance = filter.primaryHue - hsl.h;
+                    // Take shortest path around color wheel
+                    if (hueDistance > 180) hueDistance -= 360;
+                    if (hueDistance < -180) hueDistance += 360;
+
+                    newHue = hsl.h + hueDistance * colorInfluence * 0.7;
+                    while (newHue < 0) newHue += 360;
+                    while (newHue >= 360) newHue -= 360;
+
+                    newSaturation = Math.min(100, originalSaturation + filter.saturationBoost * colorInfluence * 0.5);
+                }
+                break;
+        }
+
+        // Apply subtle contrast adjustment (without destroying lightness)
+        let finalLightness = originalLightness;
+        if (filter.contrast > 0) {
+            const contrastAmount = filter.contrast / 200; // Very subtle
+            finalLightness = 50 + (originalLightness - 50) * (1 + contrastAmount);
+            finalLightness = Math.max(0, Math.min(100, finalLightness));
+        }
+
+        // Convert back to RGB with PRESERVED (or subtly adjusted) lightness
+        const newRgb = hslToRgb(newHue, newSaturation, finalLightness);
+
+        data[i] = newRgb.r;
+        data[i + 1] = newRgb.g;
+        data[i + 2] = newRgb.b;
+        // Alpha unchanged
+    }
+}
+
 /**
  * Apply Colour Pop filter with FULL LUMINANCE PRESERVATION
  * Only modifies hue - preserves original lightness, shadows, highlights
@@ -112,140 +252,7 @@ export async function applyColourPopFilter(
         ctx.drawImage(imgElement, 0, 0, width, height);
 
         const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-
-        // Process each pixel
-        for (let i = 0; i < data.length; i += 4) {
-            const r = data[i];
-            const g = data[i + 1];
-            const b = data[i + 2];
-            const a = data[i + 3];
-
-            // Skip transparent pixels
-            if (a < 10) continue;
-
-            // Convert to HSL
-            const hsl = rgbToHsl(r, g, b);
-
-            // STORE original lightness - we will NEVER modify this
-            const originalLightness = hsl.l;
-            const originalSaturation = hsl.s;
-
-            // Calculate influence based on saturation and lightness
-            // High saturation = main subject, low saturation = background/neutral
-            // Very dark or very bright = protected regions
-
-            // Subject detection - more subtle
-            const saturationFactor = Math.min(1, hsl.s / 40); // 0-1 based on saturation
-            const midtoneFactor = 1 - Math.abs(hsl.l - 50) / 50; // 1 at 50% lightness, 0 at extremes
-
-            // Combine factors - strong on saturated midtones, weak on dark/bright/neutral
-            let colorInfluence = saturationFactor * midtoneFactor;
-
-            // Protect very dark regions (background)
-            if (hsl.l < 15) colorInfluence *= 0.2;
-            // Protect very bright regions (highlights)
-            if (hsl.l > 90) colorInfluence *= 0.3;
-
-            let newHue = hsl.h;
-            let newSaturation = originalSaturation;
-
-            // Apply filter-specific hue remapping
-            switch (filter.effect) {
-                case 'duotone':
-                    // Dual-tone: shadows get primary hue, highlights get secondary
-                    const shadowWeight = 1 - (hsl.l / 100);
-                    const highlightWeight = hsl.l / 100;
-
-                    if (colorInfluence > 0.1) {
-                        // Blend between two hues based on lightness
-                        const targetHue = filter.secondaryHue !== undefined
-                            ? (filter.primaryHue * shadowWeight + filter.secondaryHue * highlightWeight)
-                            : filter.primaryHue;
-
-                        // Smooth hue shift
-                        newHue = hsl.h + (targetHue - hsl.h) * colorInfluence * 0.7;
-                        while (newHue < 0) newHue += 360;
-                        while (newHue >= 360) newHue -= 360;
-
-                        // Subtle saturation boost on colorful areas only
-                        newSaturation = Math.min(100, originalSaturation + filter.saturationBoost * colorInfluence * 0.5);
-                    }
-                    break;
-
-                case 'posterize':
-                    // Reduce saturation for grayscale base, keep red accents
-                    if (originalSaturation > 50 && (hsl.h < 30 || hsl.h > 330)) {
-                        // Keep reds saturated
-                        newSaturation = originalSaturation;
-                    } else {
-                        // Desaturate other colors
-                        newSaturation = Math.max(0, originalSaturation + filter.saturationBoost);
-                    }
-                    // Keep original hue
-                    newHue = hsl.h;
-                    break;
-
-                case 'vintage':
-                    // Subtle green/muted shift
-                    if (colorInfluence > 0.1) {
-                        const hueShift = (filter.primaryHue - 180) * 0.15 * colorInfluence;
-                        newHue = hsl.h + hueShift;
-                        while (newHue < 0) newHue += 360;
-                        while (newHue >= 360) newHue -= 360;
-
-                        // Slightly muted
-                        newSaturation = Math.max(0, originalSaturation + filter.saturationBoost * colorInfluence);
-                    }
-                    break;
-
-                case 'crossprocess':
-                    // Warm cross-processed look
-                    if (colorInfluence > 0.1) {
-                        // Shift towards golden/warm
-                        const hueShift = (filter.primaryHue - hsl.h) * 0.25 * colorInfluence;
-                        newHue = hsl.h + hueShift;
-                        while (newHue < 0) newHue += 360;
-                        while (newHue >= 360) newHue -= 360;
-
-                        newSaturation = Math.min(100, originalSaturation + filter.saturationBoost * colorInfluence);
-                    }
-                    break;
-
-                default:
-                    // Standard hue remap for non-effect filters (amethyst, minty, hibiscus)
-                    if (colorInfluence > 0.1) {
-                        // Shift hue towards primary color
-                        let hueDistance = filter.primaryHue - hsl.h;
-                        // Take shortest path around color wheel
-                        if (hueDistance > 180) hueDistance -= 360;
-                        if (hueDistance < -180) hueDistance += 360;
-
-                        newHue = hsl.h + hueDistance * colorInfluence * 0.7;
-                        while (newHue < 0) newHue += 360;
-                        while (newHue >= 360) newHue -= 360;
-
-                        newSaturation = Math.min(100, originalSaturation + filter.saturationBoost * colorInfluence * 0.5);
-                    }
-                    break;
-            }
-
-            // Apply subtle contrast adjustment (without destroying lightness)
-            let finalLightness = originalLightness;
-            if (filter.contrast > 0) {
-                const contrastAmount = filter.contrast / 200; // Very subtle
-                finalLightness = 50 + (originalLightness - 50) * (1 + contrastAmount);
-                finalLightness = Math.max(0, Math.min(100, finalLightness));
-            }
-
-            // Convert back to RGB with PRESERVED (or subtly adjusted) lightness
-            const newRgb = hslToRgb(newHue, newSaturation, finalLightness);
-
-            data[i] = newRgb.r;
-            data[i + 1] = newRgb.g;
-            data[i + 2] = newRgb.b;
-            // Alpha unchanged
-        }
+        processColourPopFilter(imageData, filter);
 
         ctx.putImageData(imageData, 0, 0);
         resolve(canvas.toDataURL('image/png'));
@@ -1,7 +1,7 @@
 // Image Filters Utilities
 // Canva-like filter presets and adjustment processing
 
-import { ImageFilter } from '@/types/canvas';
+import { FilterFamily, ImageFilter } from '@/types/canvas';
 
 /**
  * Filter Preset Definitions
@@ -10,7 +10,7 @@ import { ImageFilter } from '@/types/canvas';
 export interface FilterPreset {
     id: string;
     name: string;
-    category: 'natural' | 'warm' | 'cool' | 'vivid' | 'soft' | 'vintage' | 'mono' | 'colorpop';
+    category: FilterFamily;
     values: Partial<ImageFilter>;
 }
 
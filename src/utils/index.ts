@@ -4,3 +4,4 @@
 export * from './units';
 export * from './colors';
 export * from './serialization';
+export * from './pathData';
@@ -82,6 +82,77 @@ export const MONO_FILTERS: MonoFilter[] = [
     },
 ];
 
+/**
+ * Run the MONO filter over image pixels in place
+ */
+export function processMonoFilter(imageData: ImageData, filter: MonoFilter): void {
+    const { data, width, height } = imageData;
+
+    // Calculate center for vignette
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const maxDistance = Math.sqrt(centerX * centerX + centerY * centerY);
+
+    // Process each pixel
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+
+            const r = data[i];
+            const g = data[i + 1];
+            const b = data[i + 2];
+            const a = data[i + 3];
+
+            // Skip transparent pixels
+            if (a < 10) continue;
+
+            // Luminance-weighted grayscale (matches human perception)
+            // Standard weights: R=0.2126, G=0.7152, B=0.0722
+            let luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+            // Normalize to 0-1 range
+            let gray = luminance / 255;
+
+            // Apply gamma correction
+            gray = Math.pow(gray, filter.gamma);
+
+            // Apply contrast around midpoint
+            gray = 0.5 + (gray - 0.5) * filter.contrast;
+
+            // Apply brightness
+            gray = gray + filter.brightness / 100;
+
+            // Apply black and white point
+            const blackLevel = filter.blackPoint / 100;
+            const whiteLevel = filter.whitePoint / 100;
+            gray = blackLevel + gray * (whiteLevel - blackLevel);
+
+            // Clamp to valid range
+            gray = Math.max(0, Math.min(1, gray));
+
+            // Apply vignette if specified
+            if (filter.vignette && filter.vignette > 0) {
+                const dx = x - centerX;
+                const dy = y - centerY;
+                const distance = Math.sqrt(dx * dx + dy * dy);
+                const normalizedDistance = distance / maxDistance;
+
+                // Smooth vignette falloff
+                const vignetteFactor = 1 - Math.pow(normalizedDistance, 2) * (filter.vignette / 100);
+                gray = gray * Math.max(0.3, vignetteFactor);
+            }
+
+            // Convert back to 0-255 range
+            const grayValue = Math.round(gray * 255);
+
+            data[i] = grayValue;
+            data[i + 1] = grayValue;
+            data[i + 2] = grayValue;
+            // Alpha unchanged
+        }
+    }
+}
+
 /**
  * Apply MONO filter with proper luminance-weighted grayscale
  * Preserves depth, texture, and background visibility
@@ -109,71 +180,7 @@ export async function applyMonoFilter(
         ctx.drawImage(imgElement, 0, 0, width, height);
 
         const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-
-        // Calculate center for vignette
-        const centerX = width / 2;
-        const centerY = height / 2;
-        const maxDistance = Math.sqrt(centerX * centerX + centerY * centerY);
-
-        // Process each pixel
-        for (let y = 0; y < height; y++) {
-            for (let x = 0; x < width; x++) {
-                const i = (y * width + x) * 4;
-
-                const r = data[i];
-                const g = data[i + 1];
-                const b = data[i + 2];
-                const a = data[i + 3];
-
-                // Skip transparent pixels
-                if (a < 10) continue;
-
-                // Luminance-weighted grayscale (matches human perception)
-                // Standard weights: R=0.2126, G=0.7152, B=0.0722
-                let luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
-
-                // Normalize to 0-1 range
-                let gray = luminance / 255;
-
-                // Apply gamma correction
-                gray = Math.pow(gray, filter.gamma);
-
-                // Apply contrast around midpoint
-                gray = 0.5 + (gray - 0.5) * filter.contrast;
-
-                // Apply brightness
-                gray = gray + filter.brightness / 100;
-
-                // Apply black and white point
-                const blackLevel = filter.blackPoint / 100;
-                const whiteLevel = filter.whitePoint / 100;
-                gray = blackLevel + gray * (whiteLevel - blackLevel);
-
-                // Clamp to valid range
-                gray = Math.max(0, Math.min(1, gray));
-
-                // Apply vignette if specified
-                if (filter.vignette && filter.vignette > 0) {
-                    const dx = x - centerX;
-                    const dy = y - centerY;
-                    const distance = Math.sqrt(dx * dx + dy * dy);
-                    const normalizedDistance = distance / maxDistance;
-
-                    // Smooth vignette falloff
-                    const vignetteFactor = 1 - Math.pow(normalizedDistance, 2) * (filter.vignette / 100);
-                    gray = gray * Math.max(0.3, vignetteFactor);
-                }
-
-                // Convert back to 0-255 range
-                const grayValue = Math.round(gray * 255);
-
-                data[i] = grayValue;
-                data[i + 1] = grayValue;
-                data[i + 2] = grayValue;
-                // Alpha unchanged
-            }
-        }
+        processMonoFilter(imageData, filter);
 
         ctx.putImageData(imageData, 0, 0);
         resolve(canvas.toDataURL('image/png'));
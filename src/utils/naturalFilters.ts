@@ -72,6 +72,61 @@ export const NATURAL_FILTERS: NaturalFilter[] = [
     },
 ];
 
+/**
+ * Run the NATURAL filter over image pixels in place
+ */
+export function processNaturalFilter(imageData: ImageData, filter: NaturalFilter): void {
+    const data = imageData.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+        let r = data[i];
+        let g = data[i + 1];
+        let b = data[i + 2];
+        const a = data[i + 3];
+
+        if (a < 10) continue;
+
+        // Brightness
+        const brightFactor = 1 + filter.brightness / 100;
+        r = r * brightFactor;
+        g = g * brightFactor;
+        b = b * brightFactor;
+
+        // Warmth
+        if (filter.warmth !== 0) {
+            const warmFactor = filter.warmth / 100;
+            r = r * (1 + warmFactor * 0.1);
+            b = b * (1 - warmFactor * 0.1);
+        }
+
+        // Contrast
+        const mid = 128;
+        r = mid + (r - mid) * filter.contrast;
+        g = mid + (g - mid) * filter.contrast;
+        b = mid + (b - mid) * filter.contrast;
+
+        // Saturation
+        if (filter.saturation !== 1) {
+            const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+            r = gray + (r - gray) * filter.saturation;
+            g = gray + (g - gray) * filter.saturation;
+            b = gray + (b - gray) * filter.saturation;
+        }
+
+        // Clarity
+        if (filter.clarity > 0) {
+            const clarityFactor = 1 + filter.clarity / 100;
+            r = mid + (r - mid) * clarityFactor;
+            g = mid + (g - mid) * clarityFactor;
+            b = mid + (b - mid) * clarityFactor;
+        }
+
+        data[i] = Math.max(0, Math.min(255, Math.round(r)));
+        data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
+        data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
+    }
+}
+
 /**
  * Apply NATURAL filter
  */
@@ -97,55 +152,7 @@ export async function applyNaturalFilter(
         ctx.drawImage(imgElement, 0, 0, width, height);
 
         const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-
-        for (let i = 0; i < data.length; i += 4) {
-            let r = data[i];
-            let g = data[i + 1];
-            let b = data[i + 2];
-            const a = data[i + 3];
-
-            if (a < 10) continue;
-
-            // Brightness
-            const brightFactor = 1 + filter.brightness / 100;
-            r = r * brightFactor;
-            g = g * brightFactor;
-            b = b * brightFactor;
-
-            // Warmth
-            if (filter.warmth !== 0) {
-                const warmFactor = filter.warmth / 100;
-                r = r * (1 + warmFactor * 0.1);
-                b = b * (1 - warmFactor * 0.1);
-            }
-
-            // Contrast
-            const mid = 128;
-            r = mid + (r - mid) * filter.contrast;
-            g = mid + (g - mid) * filter.contrast;
-            b = mid + (b - mid) * filter.contrast;
-
-            // Saturation
-            if (filter.saturation !== 1) {
-                const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-                r = gray + (r - gray) * filter.saturation;
-                g = gray + (g - gray) * filter.saturation;
-                b = gray + (b - gray) * filter.saturation;
-            }
-
-            // Clarity
-            if (filter.clarity > 0) {
-                const clarityFactor = 1 + filter.clarity / 100;
-                r = mid + (r - mid) * clarityFactor;
-                g = mid + (g - mid) * clarityFactor;
-                b = mid + (b - mid) * clarityFactor;
-            }
-
-            data[i] = Math.max(0, Math.min(255, Math.round(r)));
-            data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
-            data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
-        }
+        processNaturalFilter(imageData, filter);
 
         ctx.putImageData(imageData, 0, 0);
         resolve(canvas.toDataURL('image/png'));
@@ -0,0 +1,228 @@
+// Path Data Utilities
+// Parse, transform and measure SVG path data
+
+export type PathCommandType = 'M' | 'L' | 'C' | 'Q' | 'Z';
+
+// Absolute command; values are x,y pairs (control points first, end point last)
+export interface PathCommand {
+    type: PathCommandType;
+    values: number[];
+}
+
+export interface PathBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const COMMAND_PATTERN = /([MmLlHhVvCcSsQqTtZz])([^MmLlHhVvCcSsQqTtZzAa]*)/g;
+const NUMBER_PATTERN = /-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+
+/**
+ * Parse path data into absolute M/L/C/Q/Z commands.
+ * H/V become lines and S/T become full curves; arcs aren't supported.
+ */
+export const parsePathData = (d: string): PathCommand[] => {
+    const commands: PathCommand[] = [];
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    let lastControl: { x: number; y: number } | null = null;
+    let lastType = '';
+
+    for (const [, letter, args] of Array.from(d.matchAll(COMMAND_PATTERN))) {
+        const values = (args.match(NUMBER_PATTERN) ?? []).map(Number);
+        const type = letter.toUpperCase();
+        const relative = letter !== type;
+        const ox = () => (relative ? x : 0);
+        const oy = () => (relative ? y : 0);
+
+        if (type === 'Z') {
+            commands.push({ type: 'Z', values: [] });
+            x = startX;
+            y = startY;
+            lastControl = null;
+            lastType = 'Z';
+            continue;
+        }
+
+        const arity = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2 }[type] ?? 2;
+        for (let i = 0; i + arity <= values.length; i += arity) {
+            const v = values.slice(i, i + arity);
+            // Extra pairs after a moveto are implicit linetos
+            const current = type === 'M' && i > 0 ? 'L' : type;
+
+            switch (current) {
+                case 'M':
+                    x = v[0] + ox();
+                    y = v[1] + oy();
+                    startX = x;
+                    startY = y;
+                    commands.push({ type: 'M', values: [x, y] });
+                    lastControl = null;
+                    break;
+
+                case 'L':
+                case 'H':
+                case 'V':
+                    if (current === 'H') {
+                        x = v[0] + ox();
+                    } else if (current === 'V') {
+                        y = v[0] + oy();
+                    } else {
+                        x = v[0] + ox();
+                        y = v[1] + oy();
+                    }
+                    commands.push({ type: 'L', values: [x, y] });
+                    lastControl = null;
+                    break;
+
+                case 'C':
+                case 'S': {
+                    // S reflects the previous cubic control point
+                    const c1 = current === 'C'
+                        ? { x: v[0] + ox(), y: v[1] + oy() }
+                        : lastControl && (lastType === 'C' || lastType === 'S')
+                            ? { x: 2 * x - lastControl.x, y: 2 * y - lastControl.y }
+                            : { x, y };
+                    const rest = current === 'C' ? v.slice(2) : v;
+                    const c2 = { x: rest[0] + ox(), y: rest[1] + oy() };
+                    x = rest[2] + ox();
+                    y = rest[3] + oy();
+                    commands.push({ type: 'C', values: [c1.x, c1.y, c2.x, c2.y, x, y] });
+                    lastControl = c2;
+                    break;
+                }
+
+                case 'Q':
+                case 'T': {
+                    // T reflects the previous quadratic control point
+                    const c: { x: number; y: number } = current === 'Q'
+                        ? { x: v[0] + ox(), y: v[1] + oy() }
+                        : lastControl && (lastType === 'Q' || lastType === 'T')
+                            ? { x: 2 * x - lastControl.x, y: 2 * y - lastControl.y }
+                            : { x, y };
+                    const end = current === 'Q' ? v.slice(2) : v;
+                    x = end[0] + ox();
+                    y = end[1] + oy();
+                    commands.push({ type: 'Q', values: [c.x, c.y, x, y] });
+                    lastControl = c;
+                    break;
+                }
+            }
+            lastType = current;
+        }
+    }
+
+    return commands;
+};
+
+const formatNumber = (value: number): string => {
+    return String(Math.round(value * 100) / 100);
+};
+
+/**
+ * Write commands back as compact path data
+ */
+export const serializePathData = (commands: PathCommand[]): string => {
+    return commands
+        .map(command => command.type + command.values.map(formatNumber).join(' '))
+        .join(' ');
+};
+
+/**
+ * Move every point of a path
+ */
+export const translatePathCommands = (commands: PathCommand[], dx: number, dy: number): PathCommand[] => {
+    return commands.map(command => ({
+        type: command.type,
+        values: command.values.map((value, i) => value + (i % 2 === 0 ? dx : dy)),
+    }));
+};
+
+/**
+ * Extremes of a quadratic or cubic Bezier along one axis
+ */
+const getCurveExtremes = (points: number[]): number[] => {
+    const extremes = [points[0], points[points.length - 1]];
+    const solve = (t: number) => {
+        if (t <= 0 || t >= 1) return;
+        const mt = 1 - t;
+        extremes.push(points.length === 3
+            ? mt * mt * points[0] + 2 * mt * t * points[1] + t * t * points[2]
+            : mt * mt * mt * points[0] + 3 * mt * mt * t * points[1] + 3 * mt * t * t * points[2] + t * t * t * points[3]);
+    };
+
+    if (points.length === 3) {
+        const denominator = points[0] - 2 * points[1] + points[2];
+        if (denominator !== 0) solve((points[0] - points[1]) / denominator);
+        return extremes;
+    }
+
+    // Roots of the cubic's derivative: a*t^2 + b*t + c
+    const [p0, p1, p2, p3] = points;
+    const a = -p0 + 3 * p1 - 3 * p2 + p3;
+    const b = 2 * (p0 - 2 * p1 + p2);
+    const c = p1 - p0;
+    if (Math.abs(a) < 1e-12) {
+        if (b !== 0) solve(-c / b);
+        return extremes;
+    }
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant >= 0) {
+        const root = Math.sqrt(discriminant);
+        solve((-b + root) / (2 * a));
+        solve((-b - root) / (2 * a));
+    }
+    return extremes;
+};
+
+/**
+ * Exact bounds of a path, curves included
+ */
+export const getPathBounds = (commands: PathCommand[]): PathBounds => {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+
+    commands.forEach(({ type, values }) => {
+        switch (type) {
+            case 'M':
+            case 'L':
+                if (type === 'M') {
+                    startX = values[0];
+                    startY = values[1];
+                }
+                xs.push(values[0]);
+                ys.push(values[1]);
+                break;
+            case 'C':
+            case 'Q':
+                xs.push(...getCurveExtremes([x, ...values.filter((_, i) => i % 2 === 0)]));
+                ys.push(...getCurveExtremes([y, ...values.filter((_, i) => i % 2 === 1)]));
+                break;
+            case 'Z':
+                x = startX;
+                y = startY;
+                return;
+        }
+        x = values[values.length - 2];
+        y = values[values.length - 1];
+    });
+
+    if (xs.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return {
+        x: minX,
+        y: minY,
+        width: Math.max(...xs) - minX,
+        height: Math.max(...ys) - minY,
+    };
+};
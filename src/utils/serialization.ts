@@ -4,7 +4,6 @@
 import { Project, Page } from '@/types/project';
 import { CanvasElement } from '@/types/canvas';
 
-const STORAGE_PREFIX = 'wildmind_designer_';
 const CURRENT_VERSION = '1.0.0';
 
 export interface SerializedProject {
@@ -14,135 +13,70 @@ export interface SerializedProject {
 }
 
 /**
- * Serialize project to JSON string
+ * Wrap a project with its format version
  */
-export const serializeProject = (project: Project): string => {
-    const serialized: SerializedProject = {
+export const toSerializedProject = (project: Project): SerializedProject => {
+    return {
         version: CURRENT_VERSION,
         project,
         savedAt: Date.now(),
     };
-
-    return JSON.stringify(serialized);
-};
-
-/**
- * Deserialize project from JSON string
- */
-export const deserializeProject = (json: string): Project | null => {
-    try {
-        const parsed: SerializedProject = JSON.parse(json);
-
-        // Version migration could happen here
-        if (parsed.version !== CURRENT_VERSION) {
-            // TODO: Implement version migration
-            console.warn(`Project version ${parsed.version} may need migration`);
-        }
-
-        return parsed.project;
-    } catch (error) {
-        console.error('Failed to deserialize project:', error);
-        return null;
-    }
 };
 
 /**
- * Save project to localStorage
+ * Serialize project to JSON string
  */
-export const saveProjectToStorage = (project: Project): boolean => {
-    try {
-        const key = `${STORAGE_PREFIX}project_${project.id}`;
-        const serialized = serializeProject(project);
-        localStorage.setItem(key, serialized);
-
-        // Update project list
-        updateProjectList(project.id, project.name);
-
-        return true;
-    } catch (error) {
-        console.error('Failed to save project:', error);
-        return false;
-    }
+export const serializeProject = (project: Project): string => {
+    return JSON.stringify(toSerializedProject(project));
 };
 
 /**
- * Load project from localStorage
+ * Unwrap a serialized project, migrating older versions
  */
-export const loadProjectFromStorage = (projectId: string): Project | null => {
-    try {
-        const key = `${STORAGE_PREFIX}project_${projectId}`;
-        const json = localStorage.getItem(key);
-
-        if (!json) return null;
-
-        return deserializeProject(json);
-    } catch (error) {
-        console.error('Failed to load project:', error);
-        return null;
+export const restoreSerializedProject = (serialized: SerializedProject): Project => {
+    // Version migration could happen here
+    if (serialized.version !== CURRENT_VERSION) {
+        // TODO: Implement version migration
+        console.warn(`Project version ${serialized.version} may need migration`);
     }
-};
 
-/**
- * Delete project from localStorage
- */
-export const deleteProjectFromStorage = (projectId: string): boolean => {
-    try {
-        const key = `${STORAGE_PREFIX}project_${projectId}`;
-        localStorage.removeItem(key);
-
-        // Update project list
-        removeFromProjectList(projectId);
-
-        return true;
-    } catch (error) {
-        console.error('Failed to delete project:', error);
-        return false;
-    }
+    return normalizeProject(serialized.project);
 };
 
 /**
- * Get list of saved projects
+ * Deserialize project from JSON string
  */
-export const getProjectList = (): Array<{ id: string; name: string; savedAt: number }> => {
+export const deserializeProject = (json: string): Project | null => {
     try {
-        const listKey = `${STORAGE_PREFIX}project_list`;
-        const json = localStorage.getItem(listKey);
-
-        if (!json) return [];
-
-        return JSON.parse(json);
+        return restoreSerializedProject(JSON.parse(json));
     } catch (error) {
-        console.error('Failed to get project list:', error);
-        return [];
-    }
-};
-
-/**
- * Update project list
- */
-const updateProjectList = (id: string, name: string): void => {
-    const list = getProjectList();
-    const existingIndex = list.findIndex(p => p.id === id);
-
-    const entry = { id, name, savedAt: Date.now() };
-
-    if (existingIndex >= 0) {
-        list[existingIndex] = entry;
-    } else {
-        list.unshift(entry);
+        console.error('Failed to deserialize project:', error);
+        return null;
     }
-
-    const listKey = `${STORAGE_PREFIX}project_list`;
-    localStorage.setItem(listKey, JSON.stringify(list));
 };
 
 /**
- * Remove from project list
+ * Fill in fields missing from projects saved by older versions
  */
-const removeFromProjectList = (id: string): void => {
-    const list = getProjectList().filter(p => p.id !== id);
-    const listKey = `${STORAGE_PREFIX}project_list`;
-    localStorage.setItem(listKey, JSON.stringify(list));
+const normalizeProject = (project: Project): Project => {
+    return {
+        ...project,
+        pages: project.pages.map(page => {
+            const elementIds = new Set(page.elements.map(el => el.id));
+            return {
+                ...page,
+                // Drop animations and tracks whose element no longer exists
+                animations: (page.animations ?? []).filter(a => elementIds.has(a.elementId)),
+                ...(page.timeline && {
+                    timeline: {
+                        ...page.timeline,
+                        pageId: page.id,
+                        tracks: page.timeline.tracks.filter(t => elementIds.has(t.elementId)),
+                    },
+                }),
+            };
+        }),
+    };
 };
 
 /**
@@ -208,10 +142,27 @@ export const clonePage = (page: Page): Page => {
     };
 
     // Update all element IDs
-    cloned.elements = cloned.elements.map(el => ({
-        ...el,
-        id: crypto.randomUUID(),
-    }));
+    const idMap = new Map<string, string>();
+    cloned.elements = cloned.elements.map(el => {
+        const id = crypto.randomUUID();
+        idMap.set(el.id, id);
+        return { ...el, id };
+    });
+
+    // Point animations at the new element IDs
+    cloned.animations = (cloned.animations ?? [])
+        .filter(a => idMap.has(a.elementId))
+        .map(a => ({ ...a, elementId: idMap.get(a.elementId)! }));
+
+    if (cloned.timeline) {
+        cloned.timeline = {
+            ...cloned.timeline,
+            pageId: cloned.id,
+            tracks: cloned.timeline.tracks
+                .filter(t => idMap.has(t.elementId))
+                .map(t => ({ ...t, elementId: idMap.get(t.elementId)! })),
+        };
+    }
 
     return cloned;
 };
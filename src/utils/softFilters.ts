@@ -95,6 +95,86 @@ export const SOFT_FILTERS: SoftFilter[] = [
     },
 ];
 
+/**
+ * Run the SOFT filter over image pixels in place
+ */
+export function processSoftFilter(imageData: ImageData, filter: SoftFilter): void {
+    const data = imageData.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+        let r = data[i];
+        let g = data[i + 1];
+        let b = data[i + 2];
+        const a = data[i + 3];
+
+        if (a < 10) continue;
+
+        // Brightness
+        if (filter.brightness !== 0) {
+            const brightnessFactor = filter.brightness / 100;
+            r = Math.min(255, r + r * brightnessFactor);
+            g = Math.min(255, g + g * brightnessFactor);
+            b = Math.min(255, b + b * brightnessFactor);
+        }
+
+        // Warmth
+        if (filter.warmth !== 0) {
+            const warmFactor = filter.warmth / 100;
+            r = Math.min(255, r * (1 + warmFactor * 0.12));
+            b = Math.max(0, b * (1 - warmFactor * 0.12));
+        }
+
+        // Highlight roll-off
+        if (filter.highlightSoftness > 0) {
+            const threshold = 200;
+            const softness = filter.highlightSoftness / 100;
+            if (r > threshold) r = threshold + (r - threshold) * (1 - softness);
+            if (g > threshold) g = threshold + (g - threshold) * (1 - softness);
+            if (b > threshold) b = threshold + (b - threshold) * (1 - softness);
+        }
+
+        // Shadow lift
+        if (filter.shadowLift > 0) {
+            const lift = filter.shadowLift / 100;
+            const liftAmount = lift * 30;
+            r = Math.min(255, r + liftAmount * (1 - r / 255));
+            g = Math.min(255, g + liftAmount * (1 - g / 255));
+            b = Math.min(255, b + liftAmount * (1 - b / 255));
+        }
+
+        // Contrast
+        if (filter.contrast !== 1) {
+            const mid = 128;
+            r = mid + (r - mid) * filter.contrast;
+            g = mid + (g - mid) * filter.contrast;
+            b = mid + (b - mid) * filter.contrast;
+        }
+
+        // Saturation
+        if (filter.saturation !== 1) {
+            const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+            r = gray + (r - gray) * filter.saturation;
+            g = gray + (g - gray) * filter.saturation;
+            b = gray + (b - gray) * filter.saturation;
+        }
+
+        // Color tint
+        if (filter.tintStrength > 0) {
+            const lum = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+            const midtoneFactor = 1 - Math.abs(lum - 0.5) * 2;
+            const tintAmount = filter.tintStrength * midtoneFactor;
+
+            r = r + (filter.colorTint.r - r) * tintAmount;
+            g = g + (filter.colorTint.g - g) * tintAmount;
+            b = b + (filter.colorTint.b - b) * tintAmount;
+        }
+
+        data[i] = Math.max(0, Math.min(255, Math.round(r)));
+        data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
+        data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
+    }
+}
+
 /**
  * Apply SOFT filter with gentle contrast reduction and color tinting
  */
@@ -120,80 +200,7 @@ export async function applySoftFilter(
         ctx.drawImage(imgElement, 0, 0, width, height);
 
         const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-
-        for (let i = 0; i < data.length; i += 4) {
-            let r = data[i];
-            let g = data[i + 1];
-            let b = data[i + 2];
-            const a = data[i + 3];
-
-            if (a < 10) continue;
-
-            // Brightness
-            if (filter.brightness !== 0) {
-                const brightnessFactor = filter.brightness / 100;
-                r = Math.min(255, r + r * brightnessFactor);
-                g = Math.min(255, g + g * brightnessFactor);
-                b = Math.min(255, b + b * brightnessFactor);
-            }
-
-            // Warmth
-            if (filter.warmth !== 0) {
-                const warmFactor = filter.warmth / 100;
-                r = Math.min(255, r * (1 + warmFactor * 0.12));
-                b = Math.max(0, b * (1 - warmFactor * 0.12));
-            }
-
-            // Highlight roll-off
-            if (filter.highlightSoftness > 0) {
-                const threshold = 200;
-                const softness = filter.highlightSoftness / 100;
-                if (r > threshold) r = threshold + (r - threshold) * (1 - softness);
-                if (g > threshold) g = threshold + (g - threshold) * (1 - softness);
-                if (b > threshold) b = threshold + (b - threshold) * (1 - softness);
-            }
-
-            // Shadow lift
-            if (filter.shadowLift > 0) {
-                const lift = filter.shadowLift / 100;
-                const liftAmount = lift * 30;
-                r = Math.min(255, r + liftAmount * (1 - r / 255));
-                g = Math.min(255, g + liftAmount * (1 - g / 255));
-                b = Math.min(255, b + liftAmount * (1 - b / 255));
-            }
-
-            // Contrast
-            if (filter.contrast !== 1) {
-                const mid = 128;
-                r = mid + (r - mid) * filter.contrast;
-                g = mid + (g - mid) * filter.contrast;
-                b = mid + (b - mid) * filter.contrast;
-            }
-
-            // Saturation
-            if (filter.saturation !== 1) {
-                const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-                r = gray + (r - gray) * filter.saturation;
-                g = gray + (g - gray) * filter.saturation;
-                b = gray + (b - gray) * filter.saturation;
-            }
-
-            // Color tint
-            if (filter.tintStrength > 0) {
-                const lum = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-                const midtoneFactor = 1 - Math.abs(lum - 0.5) * 2;
-                const tintAmount = filter.tintStrength * midtoneFactor;
-
-                r = r + (filter.colorTint.r - r) * tintAmount;
-                g = g + (filter.colorTint.g - g) * tintAmount;
-                b = b + (filter.colorTint.b - b) * tintAmount;
-            }
-
-            data[i] = Math.max(0, Math.min(255, Math.round(r)));
-            data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
-            data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
-        }
+        processSoftFilter(imageData, filter);
 
         ctx.putImageData(imageData, 0, 0);
         resolve(canvas.toDataURL('image/png'));
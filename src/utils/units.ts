@@ -1,6 +1,8 @@
 // Unit Conversion Utilities
 // DPI, pixels, inches, centimeters, points
 
+import { Page } from '@/types/project';
+
 export const DPI_SCREEN = 72;
 export const DPI_PRINT = 300;
 export const CM_PER_INCH = 2.54;
@@ -63,6 +65,35 @@ export const pointsToPixels = (points: number, dpi: number = DPI_SCREEN): number
     return (points / POINTS_PER_INCH) * dpi;
 };
 
+export type MeasurementUnit = 'px' | 'mm' | 'cm' | 'in' | 'pt';
+
+export const MEASUREMENT_UNITS: MeasurementUnit[] = ['px', 'mm', 'cm', 'in', 'pt'];
+
+/**
+ * Convert a length in any unit to pixels
+ */
+export const unitToPixels = (value: number, unit: MeasurementUnit, dpi: number = DPI_SCREEN): number => {
+    switch (unit) {
+        case 'mm':
+            return mmToPixels(value, dpi);
+        case 'cm':
+            return cmToPixels(value, dpi);
+        case 'in':
+            return inchesToPixels(value, dpi);
+        case 'pt':
+            return pointsToPixels(value, dpi);
+        default:
+            return value;
+    }
+};
+
+/**
+ * Convert pixels to a length in any unit
+ */
+export const pixelsToUnit = (pixels: number, unit: MeasurementUnit, dpi: number = DPI_SCREEN): number => {
+    return pixels / unitToPixels(1, unit, dpi);
+};
+
 /**
  * Convert between DPIs
  */
@@ -111,6 +142,17 @@ export const calculateBleedPixels = (bleedMm: number, dpi: number = DPI_PRINT):
     return Math.round(mmToPixels(bleedMm, dpi));
 };
 
+/**
+ * Bleed and safe margin of a page in pixels (zero when the page has no print settings)
+ */
+export const getPagePrintMargins = (page: Page): { bleed: number; safeMargin: number } => {
+    if (!page.print) return { bleed: 0, safeMargin: 0 };
+    return {
+        bleed: calculateBleedPixels(page.print.bleed, page.dpi),
+        safeMargin: calculateBleedPixels(page.print.safeMargin, page.dpi),
+    };
+};
+
 /**
  * Format dimensions for display
  */
@@ -160,6 +160,75 @@ function applySplitToning(
     };
 }
 
+/**
+ * Run the VINTAGE filter over image pixels in place
+ */
+export function processVintageFilter(imageData: ImageData, filter: VintageFilter): void {
+    const data = imageData.data;
+
+    // Process each pixel
+    for (let i = 0; i < data.length; i += 4) {
+        let r = data[i];
+        let g = data[i + 1];
+        let b = data[i + 2];
+        const a = data[i + 3];
+
+        // Skip transparent pixels
+        if (a < 10) continue;
+
+        // Step 1: Apply tone curve (lifts blacks, compresses highlights)
+        r = applyToneCurve(r, filter.shadowLift, filter.highlightCompress);
+        g = applyToneCurve(g, filter.shadowLift, filter.highlightCompress);
+        b = applyToneCurve(b, filter.shadowLift, filter.highlightCompress);
+
+        // Step 2: Apply warmth (temperature shift)
+        if (filter.warmth !== 0) {
+            const warmFactor = filter.warmth / 100;
+            r = Math.min(255, r * (1 + warmFactor * 0.15));
+            b = Math.max(0, b * (1 - warmFactor * 0.15));
+        }
+
+        // Step 3: Apply split toning
+        const toned = applySplitToning(r, g, b, filter.shadowTint, filter.highlightTint);
+        r = toned.r;
+        g = toned.g;
+        b = toned.b;
+
+        // Step 4: Apply saturation adjustment
+        if (filter.saturation !== 1) {
+            const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+            r = gray + (r - gray) * filter.saturation;
+            g = gray + (g - gray) * filter.saturation;
+            b = gray + (b - gray) * filter.saturation;
+        }
+
+        // Step 5: Apply contrast
+        if (filter.contrast !== 1) {
+            const mid = 128;
+            r = mid + (r - mid) * filter.contrast;
+            g = mid + (g - mid) * filter.contrast;
+            b = mid + (b - mid) * filter.contrast;
+        }
+
+        // Step 6: Apply fade overlay (soft cream haze)
+        if (filter.fadeStrength > 0) {
+            const fadeAmount = filter.fadeStrength / 100;
+            // Cream/ivory fade color
+            const fadeR = 250;
+            const fadeG = 245;
+            const fadeB = 235;
+            r = r + (fadeR - r) * fadeAmount * 0.4;
+            g = g + (fadeG - g) * fadeAmount * 0.4;
+            b = b + (fadeB - b) * fadeAmount * 0.4;
+        }
+
+        // Clamp and store
+        data[i] = Math.max(0, Math.min(255, Math.round(r)));
+        data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
+        data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
+    }
+}
+
 /**
  * Apply VINTAGE filter with tone curves and split toning
  */
@@ -186,69 +255,7 @@ export async function applyVintageFilter(
         ctx.drawImage(imgElement, 0, 0, width, height);
 
         const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-
-        // Process each pixel
-        for (let i = 0; i < data.length; i += 4) {
-            let r = data[i];
-            let g = data[i + 1];
-            let b = data[i + 2];
-            const a = data[i + 3];
-
-            // Skip transparent pixels
-            if (a < 10) continue;
-
-            // Step 1: Apply tone curve (lifts blacks, compresses highlights)
-            r = applyToneCurve(r, filter.shadowLift, filter.highlightCompress);
-            g = applyToneCurve(g, filter.shadowLift, filter.highlightCompress);
-            b = applyToneCurve(b, filter.shadowLift, filter.highlightCompress);
-
-            // Step 2: Apply warmth (temperature shift)
-            if (filter.warmth !== 0) {
-                const warmFactor = filter.warmth / 100;
-                r = Math.min(255, r * (1 + warmFactor * 0.15));
-                b = Math.max(0, b * (1 - warmFactor * 0.15));
-            }
-
-            // Step 3: Apply split toning
-            const toned = applySplitToning(r, g, b, filter.shadowTint, filter.highlightTint);
-            r = toned.r;
-            g = toned.g;
-            b = toned.b;
-
-            // Step 4: Apply saturation adjustment
-            if (filter.saturation !== 1) {
-                const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-                r = gray + (r - gray) * filter.saturation;
-                g = gray + (g - gray) * filter.saturation;
-                b = gray + (b - gray) * filter.saturation;
-            }
-
-            // Step 5: Apply contrast
-            if (filter.contrast !== 1) {
-                const mid = 128;
-                r = mid + (r - mid) * filter.contrast;
-                g = mid + (g - mid) * filter.contrast;
-                b = mid + (b - mid) * filter.contrast;
-            }
-
-            // Step 6: Apply fade overlay (soft cream haze)
-            if (filter.fadeStrength > 0) {
-                const fadeAmount = filter.fadeStrength / 100;
-                // Cream/ivory fade color
-                const fadeR = 250;
-                const fadeG = 245;
-                const fadeB = 235;
-                r = r + (fadeR - r) * fadeAmount * 0.4;
-                g = g + (fadeG - g) * fadeAmount * 0.4;
-                b = b + (fadeB - b) * fadeAmount * 0.4;
-            }
-
-            // Clamp and store
-            data[i] = Math.max(0, Math.min(255, Math.round(r)));
-            data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
-            data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
-        }
+        processVintageFilter(imageData, filter);
 
         ctx.putImageData(imageData, 0, 0);
         resolve(canvas.toDataURL('image/png'));
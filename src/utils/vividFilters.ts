@@ -72,6 +72,67 @@ export const VIVID_FILTERS: VividFilter[] = [
     },
 ];
 
+/**
+ * Run the VIVID filter over image pixels in place
+ */
+export function processVividFilter(imageData: ImageData, filter: VividFilter): void {
+    const data = imageData.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+        let r = data[i];
+        let g = data[i + 1];
+        let b = data[i + 2];
+        const a = data[i + 3];
+
+        if (a < 10) continue;
+
+        // Brightness
+        const brightFactor = 1 + filter.brightness / 100;
+        r = r * brightFactor;
+        g = g * brightFactor;
+        b = b * brightFactor;
+
+        // Contrast
+        const mid = 128;
+        r = mid + (r - mid) * filter.contrast;
+        g = mid + (g - mid) * filter.contrast;
+        b = mid + (b - mid) * filter.contrast;
+
+        // Vibrance (selective saturation - boosts less saturated colors more)
+        const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+        const maxChannel = Math.max(r, g, b);
+        const minChannel = Math.min(r, g, b);
+        const currentSat = maxChannel > 0 ? (maxChannel - minChannel) / maxChannel : 0;
+
+        const vibranceFactor = filter.vibrance / 100;
+        const vibranceBoost = 1 + vibranceFactor * (1 - currentSat);
+
+        r = gray + (r - gray) * vibranceBoost;
+        g = gray + (g - gray) * vibranceBoost;
+        b = gray + (b - gray) * vibranceBoost;
+
+        // Saturation
+        if (filter.saturation !== 1) {
+            const gray2 = 0.299 * r + 0.587 * g + 0.114 * b;
+            r = gray2 + (r - gray2) * filter.saturation;
+            g = gray2 + (g - gray2) * filter.saturation;
+            b = gray2 + (b - gray2) * filter.saturation;
+        }
+
+        // Clarity
+        if (filter.clarity > 0) {
+            const clarityFactor = 1 + filter.clarity / 100;
+            r = mid + (r - mid) * clarityFactor;
+            g = mid + (g - mid) * clarityFactor;
+            b = mid + (b - mid) * clarityFactor;
+        }
+
+        data[i] = Math.max(0, Math.min(255, Math.round(r)));
+        data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
+        data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
+    }
+}
+
 /**
  * Apply VIVID filter with vibrance (selective saturation)
  */
@@ -97,61 +158,7 @@ export async function applyVividFilter(
         ctx.drawImage(imgElement, 0, 0, width, height);
 
         const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-
-        for (let i = 0; i < data.length; i += 4) {
-            let r = data[i];
-            let g = data[i + 1];
-            let b = data[i + 2];
-            const a = data[i + 3];
-
-            if (a < 10) continue;
-
-            // Brightness
-            const brightFactor = 1 + filter.brightness / 100;
-            r = r * brightFactor;
-            g = g * brightFactor;
-            b = b * brightFactor;
-
-            // Contrast
-            const mid = 128;
-            r = mid + (r - mid) * filter.contrast;
-            g = mid + (g - mid) * filter.contrast;
-            b = mid + (b - mid) * filter.contrast;
-
-            // Vibrance (selective saturation - boosts less saturated colors more)
-            const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-            const maxChannel = Math.max(r, g, b);
-            const minChannel = Math.min(r, g, b);
-            const currentSat = maxChannel > 0 ? (maxChannel - minChannel) / maxChannel : 0;
-
-            const vibranceFactor = filter.vibrance / 100;
-            const vibranceBoost = 1 + vibranceFactor * (1 - currentSat);
-
-            r = gray + (r - gray) * vibranceBoost;
-            g = gray + (g - gray) * vibranceBoost;
-            b = gray + (b - gray) * vibranceBoost;
-
-            // Saturation
-            if (filter.saturation !== 1) {
-                const gray2 = 0.299 * r + 0.587 * g + 0.114 * b;
-                r = gray2 + (r - gray2) * filter.saturation;
-                g = gray2 + (g - gray2) * filter.saturation;
-                b = gray2 + (b - gray2) * filter.saturation;
-            }
-
-            // Clarity
-            if (filter.clarity > 0) {
-                const clarityFactor = 1 + filter.clarity / 100;
-                r = mid + (r - mid) * clarityFactor;
-                g = mid + (g - mid) * clarityFactor;
-                b = mid + (b - mid) * clarityFactor;
-            }
-
-            data[i] = Math.max(0, Math.min(255, Math.round(r)));
-            data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
-            data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
-        }
+        processVividFilter(imageData, filter);
 
         ctx.putImageData(imageData, 0, 0);
         resolve(canvas.toDataURL('image/png'));
@@ -72,6 +72,58 @@ export const WARM_FILTERS: WarmFilter[] = [
     },
 ];
 
+/**
+ * Run the WARM filter over image pixels in place
+ */
+export function processWarmFilter(imageData: ImageData, filter: WarmFilter): void {
+    const data = imageData.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+        let r = data[i];
+        let g = data[i + 1];
+        let b = data[i + 2];
+        const a = data[i + 3];
+
+        if (a < 10) continue;
+
+        // Temperature (warm shift)
+        const tempFactor = filter.temperature / 100;
+        r = Math.min(255, r * (1 + tempFactor * 0.2));
+        b = Math.max(0, b * (1 - tempFactor * 0.15));
+
+        // Tint (magenta shift)
+        if (filter.tint !== 0) {
+            const tintFactor = filter.tint / 100;
+            r = Math.min(255, r * (1 + tintFactor * 0.08));
+            g = Math.max(0, g * (1 - tintFactor * 0.05));
+        }
+
+        // Brightness
+        const brightFactor = 1 + filter.brightness / 100;
+        r = r * brightFactor;
+        g = g * brightFactor;
+        b = b * brightFactor;
+
+        // Contrast
+        const mid = 128;
+        r = mid + (r - mid) * filter.contrast;
+        g = mid + (g - mid) * filter.contrast;
+        b = mid + (b - mid) * filter.contrast;
+
+        // Saturation
+        if (filter.saturation !== 1) {
+            const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+            r = gray + (r - gray) * filter.saturation;
+            g = gray + (g - gray) * filter.saturation;
+            b = gray + (b - gray) * filter.saturation;
+        }
+
+        data[i] = Math.max(0, Math.min(255, Math.round(r)));
+        data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
+        data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
+    }
+}
+
 /**
  * Apply WARM filter
  */
@@ -97,52 +149,7 @@ export async function applyWarmFilter(
         ctx.drawImage(imgElement, 0, 0, width, height);
 
         const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-
-        for (let i = 0; i < data.length; i += 4) {
-            let r = data[i];
-            let g = data[i + 1];
-            let b = data[i + 2];
-            const a = data[i + 3];
-
-            if (a < 10) continue;
-
-            // Temperature (warm shift)
-            const tempFactor = filter.temperature / 100;
-            r = Math.min(255, r * (1 + tempFactor * 0.2));
-            b = Math.max(0, b * (1 - tempFactor * 0.15));
-
-            // Tint (magenta shift)
-            if (filter.tint !== 0) {
-                const tintFactor = filter.tint / 100;
-                r = Math.min(255, r * (1 + tintFactor * 0.08));
-                g = Math.max(0, g * (1 - tintFactor * 0.05));
-            }
-
-            // Brightness
-            const brightFactor = 1 + filter.brightness / 100;
-            r = r * brightFactor;
-            g = g * brightFactor;
-            b = b * brightFactor;
-
-            // Contrast
-            const mid = 128;
-            r = mid + (r - mid) * filter.contrast;
-            g = mid + (g - mid) * filter.contrast;
-            b = mid + (b - mid) * filter.contrast;
-
-            // Saturation
-            if (filter.saturation !== 1) {
-                const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-                r = gray + (r - gray) * filter.saturation;
-                g = gray + (g - gray) * filter.saturation;
-                b = gray + (b - gray) * filter.saturation;
-            }
-
-            data[i] = Math.max(0, Math.min(255, Math.round(r)));
-            data[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
-            data[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
-        }
+        processWarmFilter(imageData, filter);
 
         ctx.putImageData(imageData, 0, 0);
         resolve(canvas.toDataURL('image/png'));